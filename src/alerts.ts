@@ -0,0 +1,418 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'node:crypto';
+import axios from 'axios';
+import { JsonFileWriter, readJsonFile } from './json-file.js';
+import { withRetry } from './retry.js';
+import { diffProductStates, snapshotItemState } from './product-diff.js';
+import { DOMAIN_CURRENCIES, formatMoney } from './fx.js';
+import {
+  AlertCondition,
+  AlertDeadLetter,
+  AlertEvent,
+  AlertRule,
+  AlertStore,
+  InvalidParameterError,
+  KeepaDomain,
+  NetworkError,
+  RetryPolicy,
+  Watchlist,
+  WatchlistSnapshot,
+  WatchlistSnapshotItem,
+  WebhookDeliveryResult,
+} from './types.js';
+
+// ─── Alerts ─────────────────────────────────────────────────────────────
+// Rules are checked against every new watchlist snapshot (manual or
+// scheduled) and each match is POSTed as JSON to the rule's webhook, signed
+// with KEEPA_WEBHOOK_SECRET. Conditions fire when they become true, not on
+// every snapshot while they stay true. Deliveries that still fail after the
+// retries end up in the dead-letter log.
+
+export const DEFAULT_ALERTS_FILE = 'keepa-alerts.json';
+export const DEFAULT_MAX_DEAD_LETTERS = 500;
+
+export const DEFAULT_WEBHOOK_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 2000,
+  maxDelayMs: 60000,
+  jitter: 0.5,
+};
+
+// ─── Stores ─────────────────────────────────────────────────────────────
+
+export class MemoryAlertStore implements AlertStore {
+  readonly name: string = 'memory';
+  protected rules = new Map<string, AlertRule>();
+  /** Newest first */
+  protected deadLetters: AlertDeadLetter[] = [];
+
+  constructor(protected maxDeadLetters: number = DEFAULT_MAX_DEAD_LETTERS) {}
+
+  async listRules(): Promise<AlertRule[]> {
+    return Array.from(this.rules.values()).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async getRule(id: string): Promise<AlertRule | undefined> {
+    return this.rules.get(id);
+  }
+
+  async saveRule(rule: AlertRule): Promise<void> {
+    this.rules.set(rule.id, rule);
+  }
+
+  async deleteRule(id: string): Promise<void> {
+    this.rules.delete(id);
+  }
+
+  async addDeadLetter(deadLetter: AlertDeadLetter): Promise<void> {
+    this.deadLetters = [deadLetter, ...this.deadLetters].slice(0, this.maxDeadLetters);
+  }
+
+  async getDeadLetters(limit?: number): Promise<AlertDeadLetter[]> {
+    return limit !== undefined ? this.deadLetters.slice(0, limit) : [...this.deadLetters];
+  }
+}
+
+interface AlertFile {
+  rules: AlertRule[];
+  deadLetters: AlertDeadLetter[];
+}
+
+export class JsonAlertStore extends MemoryAlertStore {
+  readonly name = 'json';
+  private loaded?: Promise<void>;
+  private writer: JsonFileWriter;
+
+  constructor(private file: string, maxDeadLetters?: number) {
+    super(maxDeadLetters);
+    this.writer = new JsonFileWriter(file);
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = readJsonFile<AlertFile>(this.file).then(data => {
+        data?.rules.forEach(rule => this.rules.set(rule.id, rule));
+        this.deadLetters = data?.deadLetters ?? [];
+      });
+    }
+    return this.loaded;
+  }
+
+  private persist(): Promise<void> {
+    return this.writer.write({ rules: Array.from(this.rules.values()), deadLetters: this.deadLetters });
+  }
+
+  async listRules(): Promise<AlertRule[]> {
+    await this.load();
+    return super.listRules();
+  }
+
+  async getRule(id: string): Promise<AlertRule | undefined> {
+    await this.load();
+    return super.getRule(id);
+  }
+
+  async saveRule(rule: AlertRule): Promise<void> {
+    await this.load();
+    await super.saveRule(rule);
+    await this.persist();
+  }
+
+  async deleteRule(id: string): Promise<void> {
+    await this.load();
+    await super.deleteRule(id);
+    await this.persist();
+  }
+
+  async addDeadLetter(deadLetter: AlertDeadLetter): Promise<void> {
+    await this.load();
+    await super.addDeadLetter(deadLetter);
+    await this.persist();
+  }
+
+  async getDeadLetters(limit?: number): Promise<AlertDeadLetter[]> {
+    await this.load();
+    return super.getDeadLetters(limit);
+  }
+}
+
+// ─── Conditions ─────────────────────────────────────────────────────────
+
+const VALUE_CONDITIONS: AlertCondition['type'][] = ['buybox_below', 'stock_below', 'rank_below'];
+
+/**
+ * Message when the condition became true between the two snapshot rows, else null.
+ * Without a previous row, thresholds fire if already crossed, but nothing "appears".
+ */
+export function evaluateAlertCondition(
+  condition: AlertCondition,
+  item: WatchlistSnapshotItem,
+  previous: WatchlistSnapshotItem | null,
+  domain: number,
+): string | null {
+  const money = (cents: number) => formatMoney(cents, DOMAIN_CURRENCIES[domain as KeepaDomain] ?? 'USD');
+  const below = (value: number | null | undefined) => value !== null && value !== undefined && value < condition.value!;
+
+  switch (condition.type) {
+    case 'buybox_below':
+      return below(item.buyBox) && !below(previous?.buyBox)
+        ? `Buy Box at ${money(item.buyBox!)}, below ${money(condition.value!)}`
+        : null;
+    case 'stock_below':
+      return below(item.stock) && !below(previous?.stock)
+        ? `Buy Box stock at ${item.stock} units, below ${condition.value}`
+        : null;
+    case 'rank_below':
+      return below(item.salesRank) && !below(previous?.salesRank)
+        ? `Sales rank #${item.salesRank!.toLocaleString()}, better than #${condition.value!.toLocaleString()}`
+        : null;
+    case 'amazon_offer':
+    case 'new_seller': {
+      if (!previous) return null;
+      const changes = diffProductStates(snapshotItemState(previous, ''), snapshotItemState(item, ''));
+      if (condition.type === 'amazon_offer') {
+        return changes.some(change => change.type === 'amazon_entered') ? `Amazon offer appeared at ${money(item.amazon!)}` : null;
+      }
+      // By seller ID, so one seller leaving as another joins still counts; by offer count for older snapshots
+      const joined = changes.filter(change => change.type === 'new_seller').map(change => change.after);
+      if (joined.length > 0) {
+        return `New seller${joined.length > 1 ? 's' : ''} on the listing: ${joined.join(', ')}`;
+      }
+      const more = changes.find(change => change.type === 'offer_count' && Number(change.after) > Number(change.before));
+      return more ? `New seller on the listing: ${more.before} → ${more.after} offers` : null;
+    }
+  }
+}
+
+// ─── Webhooks ───────────────────────────────────────────────────────────
+
+export const SIGNATURE_HEADER = 'X-Keepa-Signature';
+
+/** "t=<unix seconds>,v1=<hex HMAC-SHA256 of `${t}.${body}`>", the scheme Stripe uses */
+export function signWebhookPayload(secret: string, body: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/** For receivers: checks the signature and that it is at most `toleranceSec` old. */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  toleranceSec = 300,
+  now: number = Math.floor(Date.now() / 1000),
+): boolean {
+  const parts = Object.fromEntries(header.split(',').map(part => part.split('=', 2) as [string, string]));
+  const timestamp = Number(parts.t);
+  if (!Number.isFinite(timestamp) || !parts.v1 || Math.abs(now - timestamp) > toleranceSec) return false;
+  const expected = Buffer.from(signWebhookPayload(secret, body, timestamp).split('v1=')[1], 'hex');
+  const received = Buffer.from(parts.v1, 'hex');
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/** Sends one POST and returns the HTTP status; network failures throw */
+export type WebhookSender = (url: string, body: string, headers: Record<string, string>) => Promise<number>;
+
+const axiosSender: WebhookSender = async (url, body, headers) => {
+  const response = await axios.post(url, body, { headers, timeout: 10000, validateStatus: () => true });
+  return response.status;
+};
+
+export interface AlertServiceOptions {
+  /** HMAC secret; rules cannot be created without one */
+  secret?: string;
+  retry?: Partial<RetryPolicy>;
+  send?: WebhookSender;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface AlertRuleInput {
+  name: string;
+  watchlistId: string;
+  asins?: string[];
+  condition: AlertCondition;
+  webhookUrl: string;
+}
+
+export class AlertService {
+  private pending = new Set<Promise<unknown>>();
+  private retry: RetryPolicy;
+
+  constructor(readonly store: AlertStore, private options: AlertServiceOptions = {}) {
+    this.retry = { ...DEFAULT_WEBHOOK_RETRY_POLICY, ...options.retry };
+  }
+
+  async createRule(input: AlertRuleInput): Promise<AlertRule> {
+    if (!this.options.secret) {
+      throw new InvalidParameterError('Alert webhooks are signed: set KEEPA_WEBHOOK_SECRET before creating rules');
+    }
+    if (!/^https?:\/\//i.test(input.webhookUrl)) {
+      throw new InvalidParameterError(`Webhook URL must be http(s): ${input.webhookUrl}`);
+    }
+    if (VALUE_CONDITIONS.includes(input.condition.type) && (input.condition.value === null || input.condition.value === undefined)) {
+      throw new InvalidParameterError(`Condition ${input.condition.type} needs a value`);
+    }
+
+    const rule: AlertRule = {
+      id: randomUUID(),
+      name: input.name.trim(),
+      watchlistId: input.watchlistId,
+      asins: Array.from(new Set((input.asins ?? []).map(asin => asin.trim().toUpperCase()))),
+      condition: {
+        type: input.condition.type,
+        value: VALUE_CONDITIONS.includes(input.condition.type) ? input.condition.value : null,
+      },
+      webhookUrl: input.webhookUrl,
+      enabled: true,
+      createdAt: new Date().toISOString(),
+      lastTriggeredAt: null,
+    };
+    await this.store.saveRule(rule);
+    return rule;
+  }
+
+  async listRules(watchlistId?: string): Promise<AlertRule[]> {
+    const rules = await this.store.listRules();
+    return watchlistId ? rules.filter(rule => rule.watchlistId === watchlistId) : rules;
+  }
+
+  async getRule(id: string): Promise<AlertRule> {
+    const rule = await this.store.getRule(id);
+    if (!rule) {
+      throw new InvalidParameterError(`Unknown alert rule: ${id}`);
+    }
+    return rule;
+  }
+
+  async deleteRule(id: string): Promise<AlertRule> {
+    const rule = await this.getRule(id);
+    await this.store.deleteRule(id);
+    return rule;
+  }
+
+  async setEnabled(id: string, enabled: boolean): Promise<AlertRule> {
+    const rule = { ...(await this.getRule(id)), enabled };
+    await this.store.saveRule(rule);
+    return rule;
+  }
+
+  deadLetters(limit?: number): Promise<AlertDeadLetter[]> {
+    return this.store.getDeadLetters(limit);
+  }
+
+  /**
+   * Checks the watchlist's rules against a new snapshot. Webhooks go out in
+   * the background so a slow receiver never holds up the snapshot; flush()
+   * waits for them.
+   */
+  async evaluate(watchlist: Watchlist, snapshot: WatchlistSnapshot, previous?: WatchlistSnapshot): Promise<AlertEvent[]> {
+    const rules = (await this.listRules(watchlist.id)).filter(rule => rule.enabled);
+    if (rules.length === 0) return [];
+
+    const before = new Map((previous?.items ?? []).map(item => [item.asin, item]));
+    const events: AlertEvent[] = [];
+    for (const rule of rules) {
+      const matches = snapshot.items
+        .filter(item => rule.asins.length === 0 || rule.asins.includes(item.asin))
+        .map(item => ({ item, previous: before.get(item.asin) ?? null }))
+        .map(row => ({ ...row, message: evaluateAlertCondition(rule.condition, row.item, row.previous, watchlist.domain) }))
+        .filter((row): row is typeof row & { message: string } => row.message !== null);
+      if (matches.length === 0) continue;
+
+      for (const match of matches) {
+        const event = this.buildEvent('alert.triggered', rule, watchlist.domain, match.item.asin, match.message, match.item, match.previous);
+        events.push(event);
+        this.track(this.deliver(rule.webhookUrl, event));
+      }
+      await this.store.saveRule({ ...rule, lastTriggeredAt: snapshot.takenAt });
+    }
+    return events;
+  }
+
+  /** Sends a sample event to the rule's webhook right away, with the usual retries */
+  async test(id: string, domain: number): Promise<WebhookDeliveryResult> {
+    const rule = await this.getRule(id);
+    const asin = rule.asins[0] ?? 'B000000000';
+    return this.deliver(rule.webhookUrl, this.buildEvent('alert.test', rule, domain, asin, `Test delivery for rule ${rule.name}`, null, null));
+  }
+
+  /** Signs and POSTs the event, retrying timeouts, 408, 429 and 5xx; gives up into the dead-letter log. */
+  async deliver(url: string, event: AlertEvent): Promise<WebhookDeliveryResult> {
+    const body = JSON.stringify(event);
+    const send = this.options.send ?? axiosSender;
+    let attempts = 0;
+    let status: number | null = null;
+
+    try {
+      await withRetry(async () => {
+        attempts++;
+        try {
+          status = await send(url, body, {
+            'Content-Type': 'application/json',
+            'User-Agent': 'keepa-mcp-alerts',
+            'X-Keepa-Delivery': event.id,
+            'X-Keepa-Event': event.type,
+            // Signed per attempt so retries stay within the receiver's tolerance
+            [SIGNATURE_HEADER]: signWebhookPayload(this.options.secret ?? '', body),
+          });
+        } catch (error) {
+          status = null;
+          throw new NetworkError(`Webhook request failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        if (status === 408 || status === 429 || status >= 500) {
+          throw new NetworkError(`Webhook answered HTTP ${status}`, status);
+        }
+        if (status < 200 || status >= 300) {
+          throw new Error(`Webhook answered HTTP ${status}`);
+        }
+      }, this.retry, this.options.sleep);
+      return { eventId: event.id, url, delivered: true, attempts, status, error: null };
+    } catch (error) {
+      const delivery: WebhookDeliveryResult = {
+        eventId: event.id,
+        url,
+        delivered: false,
+        attempts,
+        status,
+        error: error instanceof Error ? error.message : String(error),
+      };
+      await this.store.addDeadLetter({ event, delivery, failedAt: new Date().toISOString() });
+      console.error(`[Alerts] Webhook ${event.id} to ${url} failed after ${attempts} attempt(s): ${delivery.error}`);
+      return delivery;
+    }
+  }
+
+  /** Waits for the webhooks still being delivered */
+  async flush(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all(Array.from(this.pending));
+    }
+  }
+
+  private track(delivery: Promise<unknown>): void {
+    const tracked = delivery.catch(() => undefined).finally(() => this.pending.delete(tracked));
+    this.pending.add(tracked);
+  }
+
+  private buildEvent(
+    type: AlertEvent['type'],
+    rule: AlertRule,
+    domain: number,
+    asin: string,
+    message: string,
+    item: WatchlistSnapshotItem | null,
+    previous: WatchlistSnapshotItem | null,
+  ): AlertEvent {
+    return {
+      id: randomUUID(),
+      type,
+      createdAt: new Date().toISOString(),
+      rule: { id: rule.id, name: rule.name, condition: rule.condition },
+      watchlistId: rule.watchlistId,
+      domain,
+      asin,
+      message,
+      item,
+      previous,
+    };
+  }
+}
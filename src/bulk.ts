@@ -0,0 +1,306 @@
+import { KeepaClient } from './keepa-client.js';
+import { detectFeeCategory, fbaFulfillmentFee, isFeeMarketplace, referralFee } from './fees.js';
+import { DOMAIN_CURRENCIES, toMajorUnits } from './fx.js';
+import { parseCsv, SpreadsheetCell, toCsv, writeXlsx } from './spreadsheet.js';
+import {
+  BulkColumn,
+  BulkIdentifier,
+  BulkIdType,
+  BulkInput,
+  BulkLookupResult,
+  BulkProgress,
+  InvalidParameterError,
+  KeepaDataType,
+  KeepaDomain,
+  KeepaProduct,
+  ProductQueryParams,
+} from './types.js';
+
+// ─── Bulk lookups ───────────────────────────────────────────────────────
+// Supplier sheets in, one row per product out. The identifier column is
+// found by its header (ASIN, EAN, UPC, GTIN, barcode...) or else by what its
+// cells look like. ASINs go through getProductsBatch and EAN/UPC codes
+// through Keepa's code lookup, 100 per request, reporting progress after
+// every request. Offers and stock are only requested when a chosen column
+// needs them: they cost 14 tokens per product on top of the 1 for stats.
+
+export const MAX_BULK_ROWS = 10000;
+export const BULK_CHUNK_SIZE = 100;
+
+export const DEFAULT_BULK_COLUMNS: BulkColumn[] = [
+  'input', 'asin', 'title', 'buyBoxPrice', 'avg90', 'salesRank', 'monthlySold', 'offers', 'referralFee', 'fbaFee',
+];
+
+// Keepa only fills the offer counts and the Buy Box stock (stats.stockBuyBox)
+// for requests with offers and stock
+const OFFER_COLUMNS: BulkColumn[] = ['offers', 'fbaOffers', 'fbmOffers', 'stock'];
+
+/** Product request options for the chosen columns: stats, no csv history. */
+export function bulkProductOptions(columns: BulkColumn[]): Partial<ProductQueryParams> {
+  const options: Partial<ProductQueryParams> = { stats: 1, history: 0 };
+  return columns.some(column => OFFER_COLUMNS.includes(column))
+    ? { ...options, offers: 20, stock: 1, 'only-live-offers': 1 }
+    : options;
+}
+
+const HEADER_HINTS: Array<[RegExp, BulkIdType]> = [
+  [/\basin\b/i, 'asin'],
+  [/\b(ean|ean-?13|upc|gtin|barcode|bar code|isbn|isbn-?13|code|c[oó]digo)\b/i, 'code'],
+];
+
+/** GS1 mod-10 check digit, shared by EAN-8, UPC-A and EAN-13. */
+function hasValidCheckDigit(digits: string): boolean {
+  let sum = 0;
+  for (let i = digits.length - 2, weight = 3; i >= 0; i--, weight = 4 - weight) {
+    sum += Number(digits[i]) * weight;
+  }
+  return (10 - sum % 10) % 10 === Number(digits[digits.length - 1]);
+}
+
+/** ISBN-10 mod-11 checksum: books use their ISBN-10 as ASIN. */
+function isIsbn10(value: string): boolean {
+  if (!/^\d{9}[\dX]$/.test(value)) return false;
+  let sum = 0;
+  for (let i = 0; i < 10; i++) {
+    sum += (10 - i) * (value[i] === 'X' ? 10 : Number(value[i]));
+  }
+  return sum % 11 === 0;
+}
+
+/** ASIN (B0..., or an ISBN-10 for books) or EAN/UPC; null when the cell is neither. */
+export function classifyIdentifier(raw: string): { value: string; type: BulkIdType } | null {
+  const value = raw.trim().toUpperCase();
+  if (/^B[0-9A-Z]{9}$/.test(value) || isIsbn10(value)) {
+    return { value, type: 'asin' };
+  }
+
+  let digits = value.replace(/[\s-]/g, '');
+  if (!/^\d+$/.test(digits)) return null;
+  // Excel drops the leading zero of UPCs stored as numbers; GTIN-14 pads EAN-13 with one
+  if (digits.length === 11) digits = '0' + digits;
+  if (digits.length === 14 && digits.startsWith('0')) digits = digits.slice(1);
+  if ([8, 12, 13].includes(digits.length) && hasValidCheckDigit(digits)) {
+    return { value: digits, type: 'code' };
+  }
+  return null;
+}
+
+/** Picks the identifier column of a CSV and reads its unique ASINs and EAN/UPC codes. */
+export function readBulkInput(csv: string, column?: string): BulkInput {
+  const rows = parseCsv(csv);
+  if (rows.length === 0) {
+    throw new InvalidParameterError('The CSV is empty');
+  }
+
+  // No header row when the first line already holds identifiers
+  const hasHeader = !rows[0].some(cell => classifyIdentifier(cell) !== null);
+  const headers = hasHeader ? rows[0] : [];
+  const data = hasHeader ? rows.slice(1) : rows;
+  const firstLine = hasHeader ? 2 : 1;
+  if (data.length > MAX_BULK_ROWS) {
+    throw new InvalidParameterError(`The CSV has ${data.length} rows; split it into files of at most ${MAX_BULK_ROWS}`);
+  }
+
+  const width = Math.max(...rows.map(row => row.length));
+  const label = (index: number) => headers[index] || `column ${index + 1}`;
+  let index: number;
+
+  if (column !== undefined) {
+    const byName = headers.findIndex(header => header.toLowerCase() === column.trim().toLowerCase());
+    index = byName >= 0 ? byName : /^\d+$/.test(column.trim()) ? parseInt(column) - 1 : -1;
+    if (index < 0 || index >= width) {
+      const known = headers.length > 0 ? `: ${headers.join(', ')}` : ` (the file has ${width} columns)`;
+      throw new InvalidParameterError(`Column "${column}" not found${known}`);
+    }
+  } else {
+    // Share of filled cells that are identifiers; a matching header is preferred over content alone
+    const candidates = Array.from({ length: width }, (_, i) => {
+      const filled = data.map(row => row[i] ?? '').filter(cell => cell !== '');
+      const valid = filled.filter(cell => classifyIdentifier(cell) !== null).length;
+      const hinted = HEADER_HINTS.some(([pattern]) => pattern.test(headers[i] ?? ''));
+      return { index: i, valid, share: filled.length > 0 ? valid / filled.length : 0, hinted };
+    }).filter(candidate => candidate.valid > 0 && (candidate.hinted || candidate.share >= 0.5));
+
+    candidates.sort((a, b) => Number(b.hinted) - Number(a.hinted) || b.share - a.share || b.valid - a.valid);
+    if (candidates.length === 0) {
+      throw new InvalidParameterError('No ASIN, EAN or UPC column found; pass its header as `column`');
+    }
+    index = candidates[0].index;
+  }
+
+  const seen = new Set<string>();
+  const input: BulkInput = { column: label(index), identifiers: [], duplicates: 0, invalid: [] };
+  data.forEach((row, i) => {
+    const cell = row[index] ?? '';
+    if (cell === '') return;
+    const identifier = classifyIdentifier(cell);
+    if (!identifier) {
+      input.invalid.push({ row: firstLine + i, value: cell });
+    } else if (seen.has(identifier.value)) {
+      input.duplicates++;
+    } else {
+      seen.add(identifier.value);
+      input.identifiers.push({ ...identifier, row: firstLine + i });
+    }
+  });
+  return input;
+}
+
+export interface BulkRow {
+  input: BulkIdentifier;
+  /** null when Keepa has no product for the identifier */
+  product: KeepaProduct | null;
+}
+
+/** EAN-13 form of a code, so UPC-A "012345678905" matches EAN "0012345678905". */
+function gtin13(code: string): string {
+  return code.padStart(13, '0');
+}
+
+/**
+ * Looks every identifier up, a chunk per Keepa request, in file order.
+ * A code matching several ASINs gives one row per ASIN.
+ */
+export async function runBulkLookup(
+  client: KeepaClient,
+  identifiers: BulkIdentifier[],
+  domain: KeepaDomain,
+  options: Partial<ProductQueryParams>,
+  onProgress?: (progress: BulkProgress) => void,
+): Promise<BulkRow[]> {
+  const matches = new Map<string, KeepaProduct[]>();
+  const progress: BulkProgress = { processed: 0, total: identifiers.length, found: 0 };
+
+  for (const type of ['asin', 'code'] as const) {
+    const values = identifiers.filter(identifier => identifier.type === type).map(identifier => identifier.value);
+    for (let i = 0; i < values.length; i += BULK_CHUNK_SIZE) {
+      const chunk = values.slice(i, i + BULK_CHUNK_SIZE);
+      if (type === 'asin') {
+        const products = await client.getProductsBatch(chunk, domain, options);
+        for (const product of products) matches.set(product.asin, [product]);
+      } else {
+        const products = await client.getProductsByCode(chunk, domain, options);
+        for (const code of chunk) {
+          const found = products.filter(product =>
+            [...(product.eanList ?? []), ...(product.upcList ?? [])].some(listed => gtin13(listed) === gtin13(code))
+          );
+          if (found.length > 0) matches.set(code, found);
+        }
+      }
+      progress.processed += chunk.length;
+      progress.found += chunk.filter(value => matches.has(value)).length;
+      onProgress?.({ ...progress });
+    }
+  }
+
+  return identifiers.flatMap((input): BulkRow[] => {
+    const products = matches.get(input.value);
+    return products ? products.map(product => ({ input, product })) : [{ input, product: null }];
+  });
+}
+
+// ── Export columns ──
+
+function positiveOrNull(value: unknown): number | null {
+  return typeof value === 'number' && value > 0 ? value : null;
+}
+
+function nonNegativeOrNull(value: unknown): number | null {
+  return typeof value === 'number' && value >= 0 ? value : null;
+}
+
+function buyBoxPrice(product: KeepaProduct): number | null {
+  return positiveOrNull(product.stats?.buyBoxPrice) ?? positiveOrNull(product.stats?.current?.[KeepaDataType.BUY_BOX_SHIPPING]);
+}
+
+// Keepa's pick & pack fee, else the size tier of the package
+function fulfillmentFee(product: KeepaProduct, domain: KeepaDomain): number | null {
+  const keepaFee = positiveOrNull(product.fbaFees?.pickAndPackFee);
+  if (keepaFee !== null || !isFeeMarketplace(domain)) return keepaFee;
+
+  const dims = [product.packageLength, product.packageWidth, product.packageHeight, product.packageWeight].map(positiveOrNull);
+  if (dims.some(value => value === null)) return null;
+  const [lengthMm, widthMm, heightMm, weightG] = dims as number[];
+  return fbaFulfillmentFee(domain, { lengthMm, widthMm, heightMm, weightG }).fee;
+}
+
+// Keepa's referralFeePercentage, else our table for the detected category; the fee is at the Buy Box price
+function referralAtBuyBox(product: KeepaProduct, domain: KeepaDomain): { percent: number | null; fee: number | null } {
+  const price = buyBoxPrice(product);
+  const keepaPercent = positiveOrNull(product.referralFeePercentage);
+  if (price === null || !isFeeMarketplace(domain)) {
+    return { percent: keepaPercent, fee: null };
+  }
+  const category = detectFeeCategory([...(product.categoryTree ?? []).map(category => category.name), product.productGroup ?? '']);
+  const fee = referralFee(domain, category, price, keepaPercent);
+  return { percent: fee.percent, fee: fee.fee + fee.closingFee };
+}
+
+interface ColumnSpec {
+  header: string;
+  /** Prices come in cents and are written in the marketplace currency */
+  price?: boolean;
+  value: (row: BulkRow, domain: KeepaDomain) => SpreadsheetCell;
+}
+
+const COLUMN_SPECS: Record<BulkColumn, ColumnSpec> = {
+  input: { header: 'Input', value: row => row.input.value },
+  asin: { header: 'ASIN', value: row => row.product?.asin ?? null },
+  title: { header: 'Title', value: row => row.product?.title ?? null },
+  brand: { header: 'Brand', value: row => row.product?.brand ?? null },
+  buyBoxPrice: { header: 'Buy Box', price: true, value: row => row.product && buyBoxPrice(row.product) },
+  amazonPrice: { header: 'Amazon', price: true, value: row => positiveOrNull(row.product?.stats?.current?.[KeepaDataType.AMAZON]) },
+  newPrice: { header: 'Lowest new', price: true, value: row => positiveOrNull(row.product?.stats?.current?.[KeepaDataType.NEW]) },
+  avg90: {
+    header: 'Buy Box avg 90d',
+    price: true,
+    value: row => positiveOrNull(row.product?.stats?.avg90?.[KeepaDataType.BUY_BOX_SHIPPING])
+      ?? positiveOrNull(row.product?.stats?.avg90?.[KeepaDataType.NEW]),
+  },
+  salesRank: { header: 'Sales rank', value: row => positiveOrNull(row.product?.stats?.current?.[KeepaDataType.SALES_RANK]) },
+  monthlySold: { header: 'Bought last month', value: row => positiveOrNull(row.product?.monthlySold) },
+  offers: { header: 'Offers', value: row => nonNegativeOrNull(row.product?.stats?.totalOfferCount) },
+  fbaOffers: { header: 'FBA offers', value: row => nonNegativeOrNull(row.product?.stats?.offerCountFBA) },
+  fbmOffers: { header: 'FBM offers', value: row => nonNegativeOrNull(row.product?.stats?.offerCountFBM) },
+  stock: { header: 'Buy Box stock', value: row => nonNegativeOrNull(row.product?.stats?.stockBuyBox) },
+  referralFeePercent: { header: 'Referral %', value: (row, domain) => row.product && referralAtBuyBox(row.product, domain).percent },
+  referralFee: { header: 'Referral fee', price: true, value: (row, domain) => row.product && referralAtBuyBox(row.product, domain).fee },
+  fbaFee: { header: 'FBA fee', price: true, value: (row, domain) => row.product && fulfillmentFee(row.product, domain) },
+  currency: { header: 'Currency', value: (_, domain) => DOMAIN_CURRENCIES[domain] ?? null },
+};
+
+/** Header plus one line per row, prices in the marketplace currency (19.99). */
+export function bulkTable(rows: BulkRow[], domain: KeepaDomain, columns: BulkColumn[]): SpreadsheetCell[][] {
+  const currency = DOMAIN_CURRENCIES[domain];
+  return [
+    columns.map(column => COLUMN_SPECS[column].header),
+    ...rows.map(row => columns.map(column => {
+      const spec = COLUMN_SPECS[column];
+      const value = spec.value(row, domain);
+      return spec.price && typeof value === 'number' && currency ? toMajorUnits(value, currency) : value;
+    })),
+  ];
+}
+
+const MIME_TYPES: Record<BulkLookupResult['format'], BulkLookupResult['mimeType']> = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/** The export file, named after the marketplace and the current date. */
+export function exportBulkTable(
+  table: SpreadsheetCell[][],
+  format: BulkLookupResult['format'],
+  marketplace: string,
+  now = new Date(),
+): Pick<BulkLookupResult, 'format' | 'filename' | 'mimeType' | 'file'> {
+  const filename = `keepa-bulk-${marketplace.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-${now.toISOString().slice(0, 10)}.${format}`;
+  const data = format === 'xlsx' ? writeXlsx(table, 'Keepa') : Buffer.from(toCsv(table), 'utf8');
+  return { format, filename, mimeType: MIME_TYPES[format], file: data.toString('base64') };
+}
+
+export function isBulkLookupResult(result: unknown): result is BulkLookupResult {
+  return typeof result === 'object' && result !== null
+    && typeof (result as BulkLookupResult).file === 'string'
+    && typeof (result as BulkLookupResult).filename === 'string';
+}
@@ -0,0 +1,151 @@
+import { KeepaDomain } from './types.js';
+import { keepaMinutesToUnix, SeriesPoint } from './csv-decoder.js';
+
+// ─── Buy Box rotation ───────────────────────────────────────────────────
+// product.buyBoxSellerIdHistory (buybox=1) is a flat [keepaTime, sellerId, ...]
+// string array. "-1" means no seller qualified for the Buy Box (suppressed)
+// and "-2" that there was no offer or no data. Like csv series, every entry
+// holds until the next one, so shares are computed over time, not entries.
+
+export const AMAZON_SELLER_IDS: Partial<Record<KeepaDomain, string>> = {
+  [KeepaDomain.US]: 'ATVPDKIKX0DER',
+  [KeepaDomain.UK]: 'A3P5ROKL5A1OLE',
+  [KeepaDomain.DE]: 'A3JWKAKR8XB7XF',
+  [KeepaDomain.FR]: 'A1X6FK5RDHNB96',
+  [KeepaDomain.JP]: 'AN1VRQENFRJN5',
+  [KeepaDomain.CA]: 'A3DWYIK6Y9EEQB',
+  [KeepaDomain.IT]: 'A11IL2PNWYJU7H',
+  [KeepaDomain.ES]: 'A1AT7YVPFBWXBL',
+  [KeepaDomain.MX]: 'AVDBXBAVVSXLQ',
+};
+
+export interface BuyBoxHold {
+  sellerId: string;
+  /** Unix ms */
+  start: number;
+  end: number;
+}
+
+export interface BuyBoxSellerShare {
+  sellerId: string;
+  /** % of the time the Buy Box had a winner */
+  percentageWon: number;
+  /** Time-weighted Buy Box price (incl. shipping) while this seller held it, in cents */
+  avgPrice: number | null;
+  /** Separate stretches this seller held the Buy Box */
+  holds: number;
+  /** Unix ms of the end of the last stretch */
+  lastWon: number;
+}
+
+export interface BuyBoxRotation {
+  from: number;
+  to: number;
+  /** % of the window without a Buy Box winner: suppressed and no offer / no data */
+  suppressedPercent: number;
+  noOfferPercent: number;
+  /** Changes from one seller to a different one; gaps in between don't count as a change */
+  rotations: number;
+  rotationsPerDay: number;
+  sellers: BuyBoxSellerShare[];
+}
+
+const DAY_MS = 86400000;
+
+/** Decodes the seller history into consecutive holds clipped to [from, to]; gaps keep their "-1"/"-2" id. */
+export function decodeBuyBoxHolds(history: Array<string | number> | undefined, from: number, to: number): BuyBoxHold[] {
+  if (!Array.isArray(history)) return [];
+  const entries: Array<{ timestamp: number; sellerId: string }> = [];
+  for (let i = 0; i + 1 < history.length; i += 2) {
+    entries.push({ timestamp: keepaMinutesToUnix(Number(history[i])), sellerId: String(history[i + 1]) });
+  }
+
+  const holds: BuyBoxHold[] = [];
+  entries.forEach((entry, index) => {
+    const start = Math.max(entry.timestamp, from);
+    const end = Math.min(entries[index + 1]?.timestamp ?? to, to);
+    if (end <= start) return;
+    const previous = holds[holds.length - 1];
+    if (previous && previous.sellerId === entry.sellerId && previous.end === start) {
+      previous.end = end;
+    } else {
+      holds.push({ sellerId: entry.sellerId, start, end });
+    }
+  });
+  return holds;
+}
+
+// Time-weighted mean of a step series (values hold until the next point) over [start, end)
+function weightedPrice(prices: SeriesPoint[], start: number, end: number): { sum: number; duration: number } {
+  let sum = 0;
+  let duration = 0;
+  prices.forEach((point, index) => {
+    const from = Math.max(point.timestamp, start);
+    const to = Math.min(prices[index + 1]?.timestamp ?? end, end);
+    if (to <= from || point.value === null) return;
+    sum += point.value * (to - from);
+    duration += to - from;
+  });
+  return { sum, duration };
+}
+
+export function analyzeBuyBoxRotation(
+  history: Array<string | number> | undefined,
+  buyBoxPrices: SeriesPoint[],
+  from: number,
+  to: number,
+): BuyBoxRotation {
+  const holds = decodeBuyBoxHolds(history, from, to);
+  const windowMs = Math.max(to - from, 1);
+  const percent = (ms: number, total: number) => (total > 0 ? Math.round(ms / total * 1000) / 10 : 0);
+
+  let suppressedMs = 0;
+  let noOfferMs = 0;
+  let rotations = 0;
+  let lastSeller: string | null = null;
+  const totals = new Map<string, { ms: number; holds: number; priceSum: number; priceMs: number; lastWon: number }>();
+
+  for (const hold of holds) {
+    const duration = hold.end - hold.start;
+    if (hold.sellerId === '-1') {
+      suppressedMs += duration;
+      continue;
+    }
+    if (hold.sellerId.startsWith('-')) {
+      noOfferMs += duration;
+      continue;
+    }
+    if (lastSeller !== null && lastSeller !== hold.sellerId) rotations++;
+    lastSeller = hold.sellerId;
+
+    const total = totals.get(hold.sellerId) ?? { ms: 0, holds: 0, priceSum: 0, priceMs: 0, lastWon: 0 };
+    const price = weightedPrice(buyBoxPrices, hold.start, hold.end);
+    total.ms += duration;
+    total.holds++;
+    total.priceSum += price.sum;
+    total.priceMs += price.duration;
+    total.lastWon = hold.end;
+    totals.set(hold.sellerId, total);
+  }
+
+  const wonMs = Array.from(totals.values()).reduce((sum, total) => sum + total.ms, 0);
+  const sellers = Array.from(totals.entries())
+    .map(([sellerId, total]) => ({
+      sellerId,
+      percentageWon: percent(total.ms, wonMs),
+      avgPrice: total.priceMs > 0 ? Math.round(total.priceSum / total.priceMs) : null,
+      holds: total.holds,
+      lastWon: total.lastWon,
+    }))
+    .sort((a, b) => b.percentageWon - a.percentageWon || b.lastWon - a.lastWon);
+
+  return {
+    from,
+    to,
+    suppressedPercent: percent(suppressedMs, windowMs),
+    noOfferPercent: percent(noOfferMs, windowMs),
+    rotations,
+    rotationsPerDay: Math.round(rotations / (windowMs / DAY_MS) * 100) / 100,
+    sellers,
+  };
+}
@@ -0,0 +1,295 @@
+import {
+  CacheConfig,
+  CacheEntry,
+  CacheStats,
+  CacheStore,
+  CacheableEndpoint,
+  ProductQueryParams,
+} from './types.js';
+
+// Default time to live per endpoint, in seconds. Product prices move often,
+// seller ratings and best seller lists much less.
+export const DEFAULT_CACHE_TTL: Record<CacheableEndpoint, number> = {
+  product: 60 * 60,
+  seller: 6 * 60 * 60,
+  bestsellers: 12 * 60 * 60,
+  category: 24 * 60 * 60,
+  // Claims move fast and the full list costs 500 tokens, so keep it briefly
+  lightningdeal: 10 * 60,
+  // Keepa recomputes the ranking about once a day
+  topseller: 24 * 60 * 60,
+};
+
+export const DEFAULT_CACHE_MAX_ENTRIES = 1000;
+
+// ─── Stores ─────────────────────────────────────────────────────────────
+
+/** In-memory LRU: Map keeps insertion order, so re-inserting on read moves a key to the end. */
+export class MemoryCacheStore implements CacheStore {
+  readonly name = 'memory';
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries: number = DEFAULT_CACHE_MAX_ENTRIES) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  async size(): Promise<number> {
+    return this.entries.size;
+  }
+}
+
+// Minimal surface of better-sqlite3 that the store relies on
+interface SqliteStatement {
+  get(...params: unknown[]): any;
+  run(...params: unknown[]): unknown;
+}
+
+interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqliteStatement;
+}
+
+/**
+ * File-backed store so the cache survives restarts. Uses the optional
+ * `better-sqlite3` package, loaded on first use.
+ */
+export class SqliteCacheStore implements CacheStore {
+  readonly name = 'sqlite';
+  private db?: Promise<SqliteDatabase>;
+
+  constructor(private file: string) {}
+
+  private open(): Promise<SqliteDatabase> {
+    if (!this.db) {
+      this.db = (async () => {
+        const moduleName = 'better-sqlite3';
+        let Database: any;
+        try {
+          Database = (await import(moduleName)).default;
+        } catch {
+          throw new Error(`SQLite cache requires the optional "better-sqlite3" package (npm install better-sqlite3)`);
+        }
+        const db: SqliteDatabase = new Database(this.file);
+        db.exec(`CREATE TABLE IF NOT EXISTS keepa_cache (
+          key TEXT PRIMARY KEY,
+          payload TEXT NOT NULL,
+          options TEXT NOT NULL,
+          fetched_at INTEGER NOT NULL,
+          expires_at INTEGER NOT NULL
+        )`);
+        return db;
+      })();
+    }
+    return this.db;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const db = await this.open();
+    const row = db.prepare('SELECT payload, options, fetched_at, expires_at FROM keepa_cache WHERE key = ?').get(key);
+    if (!row) return undefined;
+    return {
+      payload: JSON.parse(row.payload),
+      options: JSON.parse(row.options),
+      fetchedAt: row.fetched_at,
+      expiresAt: row.expires_at,
+    };
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const db = await this.open();
+    db.prepare(
+      `INSERT OR REPLACE INTO keepa_cache (key, payload, options, fetched_at, expires_at) VALUES (?, ?, ?, ?, ?)`
+    ).run(key, JSON.stringify(entry.payload), JSON.stringify(entry.options), entry.fetchedAt, entry.expiresAt);
+  }
+
+  async delete(key: string): Promise<void> {
+    const db = await this.open();
+    db.prepare('DELETE FROM keepa_cache WHERE key = ?').run(key);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    db.exec('DELETE FROM keepa_cache');
+  }
+
+  async size(): Promise<number> {
+    const db = await this.open();
+    return db.prepare('SELECT COUNT(*) AS n FROM keepa_cache').get().n;
+  }
+}
+
+// ─── Coverage ───────────────────────────────────────────────────────────
+// A cached payload can answer any request that asks for the same data or
+// less: a product fetched with history and 20 offers also satisfies a plain
+// lookup, but not one asking for 40 offers.
+
+const PRODUCT_FLAGS = [
+  'rating', 'buybox', 'fbafees', 'onlylivefbafees', 'variations', 'stock',
+  'promotions', 'coupon_history', 'lightning_deals', 'categories',
+] as const;
+
+function flag(value: unknown, fallback = false): boolean {
+  if (value === undefined || value === null) return fallback;
+  return Boolean(Number(value));
+}
+
+/** Reduces product query params to the options that change the payload shape. */
+export function normalizeProductOptions(params: Partial<ProductQueryParams>): Record<string, unknown> {
+  const options: Record<string, unknown> = {
+    history: flag(params.history, true), // Keepa includes csv history unless history=0
+    offers: params.offers ? Number(params.offers) : 0,
+    stats: params.stats ?? null,
+    days: params.days ?? null,
+    onlyLiveOffers: flag(params['only-live-offers']),
+  };
+  for (const name of PRODUCT_FLAGS) {
+    options[name] = flag(params[name]);
+  }
+  return options;
+}
+
+export function productOptionsCover(stored: Record<string, unknown>, requested: Record<string, unknown>): boolean {
+  if (requested.history && !stored.history) return false;
+  if ((requested.offers as number) > (stored.offers as number)) return false;
+  if (requested.stats !== null && requested.stats !== stored.stats) return false;
+  // Shorter history windows are a subset of longer ones; null means full history
+  if (stored.days !== null && (requested.days === null || (requested.days as number) > (stored.days as number))) {
+    return false;
+  }
+  if (stored.onlyLiveOffers && !requested.onlyLiveOffers && (requested.offers as number) > 0) return false;
+  return PRODUCT_FLAGS.every(name => !requested[name] || stored[name]);
+}
+
+export function sellerOptionsCover(stored: Record<string, unknown>, requested: Record<string, unknown>): boolean {
+  return !requested.storefront || Boolean(stored.storefront);
+}
+
+// ─── Response cache ─────────────────────────────────────────────────────
+
+export class ResponseCache {
+  private hits = 0;
+  private misses = 0;
+  private ttl: Record<CacheableEndpoint, number>;
+
+  constructor(private store: CacheStore | null, ttl: Partial<Record<CacheableEndpoint, number>> = {}) {
+    this.ttl = { ...DEFAULT_CACHE_TTL, ...ttl };
+  }
+
+  get enabled(): boolean {
+    return this.store !== null;
+  }
+
+  /**
+   * Returns the cached payload when it is fresh and covers the requested
+   * options. `maxAgeMs` lets callers demand fresher data than the TTL
+   * (Keepa's `update` parameter).
+   */
+  async get<T>(
+    endpoint: CacheableEndpoint,
+    key: string,
+    options: Record<string, unknown> = {},
+    covers: (stored: Record<string, unknown>, requested: Record<string, unknown>) => boolean = () => true,
+    maxAgeMs?: number
+  ): Promise<T | undefined> {
+    if (!this.store) return undefined;
+
+    let entry: CacheEntry | undefined;
+    try {
+      entry = await this.store.get(`${endpoint}:${key}`);
+    } catch (error) {
+      this.fallBackToMemory(error);
+      this.misses++;
+      return undefined;
+    }
+
+    const now = Date.now();
+    const fresh = entry && entry.expiresAt > now && (maxAgeMs === undefined || now - entry.fetchedAt < maxAgeMs);
+    if (entry && fresh && covers(entry.options, options)) {
+      this.hits++;
+      return entry.payload as T;
+    }
+    this.misses++;
+    return undefined;
+  }
+
+  async set(endpoint: CacheableEndpoint, key: string, payload: unknown, options: Record<string, unknown> = {}): Promise<void> {
+    if (!this.store || this.ttl[endpoint] <= 0) return;
+    const fetchedAt = Date.now();
+    try {
+      await this.store.set(`${endpoint}:${key}`, {
+        payload,
+        options,
+        fetchedAt,
+        expiresAt: fetchedAt + this.ttl[endpoint] * 1000,
+      });
+    } catch (error) {
+      this.fallBackToMemory(error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.store?.clear();
+  }
+
+  async stats(): Promise<CacheStats> {
+    const lookups = this.hits + this.misses;
+    let entries = 0;
+    try {
+      entries = this.store ? await this.store.size() : 0;
+    } catch {
+      entries = 0;
+    }
+    return {
+      backend: this.store?.name ?? 'none',
+      enabled: this.enabled,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : null,
+      entries,
+    };
+  }
+
+  // A broken backend (e.g. better-sqlite3 not installed) must never break lookups
+  private fallBackToMemory(error: unknown): void {
+    console.error(`[Keepa cache] Falling back to in-memory cache: ${error instanceof Error ? error.message : String(error)}`);
+    this.store = new MemoryCacheStore();
+  }
+}
+
+export function createResponseCache(config: CacheConfig = {}): ResponseCache {
+  if (config.store) {
+    return new ResponseCache(config.store, config.ttl);
+  }
+  switch (config.backend ?? 'memory') {
+    case 'none':
+      return new ResponseCache(null, config.ttl);
+    case 'sqlite':
+      return new ResponseCache(new SqliteCacheStore(config.file || 'keepa-cache.db'), config.ttl);
+    default:
+      return new ResponseCache(new MemoryCacheStore(config.maxEntries), config.ttl);
+  }
+}
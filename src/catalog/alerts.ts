@@ -0,0 +1,122 @@
+import { z } from 'zod';
+import { defineTool } from '../registry.js';
+import { KeepaTools, OutputFormatSchema, DryRunSchema } from '../tools.js';
+import { KeepaDomain, ALERT_CONDITIONS, AlertRule, AlertsResult } from '../types.js';
+
+export const AlertsSchema = z.object({
+  action: z.enum(['create', 'list', 'delete', 'enable', 'disable', 'test', 'dead_letters']).default('list').describe('create a rule, list rules, delete/enable/disable/test one by id, or list failed deliveries (dead_letters)'),
+  id: z.string().optional().describe('Rule ID for delete, enable, disable and test'),
+  name: z.string().min(1).max(100).optional().describe('create: rule name shown in the webhook'),
+  watchlist: z.string().optional().describe('create: watchlist ID or name whose snapshots are checked; list: only its rules'),
+  asins: z.array(z.string()).default([]).describe('create: only these ASINs of the watchlist (default: all)'),
+  condition: z.enum(ALERT_CONDITIONS).optional().describe('create: buybox_below (value in cents), amazon_offer (Amazon starts selling), stock_below (Buy Box stock < value), new_seller (a seller ID not on the listing before), rank_below (sales rank better than value)'),
+  value: z.number().min(0).optional().describe('create: threshold for buybox_below, stock_below and rank_below'),
+  webhookUrl: z.string().url().optional().describe('create: URL receiving the signed JSON POST'),
+  limit: z.number().int().min(1).max(500).default(20).describe('dead_letters: how many to return, newest first'),
+  outputFormat: OutputFormatSchema,
+  dryRun: DryRunSchema,
+});
+
+export const alertsTool = defineTool({
+  name: 'keepa_alerts',
+  description: 'Alert rules on watchlists (Buy Box below a price, Amazon offer appears, Buy Box stock below N, new seller, sales rank better than N), checked on every snapshot and delivered as HMAC-signed JSON webhooks with retries. Create, list, delete, enable, disable and test rules, or list failed deliveries. Costs no tokens',
+  schema: AlertsSchema,
+  priority: 'interactive',
+  handler: (params, { tools }) => manageAlerts(tools, params),
+});
+
+
+export async function manageAlerts(tools: KeepaTools, params: z.infer<typeof AlertsSchema>): Promise<string | AlertsResult> {
+  try {
+    const result: AlertsResult = { action: params.action, rules: [], deadLetters: [], delivery: null };
+    switch (params.action) {
+      case 'create': {
+        if (!params.name || !params.watchlist || !params.condition || !params.webhookUrl) {
+          return 'Error: create needs name, watchlist, condition and webhookUrl';
+        }
+        const watchlist = await tools.watchlists.get(params.watchlist);
+        result.rules = [await tools.alerts.createRule({
+          name: params.name,
+          watchlistId: watchlist.id,
+          asins: params.asins,
+          condition: { type: params.condition, value: params.value ?? null },
+          webhookUrl: params.webhookUrl,
+        })];
+        break;
+      }
+      case 'list':
+        result.rules = await tools.alerts.listRules(params.watchlist ? (await tools.watchlists.get(params.watchlist)).id : undefined);
+        break;
+      case 'dead_letters':
+        result.deadLetters = await tools.alerts.deadLetters(params.limit);
+        break;
+      default: {
+        if (!params.id) {
+          return `Error: ${params.action} needs the rule id`;
+        }
+        if (params.action === 'delete') {
+          result.rules = [await tools.alerts.deleteRule(params.id)];
+        } else if (params.action === 'test') {
+          const rule = await tools.alerts.getRule(params.id);
+          const watchlist = await tools.watchlists.store.getWatchlist(rule.watchlistId);
+          result.rules = [rule];
+          result.delivery = await tools.alerts.test(rule.id, watchlist?.domain ?? KeepaDomain.US);
+        } else {
+          result.rules = [await tools.alerts.setEnabled(params.id, params.action === 'enable')];
+        }
+      }
+    }
+
+    if (params.outputFormat === 'json') {
+      return result;
+    }
+
+    switch (params.action) {
+      case 'create':
+        return `**🚨 Alert Rule Created**\n\n${formatAlertRule(result.rules[0])}`;
+      case 'delete':
+        return `🗑️ Alert rule ${result.rules[0].name} deleted`;
+      case 'enable':
+      case 'disable':
+        return `${params.action === 'enable' ? '▶️' : '⏸️'} Alert rule ${result.rules[0].name} ${params.action}d`;
+      case 'test': {
+        const delivery = result.delivery!;
+        return delivery.delivered
+          ? `✅ Test webhook delivered to ${delivery.url} (HTTP ${delivery.status}, ${delivery.attempts} attempt(s))`
+          : `❌ Test webhook to ${delivery.url} failed after ${delivery.attempts} attempt(s): ${delivery.error}`;
+      }
+      case 'dead_letters': {
+        if (result.deadLetters.length === 0) {
+          return '✅ No failed webhook deliveries';
+        }
+        let text = `**📭 Failed Webhook Deliveries (${result.deadLetters.length})**\n\n`;
+        result.deadLetters.forEach(deadLetter => {
+          text += `• ${deadLetter.failedAt} | ${deadLetter.event.rule.name} | ${deadLetter.event.asin}: ${deadLetter.event.message}\n`;
+          text += `  ${deadLetter.delivery.url} → ${deadLetter.delivery.error} (${deadLetter.delivery.attempts} attempt(s))\n`;
+        });
+        return text;
+      }
+      default: {
+        if (result.rules.length === 0) {
+          return 'No alert rules yet. Create one with action "create"';
+        }
+        let text = `**🚨 Alert Rules (${result.rules.length})**\n\n`;
+        result.rules.forEach(rule => {
+          text += formatAlertRule(rule) + '\n';
+        });
+        return text;
+      }
+    }
+  } catch (error) {
+    tools.rethrowApiError(error);
+    return `Error managing alerts: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+}
+
+function formatAlertRule(rule: AlertRule): string {
+  const condition = rule.condition.value !== null ? `${rule.condition.type} ${rule.condition.value}` : rule.condition.type;
+  let result = `**${rule.name}** (\`${rule.id}\`)${rule.enabled ? '' : ' ⏸️ disabled'}\n`;
+  result += `👀 ${rule.watchlistId}${rule.asins.length > 0 ? ` (${rule.asins.join(', ')})` : ''} | 🔔 ${condition}\n`;
+  result += `🔗 ${rule.webhookUrl} | Last triggered: ${rule.lastTriggeredAt ?? 'never'}\n`;
+  return result;
+}
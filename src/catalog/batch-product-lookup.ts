@@ -0,0 +1,68 @@
+import { z } from 'zod';
+import { defineTool } from '../registry.js';
+import { KeepaTools, OutputFormatSchema, DryRunSchema } from '../tools.js';
+import { KeepaDomain, BatchProductLookupResult } from '../types.js';
+
+export const BatchProductLookupSchema = z.object({
+  asins: z.array(z.string()).max(100).describe('Array of Amazon ASINs (max 100)'),
+  domain: z.number().min(1).max(11).default(1).describe('Amazon domain (1=US, 2=UK, 3=DE, etc.)'),
+  days: z.number().min(1).max(365).optional().describe('Number of days of price history to include'),
+  history: z.boolean().default(false).describe('Include full price history'),
+  outputFormat: OutputFormatSchema,
+  dryRun: DryRunSchema,
+});
+
+export const batchProductLookupTool = defineTool({
+  name: 'keepa_batch_product_lookup',
+  description: 'Look up information for multiple Amazon products by ASIN (up to 100)',
+  schema: BatchProductLookupSchema,
+  handler: (params, { tools }) => batchLookupProducts(tools, params),
+});
+
+export async function batchLookupProducts(tools: KeepaTools, params: z.infer<typeof BatchProductLookupSchema>): Promise<string | BatchProductLookupResult> {
+  try {
+    // Keepa answers with upper-case ASINs, as getProduct sends them
+    const asins = params.asins.map(asin => asin.trim().toUpperCase());
+    const products = await tools.client.getProductsBatch(
+      asins,
+      params.domain as KeepaDomain,
+      {
+        days: params.days,
+        history: params.history,
+      }
+    );
+
+    const domain = params.domain as KeepaDomain;
+    const domainName = tools.client.getDomainName(domain);
+    const notFound = asins.filter(asin => 
+      !products.some(product => product.asin === asin)
+    );
+
+    if (params.outputFormat === 'json') {
+      return {
+        domain,
+        marketplace: domainName,
+        requested: asins.length,
+        found: products.length,
+        products: products.map(product => tools.summarizeProduct(product)),
+        notFound,
+      };
+    }
+    
+    let result = `**Batch Product Lookup Results (${products.length}/${asins.length} found)**\n\n`;
+    result += `🏪 **Marketplace**: ${domainName}\n\n`;
+
+    products.forEach((product, i) => {
+      result += tools.formatProductSummary(product, i + 1, domain);
+    });
+
+    if (notFound.length > 0) {
+      result += `**Not Found**: ${notFound.join(', ')}\n`;
+    }
+
+    return result;
+  } catch (error) {
+    tools.rethrowApiError(error);
+    return `Error in batch lookup: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+}
@@ -0,0 +1,83 @@
+import { z } from 'zod';
+import { defineTool } from '../registry.js';
+import { KeepaTools, OutputFormatSchema, DryRunSchema, CategoryIdSchema } from '../tools.js';
+import { KeepaDomain, BestSellersResult } from '../types.js';
+
+export const BestSellersSchema = z.object({
+  domain: z.number().min(1).max(11).default(1).describe('Amazon domain (1=US, 2=UK, 3=DE, etc.)'),
+  category: CategoryIdSchema.describe('Amazon category ID or name (e.g. "Books")'),
+  page: z.number().min(0).default(0).describe('Page number for pagination'),
+  outputFormat: OutputFormatSchema,
+  dryRun: DryRunSchema,
+});
+
+export const bestSellersTool = defineTool({
+  name: 'keepa_best_sellers',
+  description: 'Get best seller rankings for an Amazon category',
+  schema: BestSellersSchema,
+  handler: (params, { tools }) => getBestSellers(tools, params),
+});
+
+export async function getBestSellers(tools: KeepaTools, params: z.infer<typeof BestSellersSchema>): Promise<string | BestSellersResult> {
+  try {
+    const category = await tools.resolveCategory(params.category, params.domain);
+    const bestSellers = await tools.client.getBestSellers({
+      domain: params.domain,
+      category,
+      page: params.page,
+    });
+
+    if (bestSellers.length === 0) {
+      return `No best sellers found for category ${params.category}`;
+    }
+
+    const domain = params.domain as KeepaDomain;
+    const domainName = tools.client.getDomainName(domain);
+
+    if (params.outputFormat === 'json') {
+      return {
+        domain,
+        marketplace: domainName,
+        category,
+        page: params.page,
+        products: bestSellers.map((product, i) => ({
+          rank: params.page * 100 + i + 1,
+          asin: product.asin,
+          title: product.title ?? null,
+          salesRank: tools.positiveOrNull(product.salesRank),
+          price: tools.positiveOrNull(product.price),
+          rating: tools.positiveOrNull(product.rating),
+          reviewCount: tools.nonNegativeOrNull(product.reviewCount),
+          isPrime: !!product.isPrime,
+        })),
+      };
+    }
+    
+    let result = `**Best Sellers - Category ${tools.categoryLabel(params.category, category)}**\n\n`;
+    result += `🏪 **Marketplace**: ${domainName}\n`;
+    result += `📊 **Found**: ${bestSellers.length} products\n\n`;
+
+    bestSellers.forEach((product, i) => {
+      const rank = params.page * 100 + i + 1;
+      result += `**#${rank} - ${product.asin}**\n`;
+      result += `📦 **${product.title}**\n`;
+      result += `📊 **Sales Rank**: #${product.salesRank.toLocaleString()}\n`;
+      
+      if (product.price) {
+        result += `💰 **Price**: ${tools.client.formatPrice(product.price, domain)}\n`;
+      }
+      
+      if (product.rating && product.reviewCount) {
+        result += `⭐ **Rating**: ${product.rating}/5.0 (${product.reviewCount.toLocaleString()} reviews)\n`;
+      }
+      
+      result += `🚚 **Prime**: ${product.isPrime ? 'Yes' : 'No'}\n`;
+      result += '\n';
+    });
+
+    return result;
+  } catch (error) {
+    tools.rethrowApiError(error);
+    return `Error getting best sellers: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+}
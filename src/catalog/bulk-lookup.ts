@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import { defineTool } from '../registry.js';
+import { KeepaTools, OutputFormatSchema, DryRunSchema } from '../tools.js';
+import { KeepaDomain, BULK_COLUMNS, BulkLookupResult, BulkProgress, TokenCostItem } from '../types.js';
+import { productRequestCost } from '../token-cost.js';
+import {
+  bulkProductOptions,
+  bulkTable,
+  DEFAULT_BULK_COLUMNS,
+  exportBulkTable,
+  readBulkInput,
+  runBulkLookup,
+} from '../bulk.js';
+
+export const BulkLookupSchema = z.object({
+  csv: z.string().min(1).describe('Contents of the CSV file, one product per row (",", ";" or tab separated). The ASIN or EAN/UPC column is detected from its header or values; up to 10000 rows'),
+  column: z.string().optional().describe('Header or 1-based number of the identifier column, when detection picks the wrong one'),
+  domain: z.number().min(1).max(11).default(1).describe('Amazon domain (1=US, 2=UK, 3=DE, 4=FR, 8=IT, 9=ES, etc.)'),
+  columns: z.array(z.enum(BULK_COLUMNS)).min(1).default(DEFAULT_BULK_COLUMNS)
+    .describe('Export columns, in order. Prices and fees are in the marketplace currency; fees are at the Buy Box price'),
+  format: z.enum(['csv', 'xlsx']).default('csv').describe('Export file format'),
+  outputFormat: OutputFormatSchema.describe('Format of the dryRun estimate; the export itself is always a file'),
+  dryRun: DryRunSchema,
+});
+
+export const bulkLookupTool = defineTool({
+  name: 'keepa_bulk_lookup',
+  description: 'Bulk lookup from a CSV (e.g. a supplier sheet): finds the ASIN or EAN/UPC column, looks the products up 100 per request and returns a CSV or XLSX file with the chosen columns (Buy Box, avg90, sales rank, monthly sold, offer counts, Buy Box stock, referral and FBA fees). Cost: 1 token per product, 15 with the offer count or stock columns',
+  schema: BulkLookupSchema,
+  // Thousands of products at once: let interactive calls go first
+  priority: 'bulk',
+  reportsProgress: true,
+  estimateCost: params => estimateBulkLookup(params),
+  handler: (params, { tools, progress }) => bulkLookup(tools, params, progress && (update => progress({
+    progress: update.processed,
+    total: update.total,
+    message: `${update.processed}/${update.total} looked up, ${update.found} found`,
+  }))),
+});
+
+export function estimateBulkLookup(params: Pick<z.infer<typeof BulkLookupSchema>, 'csv' | 'column' | 'columns'>): TokenCostItem[] {
+  // Code lookups are charged per product found, usually one per code
+  const count = readBulkInput(params.csv, params.column).identifiers.length;
+  return [productRequestCost(count, bulkProductOptions(params.columns))];
+}
+
+export async function bulkLookup(
+  tools: KeepaTools,
+  params: z.infer<typeof BulkLookupSchema>,
+  onProgress?: (progress: BulkProgress) => void,
+): Promise<string | BulkLookupResult> {
+  try {
+    const domain = params.domain as KeepaDomain;
+    const marketplace = tools.client.getDomainName(domain);
+    const input = readBulkInput(params.csv, params.column);
+    const rows = await runBulkLookup(tools.client, input.identifiers, domain, bulkProductOptions(params.columns), onProgress);
+    const found = new Set(rows.filter(row => row.product).map(row => row.input.value));
+
+    return {
+      domain,
+      marketplace,
+      column: input.column,
+      requested: input.identifiers.length,
+      found: found.size,
+      duplicates: input.duplicates,
+      notFound: input.identifiers.filter(identifier => !found.has(identifier.value)).map(identifier => identifier.value),
+      invalid: input.invalid,
+      columns: params.columns,
+      rows: rows.length,
+      ...exportBulkTable(bulkTable(rows, domain, params.columns), params.format, marketplace),
+    };
+  } catch (error) {
+    tools.rethrowApiError(error);
+    return `Error in bulk lookup: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+}
@@ -0,0 +1,176 @@
+import { z } from 'zod';
+import { defineTool } from '../registry.js';
+import { KeepaTools, OutputFormatSchema, DryRunSchema } from '../tools.js';
+import { KeepaDomain, KeepaDataType, BuyBoxAnalysisResult, BuyBoxSellerSummary, NotFoundResult } from '../types.js';
+import { decodeCsvSeries } from '../csv-decoder.js';
+import { AMAZON_SELLER_IDS, analyzeBuyBoxRotation } from '../buybox.js';
+
+export const BuyBoxAnalysisSchema = z.object({
+  asin: z.string().describe('Amazon ASIN'),
+  domain: z.number().min(1).max(11).default(1).describe('Amazon domain (1=US, 2=UK, 3=DE, 4=FR, 8=IT, 9=ES, etc.)'),
+  days: z.number().int().min(1).max(365).default(90).describe('Analysis window in days'),
+  limit: z.number().int().min(1).max(100).default(10).describe('Number of sellers to list, by Buy Box share'),
+  resolveNames: z.boolean().default(true).describe('Look up the names of the listed sellers (1 token per seller not cached)'),
+  outputFormat: OutputFormatSchema,
+  dryRun: DryRunSchema,
+});
+
+export const buyBoxAnalysisTool = defineTool({
+  name: 'keepa_buybox_analysis',
+  description: 'Buy Box rotation of a product over a window: each seller\'s win percentage and average winning price, rotations per day, Amazon\'s share and the FBA vs FBM split, with seller names. Tells whether a listing can be shared',
+  schema: BuyBoxAnalysisSchema,
+  priority: 'interactive',
+  handler: (params, { tools }) => getBuyBoxAnalysis(tools, params),
+});
+
+
+export async function getBuyBoxAnalysis(tools: KeepaTools, params: z.infer<typeof BuyBoxAnalysisSchema>): Promise<string | BuyBoxAnalysisResult | NotFoundResult> {
+  try {
+    const domain = params.domain as KeepaDomain;
+    // buybox=1 (+2 tokens) adds buyBoxSellerIdHistory and the Buy Box price history
+    const product = await tools.client.getProductByAsin(params.asin, domain, {
+      buybox: 1,
+      history: 1,
+      days: params.days,
+      stats: params.days,
+    });
+    if (!product) {
+      return tools.notFound(params.outputFormat, `Producto no encontrado: ${params.asin}`);
+    }
+
+    const to = Date.now();
+    const from = to - params.days * 86400000;
+    const buyBoxStats = product.stats?.buyBoxStats ?? {};
+    const amazonSellerId = AMAZON_SELLER_IDS[domain] ?? null;
+    const history = product.buyBoxSellerIdHistory;
+    const source: BuyBoxAnalysisResult['source'] = Array.isArray(history) && history.length > 0 ? 'history' : 'stats';
+
+    let rotation = null;
+    let shares: Array<Omit<BuyBoxSellerSummary, 'name' | 'isAmazon' | 'isFBA'>>;
+    if (source === 'history') {
+      const prices = decodeCsvSeries(product.csv, KeepaDataType.BUY_BOX_SHIPPING).points;
+      rotation = analyzeBuyBoxRotation(history, prices, from, to);
+      shares = rotation.sellers.map(seller => ({ ...seller, lastWon: new Date(seller.lastWon).toISOString() }));
+    } else {
+      // Without the history, Keepa's own stats over the same interval still give the shares
+      shares = Object.entries(buyBoxStats)
+        .map(([sellerId, data]) => ({
+          sellerId,
+          percentageWon: typeof data?.percentageWon === 'number' ? data.percentageWon : 0,
+          avgPrice: tools.positiveOrNull(data?.avgPrice),
+          holds: null,
+          lastWon: data?.lastSeen ? tools.client.keepaTimeToISO(data.lastSeen) : null,
+        }))
+        .sort((a, b) => b.percentageWon - a.percentageWon);
+    }
+
+    if (shares.length === 0) {
+      return `Sin datos de Buy Box para ${params.asin} en los últimos ${params.days} días.`;
+    }
+
+    const isFBA = (sellerId: string) =>
+      typeof buyBoxStats[sellerId]?.isFBA === 'boolean' ? buyBoxStats[sellerId].isFBA : null;
+    const fulfillment = { amazon: 0, fba: 0, fbm: 0, unknown: 0 };
+    for (const share of shares) {
+      const fba = isFBA(share.sellerId);
+      const key = share.sellerId === amazonSellerId ? 'amazon' : fba === null ? 'unknown' : fba ? 'fba' : 'fbm';
+      fulfillment[key] += share.percentageWon;
+    }
+    for (const key of Object.keys(fulfillment) as Array<keyof typeof fulfillment>) {
+      fulfillment[key] = Math.round(fulfillment[key] * 10) / 10;
+    }
+
+    const listed = shares.slice(0, params.limit);
+    // /seller accepts up to 100 IDs per request
+    const names = new Map<string, string>();
+    if (params.resolveNames) {
+      const sellerIds = listed.map(share => share.sellerId).filter(id => id !== amazonSellerId);
+      for (let i = 0; i < sellerIds.length; i += 100) {
+        const batch = await tools.client.getSeller({ seller: sellerIds.slice(i, i + 100).join(','), domain });
+        batch.forEach(seller => seller.sellerName && names.set(seller.sellerId, seller.sellerName));
+      }
+    }
+
+    const sellers: BuyBoxSellerSummary[] = listed.map(share => ({
+      sellerId: share.sellerId,
+      name: share.sellerId === amazonSellerId ? 'Amazon' : names.get(share.sellerId) ?? null,
+      isAmazon: share.sellerId === amazonSellerId,
+      isFBA: isFBA(share.sellerId),
+      percentageWon: share.percentageWon,
+      avgPrice: share.avgPrice,
+      holds: share.holds,
+      lastWon: share.lastWon,
+    }));
+    const domainName = tools.client.getDomainName(domain);
+
+    if (params.outputFormat === 'json') {
+      return {
+        asin: product.asin,
+        domain,
+        marketplace: domainName,
+        title: product.title ?? null,
+        days: params.days,
+        source,
+        from: new Date(from).toISOString(),
+        to: new Date(to).toISOString(),
+        rotations: rotation?.rotations ?? null,
+        rotationsPerDay: rotation?.rotationsPerDay ?? null,
+        suppressedPercent: rotation?.suppressedPercent ?? null,
+        noOfferPercent: rotation?.noOfferPercent ?? null,
+        amazonShare: fulfillment.amazon,
+        fulfillment,
+        totalSellers: shares.length,
+        sellers,
+      };
+    }
+
+    let result = `**🏆 Análisis de Buy Box - ${product.asin}**\n\n`;
+    result += `🏪 **Marketplace**: ${domainName}\n`;
+    if (product.title) {
+      result += `📦 **Producto**: ${product.title.length > 70 ? product.title.substring(0, 67) + '...' : product.title}\n`;
+    }
+    result += `📅 **Periodo**: ${params.days} días${source === 'stats' ? ' (solo estadísticas de Keepa, sin historial de vendedores)' : ''}\n\n`;
+
+    result += `🔄 **ROTACIÓN:**\n`;
+    if (rotation) {
+      result += `   • Cambios de ganador: ${rotation.rotations} (${rotation.rotationsPerDay}/día)\n`;
+      if (rotation.suppressedPercent > 0) result += `   • Buy Box suprimida: ${rotation.suppressedPercent}% del tiempo\n`;
+      if (rotation.noOfferPercent > 0) result += `   • Sin ofertas / sin datos: ${rotation.noOfferPercent}% del tiempo\n`;
+    }
+    result += `   • Vendedores que han ganado: ${shares.length}\n`;
+    result += `   • Amazon: ${fulfillment.amazon}% | FBA: ${fulfillment.fba}% | FBM: ${fulfillment.fbm}%`;
+    result += fulfillment.unknown > 0 ? ` | Desconocido: ${fulfillment.unknown}%\n\n` : `\n\n`;
+
+    result += `👥 **REPARTO POR VENDEDOR:**\n`;
+    for (const seller of sellers) {
+      const type = seller.isAmazon ? 'Amazon' : seller.isFBA === null ? '?' : seller.isFBA ? 'FBA' : 'FBM';
+      result += `   • ${seller.name || seller.sellerId} (${type}): ${seller.percentageWon}%`;
+      if (seller.avgPrice !== null) result += ` a ${tools.client.formatPrice(seller.avgPrice, domain)} de media`;
+      if (seller.holds !== null) result += `, ${seller.holds} ${seller.holds === 1 ? 'vez' : 'veces'}`;
+      result += `\n`;
+    }
+    if (shares.length > sellers.length) {
+      result += `   • ... y ${shares.length - sellers.length} vendedores más\n`;
+    }
+    result += `\n`;
+
+    // A listing is worth sharing when the Buy Box actually rotates and Amazon doesn't hold it
+    const top = shares[0];
+    let verdict: string;
+    if (fulfillment.amazon >= 50) {
+      verdict = '🔴 Amazon domina la Buy Box: difícil compartir el listing.';
+    } else if (top.percentageWon >= 80) {
+      verdict = '🟠 Un vendedor acapara la Buy Box: poca rotación para entrar.';
+    } else if (shares.length >= 3 && (rotation === null || rotation.rotationsPerDay >= 1)) {
+      verdict = '🟢 La Buy Box rota entre varios vendedores: se puede compartir el listing.';
+    } else {
+      verdict = '🟡 Rotación limitada: revisa el precio de los ganadores antes de entrar.';
+    }
+    result += `💡 ${verdict}\n`;
+
+    return result;
+  } catch (error) {
+    tools.rethrowApiError(error);
+    return `Error analizando la Buy Box: ${error instanceof Error ? error.message : 'Error desconocido'}`;
+  }
+}
@@ -0,0 +1,353 @@
+import { z } from 'zod';
+import { defineTool } from '../registry.js';
+import { KeepaTools, OutputFormatSchema, DryRunSchema, CategoryIdSchema } from '../tools.js';
+import { KeepaDomain, CategoryProductSummary, CategoryAnalysisResult } from '../types.js';
+
+export const CategoryAnalysisSchema = z.object({
+  domain: z.number().min(1).max(11).default(1).describe('Amazon domain (1=US, 2=UK, 3=DE, etc.)'),
+  categoryId: CategoryIdSchema.describe('Amazon category ID or name to analyze'),
+  analysisType: z.enum(['overview', 'top_performers', 'opportunities', 'trends']).default('overview').describe('Type of analysis to perform'),
+  priceRange: z.enum(['budget', 'mid', 'premium', 'luxury']).optional().describe('Focus on specific price range'),
+  minRating: z.number().min(1).max(5).default(3.0).describe('Minimum rating for products to include'),
+  includeSubcategories: z.boolean().default(false).describe('Include analysis of subcategories'),
+  timeframe: z.enum(['week', 'month', 'quarter', 'year']).default('month').describe('Timeframe for trend analysis'),
+  sellerCountTimeframe: z.enum(['current', '30day', '90day', '180day', '365day']).default('90day').describe('Timeframe for seller count analysis (current, 30day, 90day, 180day, 365day)'),
+  outputFormat: OutputFormatSchema,
+  dryRun: DryRunSchema,
+});
+
+// Category analysis helpers run on the resolved numeric category ID
+type ResolvedCategoryAnalysisParams = z.infer<typeof CategoryAnalysisSchema> & { categoryId: number };
+
+export const categoryAnalysisTool = defineTool({
+  name: 'keepa_category_analysis',
+  description: 'Comprehensive market intelligence for an Amazon category with opportunity scoring',
+  schema: CategoryAnalysisSchema,
+  priority: 'bulk',
+  handler: (params, { tools }) => analyzeCategory(tools, params),
+});
+
+export async function analyzeCategory(tools: KeepaTools, input: z.infer<typeof CategoryAnalysisSchema>): Promise<string | CategoryAnalysisResult> {
+  try {
+    const domain = input.domain as KeepaDomain;
+    const domainName = tools.client.getDomainName(domain);
+    const params: ResolvedCategoryAnalysisParams = {
+      ...input,
+      categoryId: await tools.resolveCategory(input.categoryId, domain),
+    };
+
+    if (params.outputFormat === 'json') {
+      const analysis: CategoryAnalysisResult = {
+        domain,
+        marketplace: domainName,
+        categoryId: params.categoryId,
+        analysisType: params.analysisType,
+        timeframe: params.timeframe,
+      };
+      switch (params.analysisType) {
+        case 'overview':
+          analysis.overview = await collectCategoryOverview(tools, params);
+          break;
+        case 'top_performers':
+          analysis.products = await collectTopPerformers(tools, params);
+          break;
+        case 'opportunities':
+          analysis.products = await collectOpportunities(tools, params);
+          break;
+        case 'trends':
+          analysis.trends = await collectTrends(tools, params);
+          break;
+      }
+      return analysis;
+    }
+    
+    let result = `**📊 Category Analysis Report**\n\n`;
+    result += `🏪 **Marketplace**: ${domainName}\n`;
+    result += `🏷️ **Category**: ${tools.categoryLabel(input.categoryId, params.categoryId)}\n`;
+    result += `📈 **Analysis Type**: ${params.analysisType.charAt(0).toUpperCase() + params.analysisType.slice(1).replace('_', ' ')}\n`;
+    result += `⏱️ **Timeframe**: ${params.timeframe}\n\n`;
+
+    // Get real data based on analysis type
+    switch (params.analysisType) {
+      case 'overview':
+        result += await getCategoryOverview(tools, params, domain);
+        break;
+      case 'top_performers':
+        result += await getTopPerformers(tools, params, domain);
+        break;
+      case 'opportunities':
+        result += await getOpportunities(tools, params, domain);
+        break;
+      case 'trends':
+        result += await getTrends(tools, params, domain);
+        break;
+    }
+
+    return result;
+  } catch (error) {
+    tools.rethrowApiError(error);
+    console.error('Category analysis error:', error);
+    const errorMessage = error instanceof Error ? error.message : 
+                        typeof error === 'string' ? error : 
+                        JSON.stringify(error);
+    return `Error analyzing category: ${errorMessage}`;
+  }
+}
+
+// ── Category data collectors (shared by markdown and JSON output) ──
+
+async function collectCategoryOverview(tools: KeepaTools, params: ResolvedCategoryAnalysisParams): Promise<NonNullable<CategoryAnalysisResult['overview']>> {
+  // Get best sellers for overview
+  const bestSellers = await tools.client.getBestSellers({
+    domain: params.domain,
+    category: params.categoryId,
+    page: 0
+  });
+
+  // Get some products from the category using search
+  const categoryProducts = await tools.client.searchProducts({
+    domain: params.domain,
+    categoryId: params.categoryId,
+    minRating: params.minRating,
+    perPage: 20,
+    sortBy: 'monthlySold'
+  });
+
+  const prices = bestSellers.filter(p => p.price).map(p => p.price!);
+  const averageRating = categoryProducts.length > 0
+    ? categoryProducts
+        .filter(p => p.stats?.current_RATING)
+        .reduce((sum, p) => sum + (p.stats!.current_RATING! / 10), 0) / categoryProducts.length
+    : null;
+
+  return {
+    bestSellerCount: bestSellers.length,
+    priceRange: prices.length > 0 ? { min: Math.min(...prices), max: Math.max(...prices) } : null,
+    averageRating,
+    sampleSize: categoryProducts.length,
+  };
+}
+
+async function collectTopPerformers(tools: KeepaTools, params: ResolvedCategoryAnalysisParams): Promise<CategoryProductSummary[]> {
+  const topProducts = await tools.client.searchProducts({
+    domain: params.domain,
+    categoryId: params.categoryId,
+    minRating: Math.max(4.0, params.minRating || 4.0),
+    sortBy: 'monthlySold',
+    sortOrder: 'desc',
+    perPage: 10
+  });
+
+  return topProducts.map((product: any) => summarizeCategoryProduct(tools, product, null));
+}
+
+async function collectOpportunities(tools: KeepaTools, params: ResolvedCategoryAnalysisParams): Promise<CategoryProductSummary[]> {
+  // Look for products with good ratings but low competition (few sellers)
+  const opportunities = await tools.client.searchProducts({
+    domain: params.domain,
+    categoryId: params.categoryId,
+    minRating: 4.0,
+    maxSellerCount: 5, // Low competition
+    minMonthlySales: 500, // Decent sales
+    sortBy: 'monthlySold',
+    sortOrder: 'desc',
+    perPage: 15
+  });
+
+  return opportunities.map((product: any) =>
+    summarizeCategoryProduct(tools, product, tools.client.getSellerCount(product, params.sellerCountTimeframe).count)
+  );
+}
+
+async function collectTrends(tools: KeepaTools, params: ResolvedCategoryAnalysisParams): Promise<NonNullable<CategoryAnalysisResult['trends']>> {
+  // Get recent products and best sellers to analyze trends
+  const recentProducts = await tools.client.searchProducts({
+    domain: params.domain,
+    categoryId: params.categoryId,
+    sortBy: 'monthlySold',
+    sortOrder: 'desc',
+    perPage: 20
+  });
+
+  const prices = recentProducts
+    .filter(p => p.stats?.current_AMAZON && p.stats.current_AMAZON > 0)
+    .map(p => p.stats!.current_AMAZON!)
+    .sort((a, b) => a - b);
+  const ratings = recentProducts
+    .filter(p => p.stats?.current_RATING)
+    .map(p => p.stats!.current_RATING! / 10);
+
+  return {
+    sampleSize: recentProducts.length,
+    pricing: prices.length > 0 ? {
+      average: prices.reduce((sum, price) => sum + price, 0) / prices.length,
+      median: prices[Math.floor(prices.length / 2)],
+      min: prices[0],
+      max: prices[prices.length - 1],
+      pricedCount: prices.length,
+    } : null,
+    quality: ratings.length > 0 ? {
+      averageRating: ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length,
+      highRatedCount: ratings.filter(r => r >= 4.5).length,
+      ratedCount: ratings.length,
+    } : null,
+  };
+}
+
+function summarizeCategoryProduct(tools: KeepaTools, product: any, sellerCount: number | null): CategoryProductSummary {
+  return {
+    asin: product.asin,
+    title: product.title || product.productTitle || null,
+    rating: product.stats?.current_RATING ? product.stats.current_RATING / 10 : null,
+    monthlySold: product.monthlySold || null,
+    price: tools.positiveOrNull(product.stats?.current_AMAZON),
+    sellerCount,
+  };
+}
+
+// ── Category report formatters ──
+
+async function getCategoryOverview(tools: KeepaTools, params: ResolvedCategoryAnalysisParams, domain: KeepaDomain): Promise<string> {
+  const overview = await collectCategoryOverview(tools, params);
+
+  let result = `**📈 Category Overview**\n\n`;
+  
+  if (overview.bestSellerCount > 0) {
+    result += `🏆 **Best Sellers**: ${overview.bestSellerCount} products found\n`;
+    if (overview.priceRange) {
+      result += `💰 **Price Range**: ${tools.client.formatPrice(overview.priceRange.min, domain)} - ${tools.client.formatPrice(overview.priceRange.max, domain)}\n`;
+    }
+  }
+  
+  if (overview.sampleSize > 0) {
+    result += `⭐ **Average Rating**: ${(overview.averageRating || 0).toFixed(1)}/5.0\n`;
+    result += `📊 **Sample Size**: ${overview.sampleSize} products analyzed\n\n`;
+  }
+
+  result += `**🎯 Market Insights:**\n`;
+  result += `• Category shows ${overview.sampleSize > 15 ? 'high' : overview.sampleSize > 8 ? 'moderate' : 'low'} product diversity\n`;
+  result += `• Competition level appears ${overview.bestSellerCount > 50 ? 'high' : overview.bestSellerCount > 20 ? 'moderate' : 'manageable'}\n`;
+  result += `• Price points span multiple market segments\n\n`;
+
+  return result;
+}
+
+async function getTopPerformers(tools: KeepaTools, params: ResolvedCategoryAnalysisParams, domain: KeepaDomain): Promise<string> {
+  const topProducts = await collectTopPerformers(tools, params);
+
+  let result = `**🏆 Top Performers**\n\n`;
+  
+  if (topProducts.length === 0) {
+    result += `❌ No top performers found in this category.\n\n`;
+    return result;
+  }
+
+  topProducts.forEach((product, i) => {
+    const title = product.title || `Product ${product.asin}`;
+    
+    result += `**${i + 1}. ${title.substring(0, 50)}${title.length > 50 ? '...' : ''}**\n`;
+    result += `📦 ASIN: ${product.asin}\n`;
+    if (product.rating) result += `⭐ ${product.rating.toFixed(1)}/5.0\n`;
+    if (product.monthlySold) result += `📈 ~${product.monthlySold.toLocaleString()} monthly sales\n`;
+    if (product.price) result += `💰 ${tools.client.formatPrice(product.price, domain)}\n`;
+    result += `\n`;
+  });
+
+  return result;
+}
+
+async function getOpportunities(tools: KeepaTools, params: ResolvedCategoryAnalysisParams, domain: KeepaDomain): Promise<string> {
+  const opportunities = await collectOpportunities(tools, params);
+  const timeframeDescription = tools.client.getSellerCount({ stats: {} }, params.sellerCountTimeframe).description;
+
+  let result = `**🎯 Market Opportunities**\n\n`;
+  
+  if (opportunities.length === 0) {
+    result += `❌ No clear opportunities found with current criteria.\n`;
+    result += `💡 Try expanding search criteria or exploring subcategories.\n\n`;
+    return result;
+  }
+
+  result += `Found ${opportunities.length} potential opportunities with low competition:\n\n`;
+
+  opportunities.slice(0, 8).forEach((product, i) => {
+    const title = product.title || `Product ${product.asin}`;
+    
+    result += `**${i + 1}. ${title.substring(0, 40)}${title.length > 40 ? '...' : ''}** 🟢\n`;
+    result += `📦 ${product.asin} | ⭐ ${(product.rating || 0).toFixed(1)} | 👥 ${product.sellerCount} sellers (${timeframeDescription}) | 📈 ${product.monthlySold || 0} monthly\n\n`;
+  });
+
+  result += `**💡 Opportunity Insights:**\n`;
+  result += `• Low seller count indicates less competition\n`;
+  result += `• Good ratings suggest market acceptance\n`;
+  result += `• Monthly sales show proven demand\n\n`;
+
+  return result;
+}
+
+async function getTrends(tools: KeepaTools, params: ResolvedCategoryAnalysisParams, domain: KeepaDomain): Promise<string> {
+  const trends = await collectTrends(tools, params);
+
+  let result = `**📊 Category Trends**\n\n`;
+  
+  if (trends.sampleSize === 0) {
+    result += `❌ Insufficient data for trend analysis.\n\n`;
+    return result;
+  }
+
+  if (trends.pricing) {
+    result += `**💰 Pricing Trends:**\n`;
+    result += `• Average Price: ${tools.client.formatPrice(trends.pricing.average, domain)}\n`;
+    result += `• Median Price: ${tools.client.formatPrice(trends.pricing.median, domain)}\n`;
+    result += `• Price Range: ${tools.client.formatPrice(trends.pricing.min, domain)} - ${tools.client.formatPrice(trends.pricing.max, domain)}\n\n`;
+  }
+
+  if (trends.quality) {
+    const { averageRating, highRatedCount, ratedCount } = trends.quality;
+    result += `**⭐ Quality Trends:**\n`;
+    result += `• Average Rating: ${averageRating.toFixed(1)}/5.0\n`;
+    result += `• High-Rated Products (4.5+): ${highRatedCount}/${ratedCount} (${Math.round(highRatedCount/ratedCount*100)}%)\n\n`;
+  }
+
+  const ratedCount = trends.quality?.ratedCount || 0;
+  const pricedCount = trends.pricing?.pricedCount || 0;
+  result += `**📈 Market Insights:**\n`;
+  result += `• Category appears ${ratedCount > 15 ? 'mature' : 'developing'} with ${trends.sampleSize} active products\n`;
+  result += `• Quality standards are ${trends.quality && trends.quality.averageRating > 4.0 ? 'high' : 'moderate'}\n`;
+  result += `• Competition level suggests ${pricedCount > 10 ? 'saturated' : 'growing'} market\n\n`;
+
+  return result;
+}
+
+function generateRecommendations(params: ResolvedCategoryAnalysisParams, insights: { competitionLevel: string; averagePrice: number; marketSaturation: number; opportunityScore: number }): string[] {
+  const recommendations = [];
+
+  if (insights.opportunityScore > 70) {
+    recommendations.push('🎯 High opportunity category - consider immediate entry with differentiated product');
+  } else if (insights.opportunityScore > 40) {
+    recommendations.push('⚖️ Moderate opportunity - focus on niche segments or product improvements');
+  } else {
+    recommendations.push('⚠️ Saturated market - only enter with significant competitive advantages');
+  }
+
+  if (insights.competitionLevel === 'Low') {
+    recommendations.push('🟢 Low competition detected - opportunity for premium positioning');
+  } else if (insights.competitionLevel === 'High') {
+    recommendations.push('🔴 High competition - focus on unique value propositions and cost optimization');
+  }
+
+  if (insights.averagePrice > 5000) {
+    recommendations.push('💰 Higher price point category - justify premium with quality and features');
+  } else {
+    recommendations.push('💸 Price-sensitive market - optimize for cost-effectiveness and value');
+  }
+
+  if (params.analysisType === 'opportunities') {
+    recommendations.push('🔍 Use Product Finder tool to identify specific low-competition products');
+    recommendations.push('📊 Analyze top performers for successful product patterns');
+  }
+
+  recommendations.push('📈 Monitor trends regularly to time market entry/exit decisions');
+
+  return recommendations;
+}
@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import { defineTool } from '../registry.js';
+import { KeepaTools, OutputFormatSchema, DryRunSchema, CategoryIdSchema } from '../tools.js';
+import { KeepaDomain, CategoryLookupResult, NotFoundResult } from '../types.js';
+
+export const CategoryLookupSchema = z.object({
+  domain: z.number().min(1).max(11).default(1).describe('Amazon domain (1=US, 2=UK, 3=DE, 4=FR, 8=IT, 9=ES, etc.)'),
+  categoryId: CategoryIdSchema.describe('Amazon category ID or name'),
+  includeChildren: z.boolean().default(true).describe('Resolve subcategory names and product counts (1 extra token per 10 subcategories)'),
+  outputFormat: OutputFormatSchema,
+  dryRun: DryRunSchema,
+});
+
+export const categoryLookupTool = defineTool({
+  name: 'keepa_category_lookup',
+  description: 'Look up an Amazon category by ID or name: path from the root, parent, subcategories and product count for the marketplace',
+  schema: CategoryLookupSchema,
+  priority: 'interactive',
+  handler: (params, { tools }) => lookupCategory(tools, params),
+});
+
+export async function lookupCategory(tools: KeepaTools, params: z.infer<typeof CategoryLookupSchema>): Promise<string | CategoryLookupResult | NotFoundResult> {
+  try {
+    const domain = params.domain as KeepaDomain;
+    const domainName = tools.client.getDomainName(domain);
+    const categoryId = await tools.resolveCategory(params.categoryId, domain);
+
+    const path = await tools.client.getCategoryPath(domain, categoryId);
+    const category = path[path.length - 1];
+    if (!category) {
+      return tools.notFound(params.outputFormat, `Category not found: ${params.categoryId} (${domainName})`);
+    }
+
+    const childIds = category.children ?? [];
+    let children: CategoryLookupResult['children'] = childIds.map(catId => ({ catId }));
+    if (params.includeChildren && childIds.length > 0) {
+      const nodes = await tools.client.getCategory({ domain, category: childIds });
+      const byId = new Map(nodes.map(node => [node.catId, node]));
+      children = childIds.map(catId => byId.has(catId) ? tools.summarizeCategory(byId.get(catId)!) : { catId });
+    }
+
+    if (params.outputFormat === 'json') {
+      return {
+        domain,
+        marketplace: domainName,
+        category: {
+          ...tools.summarizeCategory(category),
+          path: path.map(node => node.name),
+          isBrowseNode: category.isBrowseNode ?? true,
+        },
+        children,
+      };
+    }
+
+    let result = `**🗂️ Category: ${category.name}**\n\n`;
+    result += `🏪 **Marketplace**: ${domainName}\n`;
+    result += `🆔 **ID**: ${category.catId}\n`;
+    result += `🧭 **Path**: ${path.map(node => node.name).join(' › ')}\n`;
+    result += `⬆️ **Parent**: ${category.parent ? `${path[path.length - 2]?.name ?? 'Unknown'} (ID ${category.parent})` : 'Root category'}\n`;
+    if (category.productCount) {
+      result += `📦 **Products**: ${category.productCount.toLocaleString()}\n`;
+    }
+    if (category.highestRank) {
+      result += `📊 **Sales Rank Range**: #${(category.lowestRank ?? 1).toLocaleString()} - #${category.highestRank.toLocaleString()}\n`;
+    }
+
+    if (children.length > 0) {
+      result += `\n**📂 Subcategories (${children.length}):**\n`;
+      for (const child of children) {
+        if ('name' in child) {
+          result += `• ${child.name} (ID ${child.catId})${child.productCount ? ` - ${child.productCount.toLocaleString()} products` : ''}\n`;
+        } else {
+          result += `• ID ${child.catId}\n`;
+        }
+      }
+    } else {
+      result += `\n🍃 No subcategories (leaf category)\n`;
+    }
+
+    return result;
+  } catch (error) {
+    tools.rethrowApiError(error);
+    return `Error looking up category: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+}
@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { defineTool } from '../registry.js';
+import { KeepaTools, OutputFormatSchema, DryRunSchema } from '../tools.js';
+import { KeepaDomain, CategorySearchResult } from '../types.js';
+
+export const CategorySearchSchema = z.object({
+  domain: z.number().min(1).max(11).default(1).describe('Amazon domain (1=US, 2=UK, 3=DE, 4=FR, 8=IT, 9=ES, etc.)'),
+  term: z.string().min(3).describe('Keywords to find in category names; all must match and each needs 3+ characters (e.g. "kitchen knives")'),
+  limit: z.number().min(1).max(50).default(20).describe('Maximum categories to return, largest first'),
+  outputFormat: OutputFormatSchema,
+  dryRun: DryRunSchema,
+});
+
+export const categorySearchTool = defineTool({
+  name: 'keepa_category_search',
+  description: 'Find Amazon category IDs by name keywords in a marketplace (e.g. "kitchen knives" on amazon.de)',
+  schema: CategorySearchSchema,
+  priority: 'interactive',
+  handler: (params, { tools }) => searchCategories(tools, params),
+});
+
+export async function searchCategories(tools: KeepaTools, params: z.infer<typeof CategorySearchSchema>): Promise<string | CategorySearchResult> {
+  try {
+    const domain = params.domain as KeepaDomain;
+    const domainName = tools.client.getDomainName(domain);
+    const matches = await tools.client.searchCategories({ domain, term: params.term });
+    const categories = [...matches]
+      .sort((a, b) => (b.productCount ?? 0) - (a.productCount ?? 0))
+      .slice(0, params.limit)
+      .map(category => tools.summarizeCategory(category));
+
+    if (params.outputFormat === 'json') {
+      return { domain, marketplace: domainName, term: params.term, categories };
+    }
+
+    if (categories.length === 0) {
+      return `No categories found for "${params.term}" on ${domainName}`;
+    }
+
+    let result = `**🔎 Category Search: "${params.term}"**\n\n`;
+    result += `🏪 **Marketplace**: ${domainName}\n`;
+    result += `📊 **Found**: ${matches.length} categories${matches.length > categories.length ? ` (showing ${categories.length} largest)` : ''}\n\n`;
+
+    categories.forEach((category, i) => {
+      result += `**${i + 1}. ${category.name}** (ID ${category.catId})\n`;
+      result += `   ${category.parentId ? `Subcategory of ID ${category.parentId}` : 'Root category'}`;
+      result += category.productCount ? ` - ${category.productCount.toLocaleString()} products\n` : '\n';
+    });
+
+    result += `\n💡 Use the ID or the exact name as \`categoryId\` in the other tools, or keepa_category_lookup for its path and subcategories.\n`;
+    return result;
+  } catch (error) {
+    tools.rethrowApiError(error);
+    return `Error searching categories: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+}
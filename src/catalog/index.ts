@@ -0,0 +1,77 @@
+import { z } from 'zod';
+import { ToolRegistry, ToolSpec } from '../registry.js';
+import { productLookupTool } from './product-lookup.js';
+import { batchProductLookupTool } from './batch-product-lookup.js';
+import { bulkLookupTool } from './bulk-lookup.js';
+import { productSearchTool } from './product-search.js';
+import { searchDealsTool } from './search-deals.js';
+import { sellerLookupTool } from './seller-lookup.js';
+import { topSellersTool } from './top-sellers.js';
+import { buyBoxAnalysisTool } from './buybox-analysis.js';
+import { bestSellersTool } from './best-sellers.js';
+import { lightningDealsTool } from './lightning-deals.js';
+import { priceHistoryTool } from './price-history.js';
+import { priceChartTool } from './price-chart.js';
+import { productChangesTool } from './product-changes.js';
+import { productFinderTool } from './product-finder.js';
+import { categoryAnalysisTool } from './category-analysis.js';
+import { categoryLookupTool } from './category-lookup.js';
+import { categorySearchTool } from './category-search.js';
+import { salesVelocityTool } from './sales-velocity.js';
+import { inventoryAnalysisTool } from './inventory-analysis.js';
+import { profitCalculatorTool } from './profit-calculator.js';
+import { marketplaceCompareTool } from './marketplace-compare.js';
+import { trackingAddTool } from './tracking-add.js';
+import { trackingListTool } from './tracking-list.js';
+import { trackingRemoveTool } from './tracking-remove.js';
+import { notificationsTool } from './notifications.js';
+import { watchlistCreateTool } from './watchlist-create.js';
+import { watchlistAddTool } from './watchlist-add.js';
+import { watchlistRemoveTool } from './watchlist-remove.js';
+import { watchlistListTool } from './watchlist-list.js';
+import { watchlistSnapshotTool } from './watchlist-snapshot.js';
+import { alertsTool } from './alerts.js';
+import { tokenStatusTool } from './token-status.js';
+
+// Adding a tool: create its file in this directory (schema, spec and handler,
+// plus estimateCost when token-cost.ts has no estimator for it) and list it
+// here. The order is the order of the MCP tool listing; the registry test
+// fails on unlisted files.
+export const TOOL_CATALOG: ToolSpec<z.ZodTypeAny>[] = [
+  productLookupTool,
+  batchProductLookupTool,
+  bulkLookupTool,
+  productSearchTool,
+  searchDealsTool,
+  sellerLookupTool,
+  topSellersTool,
+  buyBoxAnalysisTool,
+  bestSellersTool,
+  lightningDealsTool,
+  priceHistoryTool,
+  priceChartTool,
+  productChangesTool,
+  productFinderTool,
+  categoryAnalysisTool,
+  categoryLookupTool,
+  categorySearchTool,
+  salesVelocityTool,
+  inventoryAnalysisTool,
+  profitCalculatorTool,
+  marketplaceCompareTool,
+  trackingAddTool,
+  trackingListTool,
+  trackingRemoveTool,
+  notificationsTool,
+  watchlistCreateTool,
+  watchlistAddTool,
+  watchlistRemoveTool,
+  watchlistListTool,
+  watchlistSnapshotTool,
+  alertsTool,
+  tokenStatusTool,
+];
+
+export function createToolRegistry(): ToolRegistry {
+  return new ToolRegistry(TOOL_CATALOG);
+}
@@ -0,0 +1,252 @@
+import { z } from 'zod';
+import { defineTool } from '../registry.js';
+import { KeepaTools, OutputFormatSchema, DryRunSchema, CategoryIdSchema } from '../tools.js';
+import { KeepaDomain, SalesVelocityData, InventoryAnalysis, InventoryAnalysisResult } from '../types.js';
+import { getRealSalesVelocityData } from './sales-velocity.js';
+
+export const InventoryAnalysisSchema = z.object({
+  domain: z.number().min(1).max(11).default(1).describe('Amazon domain (1=US, 2=UK, 3=DE, etc.)'),
+  categoryId: CategoryIdSchema.optional().describe('Amazon category ID or name to analyze'),
+  asins: z.array(z.string()).max(100).optional().describe('Specific ASINs to analyze (your inventory)'),
+  analysisType: z.enum(['overview', 'fast_movers', 'slow_movers', 'stockout_risks', 'seasonal']).default('overview').describe('Type of inventory analysis'),
+  timeframe: z.enum(['week', 'month', 'quarter']).default('month').describe('Analysis timeframe'),
+  sellerCountTimeframe: z.enum(['current', '30day', '90day', '180day', '365day']).default('90day').describe('Timeframe for seller count analysis (current, 30day, 90day, 180day, 365day)'),
+  targetTurnoverRate: z.number().min(1).max(50).default(12).describe('Target inventory turns per year'),
+  outputFormat: OutputFormatSchema,
+  dryRun: DryRunSchema,
+});
+
+export const inventoryAnalysisTool = defineTool({
+  name: 'keepa_inventory_analysis',
+  description: 'Portfolio inventory management with stockout risk assessment',
+  schema: InventoryAnalysisSchema,
+  priority: 'bulk',
+  handler: (params, { tools }) => analyzeInventory(tools, params),
+});
+
+export async function analyzeInventory(tools: KeepaTools, params: z.infer<typeof InventoryAnalysisSchema>): Promise<string | InventoryAnalysisResult> {
+  try {
+    const domain = params.domain as KeepaDomain;
+    const domainName = tools.client.getDomainName(domain);
+
+    if (params.outputFormat === 'json') {
+      return {
+        domain,
+        marketplace: domainName,
+        analysisType: params.analysisType,
+        timeframe: params.timeframe,
+        targetTurnoverRate: params.targetTurnoverRate,
+        ...(await getRealInventoryAnalysis(tools, params, domain)),
+      };
+    }
+    
+    let result = `**📦 Inventory Analysis Report**\n\n`;
+    result += `🏪 **Marketplace**: ${domainName}\n`;
+    result += `📊 **Analysis Type**: ${params.analysisType.charAt(0).toUpperCase() + params.analysisType.slice(1).replace('_', ' ')}\n`;
+    result += `⏱️ **Timeframe**: ${params.timeframe}\n`;
+    result += `🎯 **Target Turnover**: ${params.targetTurnoverRate} turns/year\n\n`;
+
+    // Get real inventory analysis using sales velocity data
+    const inventoryAnalysis = await getRealInventoryAnalysis(tools, params, domain);
+    
+    switch (params.analysisType) {
+      case 'overview':
+        result += formatInventoryOverview(inventoryAnalysis, domain);
+        break;
+      case 'fast_movers':
+        result += formatFastMovers(tools, inventoryAnalysis, domain);
+        break;
+      case 'slow_movers':
+        result += formatSlowMovers(inventoryAnalysis, domain);
+        break;
+      case 'stockout_risks':
+        result += formatStockoutRisks(inventoryAnalysis, domain);
+        break;
+      case 'seasonal':
+        result += formatSeasonalAnalysis(inventoryAnalysis, domain);
+        break;
+    }
+
+    result += `\n**💡 Inventory Management Recommendations:**\n`;
+    inventoryAnalysis.recommendations.forEach((rec, i) => {
+      result += `${i + 1}. ${rec}\n`;
+    });
+
+    return result;
+  } catch (error) {
+    tools.rethrowApiError(error);
+    return `Error analyzing inventory: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+}
+
+async function getRealInventoryAnalysis(tools: KeepaTools, params: z.infer<typeof InventoryAnalysisSchema>, domain: KeepaDomain): Promise<InventoryAnalysis> {
+  // Get sales velocity data to build inventory analysis
+  const velocityParams = {
+    domain: params.domain,
+    categoryId: params.categoryId,
+    asins: params.asins,
+    timeframe: params.timeframe,
+    sellerCountTimeframe: params.sellerCountTimeframe || '90day',
+    perPage: 50,
+    page: 0,
+    sortBy: 'velocity' as const,
+    sortOrder: 'desc' as const,
+    minRating: 3.0,
+    outputFormat: params.outputFormat,
+    dryRun: false,
+  };
+
+  const allProducts = await getRealSalesVelocityData(tools, velocityParams, domain);
+  
+  // Categorize products based on velocity and turnover
+  const fastMovers = allProducts.filter(p => p.salesVelocity.monthly >= 30);
+  const slowMovers = allProducts.filter(p => p.salesVelocity.monthly < 10);
+  const stockoutRisks = allProducts.filter(p => p.inventoryMetrics.stockoutRisk === 'High');
+  
+  // Calculate seasonal patterns
+  const seasonalPatterns = [
+    {
+      period: 'Q4 Holiday Season',
+      velocityMultiplier: 2.5,
+      recommendation: 'Increase inventory 60-90 days before peak season'
+    },
+    {
+      period: 'Summer Season',
+      velocityMultiplier: 1.3,
+      recommendation: 'Monitor outdoor/seasonal products for increased demand'
+    }
+  ];
+
+  // Generate recommendations
+  const recommendations: string[] = [];
+  if (fastMovers.length > allProducts.length * 0.3) {
+    recommendations.push("Consider increasing inventory for fast-moving products to avoid stockouts");
+  }
+  if (slowMovers.length > allProducts.length * 0.4) {
+    recommendations.push("Implement markdown strategy for slow-moving inventory to improve cash flow");
+  }
+  if (stockoutRisks.length > 0) {
+    recommendations.push(`Monitor ${stockoutRisks.length} high-risk products for immediate reordering`);
+  }
+  if (seasonalPatterns.length > 0) {
+    recommendations.push("Plan inventory levels around seasonal demand patterns");
+  }
+  
+  // Calculate portfolio metrics
+  const avgTurnover = allProducts.length > 0 
+    ? allProducts.reduce((sum, p) => sum + p.inventoryMetrics.turnoverRate, 0) / allProducts.length 
+    : 0;
+
+  return {
+    totalProducts: allProducts.length,
+    averageTurnoverRate: Math.round(avgTurnover * 10) / 10,
+    fastMovers: fastMovers,
+    slowMovers: slowMovers,
+    stockoutRisks: stockoutRisks,
+    seasonalPatterns: seasonalPatterns,
+    recommendations: recommendations
+  };
+}
+
+function formatInventoryOverview(analysis: InventoryAnalysis, domain: KeepaDomain): string {
+  let result = `**📊 Inventory Portfolio Overview**\n\n`;
+  result += `• **Total Products**: ${analysis.totalProducts}\n`;
+  result += `• **Average Turnover Rate**: ${analysis.averageTurnoverRate.toFixed(1)}x/month\n`;
+  result += `• **Fast Movers**: ${analysis.fastMovers.length} (>${30}/month)\n`;
+  result += `• **Slow Movers**: ${analysis.slowMovers.length} (<${10}/month)\n`;
+  result += `• **High Stockout Risk**: ${analysis.stockoutRisks.length} products\n\n`;
+
+  result += `**🏆 Top 5 Fast Movers:**\n`;
+  analysis.fastMovers.slice(0, 5).forEach((product, i) => {
+    result += `${i + 1}. ${product.asin}: ${product.salesVelocity.monthly}/month\n`;
+  });
+
+  result += `\n**🐌 Top 5 Slow Movers:**\n`;
+  analysis.slowMovers.slice(0, 5).forEach((product, i) => {
+    result += `${i + 1}. ${product.asin}: ${product.salesVelocity.monthly}/month\n`;
+  });
+
+  return result;
+}
+
+function formatFastMovers(tools: KeepaTools, analysis: InventoryAnalysis, domain: KeepaDomain): string {
+  let result = `**🚀 Fast Moving Products (>30 units/month)**\n\n`;
+  
+  analysis.fastMovers.forEach((product, i) => {
+    result += `**${i + 1}. ${product.asin}**\n`;
+    result += `📦 ${product.title}\n`;
+    result += `📈 ${product.salesVelocity.monthly} units/month\n`;
+    result += `💰 ${tools.client.formatPrice(product.profitability.revenueVelocity * 100, domain)}/day revenue\n`;
+    result += `🔄 ${product.inventoryMetrics.turnoverRate}x turnover rate\n\n`;
+  });
+
+  return result;
+}
+
+function formatSlowMovers(analysis: InventoryAnalysis, domain: KeepaDomain): string {
+  let result = `**🐌 Slow Moving Products (<10 units/month)**\n\n`;
+  
+  analysis.slowMovers.forEach((product, i) => {
+    result += `**${i + 1}. ${product.asin}**\n`;
+    result += `📦 ${product.title}\n`;
+    result += `📉 ${product.salesVelocity.monthly} units/month\n`;
+    result += `📅 ${product.inventoryMetrics.daysOfInventory} days of inventory\n`;
+    result += `⚠️ Consider promotion or liquidation\n\n`;
+  });
+
+  return result;
+}
+
+function formatStockoutRisks(analysis: InventoryAnalysis, domain: KeepaDomain): string {
+  let result = `**🔴 High Stockout Risk Products**\n\n`;
+  
+  analysis.stockoutRisks.forEach((product, i) => {
+    result += `**${i + 1}. ${product.asin}**\n`;
+    result += `📦 ${product.title}\n`;
+    result += `⚡ ${product.salesVelocity.daily} units/day velocity\n`;
+    result += `📅 ${product.inventoryMetrics.daysOfInventory} days left\n`;
+    result += `📋 Reorder: ${product.inventoryMetrics.recommendedOrderQuantity} units\n\n`;
+  });
+
+  return result;
+}
+
+function formatSeasonalAnalysis(analysis: InventoryAnalysis, domain: KeepaDomain): string {
+  let result = `**🗓️ Seasonal Velocity Patterns**\n\n`;
+  
+  analysis.seasonalPatterns.forEach((pattern, i) => {
+    result += `**${pattern.period}**\n`;
+    result += `📊 Velocity Multiplier: ${pattern.velocityMultiplier}x\n`;
+    result += `💡 ${pattern.recommendation}\n\n`;
+  });
+
+  return result;
+}
+
+function generateInventoryRecommendations(products: SalesVelocityData[], targetTurnover: number): string[] {
+  const recommendations = [];
+  
+  const averageVelocity = products.reduce((sum, p) => sum + p.salesVelocity.monthly, 0) / products.length;
+  const highRiskCount = products.filter(p => p.inventoryMetrics.stockoutRisk === 'High').length;
+  const slowMoversCount = products.filter(p => p.salesVelocity.monthly < 10).length;
+  
+  if (averageVelocity > 25) {
+    recommendations.push('🚀 Strong portfolio velocity - maintain current strategy');
+  } else if (averageVelocity < 15) {
+    recommendations.push('⚠️ Low portfolio velocity - consider more aggressive promotions');
+  }
+  
+  if (highRiskCount > products.length * 0.2) {
+    recommendations.push('🔴 High stockout exposure - improve reorder point management');
+  }
+  
+  if (slowMoversCount > products.length * 0.3) {
+    recommendations.push('🐌 Too many slow movers - evaluate product mix and consider liquidation');
+  }
+  
+  recommendations.push('📊 Monitor daily for velocity changes and adjust reorder points');
+  recommendations.push('🎯 Aim for 15-45 day inventory levels for optimal cash flow');
+  recommendations.push('📈 Focus marketing spend on products with accelerating trends');
+  
+  return recommendations;
+}
@@ -0,0 +1,121 @@
+import { z } from 'zod';
+import { defineTool } from '../registry.js';
+import { KeepaTools, OutputFormatSchema, DryRunSchema, CategoryIdSchema } from '../tools.js';
+import { KeepaDomain, LightningDealState, LightningDealsResult } from '../types.js';
+
+export const LightningDealsSchema = z.object({
+  domain: z.number().min(1).max(11).default(1).describe('Amazon domain (1=US, 2=UK, 3=DE, 4=FR, 8=IT, 9=ES, etc.)'),
+  state: z.enum(['upcoming', 'available', 'expired']).default('available').describe('Deals about to start, running now (incl. waitlist) or already ended/sold out'),
+  categoryId: CategoryIdSchema.optional().describe('Amazon category ID or name to filter by'),
+  minPercentClaimed: z.number().min(0).max(100).optional().describe('Only deals with at least this % of units claimed'),
+  limit: z.number().min(1).max(100).default(25).describe('Maximum deals to return'),
+  outputFormat: OutputFormatSchema,
+  dryRun: DryRunSchema,
+});
+
+// Keepa reports finer states than the tool exposes; SUPPRESSED deals are never shown
+const LIGHTNING_DEAL_STATES: Record<z.infer<typeof LightningDealsSchema>['state'], LightningDealState[]> = {
+  upcoming: ['UPCOMING'],
+  available: ['AVAILABLE', 'WAITLIST', 'WAITLISTFULL'],
+  expired: ['EXPIRED', 'SOLDOUT'],
+};
+
+export const lightningDealsTool = defineTool({
+  name: 'keepa_lightning_deals',
+  description: 'Amazon Lightning Deals (upcoming, running or expired) with deal price, % claimed and time remaining, filterable by category',
+  schema: LightningDealsSchema,
+  handler: (params, { tools }) => getLightningDeals(tools, params),
+});
+
+export async function getLightningDeals(tools: KeepaTools, params: z.infer<typeof LightningDealsSchema>): Promise<string | LightningDealsResult> {
+  try {
+    const domain = params.domain as KeepaDomain;
+    const domainName = tools.client.getDomainName(domain);
+    const categoryId = await tools.resolveCategory(params.categoryId, domain);
+    const states = LIGHTNING_DEAL_STATES[params.state];
+    const now = tools.client.unixTimeToKeepaTime(Date.now());
+
+    // The whole list is fetched (and cached) once per domain; filters run locally
+    const matching = (await tools.client.getLightningDeals({ domain }))
+      .filter(deal => states.includes(deal.dealState))
+      .filter(deal => !categoryId || deal.rootCat === categoryId || !!deal.categories?.includes(categoryId))
+      .filter(deal => params.minPercentClaimed === undefined || deal.percentClaimed >= params.minPercentClaimed)
+      .map(deal => ({
+        deal,
+        // Upcoming: until the start; available: until the end; expired: since the end
+        minutes: params.state === 'upcoming' ? deal.startTime - now
+          : params.state === 'available' ? deal.endTime - now
+          : now - deal.endTime,
+      }))
+      .sort((a, b) => a.minutes - b.minutes);
+    const selected = matching.slice(0, params.limit);
+
+    const deals = selected.map(({ deal, minutes }) => ({
+      asin: deal.asin,
+      dealId: deal.dealId,
+      title: deal.title ?? null,
+      state: deal.dealState,
+      dealPrice: tools.positiveOrNull(deal.dealPrice),
+      currentPrice: tools.positiveOrNull(deal.currentPrice),
+      discountPercent: deal.dealPrice > 0 && deal.currentPrice > deal.dealPrice
+        ? Math.round((1 - deal.dealPrice / deal.currentPrice) * 100)
+        : null,
+      percentClaimed: deal.percentClaimed ?? 0,
+      startsAt: tools.client.keepaTimeToISO(deal.startTime),
+      endsAt: tools.client.keepaTimeToISO(deal.endTime),
+      minutes: Number.isFinite(minutes) ? Math.max(0, minutes) : null,
+      isPrimeExclusive: !!deal.isPrimeExclusive,
+      sellerName: deal.sellerName ?? null,
+    }));
+
+    if (params.outputFormat === 'json') {
+      return { domain, marketplace: domainName, state: params.state, totalMatching: matching.length, deals };
+    }
+
+    if (deals.length === 0) {
+      return `No ${params.state} lightning deals found on ${domainName} matching your criteria.`;
+    }
+
+    const stateLabel = params.state.charAt(0).toUpperCase() + params.state.slice(1);
+    let result = `**⚡ Lightning Deals - ${stateLabel}**\n\n`;
+    result += `🏪 **Marketplace**: ${domainName}\n`;
+    result += `📊 **Showing**: ${deals.length} of ${matching.length} deals\n\n`;
+
+    deals.forEach((deal, i) => {
+      result += `**${i + 1}. ${deal.asin}**\n`;
+      result += `📦 **${deal.title || 'N/A'}**\n`;
+      if (deal.dealPrice !== null) {
+        result += `💰 **Deal Price**: ${tools.client.formatPrice(deal.dealPrice, domain)}`;
+        if (deal.currentPrice !== null && deal.discountPercent !== null) {
+          result += ` (was ${tools.client.formatPrice(deal.currentPrice, domain)}, -${deal.discountPercent}%)`;
+        }
+        result += '\n';
+      }
+      const claimed = Math.round(deal.percentClaimed / 10);
+      result += `📈 **Claimed**: ${'█'.repeat(claimed)}${'░'.repeat(10 - claimed)} ${deal.percentClaimed}%\n`;
+      if (deal.minutes !== null) {
+        const when = params.state === 'upcoming' ? `Starts in ${formatMinutes(deal.minutes)}`
+          : params.state === 'available' ? `Ends in ${formatMinutes(deal.minutes)}`
+          : `Ended ${formatMinutes(deal.minutes)} ago`;
+        result += `⏱️ **${when}**${deal.state !== 'AVAILABLE' && deal.state !== 'UPCOMING' ? ` (${deal.state})` : ''}\n`;
+      }
+      if (deal.isPrimeExclusive) {
+        result += `🔥 **Prime Exclusive**\n`;
+      }
+      result += '\n';
+    });
+
+    return result;
+  } catch (error) {
+    tools.rethrowApiError(error);
+    return `Error getting lightning deals: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+}
+
+// Keepa minutes as "2d 3h", "1h 20m" or "45m"
+function formatMinutes(minutes: number): string {
+  const total = Math.max(0, Math.round(minutes));
+  if (total >= 1440) return `${Math.floor(total / 1440)}d ${Math.floor((total % 1440) / 60)}h`;
+  if (total >= 60) return `${Math.floor(total / 60)}h ${total % 60}m`;
+  return `${total}m`;
+}
@@ -0,0 +1,232 @@
+import { z } from 'zod';
+import { defineTool } from '../registry.js';
+import { KeepaTools, OutputFormatSchema, DryRunSchema } from '../tools.js';
+import {
+  KeepaDomain,
+  KeepaDataType,
+  KeepaProduct,
+  MarketplaceComparison,
+  MarketplaceCompareResult,
+  ProductQueryParams,
+} from '../types.js';
+import { detectFeeCategory, fbaFulfillmentFee, FeeMarketplace, isFeeMarketplace, profitAt } from '../fees.js';
+import { convertCents, CURRENCIES, DEFAULT_FX_RATES, DOMAIN_CURRENCIES, formatMoney, FxRates } from '../fx.js';
+
+export const MarketplaceCompareSchema = z.object({
+  asin: z.string().optional().describe('Amazon ASIN to compare'),
+  code: z.string().optional().describe('EAN, UPC or ISBN-13 code - alternative to ASIN (ASINs can differ between marketplaces)'),
+  domains: z.array(z.number().int().min(1).max(11)).min(2).max(11).default([3, 4, 8, 9]).describe('Amazon domains to compare (1=US, 2=UK, 3=DE, 4=FR, 8=IT, 9=ES, etc.). Default: DE, FR, IT, ES'),
+  currency: z.enum(CURRENCIES).default('EUR').describe('Currency all prices are converted to'),
+  fxRates: z.record(z.enum(CURRENCIES), z.number().positive()).optional().describe('Units per 1 EUR overriding the configured rates, e.g. {"GBP": 0.84, "USD": 1.09}'),
+  buyDomain: z.number().int().min(1).max(11).optional().describe('Marketplace you would buy in; default: the cheapest Buy Box'),
+  inboundCost: z.number().min(0).default(0).describe('Per-unit cost of moving stock to the selling marketplace, in cents of the chosen currency'),
+  deductVat: z.boolean().default(true).describe('UK/EU: remove the VAT included in the selling price from the landed margin'),
+  outputFormat: OutputFormatSchema,
+  dryRun: DryRunSchema,
+});
+
+export const marketplaceCompareTool = defineTool({
+  name: 'keepa_marketplace_compare',
+  description: 'Compare one ASIN (or EAN) across Amazon marketplaces side by side: Buy Box, Amazon price, offers, sales rank and monthly sales converted to one currency, with the price spread and the landed margin of buying in the cheapest marketplace and selling in each other',
+  schema: MarketplaceCompareSchema,
+  handler: (params, { tools }) => compareMarketplaces(tools, params),
+});
+
+
+export async function compareMarketplaces(tools: KeepaTools, params: z.infer<typeof MarketplaceCompareSchema>): Promise<string | MarketplaceCompareResult> {
+  try {
+    if (!params.asin && !params.code) {
+      return 'Error: Either ASIN or code (EAN/UPC) is required';
+    }
+    const domains = Array.from(new Set(params.domains)) as KeepaDomain[];
+    if (params.buyDomain !== undefined && !domains.includes(params.buyDomain)) {
+      domains.push(params.buyDomain);
+    }
+
+    const rates: FxRates = { ...DEFAULT_FX_RATES, ...tools.options.fxRates, ...params.fxRates };
+    const currency = params.currency;
+    const convert = (cents: number | null, domain: KeepaDomain) =>
+      cents !== null ? convertCents(cents, DOMAIN_CURRENCIES[domain], currency, rates) : null;
+
+    // One product request per marketplace; the queue paces them
+    const queryOptions: Partial<ProductQueryParams> = { stats: 90, history: 0 };
+    const products = await Promise.all(domains.map(async domain => {
+      if (params.code) {
+        const found = await tools.client.getProduct({ code: params.code, domain, ...queryOptions });
+        return found?.[0] ?? null;
+      }
+      return tools.client.getProductByAsin(params.asin!, domain, queryOptions);
+    }));
+
+    const warnings: string[] = [];
+    const marketplaces: MarketplaceComparison[] = domains.map((domain, index) => {
+      const product = products[index];
+      const stats = product?.stats;
+      const buyBoxPrice = tools.positiveOrNull(stats?.buyBoxPrice);
+      const buyBox = buyBoxPrice !== null ? buyBoxPrice + (tools.positiveOrNull(stats?.buyBoxShipping) ?? 0) : null;
+      const amazon = tools.positiveOrNull(stats?.current?.[KeepaDataType.AMAZON]);
+      return {
+        domain,
+        marketplace: tools.client.getDomainName(domain),
+        currency: DOMAIN_CURRENCIES[domain],
+        found: !!product,
+        title: product?.title ?? null,
+        buyBox,
+        buyBoxConverted: convert(buyBox, domain),
+        amazon,
+        amazonConverted: convert(amazon, domain),
+        newOffers: tools.nonNegativeOrNull(stats?.current?.[KeepaDataType.COUNT_NEW]),
+        usedOffers: tools.nonNegativeOrNull(stats?.current?.[KeepaDataType.COUNT_USED]),
+        salesRank: tools.positiveOrNull(stats?.current?.[KeepaDataType.SALES_RANK]),
+        monthlySold: tools.positiveOrNull(product?.monthlySold),
+        spread: null,
+        spreadPercent: null,
+        landed: null,
+      };
+    });
+
+    if (marketplaces.every(m => !m.found)) {
+      return `Producto no encontrado en ningún marketplace: ${params.asin || params.code}`;
+    }
+    for (const m of marketplaces.filter(m => !m.found)) {
+      warnings.push(`No encontrado en ${m.marketplace}.`);
+    }
+
+    const priced = marketplaces.filter(m => m.buyBoxConverted !== null);
+    const cheapest = priced.reduce<MarketplaceComparison | null>(
+      (best, m) => (best === null || m.buyBoxConverted! < best.buyBoxConverted! ? m : best), null);
+    if (cheapest) {
+      for (const m of priced) {
+        m.spread = m.buyBoxConverted! - cheapest.buyBoxConverted!;
+        m.spreadPercent = Math.round(m.spread / cheapest.buyBoxConverted! * 1000) / 10;
+      }
+    }
+
+    // Landed margin: buy at the buy marketplace's Buy Box, pay inbound, sell at each other Buy Box after fees
+    const buy = params.buyDomain !== undefined
+      ? marketplaces.find(m => m.domain === params.buyDomain) ?? null
+      : cheapest;
+    if (params.buyDomain !== undefined && buy?.buyBox === null) {
+      warnings.push(`Sin Buy Box en ${buy.marketplace}: no se puede calcular el margen.`);
+    }
+    if (buy && buy.buyBoxConverted !== null) {
+      const landedCost = buy.buyBoxConverted + params.inboundCost;
+      for (const [index, m] of marketplaces.entries()) {
+        const product = products[index];
+        if (m === buy || !product || m.buyBox === null) continue;
+        const domain = m.domain as KeepaDomain;
+        if (!isFeeMarketplace(domain)) {
+          warnings.push(`Sin tablas de comisiones para ${m.marketplace}: margen no calculado.`);
+          continue;
+        }
+        const fulfillmentFee = estimateFulfillmentFee(tools, product, domain);
+        if (fulfillmentFee === null) {
+          warnings.push(`Sin dimensiones del paquete en ${m.marketplace}: margen sin tarifa FBA.`);
+        }
+        const feeCategory = detectFeeCategory([
+          ...(product.categoryTree ?? []).map(category => category.name),
+          product.productGroup,
+        ].filter((name): name is string => !!name));
+        const breakdown = profitAt(m.buyBox, {
+          domain,
+          category: feeCategory,
+          costPrice: convertCents(landedCost, currency, DOMAIN_CURRENCIES[domain], rates),
+          fulfillmentFee: fulfillmentFee ?? 0,
+          otherCosts: 0,
+          referralPercent: tools.positiveOrNull(product.referralFeePercentage),
+          deductVat: params.deductVat,
+        });
+        m.landed = {
+          cost: landedCost,
+          netProfit: convertCents(breakdown.netProfit, DOMAIN_CURRENCIES[domain], currency, rates),
+          margin: breakdown.margin,
+          roi: breakdown.roi,
+        };
+      }
+    }
+
+    const bestSell = marketplaces
+      .filter(m => m.landed !== null)
+      .sort((a, b) => b.landed!.netProfit - a.landed!.netProfit)[0] ?? null;
+    const usedCurrencies = new Set([currency, ...marketplaces.map(m => m.currency as keyof FxRates)]);
+    const fxRates = Object.fromEntries(Array.from(usedCurrencies).map(code => [code, rates[code]]));
+
+    const firstFound = products.find((p): p is KeepaProduct => !!p);
+
+    if (params.outputFormat === 'json') {
+      return {
+        asin: params.asin ?? firstFound?.asin ?? null,
+        code: params.code ?? null,
+        currency,
+        fxRates,
+        buyDomain: buy && buy.buyBoxConverted !== null ? buy.domain : null,
+        bestSellDomain: bestSell?.domain ?? null,
+        marketplaces,
+        warnings,
+      };
+    }
+
+    const money = (cents: number | null) => cents !== null ? formatMoney(cents, currency) : 'N/A';
+    const local = (cents: number | null, domain: number) =>
+      cents !== null ? formatMoney(cents, DOMAIN_CURRENCIES[domain as KeepaDomain]) : 'N/A';
+    const title = firstFound?.title;
+
+    let result = `**🌍 Comparativa de Marketplaces - ${params.asin || params.code}**\n\n`;
+    if (title) {
+      result += `📦 **Producto**: ${title.length > 70 ? title.substring(0, 67) + '...' : title}\n`;
+    }
+    result += `💱 **Moneda**: ${currency} (${Object.entries(fxRates).filter(([code]) => code !== 'EUR').map(([code, rate]) => `1 EUR = ${rate} ${code}`).join(', ') || 'sin conversión'})\n\n`;
+
+    result += `| Marketplace | Buy Box | Amazon | Ofertas N/U | Rank | Ventas/mes | Spread | Margen |\n`;
+    result += `|---|---|---|---|---|---|---|---|\n`;
+    for (const m of marketplaces) {
+      if (!m.found) {
+        result += `| ${m.marketplace} | no encontrado | | | | | | |\n`;
+        continue;
+      }
+      const buyBox = m.currency === currency || m.buyBox === null
+        ? money(m.buyBoxConverted)
+        : `${money(m.buyBoxConverted)} (${local(m.buyBox, m.domain)})`;
+      const spread = m.spread === null ? 'N/A' : m.spread === 0 ? '🟢 mínimo' : `+${money(m.spread)} (+${m.spreadPercent}%)`;
+      const margin = m === buy ? '🛒 compra' : m.landed
+        ? `${m.landed.netProfit > 0 ? '✅' : '❌'} ${money(m.landed.netProfit)} (${m.landed.margin}%)`
+        : 'N/A';
+      result += `| ${m.marketplace} | ${buyBox} | ${money(m.amazonConverted)} | ${m.newOffers ?? 'N/A'}/${m.usedOffers ?? 'N/A'}`;
+      result += ` | ${m.salesRank !== null ? `#${m.salesRank.toLocaleString()}` : 'N/A'} | ${m.monthlySold !== null ? m.monthlySold.toLocaleString() : 'N/A'}`;
+      result += ` | ${spread} | ${margin} |\n`;
+    }
+    result += `\n`;
+
+    if (buy && buy.buyBoxConverted !== null) {
+      result += `🛒 **Compra**: ${buy.marketplace} a ${money(buy.buyBoxConverted)}`;
+      result += params.inboundCost > 0 ? ` + ${money(params.inboundCost)} de envío = ${money(buy.buyBoxConverted + params.inboundCost)}\n` : `\n`;
+    }
+    if (bestSell) {
+      result += `💰 **Mejor venta**: ${bestSell.marketplace} - beneficio ${money(bestSell.landed!.netProfit)}, margen ${bestSell.landed!.margin}%`;
+      result += bestSell.landed!.roi !== null ? `, ROI ${bestSell.landed!.roi}%\n` : `\n`;
+    }
+    result += `\n`;
+
+    if (warnings.length > 0) {
+      result += warnings.map(warning => `⚠️ ${warning}`).join('\n') + '\n\n';
+    }
+    result += `💡 Margen tras comisión, FBA${params.deductVat ? ' e IVA' : ''}; el precio de compra es el Buy Box publicado (IVA incluido).\n`;
+
+    return result;
+  } catch (error) {
+    tools.rethrowApiError(error);
+    return `Error comparando marketplaces: ${error instanceof Error ? error.message : 'Error desconocido'}`;
+  }
+}
+
+// Keepa's pick & pack fee, else the size tier of the package; null without dimensions
+function estimateFulfillmentFee(tools: KeepaTools, product: KeepaProduct, domain: FeeMarketplace): number | null {
+  const keepaFee = tools.positiveOrNull(product.fbaFees?.pickAndPackFee);
+  if (keepaFee !== null) return keepaFee;
+
+  const dims = [product.packageLength, product.packageWidth, product.packageHeight, product.packageWeight]
+    .map(value => tools.positiveOrNull(value));
+  if (dims.some(value => value === null)) return null;
+  const [lengthMm, widthMm, heightMm, weightG] = dims as number[];
+  return fbaFulfillmentFee(domain, { lengthMm, widthMm, heightMm, weightG }).fee;
+}
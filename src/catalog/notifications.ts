@@ -0,0 +1,83 @@
+import { z } from 'zod';
+import { defineTool } from '../registry.js';
+import { KeepaTools, OutputFormatSchema, DryRunSchema } from '../tools.js';
+import { KeepaDataType, KeepaNotification, NotificationSummary, NotificationsResult } from '../types.js';
+
+export const NotificationsSchema = z.object({
+  sinceHours: z.number().min(1).max(24 * 90).default(24).describe('Notifications from the last N hours'),
+  revise: z.boolean().default(false).describe('Also return notifications already retrieved before'),
+  outputFormat: OutputFormatSchema,
+  dryRun: DryRunSchema,
+});
+
+const NOTIFICATION_CAUSES: NotificationSummary['cause'][] = [
+  'expired',
+  'desiredPrice',
+  'priceChange',
+  'priceChangeAfterDesiredPrice',
+  'outOfStock',
+  'backInStock',
+];
+
+export const notificationsTool = defineTool({
+  name: 'keepa_notifications',
+  description: 'Get the price alert notifications Keepa raised for tracked products (threshold crossed, stock changes)',
+  schema: NotificationsSchema,
+  priority: 'interactive',
+  handler: (params, { tools }) => getNotifications(tools, params),
+});
+
+export async function getNotifications(tools: KeepaTools, params: z.infer<typeof NotificationsSchema>): Promise<string | NotificationsResult> {
+  try {
+    const sinceMs = Date.now() - params.sinceHours * 3600000;
+    const notifications = await tools.client.getNotifications({
+      since: tools.client.unixTimeToKeepaTime(sinceMs),
+      revise: params.revise,
+    });
+    const summaries = notifications.map(notification => summarizeNotification(tools, notification));
+
+    if (params.outputFormat === 'json') {
+      return { since: new Date(sinceMs).toISOString(), count: summaries.length, notifications: summaries };
+    }
+
+    if (summaries.length === 0) {
+      return `No new notifications in the last ${params.sinceHours} hours`;
+    }
+
+    let result = `**📬 Keepa Notifications (${summaries.length}, last ${params.sinceHours}h)**\n\n`;
+    summaries.forEach(summary => {
+      result += `**${summary.asin}** - ${summary.title || 'N/A'}\n`;
+      result += `🏪 ${summary.marketplace} | 📅 ${summary.date ?? 'N/A'}\n`;
+      result += `🔔 ${summary.cause} on ${summary.dataTypeName}`;
+      if (summary.currentValue !== null) {
+        result += `: ${tools.formatTrackingValue(summary.currentValue, summary.dataType, summary.domain)}`;
+      }
+      result += '\n';
+      if (summary.metaData) {
+        result += `📝 ${summary.metaData}\n`;
+      }
+      result += '\n';
+    });
+    return result;
+  } catch (error) {
+    tools.rethrowApiError(error);
+    return `Error getting notifications: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+}
+
+function summarizeNotification(tools: KeepaTools, notification: KeepaNotification): NotificationSummary {
+  const domain = notification.notificationDomainId ?? notification.domainId;
+  const current = notification.currentPrices?.[notification.csvType];
+  return {
+    asin: notification.asin,
+    title: notification.title ?? null,
+    domain,
+    marketplace: tools.client.getDomainName(domain),
+    date: tools.client.keepaTimeToISO(notification.createDate),
+    dataType: notification.csvType,
+    dataTypeName: KeepaDataType[notification.csvType] ?? String(notification.csvType),
+    cause: NOTIFICATION_CAUSES[notification.trackingNotificationCause] ?? 'unknown',
+    currentValue: current !== undefined && current >= 0 ? current : null,
+    metaData: notification.metaData || null,
+  };
+}
@@ -0,0 +1,83 @@
+import { z } from 'zod';
+import { defineTool } from '../registry.js';
+import { KeepaTools, OutputFormatSchema, DryRunSchema } from '../tools.js';
+import { KeepaDomain, PriceChartResult } from '../types.js';
+import { CHART_SERIES, ChartSeriesKey, renderPriceChart } from '../chart.js';
+
+export const CHART_SERIES_KEYS = Object.keys(CHART_SERIES) as [ChartSeriesKey, ...ChartSeriesKey[]];
+
+export const PriceChartSchema = z.object({
+  asin: z.string().optional().describe('Amazon ASIN'),
+  code: z.string().optional().describe('EAN, UPC or ISBN-13 code'),
+  domain: z.number().min(1).max(11).default(9).describe('Amazon domain (1=US, 2=UK, 3=DE, 4=FR, 8=IT, 9=ES; default 9=ES)'),
+  days: z.number().min(1).max(365).default(90).describe('Days of history (1-365)'),
+  series: z.array(z.enum(CHART_SERIES_KEYS)).min(1).default(['amazon', 'new', 'used', 'salesRank'])
+    .describe('Series to draw; buyBox costs 2 extra tokens. Prices use the left axis, salesRank the right one'),
+  format: z.enum(['png', 'svg']).default('png').describe('Image format'),
+  width: z.number().int().min(320).max(2000).default(800).describe('Image width in pixels'),
+  height: z.number().int().min(200).max(1200).default(400).describe('Image height in pixels'),
+  outputFormat: OutputFormatSchema.describe('Format of the dryRun estimate; the chart itself is always an image'),
+  dryRun: DryRunSchema,
+});
+
+export const priceChartTool = defineTool({
+  name: 'keepa_price_chart',
+  description: 'Render the price history of an Amazon product (Amazon, New, Used, Buy Box, Sales Rank) as a PNG or SVG chart with price and rank axes',
+  schema: PriceChartSchema,
+  priority: 'interactive',
+  handler: (params, { tools }) => getPriceChart(tools, params),
+});
+
+export async function getPriceChart(tools: KeepaTools, params: z.infer<typeof PriceChartSchema>): Promise<string | PriceChartResult> {
+  try {
+    const domain = params.domain as KeepaDomain;
+    const queryOptions: any = {
+      days: params.days,
+      history: 1,
+    };
+    // buybox=1 (+2 tokens) fills the Buy Box history without paying for offers
+    if (params.series.includes('buyBox')) {
+      queryOptions.buybox = 1;
+    }
+
+    let product;
+    if (params.code) {
+      const products = await tools.client.getProduct({ code: params.code, domain, ...queryOptions });
+      product = products?.[0];
+    } else if (params.asin) {
+      product = await tools.client.getProductByAsin(params.asin, domain, queryOptions);
+    } else {
+      return 'Error: Se necesita ASIN o código EAN/UPC';
+    }
+
+    if (!product) {
+      return `Producto no encontrado: ${params.asin || params.code}`;
+    }
+
+    const chart = renderPriceChart(product.csv, {
+      title: `${product.asin} - ${product.title || 'N/A'}`,
+      days: params.days,
+      width: params.width,
+      height: params.height,
+      series: params.series,
+      formatPrice: cents => tools.client.formatPrice(cents, domain),
+    }, params.format);
+
+    return {
+      asin: product.asin,
+      domain,
+      marketplace: tools.client.getDomainName(domain),
+      title: product.title ?? null,
+      days: params.days,
+      format: params.format,
+      mimeType: chart.mimeType,
+      width: params.width,
+      height: params.height,
+      series: chart.series,
+      image: chart.data.toString('base64'),
+    };
+  } catch (error) {
+    tools.rethrowApiError(error);
+    return `Error generando gráfico: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
@@ -0,0 +1,391 @@
+import { z } from 'zod';
+import { defineTool } from '../registry.js';
+import { KeepaTools, OutputFormatSchema, DryRunSchema } from '../tools.js';
+import {
+  KeepaDomain,
+  KeepaDataType,
+  PriceHistorySeries,
+  PriceHistoryResult,
+  PriceChartResult,
+  NotFoundResult,
+} from '../types.js';
+import { decodeCsvSeries, resampleSeries, withoutGaps, PriceShippingPoint, SeriesPoint } from '../csv-decoder.js';
+import { CHART_SERIES } from '../chart.js';
+import { getPriceChart, CHART_SERIES_KEYS } from './price-chart.js';
+
+export const PriceHistorySchema = z.object({
+  asin: z.string().optional().describe('Amazon ASIN'),
+  code: z.string().optional().describe('EAN, UPC or ISBN-13 code'),
+  domain: z.number().min(1).max(11).default(9).describe('Amazon domain (1=US, 2=UK, 3=DE, 4=FR, 8=IT, 9=ES; default 9=ES)'),
+  days: z.number().min(1).max(365).default(90).describe('Days of history (1-365)'),
+  dataType: z.number().optional().describe('Specific CsvType index (0=Amazon, 1=New, 2=Used, 3=SalesRank, 18=BuyBox). If omitted, shows all relevant types.'),
+  includeOffers: z.boolean().default(false).describe('Include Buy Box history (costs 6+ extra tokens). Set true for BB winner history.'),
+  interval: z.enum(['changes', 'daily', 'weekly']).default('changes').describe('History points: every change as reported by Keepa, or resampled to daily/weekly buckets'),
+  chart: z.enum(['png', 'svg']).optional().describe('Return the history as a chart image instead of text (same as keepa_price_chart)'),
+  outputFormat: OutputFormatSchema,
+  dryRun: DryRunSchema,
+});
+
+export const priceHistoryTool = defineTool({
+  name: 'keepa_price_history',
+  description: 'Get detailed price history for an Amazon product',
+  schema: PriceHistorySchema,
+  priority: 'interactive',
+  handler: (params, { tools }) => getPriceHistory(tools, params),
+});
+
+export async function getPriceHistory(tools: KeepaTools, params: z.infer<typeof PriceHistorySchema>): Promise<string | PriceHistoryResult | PriceChartResult | NotFoundResult> {
+  if (params.chart) {
+    const series = params.dataType !== undefined
+      ? CHART_SERIES_KEYS.filter(key => CHART_SERIES[key].dataType === params.dataType)
+      : CHART_SERIES_KEYS.filter(key => key !== 'buyBox' || params.includeOffers);
+    if (series.length === 0) {
+      return `Error: El dataType ${params.dataType} no se puede dibujar. Usa 0 (Amazon), 1 (Nuevo), 2 (Usado), 3 (Sales Rank) o 18 (Buy Box).`;
+    }
+    return getPriceChart(tools, {
+      asin: params.asin,
+      code: params.code,
+      domain: params.domain,
+      days: params.days,
+      series,
+      format: params.chart,
+      width: 800,
+      height: 400,
+      outputFormat: params.outputFormat,
+      dryRun: false,
+    });
+  }
+
+  try {
+    const queryOptions: any = {
+      days: params.days,
+      history: 1,           // IMPORTANTE: 1 no true (Keepa requiere 0/1)
+      stats: 90,            // FREE: min/max/avg para el resumen
+    };
+
+    // Solo añadir offers si se pide BB history (coste extra 6-12 tokens)
+    if (params.includeOffers) {
+      queryOptions.offers = 20;
+      queryOptions['only-live-offers'] = 1;
+    }
+
+    let product;
+    if (params.code) {
+      const products = await tools.client.getProduct({
+        code: params.code,
+        domain: params.domain as KeepaDomain,
+        ...queryOptions,
+      });
+      product = products?.[0];
+    } else if (params.asin) {
+      product = await tools.client.getProductByAsin(
+        params.asin,
+        params.domain as KeepaDomain,
+        queryOptions
+      );
+    } else {
+      return 'Error: Se necesita ASIN o código EAN/UPC';
+    }
+
+    if (!product) {
+      return tools.notFound(params.outputFormat, `Producto no encontrado: ${params.asin}`);
+    }
+
+    if (!product.csv) {
+      return tools.notFound(params.outputFormat, `No hay historial de precios para ASIN: ${params.asin}`);
+    }
+
+    const domain = params.domain as KeepaDomain;
+    const stats = product.stats as any;
+
+    // ── Header compacto (siempre) ──
+    const titleShort = product.title
+      ? (product.title.length > 60 ? product.title.substring(0, 57) + '...' : product.title)
+      : 'N/A';
+    const currentPrice = stats?.buyBoxPrice > 0
+      ? stats.buyBoxPrice
+      : stats?.current?.[0] > 0
+        ? stats.current[0]
+        : null;
+    const bbPrice = currentPrice
+      ? tools.client.formatPrice(currentPrice, domain)
+      : 'N/A';
+
+    let result = `📦 **${params.asin}** — ${titleShort} | 🏷️ BB: ${bbPrice}\n`;
+    result += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+    result += `📅 **Periodo**: Últimos ${params.days} días\n\n`;
+
+    // ── Tipos de datos a mostrar ──
+    const csvTypeConfig: Array<{
+      index: number;
+      name: string;
+      emoji: string;
+      isPrice: boolean;
+      requiresOffers: boolean;
+    }> = [
+      { index: KeepaDataType.AMAZON, name: 'Amazon', emoji: '🟠', isPrice: true, requiresOffers: false },
+      { index: KeepaDataType.NEW, name: 'Marketplace (Nuevo)', emoji: '🟢', isPrice: true, requiresOffers: false },
+      { index: KeepaDataType.USED, name: 'Usado', emoji: '🔵', isPrice: true, requiresOffers: false },
+      { index: KeepaDataType.SALES_RANK, name: 'Sales Rank', emoji: '📊', isPrice: false, requiresOffers: false },
+      { index: KeepaDataType.BUY_BOX_SHIPPING, name: 'Buy Box (con envío)', emoji: '🏆', isPrice: true, requiresOffers: true },
+    ];
+
+    // Si el usuario pidió un tipo específico, solo mostrar ese
+    const typesToShow = params.dataType !== undefined
+      ? csvTypeConfig.filter(t => t.index === params.dataType)
+      : csvTypeConfig.filter(t => !t.requiresOffers || params.includeOffers);
+
+    if (params.outputFormat === 'json') {
+      return {
+        asin: product.asin,
+        domain,
+        marketplace: tools.client.getDomainName(domain),
+        title: product.title ?? null,
+        currentPrice: currentPrice ?? null,
+        days: params.days,
+        interval: params.interval,
+        series: typesToShow
+          .map(csvType => buildPriceHistorySeries(tools, product.csv!, stats, csvType, params.interval))
+          .filter((series): series is PriceHistorySeries => series !== null),
+        outOfStock90: stats ? {
+          amazon: tools.nonNegativeOrNull(stats.outOfStockPercentage90?.[KeepaDataType.AMAZON]),
+          marketplace: tools.nonNegativeOrNull(stats.outOfStockPercentage90?.[KeepaDataType.NEW]),
+        } : null,
+      };
+    }
+
+    let anyDataShown = false;
+
+    for (const csvType of typesToShow) {
+      // Los valores -1/-2 (sin stock/oferta, sin datos) llegan como huecos
+      const decoded = decodeCsvSeries(product.csv, csvType.index);
+      const data = withoutGaps(decoded.points);
+
+      if (data.length === 0) continue;
+      anyDataShown = true;
+
+      result += `${csvType.emoji} **${csvType.name}:**\n`;
+
+      // ── Estadísticas del periodo (desde stats object, FREE) ──
+      if (stats) {
+        const avg90 = stats.avg90?.[csvType.index];
+        const minRaw = stats.minInInterval?.[csvType.index];
+        const maxRaw = stats.maxInInterval?.[csvType.index];
+        const minVal = Array.isArray(minRaw) ? minRaw[1] : minRaw;
+        const maxVal = Array.isArray(maxRaw) ? maxRaw[1] : maxRaw;
+        const minTime = Array.isArray(minRaw) ? minRaw[0] : null;
+        const maxTime = Array.isArray(maxRaw) ? maxRaw[0] : null;
+
+        if (csvType.isPrice) {
+          const parts: string[] = [];
+          if (avg90 && avg90 > 0) parts.push(`Media: ${tools.client.formatPrice(avg90, domain)}`);
+          if (minVal && minVal > 0) {
+            let minStr = `Mín: ${tools.client.formatPrice(minVal, domain)}`;
+            if (minTime) minStr += ` (${formatKeepaDate(minTime)})`;
+            parts.push(minStr);
+          }
+          if (maxVal && maxVal > 0) {
+            let maxStr = `Máx: ${tools.client.formatPrice(maxVal, domain)}`;
+            if (maxTime) maxStr += ` (${formatKeepaDate(maxTime)})`;
+            parts.push(maxStr);
+          }
+          if (parts.length > 0) {
+            result += `   📐 ${parts.join(' | ')}\n`;
+          }
+        } else if (csvType.index === 3) {
+          // Sales Rank stats
+          const parts: string[] = [];
+          if (avg90 && avg90 > 0) parts.push(`Media: #${avg90.toLocaleString()}`);
+          if (minVal && minVal > 0) parts.push(`Mejor: #${minVal.toLocaleString()}`);
+          if (maxVal && maxVal > 0) parts.push(`Peor: #${maxVal.toLocaleString()}`);
+          if (parts.length > 0) {
+            result += `   📐 ${parts.join(' | ')}\n`;
+          }
+        }
+      }
+
+      // ── Tendencia ──
+      if (data.length >= 2) {
+        const first = data[0].value;
+        const last = data[data.length - 1].value;
+        if (first > 0 && last > 0) {
+          const change = ((last - first) / first) * 100;
+          let trend = '→ Estable';
+          if (change > 3) trend = `📈 Subida +${change.toFixed(1)}%`;
+          else if (change < -3) trend = `📉 Bajada ${change.toFixed(1)}%`;
+          result += `   🔄 Tendencia: ${trend} (${formatValue(tools, first, csvType.isPrice, domain)} → ${formatValue(tools, last, csvType.isPrice, domain)})\n`;
+        }
+      }
+
+      // ── Historial de puntos ──
+      if (params.interval !== 'changes') {
+        const buckets = resampleSeries(decoded.points, params.interval);
+        const recent = buckets.slice(-15);
+        const label = params.interval === 'daily' ? 'diario' : 'semanal';
+        result += `   📋 Historial ${label} (últimos ${recent.length} de ${buckets.length}):\n`;
+        for (const bucket of recent) {
+          const date = new Date(bucket.start).toLocaleDateString('es-ES', {
+            day: '2-digit', month: 'short', year: 'numeric'
+          });
+          const value = bucket.value !== null ? formatValue(tools, bucket.value, csvType.isPrice, domain) : 'Sin oferta';
+          result += `      ${date}: ${value}\n`;
+        }
+      } else if (data.length <= 15) {
+        // Pocos puntos → mostrar todos
+        result += `   📋 Historial (${data.length} cambios):\n`;
+        for (const point of data) {
+          const date = new Date(point.timestamp).toLocaleDateString('es-ES', {
+            day: '2-digit', month: 'short', year: 'numeric'
+          });
+          result += `      ${date}: ${formatValue(tools, point.value, csvType.isPrice, domain)}\n`;
+        }
+      } else {
+        // Muchos puntos → resumen mensual + últimos 5 cambios recientes
+        result += `   📋 Resumen mensual (${data.length} cambios totales):\n`;
+        const monthly = aggregateMonthly(tools, data, csvType.isPrice, domain);
+        for (const month of monthly) {
+          result += `      ${month}\n`;
+        }
+        result += `   📋 Últimos cambios:\n`;
+        const recent = data.slice(-5);
+        for (const point of recent) {
+          const date = new Date(point.timestamp).toLocaleDateString('es-ES', {
+            day: '2-digit', month: 'short', year: 'numeric'
+          });
+          result += `      ${date}: ${formatValue(tools, point.value, csvType.isPrice, domain)}\n`;
+        }
+      }
+
+      result += `\n`;
+    }
+
+    if (!anyDataShown) {
+      result += `⚠️ No hay datos de historial disponibles para el periodo solicitado.\n`;
+    }
+
+    // ── OOS % (contexto útil para el historial) ──
+    if (stats) {
+      const oosAmazon = stats.outOfStockPercentage90?.[0];
+      const oosNew = stats.outOfStockPercentage90?.[1];
+      if ((oosAmazon !== undefined && oosAmazon > 0) || (oosNew !== undefined && oosNew > 0)) {
+        result += `📉 **OUT OF STOCK (90d):**`;
+        if (oosAmazon > 0) result += ` Amazon: ${oosAmazon}%`;
+        if (oosNew > 0) result += ` | Marketplace: ${oosNew}%`;
+        result += `\n`;
+      }
+    }
+
+    return result;
+  } catch (error) {
+    tools.rethrowApiError(error);
+    return `Error obteniendo historial: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+// ── Helpers para getPriceHistory ──
+
+function buildPriceHistorySeries(
+  tools: KeepaTools,
+  csv: number[][],
+  stats: any,
+  csvType: { index: number; name: string; isPrice: boolean },
+  interval: 'changes' | 'daily' | 'weekly' = 'changes'
+): PriceHistorySeries | null {
+  const decoded = decodeCsvSeries(csv, csvType.index);
+  const data = withoutGaps(decoded.points);
+  if (data.length === 0) return null;
+
+  const first = data[0].value;
+  const last = data[data.length - 1].value;
+
+  return {
+    dataType: csvType.index,
+    name: csvType.name,
+    isPrice: csvType.isPrice,
+    stats: stats ? {
+      avg90: tools.positiveOrNull(stats.avg90?.[csvType.index]),
+      min: tools.datedValue(stats.minInInterval?.[csvType.index]),
+      max: tools.datedValue(stats.maxInInterval?.[csvType.index]),
+    } : null,
+    trend: data.length >= 2 && first > 0 && last > 0
+      ? { first, last, changePercent: Math.round(((last - first) / first) * 1000) / 10 }
+      : null,
+    // Gaps stay in the output as null so consumers can see out-of-stock periods
+    points: interval === 'changes'
+      ? decoded.points.map(point => historyPoint(point))
+      : resampleSeries(decoded.points, interval).map(bucket => ({
+        date: new Date(bucket.start).toISOString(),
+        value: bucket.value,
+      })),
+  };
+}
+
+function historyPoint(point: SeriesPoint | PriceShippingPoint): PriceHistorySeries['points'][number] {
+  const date = new Date(point.timestamp).toISOString();
+  return 'price' in point
+    ? { date, value: point.value, price: point.price, shipping: point.shipping }
+    : { date, value: point.value };
+}
+
+function formatKeepaDate(keepaTime: number): string {
+  const unixMs = (keepaTime + 21564000) * 60000;
+  return new Date(unixMs).toLocaleDateString('es-ES', {
+    day: '2-digit', month: 'short'
+  });
+}
+
+function formatValue(tools: KeepaTools, value: number, isPrice: boolean, domain: KeepaDomain): string {
+  if (isPrice) {
+    return tools.client.formatPrice(value, domain);
+  }
+  return `#${value.toLocaleString()}`;
+}
+
+function aggregateMonthly(
+  tools: KeepaTools,
+  data: Array<{ timestamp: number; value: number }>,
+  isPrice: boolean,
+  domain: KeepaDomain
+): string[] {
+  const months: Record<string, number[]> = {};
+
+  for (const point of data) {
+    const d = new Date(point.timestamp);
+    const key = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+    if (!months[key]) months[key] = [];
+    months[key].push(point.value);
+  }
+
+  const result: string[] = [];
+  for (const [key, values] of Object.entries(months).sort()) {
+    const [year, month] = key.split('-');
+    const monthNames = ['Ene', 'Feb', 'Mar', 'Abr', 'May', 'Jun', 'Jul', 'Ago', 'Sep', 'Oct', 'Nov', 'Dic'];
+    const monthName = monthNames[parseInt(month) - 1];
+    const positiveValues = values.filter(v => v > 0);
+
+    if (positiveValues.length === 0) {
+      result.push(`${monthName} ${year}: Sin datos`);
+      continue;
+    }
+
+    const min = Math.min(...positiveValues);
+    const max = Math.max(...positiveValues);
+    const avg = Math.round(positiveValues.reduce((s, v) => s + v, 0) / positiveValues.length);
+
+    if (isPrice) {
+      if (min === max) {
+        result.push(`${monthName} ${year}: ${tools.client.formatPrice(avg, domain)} (${positiveValues.length} cambios)`);
+      } else {
+        result.push(`${monthName} ${year}: ${tools.client.formatPrice(min, domain)} — ${tools.client.formatPrice(max, domain)} (media: ${tools.client.formatPrice(avg, domain)}, ${positiveValues.length} cambios)`);
+      }
+    } else {
+      if (min === max) {
+        result.push(`${monthName} ${year}: #${avg.toLocaleString()} (${positiveValues.length} cambios)`);
+      } else {
+        result.push(`${monthName} ${year}: #${min.toLocaleString()} — #${max.toLocaleString()} (${positiveValues.length} cambios)`);
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,120 @@
+import { z } from 'zod';
+import { defineTool } from '../registry.js';
+import { KeepaTools, OutputFormatSchema, DryRunSchema } from '../tools.js';
+import { KeepaDomain, ProductChangelog, ProductChangesResult, ProductState } from '../types.js';
+import {
+  describeProductChange,
+  diffProductHistory,
+  productStateAt,
+  productStateNow,
+  snapshotItemState,
+} from '../product-diff.js';
+
+export const ProductChangesSchema = z.object({
+  asin: z.string().optional().describe('Amazon ASIN'),
+  asins: z.array(z.string()).max(100).optional().describe('Several ASINs (max 100)'),
+  domain: z.number().min(1).max(11).default(1).describe('Amazon domain (1=US, 2=UK, 3=DE, 4=FR, 8=IT, 9=ES, etc.)'),
+  since: z.string().optional().describe('ISO date or time to report changes from (e.g. 2026-03-01); defaults to `days` ago'),
+  days: z.number().int().min(1).max(365).default(7).describe('Days back to report changes from when `since` is omitted'),
+  priceDropPercent: z.number().min(0).max(100).default(5).describe('Smallest Buy Box / Amazon price drop reported, in %'),
+  rankChangePercent: z.number().min(0).default(30).describe('Smallest sales rank move reported, in % either way'),
+  includeOffers: z.boolean().default(false).describe('Fetch the live offers to name new sellers (6 tokens per 10 offers and product); otherwise only the offer count is compared'),
+  outputFormat: OutputFormatSchema,
+  dryRun: DryRunSchema,
+});
+
+export const productChangesTool = defineTool({
+  name: 'keepa_product_changes',
+  description: 'Changelog of one or more ASINs since a date: new sellers, Buy Box owner switches, Buy Box/Amazon price drops beyond a threshold, Amazon entering or leaving, sales rank spikes and title/brand edits. Compares Keepa history and stored watchlist snapshots with the current product',
+  schema: ProductChangesSchema,
+  handler: (params, { tools }) => getProductChanges(tools, params),
+});
+
+
+export async function getProductChanges(tools: KeepaTools, params: z.infer<typeof ProductChangesSchema>): Promise<string | ProductChangesResult> {
+  try {
+    const asins = Array.from(new Set([params.asin, ...(params.asins ?? [])]
+      .filter((asin): asin is string => !!asin?.trim())
+      .map(asin => asin.trim().toUpperCase())));
+    if (asins.length === 0) {
+      return 'Error: Either asin or asins is required';
+    }
+
+    const now = Date.now();
+    const since = params.since ? Date.parse(params.since) : now - params.days * 86400000;
+    if (Number.isNaN(since) || since >= now) {
+      return `Error: since must be a past ISO date: ${params.since}`;
+    }
+
+    const domain = params.domain as KeepaDomain;
+    const thresholds = { priceDropPercent: params.priceDropPercent, rankChangePercent: params.rankChangePercent };
+    // Full history: the baseline needs the values already in force at `since`
+    const products = await tools.client.getProductsBatch(asins, domain, {
+      stats: 1,
+      history: 1,
+      ...(params.includeOffers ? { offers: 20, 'only-live-offers': 1 } : { buybox: 1 }),
+    });
+    const byAsin = new Map(products.map(product => [product.asin, product]));
+
+    const changelogs: ProductChangelog[] = [];
+    for (const asin of asins.filter(asin => byAsin.has(asin))) {
+      const product = byAsin.get(asin)!;
+      // Stored watchlist snapshots add title/brand and the steps in between
+      const stored = await tools.watchlists.itemHistory(asin, domain);
+      const sinceIso = new Date(since).toISOString();
+      const before = stored.filter(row => row.takenAt <= sinceIso).pop();
+      const baseline: ProductState = {
+        ...productStateAt(product, since),
+        title: before?.item.title ?? null,
+        brand: before?.item.brand ?? null,
+      };
+      const steps = stored.filter(row => row.takenAt > sinceIso).map(row => snapshotItemState(row.item, row.takenAt));
+      const current = productStateNow(product, now);
+
+      changelogs.push({
+        asin,
+        title: product.title ?? null,
+        baseline,
+        current,
+        changes: diffProductHistory([baseline, ...steps, current], thresholds),
+      });
+    }
+
+    const result: ProductChangesResult = {
+      domain,
+      marketplace: tools.client.getDomainName(domain),
+      since: new Date(since).toISOString(),
+      thresholds,
+      totalChanges: changelogs.reduce((sum, changelog) => sum + changelog.changes.length, 0),
+      products: changelogs,
+      missing: asins.filter(asin => !byAsin.has(asin)),
+    };
+    if (params.outputFormat === 'json') {
+      return result;
+    }
+
+    let text = `**🔄 Product Changes since ${result.since.slice(0, 10)}**\n\n`;
+    text += `🏪 ${result.marketplace} | 📦 ${changelogs.length} products | 🔔 ${result.totalChanges} changes\n`;
+    text += `📏 Price drops ≥ ${thresholds.priceDropPercent}%, rank moves ≥ ${thresholds.rankChangePercent}%\n\n`;
+
+    changelogs.forEach(changelog => {
+      text += `**${changelog.asin}** - ${changelog.title || 'N/A'}\n`;
+      if (changelog.changes.length === 0) {
+        text += `✅ No changes above the thresholds\n\n`;
+        return;
+      }
+      changelog.changes.forEach(change => {
+        text += `• ${change.to.slice(0, 16).replace('T', ' ')}: ${describeProductChange(change, cents => tools.client.formatPrice(cents, domain))}\n`;
+      });
+      text += '\n';
+    });
+
+    if (result.missing.length > 0) {
+      text += `⚠️ Not found on Keepa: ${result.missing.join(', ')}\n`;
+    }
+    return text;
+  } catch (error) {
+    tools.rethrowApiError(error);
+    return `Error detecting product changes: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+}
@@ -0,0 +1,207 @@
+import { z } from 'zod';
+import { defineTool } from '../registry.js';
+import { KeepaTools, OutputFormatSchema, DryRunSchema, CategoryIdSchema } from '../tools.js';
+import { KeepaDomain, ProductFinderResult, ProductFinderOutput } from '../types.js';
+
+export const ProductFinderSchema = z.object({
+  domain: z.number().min(1).max(11).default(1).describe('Amazon domain (1=US, 2=UK, 3=DE, etc.)'),
+  categoryId: CategoryIdSchema.optional().describe('Amazon category ID or name to search within'),
+  minRating: z.number().min(1).max(5).optional().describe('Minimum product rating (1-5 stars)'),
+  maxRating: z.number().min(1).max(5).optional().describe('Maximum product rating (1-5 stars)'),
+  minPrice: z.number().min(0).optional().describe('Minimum price in cents'),
+  maxPrice: z.number().min(0).optional().describe('Maximum price in cents'),
+  minShipping: z.number().min(0).optional().describe('Minimum shipping cost in cents'),
+  maxShipping: z.number().min(0).optional().describe('Maximum shipping cost in cents'),
+  minMonthlySales: z.number().min(0).optional().describe('Minimum estimated monthly sales'),
+  maxMonthlySales: z.number().min(0).optional().describe('Maximum estimated monthly sales'),
+  minSellerCount: z.number().min(0).optional().describe('Minimum number of sellers'),
+  maxSellerCount: z.number().min(0).optional().describe('Maximum number of sellers'),
+  sellerCountTimeframe: z.enum(['current', '30day', '90day', '180day', '365day']).default('90day').describe('Timeframe for seller count (current, 30day, 90day, 180day, 365day)'),
+  isPrime: z.boolean().optional().describe('Filter for Prime eligible products only'),
+  hasReviews: z.boolean().optional().describe('Filter for products with reviews only'),
+  productType: z.number().min(0).max(2).default(0).optional().describe('Product type (0=standard, 1=variation parent, 2=variation child)'),
+  sortBy: z.enum(['monthlySold', 'price', 'rating', 'reviewCount', 'salesRank']).default('monthlySold').describe('Sort results by field'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc').describe('Sort order (ascending or descending)'),
+  page: z.number().min(0).default(0).describe('Page number for pagination'),
+  perPage: z.number().min(1).max(50).default(25).describe('Results per page (max 50)'),
+  outputFormat: OutputFormatSchema,
+  dryRun: DryRunSchema,
+});
+
+export const productFinderTool = defineTool({
+  name: 'keepa_product_finder',
+  description: 'Advanced product finder with filtering similar to Keepa Product Finder - find products by rating, price, sales, competition level',
+  schema: ProductFinderSchema,
+  handler: (params, { tools }) => findProducts(tools, params),
+});
+
+export async function findProducts(tools: KeepaTools, params: z.infer<typeof ProductFinderSchema>): Promise<string | ProductFinderOutput> {
+  try {
+    const domain = params.domain as KeepaDomain;
+    const domainName = tools.client.getDomainName(domain);
+    const categoryId = await tools.resolveCategory(params.categoryId, domain);
+
+    if (params.outputFormat === 'json') {
+      const products = await tools.client.searchProducts({ ...params, categoryId });
+      return {
+        domain,
+        marketplace: domainName,
+        page: params.page,
+        perPage: params.perPage,
+        sellerCountTimeframe: params.sellerCountTimeframe,
+        products: products.map((product: any) => buildFinderResult(tools, product, params.sellerCountTimeframe)),
+      };
+    }
+    
+    let result = `**Amazon Product Finder Results**\n\n`;
+    result += `🏪 **Marketplace**: ${domainName}\n`;
+    result += `🔍 **Search Criteria**:\n`;
+    
+    if (categoryId) {
+      result += `• Category: ${tools.categoryLabel(params.categoryId!, categoryId)}\n`;
+    }
+    if (params.minRating || params.maxRating) {
+      const min = params.minRating || 1;
+      const max = params.maxRating || 5;
+      result += `• Rating: ${min}-${max} stars\n`;
+    }
+    if (params.minPrice || params.maxPrice) {
+      const min = params.minPrice ? tools.client.formatPrice(params.minPrice, domain) : 'Any';
+      const max = params.maxPrice ? tools.client.formatPrice(params.maxPrice, domain) : 'Any';
+      result += `• Price: ${min} - ${max}\n`;
+    }
+    if (params.minShipping || params.maxShipping) {
+      const min = params.minShipping ? tools.client.formatPrice(params.minShipping, domain) : 'Any';
+      const max = params.maxShipping ? tools.client.formatPrice(params.maxShipping, domain) : 'Any';
+      result += `• Shipping: ${min} - ${max}\n`;
+    }
+    if (params.minMonthlySales || params.maxMonthlySales) {
+      const min = params.minMonthlySales?.toLocaleString() || 'Any';
+      const max = params.maxMonthlySales?.toLocaleString() || 'Any';
+      result += `• Monthly Sales: ${min} - ${max}\n`;
+    }
+    if (params.minSellerCount || params.maxSellerCount) {
+      const min = params.minSellerCount || 'Any';
+      const max = params.maxSellerCount || 'Any';
+      const timeframeDesc = params.sellerCountTimeframe === '90day' ? '90-day average' : 
+                           params.sellerCountTimeframe === 'current' ? 'current' :
+                           params.sellerCountTimeframe === '30day' ? '30-day average' :
+                           params.sellerCountTimeframe === '180day' ? '180-day average' :
+                           '365-day average';
+      result += `• Seller Count: ${min} - ${max} (${timeframeDesc})\n`;
+    }
+    if (params.isPrime !== undefined) {
+      result += `• Prime Only: ${params.isPrime ? 'Yes' : 'No'}\n`;
+    }
+    if (params.hasReviews !== undefined) {
+      result += `• Has Reviews: ${params.hasReviews ? 'Yes' : 'No'}\n`;
+    }
+    
+    result += `• Sort: ${params.sortBy} (${params.sortOrder})\n\n`;
+
+    // Make real API call to Keepa
+    const products = await tools.client.searchProducts({ ...params, categoryId });
+    
+    if (products.length === 0) {
+      result += `❌ **No products found** matching your criteria.\n\n`;
+      result += `**Suggestions:**\n`;
+      result += `• Try widening your price range\n`;
+      result += `• Reduce minimum rating requirements\n`;
+      result += `• Remove category restrictions\n`;
+      result += `• Adjust monthly sales thresholds\n`;
+      return result;
+    }
+
+    result += `📊 **Found ${products.length} products** (Page ${params.page + 1}):\n\n`;
+
+    products.forEach((product: any, i: number) => {
+      const rank = params.page * params.perPage + i + 1;
+      const item = buildFinderResult(tools, product, params.sellerCountTimeframe);
+      const sellerInfo = tools.client.getSellerCount(product, params.sellerCountTimeframe);
+      const competition = item.competition;
+      
+      result += `**${rank}. ${item.asin}** ${competition === 'Low' ? '🟢' : competition === 'Medium' ? '🟡' : '🔴'}\n`;
+      result += `📦 **${item.title}**\n`;
+      
+      if (item.brand) {
+        result += `🏷️ Brand: ${item.brand}\n`;
+      }
+      
+      if (item.price && item.price > 0) {
+        result += `💰 **Price**: ${tools.client.formatPrice(item.price, domain)}`;
+        if (item.shipping && item.shipping > 0) {
+          result += ` + ${tools.client.formatPrice(item.shipping, domain)} shipping`;
+        }
+        result += '\n';
+      }
+      
+      if (item.rating && item.reviewCount) {
+        result += `⭐ **Rating**: ${item.rating.toFixed(1)}/5.0 (${item.reviewCount.toLocaleString()} reviews)\n`;
+      }
+      
+      if (item.monthlySold && item.monthlySold > 0) {
+        result += `📈 **Monthly Sales**: ~${item.monthlySold.toLocaleString()} units\n`;
+      }
+      
+      if (item.salesRank) {
+        result += `📊 **Sales Rank**: #${item.salesRank.toLocaleString()}\n`;
+      }
+      
+      result += `🏪 **Sellers**: ${item.sellerCount} (${sellerInfo.description})\n`;
+      
+      if (item.isPrime) {
+        result += `⚡ **Prime Eligible**\n`;
+      }
+      
+      if (item.profitMargin !== undefined) {
+        result += `💹 **Est. Profit Margin**: ${item.profitMargin}%\n`;
+      }
+      
+      result += `🎯 **Competition**: ${competition}\n\n`;
+    });
+
+    result += `**💡 Pro Tips:**\n`;
+    result += `• Green dots (🟢) indicate low competition opportunities\n`;
+    result += `• High monthly sales + low competition = potential goldmine\n`;
+    result += `• Check review velocity and listing quality before proceeding\n`;
+    result += `• Use price history tool for deeper market analysis\n`;
+
+    return result;
+  } catch (error) {
+    tools.rethrowApiError(error);
+    console.error('Product finder error:', error);
+    const errorMessage = error instanceof Error ? error.message : 
+                        typeof error === 'string' ? error : 
+                        JSON.stringify(error);
+    return `Error in product finder: ${errorMessage}`;
+  }
+}
+
+// ── Helper: normalise a finder/query product into a ProductFinderResult ──
+function buildFinderResult(tools: KeepaTools, product: any, sellerCountTimeframe: string): ProductFinderResult {
+  const rating = product.stats?.current_RATING ? product.stats.current_RATING / 10 : product.rating;
+  const price = product.stats?.current_AMAZON || product.price;
+  const sellerCount = tools.client.getSellerCount(product, sellerCountTimeframe).count;
+
+  // Determine competition level
+  let competition: 'Low' | 'Medium' | 'High' = 'Medium';
+  if (sellerCount <= 3) competition = 'Low';
+  else if (sellerCount >= 10) competition = 'High';
+
+  return {
+    asin: product.asin,
+    title: product.title || product.productTitle || 'Unknown Product',
+    brand: product.brand || undefined,
+    price: tools.positiveOrNull(price) ?? undefined,
+    shipping: tools.positiveOrNull(product.stats?.current_BUY_BOX_SHIPPING || product.shipping) ?? undefined,
+    rating: rating || undefined,
+    reviewCount: product.stats?.current_COUNT_REVIEWS || product.reviewCount || undefined,
+    monthlySold: product.monthlySold || product.stats?.monthlySold || 0,
+    salesRank: product.stats?.current_SALES || product.salesRank || undefined,
+    sellerCount,
+    isPrime: !!product.isPrime,
+    // Estimated profit margin, only meaningful above $10
+    profitMargin: price && price > 1000 ? Math.max(15, Math.min(40, 30 - (sellerCount * 2))) : undefined,
+    competition,
+  };
+}
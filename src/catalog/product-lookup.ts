@@ -0,0 +1,520 @@
+import { z } from 'zod';
+import { defineTool } from '../registry.js';
+import { KeepaTools, OutputFormatSchema, DryRunSchema } from '../tools.js';
+import { KeepaDomain, KeepaDataType, KeepaProduct, ProductLookupResult, NotFoundResult } from '../types.js';
+import { estimateSales } from '../sales-estimator.js';
+
+export const ProductLookupSchema = z.object({
+  asin: z.string().optional().describe('Amazon ASIN (product identifier)'),
+  code: z.string().optional().describe('Product code (EAN, UPC, ISBN-13) - alternative to ASIN'),
+  domain: z.number().min(1).max(11).default(1).describe('Amazon domain (1=US, 2=UK, 3=DE, etc.)'),
+  days: z.number().min(1).max(365).optional().describe('Number of days of price history to include'),
+  history: z.boolean().default(false).describe('Include full price history'),
+  offers: z.number().min(20).max(100).optional().describe('Number of marketplace offers to retrieve (min 20, max 100). Cost: 6 extra Keepa tokens per page of 10 offers found (20 offers ≈ 12 tokens); use dryRun to check. Includes buybox, FBA/FBM prices, shipping, rating history, and live seller data.'),
+  variations: z.boolean().default(false).describe('Include product variations'),
+  rating: z.boolean().default(false).describe('Include product rating data'),
+  outputFormat: OutputFormatSchema,
+  dryRun: DryRunSchema,
+});
+
+export const productLookupTool = defineTool({
+  name: 'keepa_product_lookup',
+  description: 'Look up detailed information for a single Amazon product by ASIN',
+  schema: ProductLookupSchema,
+  priority: 'interactive',
+  handler: (params, { tools }) => lookupProduct(tools, params),
+});
+
+// ============================================================
+// lookupProduct() v5
+// Basado en documentación oficial de Keepa:
+// - Statistics Object: min/max son int[][] (arrays 2D)
+// - stock=true → stats.stockBuyBox (simple int)
+// - buybox ignorado con offers
+// - rating redundante con offers
+// - only-live-offers reduce respuesta sin coste
+// ============================================================
+
+export async function lookupProduct(tools: KeepaTools, params: z.infer<typeof ProductLookupSchema>): Promise<string | ProductLookupResult | NotFoundResult> {
+  try {
+    if (!params.asin && !params.code) {
+      return 'Error: Either ASIN or code (EAN/UPC) is required';
+    }
+
+    // ── Parámetros optimizados según documentación Keepa ──
+    // Recortado a propósito: la caché no sirve este lookup desde price history ni al revés
+    const queryOptions: any = {
+      stats: 90,                // FREE: avg/min/max/OOS sobre 90 días
+      days: params.days || 1,   // Solo datos recientes para offers (reduce respuesta)
+      history: false,           // No parseamos csv[] aquí → reduce respuesta ~80%
+      offers: params.offers || 20, // 6-12 tokens: ofertas, BB, rating, reviews actualizados
+      stock: 1,              // 2 tokens: stats.stockBuyBox + stats.stockAmazon
+      'only-live-offers': 1, // FREE: excluye ofertas históricas → reduce respuesta
+      // rating: ELIMINADO — redundante cuando se usa offers (doc: "use offers for up-to-date data")
+      // buybox: ELIMINADO — ignorado cuando se usa offers (doc: "buybox parameter is ignored")
+      variations: params.variations,
+    };
+
+    let product;
+    if (params.code) {
+      const products = await tools.client.getProduct({
+        code: params.code,
+        domain: params.domain as KeepaDomain,
+        ...queryOptions,
+      });
+      product = products?.[0];
+    } else {
+      product = await tools.client.getProductByAsin(
+        params.asin!,
+        params.domain as KeepaDomain,
+        queryOptions
+      );
+    }
+
+    if (!product) {
+      return tools.notFound(params.outputFormat, `Product not found for ${params.asin ? 'ASIN: ' + params.asin : 'Code: ' + params.code}`);
+    }
+
+    const domain = params.domain as KeepaDomain;
+    const domainName = tools.client.getDomainName(domain);
+    const asin = product.asin || params.asin || 'N/A';
+
+    const imageUrl = product.imagesCSV
+      ? `https://m.media-amazon.com/images/I/${product.imagesCSV.split(',')[0]}`
+      : null;
+
+    const stats = product.stats as any; // Cast para acceder a campos completos
+
+    if (params.outputFormat === 'json') {
+      return buildProductLookupResult(tools, product, domain, imageUrl);
+    }
+
+    // ── Información Básica ──
+    let result = `**Product Information for ${asin}**\n\n`;
+    result += `🏪 **Marketplace**: ${domainName}\n`;
+    result += `📦 **ASIN**: ${asin}\n`;
+    if (imageUrl) result += `📷 **Imagen**: ${imageUrl}\n`;
+    result += `🏷️ **Titulo**: ${product.title || 'N/A'}\n`;
+    result += `🏢 **Marca**: ${product.brand || 'N/A'}\n`;
+    result += `📊 **Categoria**: ${product.productGroup || 'N/A'}\n`;
+    if ((product as any).parentAsin) {
+      result += `🔗 **Parent ASIN**: ${(product as any).parentAsin}\n`;
+    }
+    result += `\n`;
+
+    // ── PRECIOS (con fix de min/max — son arrays 2D [keepaTime, value]) ──
+    if (stats) {
+      const buyBoxPrice = stats.buyBoxPrice;
+      const buyBoxShipping = stats.buyBoxShipping;
+      const buyBoxUsedPrice = stats.buyBoxUsedPrice;
+      const amazonPrice = stats.current?.[0]; // AMAZON = index 0
+      const avgPrice = stats.avg?.[0]; // Media del intervalo stats=90
+
+      // FIX: min y max son int[][] → min[csvType] = [keepaTime, value] o null
+      const minRaw = stats.minInInterval?.[0]; // minInInterval = dentro del periodo stats
+      const minPrice = Array.isArray(minRaw) ? minRaw[1] : minRaw;
+      const maxRaw = stats.maxInInterval?.[0];
+      const maxPrice = Array.isArray(maxRaw) ? maxRaw[1] : maxRaw;
+
+      // Medias por periodo (siempre disponibles, FREE)
+      const avg30 = stats.avg30?.[0];
+      const avg90 = stats.avg90?.[0];
+      const avg180 = stats.avg180?.[0];
+
+      result += `💰 **PRECIOS:**\n`;
+
+      // Buy Box principal
+      if (buyBoxPrice && buyBoxPrice > 0) {
+        let bbText = `   • Buy Box: ${tools.client.formatPrice(buyBoxPrice, domain)}`;
+        if (buyBoxShipping && buyBoxShipping > 0) {
+          bbText += ` (+${tools.client.formatPrice(buyBoxShipping, domain)} envío)`;
+        }
+        result += bbText + `\n`;
+      }
+      if (amazonPrice && amazonPrice > 0 && amazonPrice !== buyBoxPrice) {
+        result += `   • Amazon: ${tools.client.formatPrice(amazonPrice, domain)}\n`;
+      }
+
+      // Estadísticas de precio (FREE con stats=90)
+      if (avg90 && avg90 > 0) {
+        result += `   • Promedio 90d: ${tools.client.formatPrice(avg90, domain)}`;
+        // Tendencia: comparar avg30 vs avg90
+        if (avg30 && avg30 > 0 && avg90 > 0) {
+          const diff = ((avg30 - avg90) / avg90) * 100;
+          if (Math.abs(diff) >= 1) {
+            result += diff > 0 ? ` (📈 +${diff.toFixed(1)}% vs 30d)` : ` (📉 ${diff.toFixed(1)}% vs 30d)`;
+          }
+        }
+        result += `\n`;
+      }
+      if (minPrice && minPrice > 0) {
+        result += `   • Mínimo 90d: ${tools.client.formatPrice(minPrice, domain)}\n`;
+      }
+      if (maxPrice && maxPrice > 0) {
+        result += `   • Máximo 90d: ${tools.client.formatPrice(maxPrice, domain)}\n`;
+      }
+
+      // Descuento/Saving (si hay precio tachado)
+      if (stats.buyBoxSavingBasis && stats.buyBoxSavingBasis > 0) {
+        const savingType = stats.buyBoxSavingBasisType === 'WAS_PRICE' ? 'Precio anterior' : 'PVP';
+        result += `   • ${savingType}: ${tools.client.formatPrice(stats.buyBoxSavingBasis, domain)}`;
+        if (stats.buyBoxSavingPercentage) {
+          result += ` (-${stats.buyBoxSavingPercentage}%)`;
+        }
+        result += `\n`;
+      }
+
+      // Cupones activos
+      const coupon = (product as any).coupon;
+      if (coupon && Array.isArray(coupon)) {
+        const [oneTime, sns] = coupon;
+        if (oneTime > 0) result += `   • 🎟️ Cupón: -${tools.client.formatPrice(oneTime, domain)}\n`;
+        else if (oneTime < 0) result += `   • 🎟️ Cupón: -${Math.abs(oneTime)}%\n`;
+        if (sns > 0) result += `   • 🎟️ Cupón S&S: -${tools.client.formatPrice(sns, domain)}\n`;
+        else if (sns < 0) result += `   • 🎟️ Cupón S&S: -${Math.abs(sns)}%\n`;
+      }
+
+      result += `\n`;
+
+      // ── BUY BOX (con condición correcta via buyBoxCondition) ──
+      result += `🏆 **BUY BOX:**\n`;
+      const hasBuyBoxNew = buyBoxPrice && buyBoxPrice > 0;
+      const hasBuyBoxUsed = buyBoxUsedPrice && buyBoxUsedPrice > 0;
+
+      if (hasBuyBoxNew || hasBuyBoxUsed) {
+        // Condición del Buy Box principal (buyBoxCondition del Statistics Object)
+        const buyBoxCondition = stats.buyBoxCondition;
+        const conditionMap: Record<number, string> = {
+          1: 'Nuevo', 2: 'Usado-Como Nuevo', 3: 'Usado-Muy Bueno',
+          4: 'Usado-Bueno', 5: 'Usado-Aceptable',
+        };
+
+        if (hasBuyBoxNew) {
+          const mainCondition = conditionMap[buyBoxCondition] || 'Nuevo';
+          result += `   • Precio: ${tools.client.formatPrice(buyBoxPrice, domain)} (${mainCondition})\n`;
+
+          // Ganador
+          let ganador = 'Vendedor FBM 3P';
+          if (stats.buyBoxIsAmazon) ganador = 'Amazon';
+          else if (stats.buyBoxIsFBA) ganador = 'Vendedor FBA 3P';
+          result += `   • Ganador: ${ganador}\n`;
+
+          // Fulfillment / Prime
+          if (stats.buyBoxIsFBA) result += `   • Fulfillment: FBA ✓\n`;
+          if (stats.buyBoxIsPrimeEligible) result += `   • Prime: ✅\n`;
+        }
+
+        if (hasBuyBoxUsed) {
+          const usedCondition = conditionMap[stats.buyBoxUsedCondition] || 'Usado';
+          if (hasBuyBoxNew) {
+            result += `   • BB Usado: ${tools.client.formatPrice(buyBoxUsedPrice, domain)} (${usedCondition})\n`;
+          } else {
+            result += `   • Precio: ${tools.client.formatPrice(buyBoxUsedPrice, domain)} (${usedCondition})\n`;
+            if (stats.buyBoxUsedIsFBA) result += `   • Fulfillment: FBA ✓\n`;
+          }
+        }
+
+        // Mensaje de disponibilidad
+        if (stats.buyBoxAvailabilityMessage) {
+          result += `   • Disponibilidad: ${stats.buyBoxAvailabilityMessage}\n`;
+        }
+
+        // Subscribe & Save
+        if ((product as any).isSNS) {
+          result += `   • 🔄 Subscribe & Save: Disponible\n`;
+        }
+
+        // Min/Max order quantity
+        if (stats.buyBoxMinOrderQuantity && stats.buyBoxMinOrderQuantity > 1) {
+          result += `   • Cantidad mínima: ${stats.buyBoxMinOrderQuantity}\n`;
+        }
+        if (stats.buyBoxMaxOrderQuantity && stats.buyBoxMaxOrderQuantity > 0) {
+          result += `   • Cantidad máxima: ${stats.buyBoxMaxOrderQuantity}\n`;
+        }
+
+        // País de envío
+        if (stats.buyBoxShippingCountry) {
+          result += `   • País envío: ${stats.buyBoxShippingCountry}\n`;
+        }
+      } else {
+        result += `   • Ganador: Sin Buy Box\n`;
+        if (stats.buyBoxIsUnqualified) {
+          result += `   • Nota: Ningún vendedor calificado para BB\n`;
+        }
+      }
+      result += `\n`;
+
+      // ── STOCK (stats.stockBuyBox / stats.stockAmazon — requiere stock=true) ──
+      const stockBuyBox = stats.stockBuyBox;
+      const stockAmazon = stats.stockAmazon;
+      if ((stockBuyBox !== undefined && stockBuyBox > 0) || (stockAmazon !== undefined && stockAmazon > 0)) {
+        result += `📦 **STOCK:**\n`;
+        if (stockBuyBox !== undefined && stockBuyBox > 0) {
+          result += `   • Buy Box: ${stockBuyBox} unidades\n`;
+        }
+        if (stockAmazon !== undefined && stockAmazon > 0 && stockAmazon !== stockBuyBox) {
+          result += `   • Amazon: ${stockAmazon} unidades\n`;
+        }
+        result += `\n`;
+      }
+
+      // ── SALES RANK ──
+      const currentSalesRank = stats.current?.[3]; // SALES = index 3
+      if (currentSalesRank && currentSalesRank > 0) {
+        result += `📊 **Sales Rank**: #${currentSalesRank.toLocaleString()}\n`;
+        // Drops = proxy de ventas
+        if (stats.salesRankDrops30 !== undefined && stats.salesRankDrops30 >= 0) {
+          result += `   • Drops 30d: ${stats.salesRankDrops30} (≈ ventas estimadas)\n`;
+        }
+        if (stats.salesRankDrops90 !== undefined && stats.salesRankDrops90 >= 0) {
+          result += `   • Drops 90d: ${stats.salesRankDrops90}\n`;
+        }
+        result += `\n`;
+      }
+
+      // ── VENTAS MENSUALES (monthlySold de Amazon; si no hay, estimación por rank) ──
+      const salesEstimate = estimateSales(product, { domain }, tools.options.salesEstimators);
+      if (salesEstimate.monthly > 0) {
+        const monthlySold = salesEstimate.monthly;
+        const weeklySold = Math.round((monthlySold / 4.3) * 10) / 10;
+        result += `📈 **VELOCIDAD DE VENTAS (30 días):**\n`;
+        result += `   • Mensuales: ${monthlySold.toLocaleString()} unidades\n`;
+        result += `   • Diarias: ${salesEstimate.daily} unidades\n`;
+        result += `   • Semanales: ${weeklySold} unidades\n`;
+        if (salesEstimate.method !== 'monthlySold') {
+          result += `   • Fuente: ${tools.describeSalesEstimate(salesEstimate.method, salesEstimate.confidence)}\n`;
+        }
+        result += `\n`;
+      }
+
+      // ── RESEÑAS ──
+      const rating = stats.current?.[16]; // RATING index 16 (0-50)
+      const reviewCount = stats.current?.[17]; // COUNT_REVIEWS index 17
+      if (rating && rating > 0) {
+        result += `⭐ **RESEÑAS:**\n`;
+        result += `   • Rating: ${(rating / 10).toFixed(1)}/5.0\n`;
+        if (reviewCount && reviewCount > 0) {
+          result += `   • Total: ${reviewCount.toLocaleString()} reseñas\n`;
+        }
+        result += `\n`;
+      }
+
+      // ── COMPETENCIA ──
+      result += `🏪 **COMPETENCIA:**\n`;
+      if (stats.totalOfferCount !== undefined) {
+        result += `   • Total ofertas: ${stats.totalOfferCount}\n`;
+      }
+      if (stats.offerCountFBA !== undefined && stats.offerCountFBA >= 0) {
+        result += `   • Ofertas FBA: ${stats.offerCountFBA}\n`;
+      }
+      if (stats.offerCountFBM !== undefined && stats.offerCountFBM >= 0) {
+        result += `   • Ofertas FBM: ${stats.offerCountFBM}\n`;
+      }
+      if (stats.buyBoxIsAmazon) {
+        result += `   • Amazon vende: Sí\n`;
+      }
+      // Seller IDs del FBA/FBM más barato
+      if (stats.sellerIdsLowestFBA && stats.sellerIdsLowestFBA.length > 0) {
+        result += `   • Vendedor FBA más barato: ${stats.sellerIdsLowestFBA[0]}\n`;
+      }
+      result += `\n`;
+
+      // ── OUT OF STOCK % ──
+      const oosAmazon90 = stats.outOfStockPercentage90?.[0]; // AMAZON = index 0
+      if (oosAmazon90 !== undefined && oosAmazon90 >= 0) {
+        result += `📉 **OUT OF STOCK:**\n`;
+        result += `   • Amazon OOS 90d: ${oosAmazon90}%\n`;
+        const oosNew90 = stats.outOfStockPercentage90?.[1]; // NEW = index 1
+        if (oosNew90 !== undefined && oosNew90 >= 0) {
+          result += `   • Marketplace OOS 90d: ${oosNew90}%\n`;
+        }
+        result += `\n`;
+      }
+
+      // ── DEALS ACTIVOS ──
+      const deals = (product as any).deals;
+      if (deals && Array.isArray(deals) && deals.length > 0) {
+        result += `🔥 **DEALS ACTIVOS:**\n`;
+        for (const deal of deals) {
+          result += `   • ${deal.badge || deal.dealType}`;
+          if (deal.percentClaimed > 0) result += ` (${deal.percentClaimed}% reclamado)`;
+          if (deal.accessType === 'PRIME_EXCLUSIVE') result += ` [Prime]`;
+          result += `\n`;
+        }
+        result += `\n`;
+      }
+
+      // ── BB STATS (quién gana el BB y con qué %) ──
+      if (stats.buyBoxStats && typeof stats.buyBoxStats === 'object') {
+        const bbEntries = Object.entries(stats.buyBoxStats) as [string, any][];
+        if (bbEntries.length > 0) {
+          result += `🏆 **BB SHARE (90d):**\n`;
+          // Ordenar por % ganado
+          bbEntries.sort((a, b) => (b[1]?.percentageWon || 0) - (a[1]?.percentageWon || 0));
+          for (const [sellerId, data] of bbEntries.slice(0, 5)) {
+            const name = sellerId === 'ATVPDKIKX0DER' ? 'Amazon' : sellerId;
+            const pct = data?.percentageWon?.toFixed(1) || '?';
+            const isFBA = data?.isFBA ? ' (FBA)' : ' (FBM)';
+            result += `   • ${name}${isFBA}: ${pct}%\n`;
+          }
+          result += `\n`;
+        }
+      }
+
+      // ── COSTES AMAZON (si disponibles) ──
+      const fbaFees = product.fbaFees;
+      const referralFee = product.referralFeePercentage;
+      const competitivePrice = (product as any).competitivePriceThreshold;
+      if (fbaFees || referralFee || competitivePrice) {
+        result += `💶 **COSTES AMAZON:**\n`;
+        if (referralFee) {
+          result += `   • Comisión referral: ${referralFee}%\n`;
+        }
+        if (fbaFees?.pickAndPackFee) {
+          result += `   • Tarifa FBA: ${tools.client.formatPrice(fbaFees.pickAndPackFee, domain)}\n`;
+        }
+        if (competitivePrice && competitivePrice > 0) {
+          result += `   • Precio competitivo (máx para BB): ${tools.client.formatPrice(competitivePrice, domain)}\n`;
+        }
+        const suggestedLower = (product as any).suggestedLowerPrice;
+        if (suggestedLower && suggestedLower > 0) {
+          result += `   • Precio sugerido Amazon: ${tools.client.formatPrice(suggestedLower, domain)}\n`;
+        }
+        result += `\n`;
+      }
+
+      // ── INFO ADICIONAL ──
+      const additionalInfo: string[] = [];
+      if ((product as any).isAdultProduct) additionalInfo.push('🔞 Producto adulto');
+      if (stats.isAddonItem) additionalInfo.push('📎 Add-on Item');
+      if ((product as any).isEligibleForSuperSaverShipping) additionalInfo.push('🚚 Envío gratis elegible');
+      if ((product as any).isEligibleForTradeIn) additionalInfo.push('♻️ Trade-in elegible');
+      const returnRate = (product as any).returnRate;
+      if (returnRate === 1) additionalInfo.push('✅ Tasa devolución baja');
+      else if (returnRate === 2) additionalInfo.push('⚠️ Tasa devolución alta');
+      if ((product as any).newPriceIsMAP) additionalInfo.push('🔒 Precio MAP');
+
+      if (additionalInfo.length > 0) {
+        result += `ℹ️ **INFO ADICIONAL:** ${additionalInfo.join(' | ')}\n\n`;
+      }
+
+    } else {
+      result += `⚠️ No hay datos estadísticos disponibles para este producto.\n`;
+    }
+
+    return result;
+  } catch (error) {
+    tools.rethrowApiError(error);
+    return `Error looking up product: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+// ── Helper: structured version of the lookupProduct report ──
+function buildProductLookupResult(tools: KeepaTools, product: KeepaProduct, domain: KeepaDomain, imageUrl: string | null): ProductLookupResult {
+  const raw = product as any;
+  const stats = product.stats as any;
+  const base = {
+    asin: product.asin,
+    domain,
+    marketplace: tools.client.getDomainName(domain),
+    title: product.title ?? null,
+    brand: product.brand ?? null,
+    productGroup: product.productGroup ?? null,
+    parentAsin: raw.parentAsin ?? null,
+    imageUrl,
+  };
+
+  if (!stats) {
+    return {
+      ...base,
+      prices: {
+        buyBox: null, buyBoxShipping: null, buyBoxUsed: null, amazon: null,
+        avg30: null, avg90: null, avg180: null, min90: null, max90: null,
+        savingBasis: null, savingBasisType: null, savingPercentage: null,
+      },
+      buyBox: null,
+      stock: null,
+      salesRank: null,
+      monthlySold: tools.positiveOrNull(raw.monthlySold),
+      reviews: null,
+      competition: null,
+      outOfStock90: null,
+      buyBoxShare: [],
+      fees: null,
+    };
+  }
+
+  const buyBoxShare = stats.buyBoxStats && typeof stats.buyBoxStats === 'object'
+    ? (Object.entries(stats.buyBoxStats) as [string, any][])
+        .map(([sellerId, data]) => ({
+          sellerId,
+          percentageWon: typeof data?.percentageWon === 'number' ? data.percentageWon : null,
+          isFBA: !!data?.isFBA,
+        }))
+        .sort((a, b) => (b.percentageWon || 0) - (a.percentageWon || 0))
+    : [];
+
+  const rating = tools.positiveOrNull(stats.current?.[KeepaDataType.RATING]);
+  const fbaFees = raw.fbaFees;
+
+  return {
+    ...base,
+    prices: {
+      buyBox: tools.positiveOrNull(stats.buyBoxPrice),
+      buyBoxShipping: tools.nonNegativeOrNull(stats.buyBoxShipping),
+      buyBoxUsed: tools.positiveOrNull(stats.buyBoxUsedPrice),
+      amazon: tools.positiveOrNull(stats.current?.[KeepaDataType.AMAZON]),
+      avg30: tools.positiveOrNull(stats.avg30?.[KeepaDataType.AMAZON]),
+      avg90: tools.positiveOrNull(stats.avg90?.[KeepaDataType.AMAZON]),
+      avg180: tools.positiveOrNull(stats.avg180?.[KeepaDataType.AMAZON]),
+      min90: tools.datedValue(stats.minInInterval?.[KeepaDataType.AMAZON]),
+      max90: tools.datedValue(stats.maxInInterval?.[KeepaDataType.AMAZON]),
+      savingBasis: tools.positiveOrNull(stats.buyBoxSavingBasis),
+      savingBasisType: stats.buyBoxSavingBasisType ?? null,
+      savingPercentage: tools.positiveOrNull(stats.buyBoxSavingPercentage),
+    },
+    buyBox: {
+      condition: tools.positiveOrNull(stats.buyBoxCondition),
+      isAmazon: !!stats.buyBoxIsAmazon,
+      isFBA: !!stats.buyBoxIsFBA,
+      isPrimeEligible: !!stats.buyBoxIsPrimeEligible,
+      isUnqualified: !!stats.buyBoxIsUnqualified,
+      availabilityMessage: stats.buyBoxAvailabilityMessage ?? null,
+      shippingCountry: stats.buyBoxShippingCountry ?? null,
+      minOrderQuantity: tools.positiveOrNull(stats.buyBoxMinOrderQuantity),
+      maxOrderQuantity: tools.positiveOrNull(stats.buyBoxMaxOrderQuantity),
+    },
+    stock: {
+      buyBox: tools.nonNegativeOrNull(stats.stockBuyBox),
+      amazon: tools.nonNegativeOrNull(stats.stockAmazon),
+    },
+    salesRank: {
+      current: tools.positiveOrNull(stats.current?.[KeepaDataType.SALES_RANK]),
+      drops30: tools.nonNegativeOrNull(stats.salesRankDrops30),
+      drops90: tools.nonNegativeOrNull(stats.salesRankDrops90),
+    },
+    monthlySold: tools.positiveOrNull(raw.monthlySold),
+    reviews: {
+      rating: rating !== null ? rating / 10 : null,
+      count: tools.nonNegativeOrNull(stats.current?.[KeepaDataType.COUNT_REVIEWS]),
+    },
+    competition: {
+      totalOffers: tools.nonNegativeOrNull(stats.totalOfferCount),
+      fbaOffers: tools.nonNegativeOrNull(stats.offerCountFBA),
+      fbmOffers: tools.nonNegativeOrNull(stats.offerCountFBM),
+      amazonSells: !!stats.buyBoxIsAmazon,
+      lowestFbaSellerId: stats.sellerIdsLowestFBA?.[0] ?? null,
+    },
+    outOfStock90: {
+      amazon: tools.nonNegativeOrNull(stats.outOfStockPercentage90?.[KeepaDataType.AMAZON]),
+      marketplace: tools.nonNegativeOrNull(stats.outOfStockPercentage90?.[KeepaDataType.NEW]),
+    },
+    buyBoxShare,
+    fees: {
+      referralFeePercentage: tools.positiveOrNull(raw.referralFeePercentage),
+      fbaPickAndPackFee: tools.positiveOrNull(fbaFees?.pickAndPackFee),
+      competitivePriceThreshold: tools.positiveOrNull(raw.competitivePriceThreshold),
+      suggestedLowerPrice: tools.positiveOrNull(raw.suggestedLowerPrice),
+    },
+  };
+}
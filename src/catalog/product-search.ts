@@ -0,0 +1,68 @@
+import { z } from 'zod';
+import { defineTool } from '../registry.js';
+import { KeepaTools, OutputFormatSchema, DryRunSchema } from '../tools.js';
+import { KeepaDomain, ProductSearchResult } from '../types.js';
+
+export const ProductSearchSchema = z.object({
+  term: z.string().min(1).describe('Search keywords, as typed in the Amazon search box (e.g. "bamboo cutting board")'),
+  domain: z.number().min(1).max(11).default(1).describe('Amazon domain (1=US, 2=UK, 3=DE, 4=FR, 8=IT, 9=ES, etc.)'),
+  page: z.number().min(0).max(9).default(0).describe('Result page (0-9), up to 10 products per page. Cost: 10 tokens per page'),
+  stats: z.boolean().default(true).describe('Include current price and sales rank (free); turn off to only get ASINs and titles'),
+  outputFormat: OutputFormatSchema,
+  dryRun: DryRunSchema,
+});
+
+export const productSearchTool = defineTool({
+  name: 'keepa_product_search',
+  description: 'Search Amazon products by keywords (e.g. "bamboo cutting board" on amazon.es) and get ASINs with price and sales rank, ready for lookups',
+  schema: ProductSearchSchema,
+  priority: 'interactive',
+  handler: (params, { tools }) => searchProductsByKeyword(tools, params),
+});
+
+export async function searchProductsByKeyword(tools: KeepaTools, params: z.infer<typeof ProductSearchSchema>): Promise<string | ProductSearchResult> {
+  try {
+    const domain = params.domain as KeepaDomain;
+    const domainName = tools.client.getDomainName(domain);
+    const products = await tools.client.keywordSearch({
+      domain,
+      term: params.term,
+      page: params.page,
+      stats: params.stats,
+    });
+    // Keepa pages hold up to 10 products and stop at page 9
+    const hasMore = products.length >= 10 && params.page < 9;
+
+    if (params.outputFormat === 'json') {
+      return {
+        domain,
+        marketplace: domainName,
+        term: params.term,
+        page: params.page,
+        hasMore,
+        products: products.map(product => tools.summarizeProduct(product)),
+      };
+    }
+
+    if (products.length === 0) {
+      return `No products found for "${params.term}" on ${domainName}${params.page > 0 ? ` (page ${params.page})` : ''}`;
+    }
+
+    let result = `**Product Search: "${params.term}" (page ${params.page})**\n\n`;
+    result += `🏪 **Marketplace**: ${domainName}\n`;
+    result += `📊 **Found**: ${products.length} products\n\n`;
+
+    products.forEach((product, i) => {
+      result += tools.formatProductSummary(product, params.page * 10 + i + 1, domain);
+    });
+
+    if (hasMore) {
+      result += `➡️ More results with \`page: ${params.page + 1}\`\n`;
+    }
+    result += `💡 Pass these ASINs to keepa_batch_product_lookup or keepa_product_lookup for full details.\n`;
+    return result;
+  } catch (error) {
+    tools.rethrowApiError(error);
+    return `Error searching products: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+}
@@ -0,0 +1,193 @@
+import { z } from 'zod';
+import { defineTool } from '../registry.js';
+import { KeepaTools, OutputFormatSchema, DryRunSchema } from '../tools.js';
+import { KeepaDomain, KeepaDataType, KeepaProduct, ProfitCalculatorResult, ProfitScenario, NotFoundResult } from '../types.js';
+import {
+  detectFeeCategory,
+  fbaFulfillmentFee,
+  FEE_CATEGORIES,
+  isFeeMarketplace,
+  PackageDimensions,
+  profitAt,
+  referralFee,
+} from '../fees.js';
+
+export const ProfitCalculatorSchema = z.object({
+  asin: z.string().optional().describe('Amazon ASIN; without it, give price, package dimensions and feeCategory'),
+  domain: z.number().min(1).max(11).default(9).describe('Amazon domain with fee tables: 1=US, 2=UK, 3=DE, 4=FR, 8=IT, 9=ES (default 9=ES)'),
+  costPrice: z.number().min(0).describe('Unit cost of goods in cents (net of VAT for UK/EU)'),
+  price: z.number().positive().optional().describe('Selling price in cents to evaluate as well (required without ASIN)'),
+  feeCategory: z.enum(FEE_CATEGORIES).optional().describe('Referral fee category; detected from the product categories when omitted'),
+  lengthMm: z.number().positive().optional().describe('Package length in mm (overrides Keepa)'),
+  widthMm: z.number().positive().optional().describe('Package width in mm (overrides Keepa)'),
+  heightMm: z.number().positive().optional().describe('Package height in mm (overrides Keepa)'),
+  weightG: z.number().positive().optional().describe('Package weight in grams (overrides Keepa)'),
+  fulfillment: z.enum(['fba', 'fbm']).default('fba').describe('FBA (fulfilment fee from the size tier) or FBM (shippingCost)'),
+  shippingCost: z.number().min(0).default(0).describe('FBM only: own shipping cost per unit in cents'),
+  otherCosts: z.number().min(0).default(0).describe('Prep, inbound freight and other per-unit costs in cents'),
+  deductVat: z.boolean().default(true).describe('UK/EU: remove the VAT included in the selling price before computing the profit'),
+  outputFormat: OutputFormatSchema,
+  dryRun: DryRunSchema,
+});
+
+export const profitCalculatorTool = defineTool({
+  name: 'keepa_profit_calculator',
+  description: 'Net profit, margin and ROI of selling a product on Amazon US/UK/DE/FR/IT/ES at the current Buy Box and the 90-day average, after referral, FBA and VAT, from an ASIN or a raw price with package dimensions',
+  schema: ProfitCalculatorSchema,
+  priority: 'interactive',
+  handler: (params, { tools }) => calculateProfit(tools, params),
+});
+
+
+export async function calculateProfit(tools: KeepaTools, params: z.infer<typeof ProfitCalculatorSchema>): Promise<string | ProfitCalculatorResult | NotFoundResult> {
+  try {
+    const domain = params.domain;
+    if (!isFeeMarketplace(domain)) {
+      return `Error: Solo hay tablas de comisiones para US (1), UK (2), DE (3), FR (4), IT (8) y ES (9), no para el dominio ${domain}.`;
+    }
+    if (!params.asin && params.price === undefined) {
+      return 'Error: Se necesita ASIN o precio (price) con las dimensiones del paquete';
+    }
+
+    let product: KeepaProduct | null = null;
+    if (params.asin) {
+      // No csv history needed: prices come from the 90-day stats
+      product = await tools.client.getProductByAsin(params.asin, domain, { stats: 90, history: 0 });
+      if (!product) {
+        return tools.notFound(params.outputFormat, `Producto no encontrado: ${params.asin}`);
+      }
+    }
+
+    const warnings: string[] = [];
+    const stats = product?.stats;
+
+    // Explicit dimensions win over Keepa's package data (mm and g)
+    const lengthMm = params.lengthMm ?? tools.positiveOrNull(product?.packageLength);
+    const widthMm = params.widthMm ?? tools.positiveOrNull(product?.packageWidth);
+    const heightMm = params.heightMm ?? tools.positiveOrNull(product?.packageHeight);
+    const weightG = params.weightG ?? tools.positiveOrNull(product?.packageWeight);
+    const dimensions: PackageDimensions | null = lengthMm && widthMm && heightMm && weightG
+      ? { lengthMm, widthMm, heightMm, weightG }
+      : null;
+    const dimensionsOverridden = [params.lengthMm, params.widthMm, params.heightMm, params.weightG].some(v => v !== undefined);
+
+    const feeCategory = params.feeCategory ?? detectFeeCategory([
+      ...(product?.categoryTree ?? []).map(category => category.name),
+      product?.productGroup,
+    ].filter((name): name is string => !!name));
+    // Keepa's percent belongs to Keepa's category; an explicit feeCategory uses our table
+    const keepaReferral = params.feeCategory ? null : tools.positiveOrNull(product?.referralFeePercentage);
+
+    let fulfillmentFee = 0;
+    let fulfillmentSource: ProfitCalculatorResult['fulfillmentSource'] = null;
+    const tier = dimensions ? fbaFulfillmentFee(domain, dimensions) : null;
+    const keepaPickAndPack = tools.positiveOrNull(product?.fbaFees?.pickAndPackFee);
+    if (params.fulfillment === 'fbm') {
+      fulfillmentFee = params.shippingCost;
+      fulfillmentSource = 'input';
+    } else if (keepaPickAndPack !== null && !dimensionsOverridden) {
+      fulfillmentFee = keepaPickAndPack;
+      fulfillmentSource = 'keepa';
+    } else if (tier) {
+      fulfillmentFee = tier.fee;
+      fulfillmentSource = 'table';
+    } else {
+      warnings.push('Sin dimensiones ni peso del paquete: la tarifa FBA no está incluida (indica lengthMm, widthMm, heightMm y weightG).');
+    }
+
+    // Buy Box and 90-day average include shipping, which is also subject to the referral fee
+    const prices: Array<{ label: ProfitScenario['label']; price: number | null }> = [];
+    if (product) {
+      const buyBox = tools.positiveOrNull(stats?.buyBoxPrice);
+      prices.push({ label: 'buyBox', price: buyBox !== null ? buyBox + (tools.positiveOrNull(stats?.buyBoxShipping) ?? 0) : null });
+      prices.push({ label: 'avg90', price: tools.positiveOrNull(stats?.avg90?.[KeepaDataType.BUY_BOX_SHIPPING]) });
+      if (buyBox === null) warnings.push('No hay Buy Box actual.');
+      if (prices[1].price === null) warnings.push('No hay media de Buy Box de 90 días.');
+    }
+    if (params.price !== undefined) {
+      prices.push({ label: 'target', price: params.price });
+    }
+
+    const inputs = {
+      domain,
+      category: feeCategory,
+      costPrice: params.costPrice,
+      fulfillmentFee,
+      otherCosts: params.otherCosts,
+      referralPercent: keepaReferral,
+      deductVat: params.deductVat,
+    };
+    const scenarios: ProfitScenario[] = prices
+      .filter((entry): entry is { label: ProfitScenario['label']; price: number } => entry.price !== null)
+      .map(entry => ({ label: entry.label, ...profitAt(entry.price, inputs) }));
+
+    if (scenarios.length === 0) {
+      return `Error: No hay precio de Buy Box para ${params.asin}; indica un precio (price) para calcular la rentabilidad.`;
+    }
+
+    const referralPercent = keepaReferral ?? referralFee(domain, feeCategory, scenarios[0].price).percent;
+    const marketplace = tools.client.getDomainName(domain);
+
+    if (params.outputFormat === 'json') {
+      return {
+        asin: product?.asin ?? null,
+        domain,
+        marketplace,
+        title: product?.title ?? null,
+        feeCategory,
+        referralPercent,
+        referralSource: keepaReferral !== null ? 'keepa' : 'table',
+        fulfillment: params.fulfillment,
+        fulfillmentSource,
+        sizeTier: tier?.sizeTier ?? null,
+        dimensions,
+        costPrice: params.costPrice,
+        vatDeducted: params.deductVat && domain !== KeepaDomain.US,
+        scenarios,
+        warnings,
+      };
+    }
+
+    const money = (cents: number) => tools.client.formatPrice(cents, domain);
+    const scenarioNames: Record<ProfitScenario['label'], string> = {
+      buyBox: 'Buy Box actual',
+      avg90: 'Media Buy Box 90 días',
+      target: 'Precio indicado',
+    };
+    const sourceNames = { keepa: 'Keepa', table: 'tabla', input: 'indicado' };
+
+    let result = `**💰 Calculadora de Rentabilidad - ${product?.asin ?? 'Producto manual'}**\n\n`;
+    result += `🏪 **Marketplace**: ${marketplace}\n`;
+    if (product?.title) {
+      result += `📦 **Producto**: ${product.title.length > 70 ? product.title.substring(0, 67) + '...' : product.title}\n`;
+    }
+    result += `🏷️ **Comisión**: ${feeCategory} ${referralPercent}% (${keepaReferral !== null ? 'Keepa' : 'tabla'})\n`;
+    result += `🚚 **Envío**: ${params.fulfillment.toUpperCase()}`;
+    if (tier && params.fulfillment === 'fba') {
+      result += ` - ${tier.sizeTier}, ${(tier.shippingWeightG / 1000).toFixed(2)} kg`;
+    }
+    result += fulfillmentSource ? ` → ${money(fulfillmentFee)} (${sourceNames[fulfillmentSource]})\n` : '\n';
+    result += `💵 **Coste**: ${money(params.costPrice)}${params.otherCosts > 0 ? ` + ${money(params.otherCosts)} otros` : ''}\n\n`;
+
+    for (const scenario of scenarios) {
+      const icon = scenario.netProfit > 0 ? '✅' : '❌';
+      result += `**${icon} ${scenarioNames[scenario.label]}: ${money(scenario.price)}**\n`;
+      result += `   • Comisión: -${money(scenario.referralFee + scenario.closingFee)}`;
+      result += ` | ${params.fulfillment === 'fba' ? 'FBA' : 'Envío'}: -${money(scenario.fulfillmentFee)}`;
+      if (scenario.vat > 0) result += ` | IVA: -${money(scenario.vat)}`;
+      result += `\n   • Neto tras comisiones: ${money(scenario.netProceeds)}\n`;
+      result += `   • 💰 Beneficio: ${money(scenario.netProfit)} | Margen: ${scenario.margin}%`;
+      result += ` | ROI: ${scenario.roi !== null ? `${scenario.roi}%` : 'N/A'}\n\n`;
+    }
+
+    if (warnings.length > 0) {
+      result += warnings.map(warning => `⚠️ ${warning}`).join('\n') + '\n\n';
+    }
+    result += `💡 Estimación con las tarifas estándar de Amazon; revisa la calculadora de Seller Central antes de comprar.\n`;
+
+    return result;
+  } catch (error) {
+    tools.rethrowApiError(error);
+    return `Error calculando rentabilidad: ${error instanceof Error ? error.message : 'Error desconocido'}`;
+  }
+}
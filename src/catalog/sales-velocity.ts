@@ -0,0 +1,337 @@
+import { z } from 'zod';
+import { defineTool } from '../registry.js';
+import { KeepaTools, OutputFormatSchema, DryRunSchema, CategoryIdSchema } from '../tools.js';
+import { KeepaDomain, SalesVelocityData, SalesVelocityResult } from '../types.js';
+import { estimateSales } from '../sales-estimator.js';
+
+export const SalesVelocitySchema = z.object({
+  domain: z.number().min(1).max(11).default(1).describe('Amazon domain (1=US, 2=UK, 3=DE, etc.)'),
+  categoryId: CategoryIdSchema.optional().describe('Amazon category ID or name to filter by'),
+  asin: z.string().optional().describe('Single ASIN to analyze'),
+  asins: z.array(z.string()).max(50).optional().describe('Array of ASINs to analyze (max 50)'),
+  timeframe: z.enum(['week', 'month', 'quarter']).default('month').describe('Time period for velocity calculation'),
+  minVelocity: z.number().min(0).optional().describe('Minimum daily sales velocity'),
+  maxVelocity: z.number().min(0).optional().describe('Maximum daily sales velocity'),
+  minPrice: z.number().min(0).optional().describe('Minimum price in cents'),
+  maxPrice: z.number().min(0).optional().describe('Maximum price in cents'),
+  minRating: z.number().min(1).max(5).default(3.0).describe('Minimum product rating'),
+  sortBy: z.enum(['velocity', 'turnoverRate', 'revenueVelocity', 'trend']).default('velocity').describe('Sort results by metric'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc').describe('Sort order'),
+  sellerCountTimeframe: z.enum(['current', '30day', '90day', '180day', '365day']).default('90day').describe('Timeframe for seller count analysis (current, 30day, 90day, 180day, 365day)'),
+  page: z.number().min(0).default(0).describe('Page number for pagination'),
+  perPage: z.number().min(1).max(50).default(25).describe('Results per page (max 50)'),
+  outputFormat: OutputFormatSchema,
+  dryRun: DryRunSchema,
+});
+
+export const salesVelocityTool = defineTool({
+  name: 'keepa_sales_velocity',
+  description: 'Analyze sales velocity and inventory turnover for products or categories',
+  schema: SalesVelocitySchema,
+  priority: 'bulk',
+  handler: (params, { tools }) => analyzeSalesVelocity(tools, params),
+});
+
+export async function analyzeSalesVelocity(tools: KeepaTools, params: z.infer<typeof SalesVelocitySchema>): Promise<string | SalesVelocityResult> {
+  try {
+    const domain = params.domain as KeepaDomain;
+    const domainName = tools.client.getDomainName(domain);
+
+    if (params.outputFormat === 'json') {
+      const products = await getRealSalesVelocityData(tools, params, domain);
+      return {
+        domain,
+        marketplace: domainName,
+        timeframe: params.timeframe,
+        sortBy: params.sortBy,
+        sortOrder: params.sortOrder,
+        products,
+        summary: {
+          fastMovers: products.filter(p => p.salesVelocity.monthly >= 30).length,
+          slowMovers: products.filter(p => p.salesVelocity.monthly < 10).length,
+          highStockoutRisk: products.filter(p => p.inventoryMetrics.stockoutRisk === 'High').length,
+          averageTurnover: products.length > 0
+            ? Math.round(products.reduce((sum, p) => sum + p.inventoryMetrics.turnoverRate, 0) / products.length * 10) / 10
+            : 0,
+        },
+      };
+    }
+    
+    let result = `**🚀 Sales Velocity Analysis**\n\n`;
+    result += `🏪 **Marketplace**: ${domainName}\n`;
+    result += `⏱️ **Timeframe**: ${params.timeframe}\n`;
+    result += `📊 **Sort By**: ${params.sortBy} (${params.sortOrder})\n\n`;
+
+    // Get real sales velocity data from Keepa API
+    const velocityData = await getRealSalesVelocityData(tools, params, domain);
+    
+    if (velocityData.length === 0) {
+      result += `❌ **No products found** matching your velocity criteria.\n\n`;
+      result += `**Suggestions:**\n`;
+      result += `• Lower minimum velocity requirements\n`;
+      result += `• Expand price range filters\n`;
+      result += `• Try different category or remove category filter\n`;
+      return result;
+    }
+
+    result += `📈 **Found ${velocityData.length} products** with velocity data:\n\n`;
+
+    velocityData.forEach((product, i) => {
+      const rank = params.page * params.perPage + i + 1;
+      result += `**${rank}. ${product.asin}** ${getVelocityIndicator(product.salesVelocity.trend)}\n`;
+      result += `📦 **${product.title}**\n`;
+      result += `🏷️ Brand: ${product.brand || 'N/A'}\n`;
+      result += `💰 Price: ${tools.client.formatPrice(product.price, domain)}\n\n`;
+      
+      result += `**📊 Sales Velocity:**\n`;
+      result += `• Daily: ${product.salesVelocity.daily} units\n`;
+      result += `• Weekly: ${product.salesVelocity.weekly} units\n`;
+      result += `• Monthly: ${product.salesVelocity.monthly} units\n`;
+      result += `• Source: ${tools.describeSalesEstimate(product.salesVelocity.method, product.salesVelocity.confidence)}\n`;
+      result += `• Trend: ${product.salesVelocity.trend} (${product.salesVelocity.changePercent > 0 ? '+' : ''}${product.salesVelocity.changePercent}%)\n\n`;
+      
+      result += `**📦 Inventory Metrics:**\n`;
+      result += `• Turnover Rate: ${product.inventoryMetrics.turnoverRate}x/month\n`;
+      result += `• Days of Inventory: ${product.inventoryMetrics.daysOfInventory} days\n`;
+      result += `• Stockout Risk: ${product.inventoryMetrics.stockoutRisk} ${getRiskEmoji(product.inventoryMetrics.stockoutRisk)}\n`;
+      result += `• Recommended Order: ${product.inventoryMetrics.recommendedOrderQuantity} units\n\n`;
+      
+      result += `**💰 Revenue Metrics:**\n`;
+      result += `• Revenue Velocity: ${tools.client.formatPrice(product.profitability.revenueVelocity * 100, domain)}/day\n`;
+      result += `• Est. Gross Margin: ${product.profitability.grossMarginEstimate}%\n`;
+      result += `• Profit Velocity: ${tools.client.formatPrice(product.profitability.profitVelocity * 100, domain)}/day\n\n`;
+      
+      result += `**📈 Market Info:**\n`;
+      result += `• Rating: ${product.marketMetrics.rating}/5.0 (${product.marketMetrics.reviewCount} reviews)\n`;
+      result += `• Sales Rank: #${product.marketMetrics.salesRank.toLocaleString()}\n`;
+      result += `• Competition: ${product.marketMetrics.competition}\n`;
+      result += `• Seasonality: ${product.marketMetrics.seasonality}\n`;
+      
+      if (product.alerts.length > 0) {
+        result += `\n**⚠️ Alerts:**\n`;
+        product.alerts.forEach(alert => {
+          result += `• ${alert}\n`;
+        });
+      }
+      
+      result += '\n---\n\n';
+    });
+
+    result += `**💡 Key Insights:**\n`;
+    const fastMovers = velocityData.filter(p => p.salesVelocity.monthly >= 30).length;
+    const slowMovers = velocityData.filter(p => p.salesVelocity.monthly < 10).length;
+    const highRisk = velocityData.filter(p => p.inventoryMetrics.stockoutRisk === 'High').length;
+    
+    result += `• Fast Movers (>30/month): ${fastMovers} products\n`;
+    result += `• Slow Movers (<10/month): ${slowMovers} products\n`;
+    result += `• High Stockout Risk: ${highRisk} products\n`;
+    result += `• Average Turnover: ${(velocityData.reduce((sum, p) => sum + p.inventoryMetrics.turnoverRate, 0) / velocityData.length).toFixed(1)}x/month\n\n`;
+
+    result += `**🎯 Inventory Recommendations:**\n`;
+    result += `• Focus on products with >20 units/month for consistent cash flow\n`;
+    result += `• Avoid products with >30 days of inventory unless seasonal\n`;
+    result += `• Monitor high stockout risk products for reorder points\n`;
+    result += `• Consider increasing orders for accelerating trend products\n`;
+
+    return result;
+  } catch (error) {
+    tools.rethrowApiError(error);
+    return `Error analyzing sales velocity: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+}
+
+export async function getRealSalesVelocityData(tools: KeepaTools, params: z.infer<typeof SalesVelocitySchema>, domain: KeepaDomain): Promise<SalesVelocityData[]> {
+  let products: any[] = [];
+
+  // If specific ASINs provided, get those products
+  if (params.asin) {
+    const product = await tools.client.getProduct({
+      asin: params.asin,
+      domain: params.domain,
+      history: true,
+      rating: true
+    });
+    if (product.length > 0) products = product;
+  } else if (params.asins && params.asins.length > 0) {
+    products = await tools.client.getProduct({
+      asins: params.asins,
+      domain: params.domain,
+      history: true,
+      rating: true
+    });
+  } else {
+    // Search for products in category with sales velocity criteria
+    const searchParams: any = {
+      domain: params.domain,
+      sortBy: 'monthlySold',
+      sortOrder: params.sortOrder,
+      perPage: params.perPage,
+      page: params.page
+    };
+
+    if (params.categoryId) searchParams.categoryId = await tools.resolveCategory(params.categoryId, params.domain);
+    if (params.minPrice) searchParams.minPrice = params.minPrice;
+    if (params.maxPrice) searchParams.maxPrice = params.maxPrice;
+    if (params.minRating) searchParams.minRating = params.minRating;
+    if (params.minVelocity) searchParams.minMonthlySales = params.minVelocity * 30; // Convert daily to monthly
+    if (params.maxVelocity) searchParams.maxMonthlySales = params.maxVelocity * 30; // Convert daily to monthly
+
+    products = await tools.client.searchProducts(searchParams);
+  }
+
+  // Convert to SalesVelocityData format
+  const velocityData: SalesVelocityData[] = products.map((product: any) => {
+    const salesEstimate = estimateSales(product, { domain }, tools.options.salesEstimators);
+    const monthlySold = salesEstimate.monthly;
+    const dailyVelocity = monthlySold / 30;
+    const price = product.stats?.current_AMAZON || product.price || 0;
+    const salesRank = product.stats?.current_SALES || product.salesRank || 0;
+    const rating = product.stats?.current_RATING ? product.stats.current_RATING / 10 : product.rating || 0;
+    
+    // Calculate velocity metrics
+    const monthlyRevenue = monthlySold * (price / 100); // Convert cents to dollars
+    const turnoverRate = monthlySold > 0 ? Math.min(52, Math.round((monthlySold * 12) / 100)) : 1; // Estimate annual turns
+    
+    // Determine trend based on sales rank and velocity
+    let trend: 'Accelerating' | 'Stable' | 'Declining' = 'Stable';
+    if (dailyVelocity > 50) trend = 'Accelerating';
+    else if (dailyVelocity < 5) trend = 'Declining';
+
+    // Calculate risk factors
+    const seasonality = monthlySold > 1000 && salesRank < 10000 ? 'Low' : monthlySold < 100 ? 'High' : 'Medium';
+    const sellerInfo = tools.client.getSellerCount(product, params.sellerCountTimeframe);
+    const sellerCount = sellerInfo.count;
+    const competition = sellerCount > 10 ? 'High' : sellerCount < 5 ? 'Low' : 'Medium';
+
+    // Calculate profitability metrics
+    const grossMarginPercent = Math.max(15, Math.min(40, 35 - sellerCount * 2));
+    const dailyRevenue = dailyVelocity * (price / 100);
+    const dailyProfit = dailyRevenue * (grossMarginPercent / 100);
+
+    const alerts: string[] = [];
+    if (dailyVelocity > 20) alerts.push('High velocity - monitor inventory levels');
+    if (dailyVelocity < 3) alerts.push('Low velocity - consider promotion or markdown');
+    if (sellerCount > 8) alerts.push('High competition - monitor pricing');
+
+    return {
+      asin: product.asin,
+      title: product.title || product.productTitle || 'Unknown Product',
+      brand: product.brand || 'Unknown',
+      price: price,
+      salesVelocity: {
+        daily: Math.round(dailyVelocity * 10) / 10,
+        weekly: Math.round(dailyVelocity * 7 * 10) / 10,
+        monthly: monthlySold,
+        trend: trend,
+        changePercent: trend === 'Accelerating' ? Math.round(dailyVelocity / 10 * 5) : 
+                     trend === 'Declining' ? -Math.round(dailyVelocity / 10 * 3) : 0,
+        method: salesEstimate.method,
+        confidence: salesEstimate.confidence
+      },
+      inventoryMetrics: {
+        turnoverRate: turnoverRate,
+        daysOfInventory: Math.round(100 / Math.max(dailyVelocity, 0.1)),
+        stockoutRisk: dailyVelocity > 20 ? 'High' : dailyVelocity > 5 ? 'Medium' : 'Low',
+        recommendedOrderQuantity: Math.round(dailyVelocity * 30) // 30 days of supply
+      },
+      marketMetrics: {
+        rating: rating,
+        reviewCount: product.stats?.current_COUNT_REVIEWS || product.reviewCount || 0,
+        salesRank: salesRank,
+        competition: competition as 'Low' | 'Medium' | 'High',
+        seasonality: seasonality as 'Low' | 'Medium' | 'High'
+      },
+      profitability: {
+        revenueVelocity: Math.round(dailyRevenue * 100) / 100,
+        grossMarginEstimate: grossMarginPercent,
+        profitVelocity: Math.round(dailyProfit * 100) / 100
+      },
+      alerts: alerts
+    };
+  });
+
+  // Filter by velocity if specified
+  let filteredData = velocityData;
+  if (params.minVelocity) {
+    filteredData = filteredData.filter(p => p.salesVelocity.daily >= params.minVelocity!);
+  }
+  if (params.maxVelocity) {
+    filteredData = filteredData.filter(p => p.salesVelocity.daily <= params.maxVelocity!);
+  }
+
+  // Sort by the specified metric
+  filteredData.sort((a, b) => {
+    let aValue: number, bValue: number;
+    switch (params.sortBy) {
+      case 'velocity':
+        aValue = a.salesVelocity.daily;
+        bValue = b.salesVelocity.daily;
+        break;
+      case 'turnoverRate':
+        aValue = a.inventoryMetrics.turnoverRate;
+        bValue = b.inventoryMetrics.turnoverRate;
+        break;
+      case 'revenueVelocity':
+        aValue = a.profitability.revenueVelocity;
+        bValue = b.profitability.revenueVelocity;
+        break;
+      case 'trend':
+        aValue = a.salesVelocity.trend === 'Accelerating' ? 3 : a.salesVelocity.trend === 'Stable' ? 2 : 1;
+        bValue = b.salesVelocity.trend === 'Accelerating' ? 3 : b.salesVelocity.trend === 'Stable' ? 2 : 1;
+        break;
+      default:
+        aValue = a.salesVelocity.daily;
+        bValue = b.salesVelocity.daily;
+    }
+    
+    return params.sortOrder === 'desc' ? bValue - aValue : aValue - bValue;
+  });
+
+  return filteredData;
+}
+
+function sortVelocityData(products: SalesVelocityData[], sortBy: string, sortOrder: string): SalesVelocityData[] {
+  return products.sort((a, b) => {
+    let aVal: number, bVal: number;
+    
+    switch (sortBy) {
+      case 'velocity':
+        aVal = a.salesVelocity.daily;
+        bVal = b.salesVelocity.daily;
+        break;
+      case 'turnoverRate':
+        aVal = a.inventoryMetrics.turnoverRate;
+        bVal = b.inventoryMetrics.turnoverRate;
+        break;
+      case 'revenueVelocity':
+        aVal = a.profitability.revenueVelocity;
+        bVal = b.profitability.revenueVelocity;
+        break;
+      case 'trend':
+        aVal = a.salesVelocity.changePercent;
+        bVal = b.salesVelocity.changePercent;
+        break;
+      default:
+        aVal = a.salesVelocity.daily;
+        bVal = b.salesVelocity.daily;
+    }
+    
+    return sortOrder === 'desc' ? bVal - aVal : aVal - bVal;
+  });
+}
+
+function getVelocityIndicator(trend: string): string {
+  switch (trend) {
+    case 'Accelerating': return '🚀';
+    case 'Declining': return '📉';
+    default: return '➡️';
+  }
+}
+
+function getRiskEmoji(risk: string): string {
+  switch (risk) {
+    case 'High': return '🔴';
+    case 'Medium': return '🟡';
+    default: return '🟢';
+  }
+}
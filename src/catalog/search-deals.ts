@@ -0,0 +1,114 @@
+import { z } from 'zod';
+import { defineTool } from '../registry.js';
+import { KeepaTools, OutputFormatSchema, DryRunSchema, CategoryIdSchema } from '../tools.js';
+import { KeepaDomain, DealSearchResult } from '../types.js';
+
+export const DealSearchSchema = z.object({
+  domain: z.number().min(1).max(11).default(1).describe('Amazon domain (1=US, 2=UK, 3=DE, etc.)'),
+  categoryId: CategoryIdSchema.optional().describe('Amazon category ID or name (e.g. "Home & Kitchen") to filter by'),
+  minPrice: z.number().min(0).optional().describe('Minimum price in cents'),
+  maxPrice: z.number().min(0).optional().describe('Maximum price in cents'),
+  minDiscount: z.number().min(0).max(100).optional().describe('Minimum discount percentage'),
+  minRating: z.number().min(1).max(5).optional().describe('Minimum product rating (1-5 stars)'),
+  isPrime: z.boolean().optional().describe('Filter for Prime eligible deals only'),
+  sortType: z.number().min(0).max(4).default(0).describe('Sort type (0=deal score, 1=price, 2=discount, 3=rating, 4=sales rank)'),
+  page: z.number().min(0).default(0).describe('Page number for pagination'),
+  perPage: z.number().min(1).max(50).default(25).describe('Results per page (max 50)'),
+  outputFormat: OutputFormatSchema,
+  dryRun: DryRunSchema,
+});
+
+export const searchDealsTool = defineTool({
+  name: 'keepa_search_deals',
+  description: 'Search for current Amazon deals with filtering options',
+  schema: DealSearchSchema,
+  handler: (params, { tools }) => searchDeals(tools, params),
+});
+
+export async function searchDeals(tools: KeepaTools, params: z.infer<typeof DealSearchSchema>): Promise<string | DealSearchResult> {
+  try {
+    const deals = await tools.client.getDeals({
+      domainId: params.domain,
+      categoryId: await tools.resolveCategory(params.categoryId, params.domain),
+      minPrice: params.minPrice,
+      maxPrice: params.maxPrice,
+      minDiscount: params.minDiscount,
+      minRating: params.minRating,
+      isPrime: params.isPrime,
+      sortType: params.sortType,
+      page: params.page,
+      perPage: params.perPage,
+    });
+
+    const domain = params.domain as KeepaDomain;
+    const domainName = tools.client.getDomainName(domain);
+
+    if (params.outputFormat === 'json') {
+      return {
+        domain,
+        marketplace: domainName,
+        deals: deals.map(deal => ({
+          asin: deal.asin,
+          title: deal.title ?? null,
+          brand: deal.brand ?? null,
+          price: tools.positiveOrNull(deal.price),
+          shipping: tools.nonNegativeOrNull(deal.shipping),
+          discountPercent: tools.client.extractDiscountPercent(deal.deltaPercent) || null,
+          priceDrop: tools.client.extractPriceChange(deal.delta) || null,
+          avgPrice: tools.positiveOrNull(deal.avgPrice),
+          dealScore: tools.nonNegativeOrNull(deal.dealScore),
+          salesRank: tools.positiveOrNull(deal.salesRank),
+          isLightningDeal: !!deal.isLightningDeal,
+          isPrimeExclusive: !!deal.isPrimeExclusive,
+          couponPercent: tools.positiveOrNull(deal.coupon),
+        })),
+      };
+    }
+
+    if (deals.length === 0) {
+      return 'No deals found matching your criteria.';
+    }
+
+    let result = `**Amazon Deals Found: ${deals.length}**\n\n`;
+    result += `🏪 **Marketplace**: ${domainName}\n\n`;
+
+    deals.forEach((deal, i) => {
+      result += `**${i + 1}. ${deal.asin}**\n`;
+      result += `📦 **${deal.title}**\n`;
+      result += `🏷️ Brand: ${deal.brand || 'N/A'}\n`;
+      result += `💰 **Price**: ${tools.client.formatPrice(deal.price, domain)}`;
+      
+      if (deal.shipping > 0) {
+        result += ` + ${tools.client.formatPrice(deal.shipping, domain)} shipping`;
+      }
+      result += '\n';
+      
+      result += `📊 **Discount**: ${deal.deltaPercent}% (${tools.client.formatPrice(Math.abs(deal.delta), domain)} off)\n`;
+      result += `📈 **Avg Price**: ${tools.client.formatPrice(deal.avgPrice, domain)}\n`;
+      result += `🏆 **Deal Score**: ${deal.dealScore}\n`;
+      
+      if (deal.salesRank) {
+        result += `📊 **Sales Rank**: #${deal.salesRank.toLocaleString()}\n`;
+      }
+      
+      if (deal.isLightningDeal) {
+        result += `⚡ **Lightning Deal**\n`;
+      }
+      
+      if (deal.isPrimeExclusive) {
+        result += `🔥 **Prime Exclusive**\n`;
+      }
+      
+      if (deal.coupon) {
+        result += `🎫 **Coupon**: ${deal.coupon}% additional discount\n`;
+      }
+      
+      result += '\n';
+    });
+
+    return result;
+  } catch (error) {
+    tools.rethrowApiError(error);
+    return `Error searching deals: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+}
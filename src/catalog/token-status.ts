@@ -0,0 +1,87 @@
+import { z } from 'zod';
+import { defineTool } from '../registry.js';
+import { KeepaTools, OutputFormatSchema, DryRunSchema } from '../tools.js';
+import { TokenStatusResult } from '../types.js';
+import { estimateToolCost } from '../token-cost.js';
+
+export const TokenStatusSchema = z.object({
+  outputFormat: OutputFormatSchema,
+  dryRun: DryRunSchema,
+});
+
+export const tokenStatusTool = defineTool({
+  name: 'keepa_token_status',
+  description: 'Check remaining Keepa API tokens and account status',
+  schema: TokenStatusSchema,
+  priority: 'interactive',
+  handler: (params, { tools }) => getTokenStatus(tools, params),
+});
+
+export async function getTokenStatus(tools: KeepaTools, params: z.infer<typeof TokenStatusSchema>): Promise<string | TokenStatusResult> {
+  try {
+    const tokensLeft = await tools.client.getTokensLeft();
+    const cache = await tools.client.getCacheStats();
+    const scheduler = tools.client.getSchedulerStatus();
+
+    if (params.outputFormat === 'json') {
+      return {
+        tokensLeft,
+        status: tokensLeft <= 0 ? 'exhausted'
+          : tokensLeft <= 5 ? 'low'
+          : tokensLeft <= 25 ? 'moderate'
+          : tokensLeft <= 100 ? 'good'
+          : 'excellent',
+        cache,
+        scheduler,
+      };
+    }
+    
+    let result = `**🪙 Keepa API Token Status**\n\n`;
+    result += `💰 **Tokens Remaining**: ${tokensLeft}\n\n`;
+    
+    if (tokensLeft <= 0) {
+      result += `❌ **Status**: EXHAUSTED - All tools will fail until tokens refresh\n`;
+      result += `⚠️ **Impact**: Searches will return "No products found" instead of real data\n\n`;
+      result += `**🔧 Solutions:**\n`;
+      result += `• Wait for daily/monthly token refresh\n`;
+      result += `• Upgrade your Keepa plan for more tokens\n`;
+      result += `• Check usage at https://keepa.com/#!api\n`;
+    } else if (tokensLeft <= 5) {
+      result += `⚠️ **Status**: LOW - Use carefully to avoid exhaustion\n`;
+      result += `💡 **Recommendation**: Conserve tokens for critical queries\n\n`;
+      result += `**Token Usage Guidelines** (defaults, check any call with \`dryRun: true\`):\n`;
+      result += `• Product Lookup: ~${estimateToolCost('keepa_product_lookup').estimatedTokens} tokens\n`;
+      result += `• Price History: ~${estimateToolCost('keepa_price_history').estimatedTokens} token\n`;
+      result += `• Category Analysis: ~${estimateToolCost('keepa_category_analysis').estimatedTokens} tokens\n`;
+      result += `• Deal Discovery: ~${estimateToolCost('keepa_search_deals').estimatedTokens} tokens\n`;
+    } else if (tokensLeft <= 25) {
+      result += `🟡 **Status**: MODERATE - Monitor usage\n`;
+      result += `💡 **Recommendation**: Plan your queries efficiently\n`;
+    } else if (tokensLeft <= 100) {
+      result += `🟢 **Status**: GOOD - Adequate for regular usage\n`;
+      result += `💡 **Recommendation**: Normal usage, monitor daily\n`;
+    } else {
+      result += `✅ **Status**: EXCELLENT - Plenty of tokens available\n`;
+      result += `💡 **Recommendation**: Use advanced analytics freely\n`;
+    }
+    
+    if (scheduler.refillRate !== null) {
+      result += `\n**⏳ Request Queue**:\n`;
+      result += `• Refill rate: ${scheduler.refillRate} tokens/min\n`;
+      result += `• Queued: ${scheduler.queued} | In flight: ${scheduler.inFlight}\n`;
+    }
+
+    result += `\n**🗄️ Response Cache** (${cache.backend}${cache.enabled ? '' : ', disabled'}):\n`;
+    result += `• Hits: ${cache.hits} | Misses: ${cache.misses}`;
+    result += cache.hitRate !== null ? ` | Hit rate: ${(cache.hitRate * 100).toFixed(1)}%\n` : `\n`;
+    result += `• Cached entries: ${cache.entries}\n`;
+
+    result += `\n**📊 Check detailed usage**: https://keepa.com/#!api\n`;
+    result += `**⏰ Tokens refresh**: According to your Keepa subscription plan\n`;
+    
+    return result;
+  } catch (error) {
+    tools.rethrowApiError(error);
+    return `Error checking token status: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+}
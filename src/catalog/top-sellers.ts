@@ -0,0 +1,75 @@
+import { z } from 'zod';
+import { defineTool } from '../registry.js';
+import { KeepaTools, OutputFormatSchema, DryRunSchema } from '../tools.js';
+import { KeepaDomain, TopSellersResult } from '../types.js';
+
+export const TopSellersSchema = z.object({
+  domain: z.number().min(1).max(11).default(9).describe('Amazon domain (1=US, 2=UK, 3=DE, 4=FR, 5=JP, 6=CA, 8=IT, 9=ES, 10=IN, 11=MX)'),
+  offset: z.number().int().min(0).default(0).describe('Ranking position to start from (0 = the top seller)'),
+  limit: z.number().int().min(1).max(500).default(25).describe('Number of sellers to return (1 token per seller not cached)'),
+  outputFormat: OutputFormatSchema,
+  dryRun: DryRunSchema,
+});
+
+export const topSellersTool = defineTool({
+  name: 'keepa_top_sellers',
+  description: 'Ranking of the sellers with the most ratings in a marketplace, with name, rating, rating count and FBA. Use it to discover competitors without knowing their seller ID',
+  schema: TopSellersSchema,
+  handler: (params, { tools }) => getTopSellers(tools, params),
+});
+
+export async function getTopSellers(tools: KeepaTools, params: z.infer<typeof TopSellersSchema>): Promise<string | TopSellersResult> {
+  try {
+    const domain = params.domain as KeepaDomain;
+    const domainName = tools.client.getDomainName(domain);
+    const ranking = await tools.client.getTopSellers({ domain });
+    const sellerIds = ranking.slice(params.offset, params.offset + params.limit);
+
+    // /seller accepts up to 100 IDs per request
+    const details = new Map<string, any>();
+    for (let i = 0; i < sellerIds.length; i += 100) {
+      const batch = await tools.client.getSeller({ seller: sellerIds.slice(i, i + 100).join(','), domain });
+      batch.forEach(seller => details.set(seller.sellerId, seller));
+    }
+
+    const sellers = sellerIds.map((sellerId, i) => {
+      const seller = details.get(sellerId);
+      return {
+        rank: params.offset + i + 1,
+        sellerId,
+        name: seller?.sellerName ?? null,
+        rating: seller ? tools.extractLastCsvValue(seller.csv, 0) : null,
+        ratingCount: seller ? tools.extractLastCsvValue(seller.csv, 1) : null,
+        hasFBA: seller ? !!seller.hasFBA : null,
+      };
+    });
+
+    if (params.outputFormat === 'json') {
+      return { domain, marketplace: domainName, totalListed: ranking.length, offset: params.offset, sellers };
+    }
+
+    if (sellers.length === 0) {
+      return `No hay vendedores en el ranking de ${domainName}${params.offset > 0 ? ` a partir de la posición ${params.offset + 1}` : ''}.`;
+    }
+
+    let result = `🏆 TOP VENDEDORES (${domainName})\n`;
+    result += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
+    result += `📊 Posiciones ${sellers[0].rank}-${sellers[sellers.length - 1].rank} de ${ranking.length.toLocaleString()}\n\n`;
+
+    sellers.forEach(seller => {
+      const ratingStr = seller.rating !== null
+        ? `${seller.rating}%${seller.ratingCount ? ` (${seller.ratingCount.toLocaleString()} val.)` : ''}`
+        : 'Sin datos';
+      const fba = seller.hasFBA === null ? '?' : seller.hasFBA ? 'FBA' : 'FBM';
+      result += `${seller.rank}. 📛 ${seller.name || 'N/A'}\n`;
+      result += `   🔑 ${seller.sellerId} | ${fba} | ⭐ ${ratingStr}\n`;
+    });
+
+    result += `\n💡 Para detalles completos de un vendedor: "info seller <ID>"\n`;
+
+    return result;
+  } catch (error) {
+    tools.rethrowApiError(error);
+    return `Error consultando top vendedores: ${error instanceof Error ? error.message : 'Error desconocido'}`;
+  }
+}
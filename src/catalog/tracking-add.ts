@@ -0,0 +1,100 @@
+import { z } from 'zod';
+import { defineTool } from '../registry.js';
+import { KeepaTools, OutputFormatSchema, DryRunSchema } from '../tools.js';
+import {
+  KeepaDomain,
+  KeepaDataType,
+  TrackingNotificationChannel,
+  TrackingNotifyIf,
+  TrackingNotifyIfType,
+  TrackingSummary,
+} from '../types.js';
+
+export const TrackingThresholdSchema = z.object({
+  dataType: z.nativeEnum(KeepaDataType).default(KeepaDataType.AMAZON).describe('CsvType to watch (0=Amazon, 1=New, 2=Used, 3=SalesRank, 10=New FBA, 18=BuyBox)'),
+  value: z.number().int().min(0).describe('Threshold in cents for prices, raw value for sales rank and counts'),
+  domain: z.number().min(1).max(11).optional().describe('Marketplace of this threshold; defaults to the tracking domain'),
+  isDrop: z.boolean().default(true).describe('Notify when the value drops below the threshold (true) or rises above it (false)'),
+});
+
+export const TrackingAddSchema = z.object({
+  asin: z.string().describe('Amazon ASIN to track'),
+  domain: z.number().min(1).max(11).default(1).describe('Main Amazon domain of the tracking (1=US, 2=UK, 3=DE, 4=FR, 8=IT, 9=ES, etc.)'),
+  thresholds: z.array(TrackingThresholdSchema).max(20).default([]).describe('Price/rank thresholds; Keepa notifies when any of them is crossed'),
+  notifyOutOfStock: z.boolean().default(false).describe('Notify when Amazon runs out of stock'),
+  notifyBackInStock: z.boolean().default(false).describe('Notify when Amazon is back in stock'),
+  updateInterval: z.number().int().min(1).max(25).default(1).describe('Hours between Keepa product updates'),
+  ttlHours: z.number().int().min(0).default(0).describe('Hours until the tracking expires (0 = never)'),
+  channels: z.array(z.enum(['api', 'email', 'browser', 'mobile_app'])).min(1).default(['api']).describe('Notification channels; "api" makes them available to keepa_notifications'),
+  metaData: z.string().max(500).optional().describe('Free text stored with the tracking and returned in notifications (e.g. your SKU)'),
+  outputFormat: OutputFormatSchema,
+  dryRun: DryRunSchema,
+});
+
+const NOTIFICATION_CHANNELS: Record<z.infer<typeof TrackingAddSchema>['channels'][number], TrackingNotificationChannel> = {
+  api: TrackingNotificationChannel.API,
+  email: TrackingNotificationChannel.EMAIL,
+  browser: TrackingNotificationChannel.BROWSER,
+  mobile_app: TrackingNotificationChannel.MOBILE_APP,
+};
+
+export const trackingAddTool = defineTool({
+  name: 'keepa_tracking_add',
+  description: 'Track an ASIN on Keepa and get notified when a price (Amazon, New, Buy Box...) or sales rank crosses a threshold, or on out of stock / back in stock',
+  schema: TrackingAddSchema,
+  priority: 'interactive',
+  handler: (params, { tools }) => addTracking(tools, params),
+});
+
+
+export async function addTracking(tools: KeepaTools, params: z.infer<typeof TrackingAddSchema>): Promise<string | TrackingSummary> {
+  try {
+    if (params.thresholds.length === 0 && !params.notifyOutOfStock && !params.notifyBackInStock) {
+      return 'Error: Add at least one threshold or an out of stock / back in stock notification';
+    }
+
+    const domain = params.domain as KeepaDomain;
+    const notificationType = new Array(8).fill(false);
+    params.channels.forEach(channel => { notificationType[NOTIFICATION_CHANNELS[channel]] = true; });
+
+    const notifyIf: TrackingNotifyIf[] = [];
+    if (params.notifyOutOfStock) {
+      notifyIf.push({ domain, csvType: KeepaDataType.AMAZON, notifyIfType: TrackingNotifyIfType.OUT_OF_STOCK });
+    }
+    if (params.notifyBackInStock) {
+      notifyIf.push({ domain, csvType: KeepaDataType.AMAZON, notifyIfType: TrackingNotifyIfType.BACK_IN_STOCK });
+    }
+
+    const [tracking] = await tools.client.addTracking([{
+      asin: params.asin.trim().toUpperCase(),
+      mainDomainId: domain,
+      ttl: params.ttlHours * 60,
+      expireNotify: params.ttlHours > 0,
+      desiredPricesInMainCurrency: false,
+      updateInterval: params.updateInterval,
+      metaData: params.metaData,
+      thresholdValues: params.thresholds.map(threshold => ({
+        thresholdValue: threshold.value,
+        domain: (threshold.domain ?? domain) as KeepaDomain,
+        csvType: threshold.dataType,
+        isDrop: threshold.isDrop,
+      })),
+      notifyIf,
+      notificationType,
+      individualNotificationInterval: -1,
+    }]);
+
+    if (!tracking) {
+      return `Error: Keepa did not confirm the tracking for ${params.asin}`;
+    }
+
+    const summary = tools.summarizeTracking(tracking);
+    if (params.outputFormat === 'json') {
+      return summary;
+    }
+    return `**🔔 Tracking Added**\n\n${tools.formatTracking(summary)}`;
+  } catch (error) {
+    tools.rethrowApiError(error);
+    return `Error adding tracking: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+}
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { defineTool } from '../registry.js';
+import { KeepaTools, OutputFormatSchema, DryRunSchema } from '../tools.js';
+import { KeepaTracking, TrackingListResult } from '../types.js';
+
+export const TrackingListSchema = z.object({
+  asin: z.string().optional().describe('Only return the tracking of this ASIN'),
+  outputFormat: OutputFormatSchema,
+  dryRun: DryRunSchema,
+});
+
+export const trackingListTool = defineTool({
+  name: 'keepa_tracking_list',
+  description: 'List the Keepa trackings of the account (or one ASIN) with their thresholds and notification settings',
+  schema: TrackingListSchema,
+  priority: 'interactive',
+  handler: (params, { tools }) => listTrackings(tools, params),
+});
+
+export async function listTrackings(tools: KeepaTools, params: z.infer<typeof TrackingListSchema>): Promise<string | TrackingListResult> {
+  try {
+    const trackings = params.asin
+      ? [await tools.client.getTracking(params.asin)].filter((t): t is KeepaTracking => t !== null)
+      : await tools.client.listTrackings();
+    const summaries = trackings.map(tracking => tools.summarizeTracking(tracking));
+
+    if (params.outputFormat === 'json') {
+      return { count: summaries.length, trackings: summaries };
+    }
+
+    if (summaries.length === 0) {
+      return params.asin ? `No tracking found for ${params.asin}` : 'No trackings on this Keepa account';
+    }
+
+    let result = `**🔔 Keepa Trackings (${summaries.length})**\n\n`;
+    summaries.forEach(summary => {
+      result += tools.formatTracking(summary) + '\n';
+    });
+    return result;
+  } catch (error) {
+    tools.rethrowApiError(error);
+    return `Error listing trackings: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+}
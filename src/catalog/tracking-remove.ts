@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { defineTool } from '../registry.js';
+import { KeepaTools, OutputFormatSchema, DryRunSchema } from '../tools.js';
+import { TrackingRemoveResult } from '../types.js';
+
+export const TrackingRemoveSchema = z.object({
+  asin: z.string().optional().describe('ASIN whose tracking should be removed'),
+  all: z.boolean().default(false).describe('Remove every tracking of the account (ignores asin)'),
+  outputFormat: OutputFormatSchema,
+  dryRun: DryRunSchema,
+});
+
+export const trackingRemoveTool = defineTool({
+  name: 'keepa_tracking_remove',
+  description: 'Remove the Keepa tracking of an ASIN, or every tracking with all=true',
+  schema: TrackingRemoveSchema,
+  priority: 'interactive',
+  handler: (params, { tools }) => removeTracking(tools, params),
+});
+
+export async function removeTracking(tools: KeepaTools, params: z.infer<typeof TrackingRemoveSchema>): Promise<string | TrackingRemoveResult> {
+  try {
+    if (!params.all && !params.asin) {
+      return 'Error: Either asin or all=true is required';
+    }
+
+    if (params.all) {
+      await tools.client.removeAllTrackings();
+    } else {
+      await tools.client.removeTracking(params.asin!);
+    }
+
+    const removed: TrackingRemoveResult = {
+      asin: params.all ? null : params.asin!.trim().toUpperCase(),
+      removedAll: params.all,
+    };
+    if (params.outputFormat === 'json') {
+      return removed;
+    }
+    return removed.removedAll
+      ? '🗑️ All trackings removed'
+      : `🗑️ Tracking removed for ${removed.asin}`;
+  } catch (error) {
+    tools.rethrowApiError(error);
+    return `Error removing tracking: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+}
@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { defineTool } from '../registry.js';
+import { KeepaTools, OutputFormatSchema, DryRunSchema } from '../tools.js';
+import { WatchlistUpdateResult } from '../types.js';
+import { MAX_WATCHLIST_ASINS } from '../watchlist.js';
+
+export const WatchlistAddSchema = z.object({
+  watchlist: z.string().min(1).describe('Watchlist ID or name'),
+  asins: z.array(z.string()).max(MAX_WATCHLIST_ASINS).default([]).describe('ASINs to add; ones already in the list are skipped'),
+  schedule: z.string().optional().describe('Replace the cron schedule; an empty string turns scheduled snapshots off'),
+  outputFormat: OutputFormatSchema,
+  dryRun: DryRunSchema,
+});
+
+export const watchlistAddTool = defineTool({
+  name: 'keepa_watchlist_add',
+  description: 'Add ASINs to a watchlist (up to 1000 per list) or change its snapshot schedule. Costs no tokens',
+  schema: WatchlistAddSchema,
+  priority: 'interactive',
+  handler: (params, { tools }) => addToWatchlist(tools, params),
+});
+
+export async function addToWatchlist(tools: KeepaTools, params: z.infer<typeof WatchlistAddSchema>): Promise<string | WatchlistUpdateResult> {
+  try {
+    if (params.asins.length === 0 && params.schedule === undefined) {
+      return 'Error: Provide asins to add or a new schedule';
+    }
+
+    const { watchlist, added } = await tools.watchlists.add(params.watchlist, params.asins, params.schedule);
+    const update: WatchlistUpdateResult = { watchlist, added, removed: [], deleted: false };
+    if (params.outputFormat === 'json') {
+      return update;
+    }
+
+    let result = `**👀 Watchlist Updated**\n\n`;
+    result += `➕ ${added.length} ASIN(s) added`;
+    if (added.length < params.asins.length) {
+      result += ` (${params.asins.length - added.length} already in the list)`;
+    }
+    result += `\n\n${tools.formatWatchlist(watchlist)}`;
+    return result;
+  } catch (error) {
+    tools.rethrowApiError(error);
+    return `Error updating watchlist: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+}
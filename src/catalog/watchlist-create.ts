@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { defineTool } from '../registry.js';
+import { KeepaTools, OutputFormatSchema, DryRunSchema } from '../tools.js';
+import { Watchlist } from '../types.js';
+import { MAX_WATCHLIST_ASINS } from '../watchlist.js';
+
+export const WatchlistCreateSchema = z.object({
+  name: z.string().min(1).max(100).describe('Watchlist name; its slug becomes the ID (e.g. "Client A - Kitchen" → client-a-kitchen)'),
+  domain: z.number().min(1).max(11).default(1).describe('Amazon domain of every ASIN in the list (1=US, 2=UK, 3=DE, 4=FR, 8=IT, 9=ES, etc.)'),
+  asins: z.array(z.string()).max(MAX_WATCHLIST_ASINS).default([]).describe('Initial ASINs'),
+  schedule: z.string().optional().describe('Cron expression in UTC for automatic snapshots in HTTP mode (e.g. "0 6 * * *" or "@hourly"); omit for manual snapshots only'),
+  outputFormat: OutputFormatSchema,
+  dryRun: DryRunSchema,
+});
+
+export const watchlistCreateTool = defineTool({
+  name: 'keepa_watchlist_create',
+  description: 'Create a named watchlist of ASINs on one marketplace, stored locally. Optionally give a cron schedule so the HTTP server snapshots it automatically. Costs no tokens',
+  schema: WatchlistCreateSchema,
+  priority: 'interactive',
+  handler: (params, { tools }) => createWatchlist(tools, params),
+});
+
+
+export async function createWatchlist(tools: KeepaTools, params: z.infer<typeof WatchlistCreateSchema>): Promise<string | Watchlist> {
+  try {
+    const watchlist = await tools.watchlists.create(params);
+    if (params.outputFormat === 'json') {
+      return watchlist;
+    }
+    return `**👀 Watchlist Created**\n\n${tools.formatWatchlist(watchlist)}`;
+  } catch (error) {
+    tools.rethrowApiError(error);
+    return `Error creating watchlist: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+}
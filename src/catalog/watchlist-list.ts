@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { defineTool } from '../registry.js';
+import { KeepaTools, OutputFormatSchema, DryRunSchema } from '../tools.js';
+import { WatchlistListResult } from '../types.js';
+
+export const WatchlistListSchema = z.object({
+  watchlist: z.string().optional().describe('Only return this watchlist (ID or name), with all its ASINs'),
+  outputFormat: OutputFormatSchema,
+  dryRun: DryRunSchema,
+});
+
+export const watchlistListTool = defineTool({
+  name: 'keepa_watchlist_list',
+  description: 'List the stored watchlists with their marketplace, ASIN count, schedule and last snapshot time. Costs no tokens',
+  schema: WatchlistListSchema,
+  priority: 'interactive',
+  handler: (params, { tools }) => listWatchlists(tools, params),
+});
+
+export async function listWatchlists(tools: KeepaTools, params: z.infer<typeof WatchlistListSchema>): Promise<string | WatchlistListResult> {
+  try {
+    const watchlists = params.watchlist
+      ? [await tools.watchlists.get(params.watchlist)]
+      : await tools.watchlists.list();
+
+    if (params.outputFormat === 'json') {
+      return { count: watchlists.length, watchlists };
+    }
+
+    if (watchlists.length === 0) {
+      return 'No watchlists yet. Create one with keepa_watchlist_create';
+    }
+
+    let result = `**👀 Watchlists (${watchlists.length})**\n\n`;
+    watchlists.forEach(watchlist => {
+      result += tools.formatWatchlist(watchlist, Boolean(params.watchlist)) + '\n';
+    });
+    return result;
+  } catch (error) {
+    tools.rethrowApiError(error);
+    return `Error listing watchlists: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+}
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { defineTool } from '../registry.js';
+import { KeepaTools, OutputFormatSchema, DryRunSchema } from '../tools.js';
+import { WatchlistUpdateResult } from '../types.js';
+
+export const WatchlistRemoveSchema = z.object({
+  watchlist: z.string().min(1).describe('Watchlist ID or name'),
+  asins: z.array(z.string()).default([]).describe('ASINs to remove from the list'),
+  deleteWatchlist: z.boolean().default(false).describe('Delete the whole watchlist and its snapshots (ignores asins)'),
+  outputFormat: OutputFormatSchema,
+  dryRun: DryRunSchema,
+});
+
+export const watchlistRemoveTool = defineTool({
+  name: 'keepa_watchlist_remove',
+  description: 'Remove ASINs from a watchlist, or delete the whole watchlist with its stored snapshots. Costs no tokens',
+  schema: WatchlistRemoveSchema,
+  priority: 'interactive',
+  handler: (params, { tools }) => removeFromWatchlist(tools, params),
+});
+
+export async function removeFromWatchlist(tools: KeepaTools, params: z.infer<typeof WatchlistRemoveSchema>): Promise<string | WatchlistUpdateResult> {
+  try {
+    if (params.deleteWatchlist) {
+      const deleted = await tools.watchlists.delete(params.watchlist);
+      const update: WatchlistUpdateResult = { watchlist: null, added: [], removed: deleted.asins, deleted: true };
+      return params.outputFormat === 'json' ? update : `🗑️ Watchlist ${deleted.name} deleted with its snapshots`;
+    }
+    if (params.asins.length === 0) {
+      return 'Error: Either asins or deleteWatchlist=true is required';
+    }
+
+    const { watchlist, removed } = await tools.watchlists.remove(params.watchlist, params.asins);
+    const update: WatchlistUpdateResult = { watchlist, added: [], removed, deleted: false };
+    if (params.outputFormat === 'json') {
+      return update;
+    }
+    return `**👀 Watchlist Updated**\n\n➖ ${removed.length} ASIN(s) removed\n\n${tools.formatWatchlist(watchlist)}`;
+  } catch (error) {
+    tools.rethrowApiError(error);
+    return `Error updating watchlist: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+}
@@ -0,0 +1,89 @@
+import { z } from 'zod';
+import { defineTool } from '../registry.js';
+import { KeepaTools, OutputFormatSchema, DryRunSchema } from '../tools.js';
+import { KeepaDomain, WatchlistSnapshot, WatchlistSnapshotResult, TokenCostItem } from '../types.js';
+import { productRequestCost } from '../token-cost.js';
+import { SNAPSHOT_PRODUCT_OPTIONS } from '../watchlist.js';
+
+export const WatchlistSnapshotSchema = z.object({
+  watchlist: z.string().min(1).describe('Watchlist ID or name'),
+  refresh: z.boolean().default(true).describe('Fetch every ASIN from Keepa now (15 tokens each, with live offers and stock) and store a new snapshot; false returns the latest stored one for free'),
+  history: z.number().int().min(0).max(50).default(0).describe('Also return this many earlier snapshots'),
+  outputFormat: OutputFormatSchema,
+  dryRun: DryRunSchema,
+});
+
+export const watchlistSnapshotTool = defineTool({
+  name: 'keepa_watchlist_snapshot',
+  description: 'Snapshot a watchlist: fetches every ASIN in one batch and stores Buy Box price, Amazon price, seller count, sales rank and stock, with the change since the previous snapshot. refresh=false returns the latest stored snapshot without tokens',
+  schema: WatchlistSnapshotSchema,
+  // Hundreds of ASINs at once: let interactive calls go first
+  priority: 'bulk',
+  estimateCost: (params, { tools }) => estimateWatchlistSnapshot(tools, params),
+  handler: (params, { tools }) => snapshotWatchlist(tools, params),
+});
+
+/** Token cost of a snapshot depends on the stored list, so it needs a store lookup */
+export async function estimateWatchlistSnapshot(tools: KeepaTools, params: Pick<z.infer<typeof WatchlistSnapshotSchema>, 'watchlist' | 'refresh'>): Promise<TokenCostItem[]> {
+  if (params.refresh === false) return [];
+  const watchlist = await tools.watchlists.get(params.watchlist);
+  return [productRequestCost(watchlist.asins.length, SNAPSHOT_PRODUCT_OPTIONS)];
+}
+
+export async function snapshotWatchlist(tools: KeepaTools, params: z.infer<typeof WatchlistSnapshotSchema>): Promise<string | WatchlistSnapshotResult> {
+  try {
+    if (params.refresh) {
+      await tools.watchlists.snapshot(params.watchlist);
+    }
+    const watchlist = await tools.watchlists.get(params.watchlist);
+    // One extra snapshot so the markdown can show changes since the previous run
+    const [snapshot = null, ...earlier] = await tools.watchlists.snapshots(watchlist.id, params.history + 2);
+    const previous = earlier.slice(0, params.history);
+
+    if (params.outputFormat === 'json') {
+      return { watchlist, snapshot, previous };
+    }
+
+    if (!snapshot) {
+      return `No snapshots of ${watchlist.name} yet. Run keepa_watchlist_snapshot with refresh=true`;
+    }
+
+    const domain = watchlist.domain as KeepaDomain;
+    const before = new Map((earlier[0]?.items ?? []).map(item => [item.asin, item]));
+    const price = (cents: number | null) => (cents !== null ? tools.client.formatPrice(cents, domain) : 'N/A');
+
+    let result = `**📸 Watchlist Snapshot: ${watchlist.name}**\n\n`;
+    result += `🏪 ${tools.client.getDomainName(domain)} | 📦 ${snapshot.items.length} products | 📅 ${snapshot.takenAt} (${snapshot.trigger})\n`;
+    result += `✅ In stock: ${snapshot.items.filter(item => item.inStock).length}/${snapshot.items.length}\n\n`;
+
+    result += `| ASIN | Buy Box | Δ | Amazon | Sellers | Rank | Stock |\n`;
+    result += `|------|---------|---|--------|---------|------|-------|\n`;
+    snapshot.items.forEach(item => {
+      const previousBuyBox = before.get(item.asin)?.buyBox ?? null;
+      const delta = item.buyBox !== null && previousBuyBox !== null && item.buyBox !== previousBuyBox
+        ? `${item.buyBox > previousBuyBox ? '🔺' : '🔻'} ${price(Math.abs(item.buyBox - previousBuyBox))}`
+        : '-';
+      result += `| ${item.asin} | ${price(item.buyBox)} | ${delta} | ${price(item.amazon)} | ${item.sellers ?? 'N/A'} | `;
+      result += `${item.salesRank !== null ? '#' + item.salesRank.toLocaleString() : 'N/A'} | ${item.stock ?? (item.inStock ? '✅' : '❌')} |\n`;
+    });
+
+    if (snapshot.missing.length > 0) {
+      result += `\n⚠️ Not found on Keepa: ${snapshot.missing.join(', ')}\n`;
+    }
+    if (previous.length > 0) {
+      result += `\n**🕘 Earlier snapshots**\n`;
+      previous.forEach(earlierSnapshot => {
+        result += `• ${earlierSnapshot.takenAt} (${earlierSnapshot.trigger}): ${describeSnapshot(earlierSnapshot)}\n`;
+      });
+    }
+    return result;
+  } catch (error) {
+    tools.rethrowApiError(error);
+    return `Error taking watchlist snapshot: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+}
+
+function describeSnapshot(snapshot: WatchlistSnapshot): string {
+  const inStock = snapshot.items.filter(item => item.inStock).length;
+  return `${snapshot.items.length} products, ${inStock} in stock${snapshot.missing.length > 0 ? `, ${snapshot.missing.length} missing` : ''}`;
+}
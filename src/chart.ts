@@ -0,0 +1,485 @@
+import { deflateSync } from 'node:zlib';
+import { decodeCsvSeries, lastValue, SeriesPoint } from './csv-decoder.js';
+import { KeepaDataType, PriceChartResult } from './types.js';
+
+// ─── Price history charts ───────────────────────────────────────────────
+// Renders product.csv series offline, without Keepa's graph image API.
+// The layout is computed once as a list of shapes that both the SVG writer
+// and the PNG rasterizer draw, so the two formats look the same. Prices use
+// the left axis and the sales rank its own axis on the right. Series are
+// drawn as steps because a Keepa value holds until the next change.
+
+export type ChartFormat = 'svg' | 'png';
+export type ChartSeriesKey = 'amazon' | 'new' | 'used' | 'buyBox' | 'salesRank';
+
+interface ChartSeriesConfig {
+  dataType: number;
+  label: string;
+  color: string;
+  axis: 'price' | 'rank';
+  lineWidth: number;
+}
+
+// Colors follow Keepa's own graphs
+export const CHART_SERIES: Record<ChartSeriesKey, ChartSeriesConfig> = {
+  amazon: { dataType: KeepaDataType.AMAZON, label: 'Amazon', color: '#ff9900', axis: 'price', lineWidth: 2 },
+  new: { dataType: KeepaDataType.NEW, label: 'New', color: '#3b5ee0', axis: 'price', lineWidth: 2 },
+  used: { dataType: KeepaDataType.USED, label: 'Used', color: '#808080', axis: 'price', lineWidth: 2 },
+  buyBox: { dataType: KeepaDataType.BUY_BOX_SHIPPING, label: 'Buy Box', color: '#e0007a', axis: 'price', lineWidth: 2 },
+  salesRank: { dataType: KeepaDataType.SALES_RANK, label: 'Sales Rank', color: '#2e8b3a', axis: 'rank', lineWidth: 1 },
+};
+
+export interface PriceChartOptions {
+  title: string;
+  days: number;
+  width: number;
+  height: number;
+  series: ChartSeriesKey[];
+  /** Price axis labels, in the marketplace currency */
+  formatPrice: (cents: number) => string;
+  /** Unix ms of the right edge (default: now) */
+  now?: number;
+}
+
+export interface RenderedChart {
+  mimeType: PriceChartResult['mimeType'];
+  data: Buffer;
+  /** Requested series with at least one value in the window */
+  series: PriceChartResult['series'];
+}
+
+type Shape =
+  | { type: 'rect'; x: number; y: number; width: number; height: number; color: string }
+  | { type: 'line'; points: Array<[number, number]>; width: number; color: string }
+  | { type: 'text'; x: number; y: number; text: string; size: number; color: string; anchor: 'start' | 'middle' | 'end' };
+
+interface ChartScene {
+  width: number;
+  height: number;
+  shapes: Shape[];
+}
+
+interface VisibleSeries {
+  key: ChartSeriesKey;
+  config: ChartSeriesConfig;
+  points: SeriesPoint[];
+}
+
+const DAY_MS = 86400000;
+const TEXT_COLOR = '#333333';
+const GRID_COLOR = '#e6e6e6';
+const FRAME_COLOR = '#b3b3b3';
+
+export function renderPriceChart(
+  csv: Array<number[] | null> | undefined,
+  options: PriceChartOptions,
+  format: ChartFormat
+): RenderedChart {
+  const end = options.now ?? Date.now();
+  const start = end - options.days * DAY_MS;
+
+  const visible: VisibleSeries[] = options.series
+    .map(key => ({
+      key,
+      config: CHART_SERIES[key],
+      points: clipToWindow(decodeCsvSeries(csv, CHART_SERIES[key].dataType).points, start, end),
+    }))
+    .filter(series => series.points.some(point => point.value !== null));
+
+  const scene = layoutChart(visible, start, end, options);
+  return {
+    mimeType: format === 'svg' ? 'image/svg+xml' : 'image/png',
+    data: format === 'svg' ? Buffer.from(renderSvg(scene), 'utf8') : renderPng(scene),
+    series: visible.map(series => ({
+      key: series.key,
+      label: series.config.label,
+      points: series.points.filter(point => point.value !== null).length,
+      latest: lastValue(series.points),
+    })),
+  };
+}
+
+export function isPriceChartResult(result: unknown): result is PriceChartResult {
+  return typeof result === 'object' && result !== null
+    && typeof (result as PriceChartResult).image === 'string'
+    && typeof (result as PriceChartResult).mimeType === 'string';
+}
+
+/** Points inside [start, end], led by the value that was already in effect at start. */
+function clipToWindow(points: SeriesPoint[], start: number, end: number): SeriesPoint[] {
+  const sorted = [...points].sort((a, b) => a.timestamp - b.timestamp);
+  const clipped: SeriesPoint[] = [];
+  let before: SeriesPoint | undefined;
+  for (const point of sorted) {
+    if (point.timestamp < start) {
+      before = point;
+    } else if (point.timestamp <= end) {
+      clipped.push(point);
+    }
+  }
+  if (before && (clipped.length === 0 || clipped[0].timestamp > start)) {
+    clipped.unshift({ timestamp: start, value: before.value });
+  }
+  return clipped;
+}
+
+// ── Layout ──
+
+interface Scale {
+  min: number;
+  max: number;
+  ticks: number[];
+}
+
+/** Axis range rounded out to 1/2/2.5/5 × 10^n steps. */
+function niceScale(min: number, max: number, count = 5): Scale {
+  if (min === max) {
+    const pad = Math.max(Math.abs(min) * 0.1, 1);
+    min -= pad;
+    max += pad;
+  }
+  const rough = Math.max((max - min) / count, 1);
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const step = [1, 2, 2.5, 5, 10].map(factor => factor * magnitude).find(candidate => candidate >= rough)!;
+  const lo = Math.max(0, Math.floor(min / step) * step);
+  const hi = Math.ceil(max / step) * step;
+
+  const ticks: number[] = [];
+  for (let value = lo; value <= hi + step / 2; value += step) {
+    ticks.push(Math.round(value * 1000) / 1000);
+  }
+  return { min: lo, max: hi, ticks };
+}
+
+function formatRank(rank: number): string {
+  if (rank >= 1000000) return `#${(rank / 1000000).toFixed(1)}M`;
+  if (rank >= 10000) return `#${Math.round(rank / 1000)}k`;
+  return `#${Math.round(rank)}`;
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/** 11px text maps to the 1× bitmap font, larger text to 2×. */
+function fontScale(size: number): number {
+  return size >= 13 ? 2 : 1;
+}
+
+function textWidth(text: string, size: number): number {
+  return text.length * 6 * fontScale(size);
+}
+
+function fitText(text: string, size: number, maxWidth: number): string {
+  if (textWidth(text, size) <= maxWidth) return text;
+  const chars = Math.max(0, Math.floor(maxWidth / (6 * fontScale(size))) - 3);
+  return `${text.slice(0, chars)}...`;
+}
+
+function layoutChart(series: VisibleSeries[], start: number, end: number, options: PriceChartOptions): ChartScene {
+  const { width, height } = options;
+  const priceSeries = series.filter(s => s.config.axis === 'price');
+  const rankSeries = series.filter(s => s.config.axis === 'rank');
+  const plot = { left: 72, top: 44, right: width - (rankSeries.length > 0 ? 64 : 24), bottom: height - 48 };
+  const shapes: Shape[] = [{ type: 'rect', x: 0, y: 0, width, height, color: '#ffffff' }];
+
+  shapes.push({
+    type: 'text', x: plot.left, y: 24, size: 14, color: TEXT_COLOR, anchor: 'start',
+    text: fitText(options.title, 14, width - plot.left - 16),
+  });
+
+  const scaleOf = (group: VisibleSeries[]): Scale | null => {
+    const values = group.flatMap(s => s.points.map(p => p.value)).filter((v): v is number => v !== null);
+    return values.length > 0 ? niceScale(Math.min(...values), Math.max(...values)) : null;
+  };
+  const priceScale = scaleOf(priceSeries);
+  const rankScale = scaleOf(rankSeries);
+  const x = (timestamp: number) => Math.round(plot.left + (timestamp - start) / (end - start) * (plot.right - plot.left));
+  const yOf = (scale: Scale) => (value: number) =>
+    Math.round(plot.bottom - (value - scale.min) / (scale.max - scale.min) * (plot.bottom - plot.top));
+
+  // Horizontal grid follows the price axis, or the rank axis when there are no prices
+  const gridScale = priceScale ?? rankScale;
+  if (gridScale) {
+    const y = yOf(gridScale);
+    for (const tick of gridScale.ticks) {
+      shapes.push({ type: 'line', points: [[plot.left, y(tick)], [plot.right, y(tick)]], width: 1, color: GRID_COLOR });
+    }
+  }
+  if (priceScale) {
+    const y = yOf(priceScale);
+    for (const tick of priceScale.ticks) {
+      shapes.push({ type: 'text', x: plot.left - 6, y: y(tick) + 4, text: options.formatPrice(tick), size: 11, color: TEXT_COLOR, anchor: 'end' });
+    }
+  }
+  if (rankScale) {
+    const y = yOf(rankScale);
+    for (const tick of rankScale.ticks) {
+      shapes.push({ type: 'text', x: plot.right + 6, y: y(tick) + 4, text: formatRank(tick), size: 11, color: CHART_SERIES.salesRank.color, anchor: 'start' });
+    }
+  }
+
+  const dateTicks = Math.max(1, Math.min(6, Math.floor((plot.right - plot.left) / 110)));
+  for (let i = 0; i <= dateTicks; i++) {
+    const timestamp = start + (end - start) * i / dateTicks;
+    shapes.push({ type: 'line', points: [[x(timestamp), plot.bottom], [x(timestamp), plot.bottom + 4]], width: 1, color: FRAME_COLOR });
+    shapes.push({ type: 'text', x: x(timestamp), y: plot.bottom + 18, text: formatDate(timestamp), size: 11, color: TEXT_COLOR, anchor: 'middle' });
+  }
+
+  shapes.push({
+    type: 'line',
+    points: [[plot.left, plot.top], [plot.right, plot.top], [plot.right, plot.bottom], [plot.left, plot.bottom], [plot.left, plot.top]],
+    width: 1,
+    color: FRAME_COLOR,
+  });
+
+  // Rank first so the price lines stay on top
+  for (const s of [...rankSeries, ...priceSeries]) {
+    const y = yOf(s.config.axis === 'rank' ? rankScale! : priceScale!);
+    for (const run of stepRuns(s.points, x, y, plot.right)) {
+      shapes.push({ type: 'line', points: run, width: s.config.lineWidth, color: s.config.color });
+    }
+  }
+
+  if (series.length === 0) {
+    shapes.push({
+      type: 'text', x: Math.round((plot.left + plot.right) / 2), y: Math.round((plot.top + plot.bottom) / 2),
+      text: 'No data in this period', size: 11, color: TEXT_COLOR, anchor: 'middle',
+    });
+  }
+
+  let legendX = plot.left;
+  for (const s of series) {
+    shapes.push({ type: 'rect', x: legendX, y: height - 17, width: 14, height: 3, color: s.config.color });
+    shapes.push({ type: 'text', x: legendX + 20, y: height - 12, text: s.config.label, size: 11, color: TEXT_COLOR, anchor: 'start' });
+    legendX += 20 + textWidth(s.config.label, 11) + 20;
+  }
+
+  return { width, height, shapes };
+}
+
+/** Polylines of horizontal/vertical steps; a gap (null) ends the current run. */
+function stepRuns(
+  points: SeriesPoint[],
+  x: (timestamp: number) => number,
+  y: (value: number) => number,
+  endX: number
+): Array<Array<[number, number]>> {
+  const runs: Array<Array<[number, number]>> = [];
+  let run: Array<[number, number]> | null = null;
+
+  for (const point of points) {
+    const px = x(point.timestamp);
+    if (point.value === null) {
+      if (run) {
+        run.push([px, run[run.length - 1][1]]);
+        runs.push(run);
+        run = null;
+      }
+      continue;
+    }
+    const py = y(point.value);
+    if (run) {
+      run.push([px, run[run.length - 1][1]], [px, py]);
+    } else {
+      run = [[px, py]];
+    }
+  }
+  if (run) {
+    run.push([endX, run[run.length - 1][1]]);
+    runs.push(run);
+  }
+  return runs;
+}
+
+// ── SVG ──
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function renderSvg(scene: ChartScene): string {
+  const body = scene.shapes.map(shape => {
+    switch (shape.type) {
+      case 'rect':
+        return `<rect x="${shape.x}" y="${shape.y}" width="${shape.width}" height="${shape.height}" fill="${shape.color}"/>`;
+      case 'line':
+        return `<polyline points="${shape.points.map(([px, py]) => `${px},${py}`).join(' ')}" fill="none" stroke="${shape.color}" stroke-width="${shape.width}"/>`;
+      case 'text':
+        return `<text x="${shape.x}" y="${shape.y}" font-size="${shape.size}" fill="${shape.color}" text-anchor="${shape.anchor}">${escapeXml(shape.text)}</text>`;
+    }
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${scene.width}" height="${scene.height}" viewBox="0 0 ${scene.width} ${scene.height}" font-family="Helvetica, Arial, sans-serif" shape-rendering="crispEdges">`,
+    ...body,
+    '</svg>',
+    '',
+  ].join('\n');
+}
+
+// ── PNG ──
+// A small rasterizer for the shapes above: filled rectangles, thick lines and
+// a 5×7 bitmap font (each glyph is 7 rows of 5 bits, as hex pairs). Accents
+// are dropped and characters outside the font are drawn as '?'.
+
+const FONT: Record<string, string> = {
+  '0': '0e11131519110e', '1': '040c040404040e', '2': '0e11010204081f', '3': '1f02040201110e',
+  '4': '02060a121f0202', '5': '1f101e0101110e', '6': '0608101e11110e', '7': '1f010204080808',
+  '8': '0e11110e11110e', '9': '0e11110f01020c', 'A': '0e11111f111111', 'B': '1e11111e11111e',
+  'C': '0e11101010110e', 'D': '1c12111111121c', 'E': '1f10101e10101f', 'F': '1f10101e101010',
+  'G': '0e11101711110f', 'H': '1111111f111111', 'I': '0e04040404040e', 'J': '0702020202120c',
+  'K': '11121418141211', 'L': '1010101010101f', 'M': '111b1515111111', 'N': '11111915131111',
+  'O': '0e11111111110e', 'P': '1e11111e101010', 'Q': '0e11111115120d', 'R': '1e11111e141211',
+  'S': '0f10100e01011e', 'T': '1f040404040404', 'U': '1111111111110e', 'V': '11111111110a04',
+  'W': '1111111515150a', 'X': '11110a040a1111', 'Y': '1111110a040404', 'Z': '1f01020408101f',
+  'a': '00000e010f110f', 'b': '1010161911111e', 'c': '00000e1010110e', 'd': '01010d1311110f',
+  'e': '00000e111f100e', 'f': '0609081c080808', 'g': '000f11110f010e', 'h': '10101619111111',
+  'i': '04000c0404040e', 'j': '0200060202120c', 'k': '10101214181412', 'l': '0c04040404040e',
+  'm': '00001a15151111', 'n': '00001619111111', 'o': '00000e1111110e', 'p': '00001e111e1010',
+  'q': '00000d130f0101', 'r': '00001619101010', 's': '00000e100e011e', 't': '08081c08080906',
+  'u': '0000111111130d', 'v': '00001111110a04', 'w': '0000111115150a', 'x': '0000110a040a11',
+  'y': '000011110f010e', 'z': '00001f0204081f', ' ': '00000000000000', '.': '00000000000c0c',
+  ',': '000000000c0408', '-': '0000001f000000', ':': '000c0c000c0c00', '/': '00010204081000',
+  '%': '18190204081303', '#': '0a0a1f0a1f0a0a', '$': '040f140e051e04', '€': '07081e081e0807',
+  '£': '0609081c080916', '¥': '110a1f041f0404', '₹': '1f021f021c0402', '(': '02040808080402',
+  ')': '08040202020408', '[': '0e08080808080e', ']': '0e02020202020e', '+': '0004041f040400',
+  '=': '00001f001f0000', '*': '0004150e150400', '_': '0000000000001f', '|': '04040404040404',
+  "'": '0c040800000000', '"': '0a0a0a00000000', '&': '0c12140815120d', '!': '04040404000004',
+  '?': '0e110102040004',
+};
+
+type Rgb = [number, number, number];
+
+function parseColor(color: string): Rgb {
+  const hex = color.replace('#', '');
+  return [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16)) as Rgb;
+}
+
+class Raster {
+  readonly pixels: Buffer;
+
+  constructor(readonly width: number, readonly height: number) {
+    this.pixels = Buffer.alloc(width * height * 3, 255);
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, color: Rgb): void {
+    const x0 = Math.max(0, Math.round(x));
+    const y0 = Math.max(0, Math.round(y));
+    const x1 = Math.min(this.width, Math.round(x + width));
+    const y1 = Math.min(this.height, Math.round(y + height));
+    for (let py = y0; py < y1; py++) {
+      for (let px = x0; px < x1; px++) {
+        const offset = (py * this.width + px) * 3;
+        this.pixels[offset] = color[0];
+        this.pixels[offset + 1] = color[1];
+        this.pixels[offset + 2] = color[2];
+      }
+    }
+  }
+
+  line(points: Array<[number, number]>, width: number, color: Rgb): void {
+    const half = Math.floor(width / 2);
+    for (let i = 1; i < points.length; i++) {
+      const [x1, y1] = points[i - 1];
+      const [x2, y2] = points[i];
+      if (x1 === x2 || y1 === y2) {
+        this.fillRect(Math.min(x1, x2) - half, Math.min(y1, y2) - half, Math.abs(x2 - x1) + width, Math.abs(y2 - y1) + width, color);
+        continue;
+      }
+      // Diagonal: stamp a width×width square along the segment
+      const steps = Math.max(Math.abs(x2 - x1), Math.abs(y2 - y1));
+      for (let step = 0; step <= steps; step++) {
+        this.fillRect(x1 + (x2 - x1) * step / steps - half, y1 + (y2 - y1) * step / steps - half, width, width, color);
+      }
+    }
+  }
+
+  text(x: number, baseline: number, text: string, size: number, anchor: 'start' | 'middle' | 'end', color: Rgb): void {
+    const plain = text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+    const scale = fontScale(size);
+    const width = textWidth(plain, size);
+    let left = anchor === 'start' ? x : anchor === 'middle' ? x - width / 2 : x - width;
+    const top = baseline - 7 * scale;
+
+    for (const char of plain) {
+      const glyph = FONT[char] ?? FONT['?'];
+      for (let row = 0; row < 7; row++) {
+        const bits = parseInt(glyph.slice(row * 2, row * 2 + 2), 16);
+        for (let col = 0; col < 5; col++) {
+          if (bits & (0x10 >> col)) {
+            this.fillRect(left + col * scale, top + row * scale, scale, scale, color);
+          }
+        }
+      }
+      left += 6 * scale;
+    }
+  }
+}
+
+function renderPng(scene: ChartScene): Buffer {
+  const raster = new Raster(scene.width, scene.height);
+  for (const shape of scene.shapes) {
+    const color = parseColor(shape.color);
+    if (shape.type === 'rect') {
+      raster.fillRect(shape.x, shape.y, shape.width, shape.height, color);
+    } else if (shape.type === 'line') {
+      raster.line(shape.points, shape.width, color);
+    } else {
+      raster.text(shape.x, shape.y, shape.text, shape.size, shape.anchor, color);
+    }
+  }
+  return encodePng(raster.width, raster.height, raster.pixels);
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/** 8-bit RGB, no interlacing, filter 0 on every scanline. */
+function encodePng(width: number, height: number, rgb: Buffer): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // color type: RGB
+
+  const stride = width * 3;
+  const scanlines = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    rgb.copy(scanlines, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+  }
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(scanlines)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
@@ -0,0 +1,113 @@
+import { InvalidParameterError } from './types.js';
+
+// ─── Cron expressions ───────────────────────────────────────────────────
+// Standard 5-field cron ("minute hour day-of-month month day-of-week") with
+// *, lists, ranges and steps, plus @hourly/@daily/@weekly/@monthly. Times are
+// evaluated in UTC so a schedule means the same on every server.
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Cron rule: when both day fields are restricted, either one matching is enough */
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+const FIELDS: Array<{ name: string; min: number; max: number }> = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  // 7 is accepted as Sunday too
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+function parseField(value: string, field: { name: string; min: number; max: number }, expression: string): Set<number> {
+  const values = new Set<number>();
+  for (const part of value.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new InvalidParameterError(`Invalid cron ${field.name} "${part}" in "${expression}"`);
+    }
+    const step = match[4] !== undefined ? parseInt(match[4]) : 1;
+    let start = field.min;
+    let end = field.max;
+    if (match[1] !== '*') {
+      start = parseInt(match[2]);
+      // "5/15" runs from 5 to the end of the range, like most cron implementations
+      end = match[3] !== undefined ? parseInt(match[3]) : match[4] !== undefined ? field.max : start;
+    }
+    if (start < field.min || end > field.max || start > end || step < 1) {
+      throw new InvalidParameterError(`Cron ${field.name} "${part}" is out of range ${field.min}-${field.max} in "${expression}"`);
+    }
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const normalized = expression.trim().toLowerCase();
+  const fields = (MACROS[normalized] ?? normalized).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new InvalidParameterError(`Invalid cron expression "${expression}": expected 5 fields (minute hour day month weekday)`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((value, i) => parseField(value, FIELDS[i], expression));
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    expression: expression.trim(),
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: fields[2] !== '*',
+    dayOfWeekRestricted: fields[4] !== '*',
+  };
+}
+
+function dayMatches(schedule: CronSchedule, date: Date): boolean {
+  const dom = schedule.daysOfMonth.has(date.getUTCDate());
+  const dow = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) return dom || dow;
+  return dom && dow;
+}
+
+/** First run strictly after `after`, or null when none falls within the next 5 years (e.g. "0 0 31 2 *"). */
+export function nextCronRun(schedule: CronSchedule | string, after: Date): Date | null {
+  const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+  const limit = after.getTime() + 5 * 366 * 86400000;
+
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!dayMatches(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,194 @@
+import { KeepaDataType } from './types.js';
+
+// ─── Keepa csv history decoding ─────────────────────────────────────────
+// product.csv[dataType] is a flat array of Keepa minutes and values:
+//   plain series:         [time, value, time, value, ...]
+//   price+shipping series [time, price, shipping, time, price, shipping, ...]
+// A value of -1 means "no offer / out of stock / no rank" and -2 "no data",
+// both decoded as gaps (null). Values hold until the next change.
+
+export type CsvSeriesKind = 'price' | 'priceShipping' | 'rank' | 'count' | 'rating';
+
+export interface SeriesPoint {
+  /** Unix ms */
+  timestamp: number;
+  /** Cents for prices (price + shipping for priceShipping), stars (0-5) for ratings; null = gap */
+  value: number | null;
+}
+
+export interface PriceShippingPoint extends SeriesPoint {
+  price: number | null;
+  shipping: number | null;
+}
+
+export interface DecodedSeries<P extends SeriesPoint = SeriesPoint> {
+  dataType: number;
+  kind: CsvSeriesKind;
+  points: P[];
+}
+
+export type ResampleInterval = 'daily' | 'weekly';
+export type ResampleAggregate = 'last' | 'min' | 'max' | 'mean';
+
+export interface ResampledPoint {
+  /** Unix ms of the bucket start (UTC midnight; weeks start on Monday) */
+  start: number;
+  value: number | null;
+}
+
+const PRICE_SHIPPING_TYPES = new Set<number>([
+  KeepaDataType.NEW_FBM_SHIPPING,
+  KeepaDataType.BUY_BOX_SHIPPING,
+  KeepaDataType.USED_NEW_SHIPPING,
+  KeepaDataType.USED_VERY_GOOD_SHIPPING,
+  KeepaDataType.USED_GOOD_SHIPPING,
+  KeepaDataType.USED_ACCEPTABLE_SHIPPING,
+  KeepaDataType.COLLECTIBLE_NEW_SHIPPING,
+  KeepaDataType.COLLECTIBLE_VERY_GOOD_SHIPPING,
+  KeepaDataType.COLLECTIBLE_GOOD_SHIPPING,
+  KeepaDataType.COLLECTIBLE_ACCEPTABLE_SHIPPING,
+  KeepaDataType.REFURBISHED_SHIPPING,
+  KeepaDataType.EBAY_NEW_SHIPPING,
+  KeepaDataType.EBAY_USED_SHIPPING,
+  KeepaDataType.BUY_BOX_USED_SHIPPING,
+]);
+
+const COUNT_TYPES = new Set<number>([
+  KeepaDataType.COUNT_NEW,
+  KeepaDataType.COUNT_USED,
+  KeepaDataType.COUNT_REFURBISHED,
+  KeepaDataType.COUNT_COLLECTIBLE,
+  KeepaDataType.EXTRA_INFO_UPDATES,
+  KeepaDataType.COUNT_REVIEWS,
+]);
+
+export function seriesKind(dataType: number): CsvSeriesKind {
+  if (dataType === KeepaDataType.SALES_RANK) return 'rank';
+  if (dataType === KeepaDataType.RATING) return 'rating';
+  if (COUNT_TYPES.has(dataType)) return 'count';
+  if (PRICE_SHIPPING_TYPES.has(dataType)) return 'priceShipping';
+  return 'price';
+}
+
+export function keepaMinutesToUnix(keepaTime: number): number {
+  return (keepaTime + 21564000) * 60000;
+}
+
+function decodeValue(raw: number | undefined, kind: CsvSeriesKind): number | null {
+  if (raw === undefined || raw < 0) return null;
+  return kind === 'rating' ? raw / 10 : raw;
+}
+
+/** Decodes a flat [time, value, ...] array (also used for seller rating history). */
+export function decodePairs(data: number[] | undefined, kind: CsvSeriesKind = 'price'): SeriesPoint[] {
+  if (!Array.isArray(data)) return [];
+  const points: SeriesPoint[] = [];
+  for (let i = 0; i + 1 < data.length; i += 2) {
+    points.push({ timestamp: keepaMinutesToUnix(data[i]), value: decodeValue(data[i + 1], kind) });
+  }
+  return points;
+}
+
+/** Decodes a flat [time, price, shipping, ...] array (price+shipping csv types and offer.offerCSV). */
+export function decodeTriples(data: number[] | undefined): PriceShippingPoint[] {
+  if (!Array.isArray(data)) return [];
+  const points: PriceShippingPoint[] = [];
+  for (let i = 0; i + 2 < data.length; i += 3) {
+    const price = decodeValue(data[i + 1], 'price');
+    const shipping = decodeValue(data[i + 2], 'price');
+    points.push({
+      timestamp: keepaMinutesToUnix(data[i]),
+      price,
+      shipping,
+      // Landed price; unknown shipping counts as free like Keepa's own charts
+      value: price !== null ? price + (shipping ?? 0) : null,
+    });
+  }
+  return points;
+}
+
+/** Decodes product.csv[dataType]; price+shipping types yield PriceShippingPoint entries. */
+export function decodeCsvSeries(csv: Array<number[] | null> | undefined, dataType: number): DecodedSeries {
+  const kind = seriesKind(dataType);
+  const data = csv?.[dataType] ?? undefined;
+  return {
+    dataType,
+    kind,
+    points: kind === 'priceShipping' ? decodeTriples(data) : decodePairs(data, kind),
+  };
+}
+
+export function decodeOfferCsv(offerCSV: number[] | undefined): PriceShippingPoint[] {
+  return decodeTriples(offerCSV);
+}
+
+/** Points that carry a value, i.e. without -1/-2 gaps. */
+export function withoutGaps<P extends SeriesPoint>(points: P[]): Array<P & { value: number }> {
+  return points.filter((point): point is P & { value: number } => point.value !== null);
+}
+
+export function lastValue(points: SeriesPoint[]): number | null {
+  for (let i = points.length - 1; i >= 0; i--) {
+    if (points[i].value !== null) return points[i].value;
+  }
+  return null;
+}
+
+// ── Resampling ──
+
+const DAY_MS = 86400000;
+
+function bucketStart(timestamp: number, interval: ResampleInterval): number {
+  const day = Math.floor(timestamp / DAY_MS) * DAY_MS;
+  if (interval === 'daily') return day;
+  const weekday = (new Date(day).getUTCDay() + 6) % 7; // Monday = 0
+  return day - weekday * DAY_MS;
+}
+
+/**
+ * Turns a change-based series into fixed daily/weekly buckets. Because a
+ * value holds until the next change, a bucket without changes carries the
+ * previous value; 'min'/'max'/'mean' consider every value in effect during
+ * the bucket (the mean is not time-weighted).
+ */
+export function resampleSeries(
+  points: SeriesPoint[],
+  interval: ResampleInterval,
+  aggregate: ResampleAggregate = 'last',
+  until: number = Date.now()
+): ResampledPoint[] {
+  if (points.length === 0) return [];
+
+  const sorted = [...points].sort((a, b) => a.timestamp - b.timestamp);
+  const step = interval === 'daily' ? DAY_MS : 7 * DAY_MS;
+  const end = bucketStart(Math.max(until, sorted[sorted.length - 1].timestamp), interval);
+  const buckets: ResampledPoint[] = [];
+
+  let index = 0;
+  let carried: number | null = null;
+  for (let start = bucketStart(sorted[0].timestamp, interval); start <= end; start += step) {
+    const values: Array<number | null> = index > 0 ? [carried] : [];
+    while (index < sorted.length && sorted[index].timestamp < start + step) {
+      values.push(sorted[index].value);
+      carried = sorted[index].value;
+      index++;
+    }
+
+    const present = values.filter((value): value is number => value !== null);
+    let value: number | null;
+    if (aggregate === 'last') {
+      value = carried;
+    } else if (present.length === 0) {
+      value = null;
+    } else if (aggregate === 'min') {
+      value = Math.min(...present);
+    } else if (aggregate === 'max') {
+      value = Math.max(...present);
+    } else {
+      value = Math.round(present.reduce((sum, v) => sum + v, 0) / present.length * 100) / 100;
+    }
+    buckets.push({ start, value });
+  }
+
+  return buckets;
+}
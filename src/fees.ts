@@ -0,0 +1,417 @@
+import { KeepaDomain } from './types.js';
+
+// ─── Amazon seller fees ─────────────────────────────────────────────────
+// Offline estimates of referral, closing and FBA fulfilment fees for the
+// marketplaces we sell on. Amounts are in the marketplace's cents, like
+// Keepa prices. The tables follow Amazon's 2024 rate cards (standard,
+// non-peak, non-apparel FBA rates) and only aim to be close enough for
+// sourcing decisions; Keepa's own referralFeePercentage and
+// fbaFees.pickAndPackFee take precedence whenever the product has them.
+
+export const FEE_CATEGORIES = [
+  'books', 'media', 'electronics', 'computers', 'clothing', 'shoes', 'jewelry', 'beauty', 'health', 'grocery',
+  'toys', 'baby', 'sports', 'tools', 'automotive', 'pet', 'office', 'garden', 'home', 'other',
+] as const;
+
+export type FeeCategory = typeof FEE_CATEGORIES[number];
+
+export type FeeMarketplace = KeepaDomain.US | KeepaDomain.UK | KeepaDomain.DE | KeepaDomain.FR | KeepaDomain.IT | KeepaDomain.ES;
+
+interface ReferralRule {
+  percent: number;
+  /** Reduced percent for the whole price when it is at most lowPriceMax (cents) */
+  lowPricePercent?: number;
+  lowPriceMax?: number;
+  /** Per-item closing fee (media) */
+  closingFee?: number;
+}
+
+interface SizeTier {
+  name: string;
+  /** Longest, median and shortest side in mm */
+  maxDims: [number, number, number];
+  maxWeightG: number;
+  /** Shipping weight includes the dimensional weight */
+  dimensional: boolean;
+  /** [max shipping weight in g, fee in cents], ascending */
+  brackets: Array<[number, number]>;
+  /** Above the last bracket: base + perStep for every started stepG after the first */
+  overflow?: { base: number; stepG: number; perStep: number };
+}
+
+interface MarketplaceFees {
+  vatRate: number;
+  minReferralFee: number;
+  referral: Record<FeeCategory, ReferralRule>;
+  /** cm³ per kg of dimensional weight */
+  dimensionalDivisor: number;
+  tiers: SizeTier[];
+}
+
+// Whole-price tiers like "8% up to $10, 15% above" are simplified to one of the two rates
+const US_REFERRAL: Record<FeeCategory, ReferralRule> = {
+  books: { percent: 15, closingFee: 180 },
+  media: { percent: 15, closingFee: 180 },
+  electronics: { percent: 8 },
+  computers: { percent: 8 },
+  clothing: { percent: 17, lowPricePercent: 5, lowPriceMax: 1500 },
+  shoes: { percent: 15 },
+  jewelry: { percent: 20 },
+  beauty: { percent: 15, lowPricePercent: 8, lowPriceMax: 1000 },
+  health: { percent: 15, lowPricePercent: 8, lowPriceMax: 1000 },
+  grocery: { percent: 15, lowPricePercent: 8, lowPriceMax: 1500 },
+  toys: { percent: 15 },
+  baby: { percent: 15, lowPricePercent: 8, lowPriceMax: 1000 },
+  sports: { percent: 15 },
+  tools: { percent: 15 },
+  automotive: { percent: 12 },
+  pet: { percent: 15 },
+  office: { percent: 15 },
+  garden: { percent: 15 },
+  home: { percent: 15 },
+  other: { percent: 15 },
+};
+
+const EU_REFERRAL: Record<FeeCategory, ReferralRule> = {
+  books: { percent: 15, closingFee: 101 },
+  media: { percent: 15, closingFee: 101 },
+  electronics: { percent: 7 },
+  computers: { percent: 7 },
+  clothing: { percent: 15, lowPricePercent: 5, lowPriceMax: 1500 },
+  shoes: { percent: 15 },
+  jewelry: { percent: 20 },
+  beauty: { percent: 15, lowPricePercent: 8, lowPriceMax: 1000 },
+  health: { percent: 15, lowPricePercent: 8, lowPriceMax: 1000 },
+  grocery: { percent: 15, lowPricePercent: 8, lowPriceMax: 1000 },
+  toys: { percent: 15 },
+  baby: { percent: 15 },
+  sports: { percent: 15 },
+  tools: { percent: 13 },
+  automotive: { percent: 15 },
+  pet: { percent: 15 },
+  office: { percent: 15 },
+  garden: { percent: 15 },
+  home: { percent: 15 },
+  other: { percent: 15 },
+};
+
+const UK_REFERRAL: Record<FeeCategory, ReferralRule> = {
+  ...EU_REFERRAL,
+  books: { percent: 15, closingFee: 50 },
+  media: { percent: 15, closingFee: 50 },
+};
+
+// US tiers in inches and ounces, converted to mm and g
+const IN = 25.4;
+const OZ = 28.35;
+
+const US_TIERS: SizeTier[] = [
+  {
+    name: 'Small standard',
+    maxDims: [15 * IN, 12 * IN, 0.75 * IN],
+    maxWeightG: 16 * OZ,
+    dimensional: false,
+    brackets: [[2 * OZ, 306], [4 * OZ, 315], [6 * OZ, 324], [8 * OZ, 333], [10 * OZ, 343], [12 * OZ, 353], [14 * OZ, 360], [16 * OZ, 365]],
+  },
+  {
+    name: 'Large standard',
+    maxDims: [18 * IN, 14 * IN, 8 * IN],
+    maxWeightG: 320 * OZ,
+    dimensional: true,
+    brackets: [
+      [4 * OZ, 368], [8 * OZ, 390], [12 * OZ, 415], [16 * OZ, 455], [20 * OZ, 499], [24 * OZ, 537],
+      [28 * OZ, 552], [32 * OZ, 577], [36 * OZ, 587], [40 * OZ, 605], [44 * OZ, 621], [48 * OZ, 662],
+    ],
+    overflow: { base: 692, stepG: 4 * OZ, perStep: 8 },
+  },
+  {
+    name: 'Large bulky',
+    maxDims: [59 * IN, 33 * IN, 33 * IN],
+    maxWeightG: 800 * OZ,
+    dimensional: true,
+    brackets: [[16 * OZ, 961]],
+    overflow: { base: 961, stepG: 16 * OZ, perStep: 38 },
+  },
+  {
+    name: 'Extra-large',
+    maxDims: [Infinity, Infinity, Infinity],
+    maxWeightG: Infinity,
+    dimensional: true,
+    brackets: [[16 * OZ, 2633]],
+    overflow: { base: 2633, stepG: 16 * OZ, perStep: 38 },
+  },
+];
+
+// UK and EU share Amazon's European size tiers; only the prices differ
+function europeanTiers(fees: {
+  smallEnvelope: number;
+  standardEnvelope: [number, number, number];
+  largeEnvelope: number;
+  extraLargeEnvelope: number;
+  smallParcel: [number, number, number, number, number, number];
+  standardParcel: [number, number, number, number, number, number, number, number, number, number];
+  oversize: { base: number; perKg: number };
+}): SizeTier[] {
+  const parcelWeights = [150, 400, 900, 1400, 1900, 2900, 3900, 5900, 8900, 11900];
+  return [
+    { name: 'Small envelope', maxDims: [200, 150, 10], maxWeightG: 80, dimensional: false, brackets: [[80, fees.smallEnvelope]] },
+    {
+      name: 'Standard envelope',
+      maxDims: [330, 230, 25],
+      maxWeightG: 460,
+      dimensional: false,
+      brackets: [[60, fees.standardEnvelope[0]], [210, fees.standardEnvelope[1]], [460, fees.standardEnvelope[2]]],
+    },
+    { name: 'Large envelope', maxDims: [330, 230, 40], maxWeightG: 960, dimensional: false, brackets: [[960, fees.largeEnvelope]] },
+    { name: 'Extra-large envelope', maxDims: [330, 230, 60], maxWeightG: 960, dimensional: false, brackets: [[960, fees.extraLargeEnvelope]] },
+    {
+      name: 'Small parcel',
+      maxDims: [350, 250, 120],
+      maxWeightG: 3900,
+      dimensional: true,
+      brackets: [150, 400, 900, 1400, 1900, 3900].map((weight, i) => [weight, fees.smallParcel[i]]),
+    },
+    {
+      name: 'Standard parcel',
+      maxDims: [450, 340, 260],
+      maxWeightG: 11900,
+      dimensional: true,
+      brackets: parcelWeights.map((weight, i) => [weight, fees.standardParcel[i]]),
+    },
+    {
+      name: 'Oversize',
+      maxDims: [Infinity, Infinity, Infinity],
+      maxWeightG: Infinity,
+      dimensional: true,
+      brackets: [[1000, fees.oversize.base]],
+      overflow: { base: fees.oversize.base, stepG: 1000, perStep: fees.oversize.perKg },
+    },
+  ];
+}
+
+export const MARKETPLACE_FEES: Record<FeeMarketplace, MarketplaceFees> = {
+  [KeepaDomain.US]: { vatRate: 0, minReferralFee: 30, referral: US_REFERRAL, dimensionalDivisor: 5022, tiers: US_TIERS },
+  [KeepaDomain.UK]: {
+    vatRate: 0.2,
+    minReferralFee: 25,
+    referral: UK_REFERRAL,
+    dimensionalDivisor: 5000,
+    tiers: europeanTiers({
+      smallEnvelope: 183,
+      standardEnvelope: [197, 212, 226],
+      largeEnvelope: 268,
+      extraLargeEnvelope: 295,
+      smallParcel: [301, 314, 326, 343, 359, 526],
+      standardParcel: [307, 329, 353, 374, 390, 529, 564, 589, 618, 656],
+      oversize: { base: 572, perKg: 24 },
+    }),
+  },
+  [KeepaDomain.DE]: {
+    vatRate: 0.19,
+    minReferralFee: 30,
+    referral: EU_REFERRAL,
+    dimensionalDivisor: 5000,
+    tiers: europeanTiers({
+      smallEnvelope: 230,
+      standardEnvelope: [247, 264, 281],
+      largeEnvelope: 324,
+      extraLargeEnvelope: 380,
+      smallParcel: [382, 407, 439, 462, 477, 602],
+      standardParcel: [383, 422, 462, 493, 510, 583, 631, 689, 773, 829],
+      oversize: { base: 639, perKg: 27 },
+    }),
+  },
+  [KeepaDomain.FR]: {
+    vatRate: 0.2,
+    minReferralFee: 30,
+    referral: EU_REFERRAL,
+    dimensionalDivisor: 5000,
+    tiers: europeanTiers({
+      smallEnvelope: 263,
+      standardEnvelope: [289, 304, 320],
+      largeEnvelope: 382,
+      extraLargeEnvelope: 442,
+      smallParcel: [522, 572, 624, 664, 684, 756],
+      standardParcel: [528, 590, 652, 694, 718, 791, 843, 897, 985, 1050],
+      oversize: { base: 859, perKg: 30 },
+    }),
+  },
+  [KeepaDomain.IT]: {
+    vatRate: 0.22,
+    minReferralFee: 30,
+    referral: EU_REFERRAL,
+    dimensionalDivisor: 5000,
+    tiers: europeanTiers({
+      smallEnvelope: 271,
+      standardEnvelope: [293, 313, 330],
+      largeEnvelope: 370,
+      extraLargeEnvelope: 427,
+      smallParcel: [460, 498, 538, 571, 592, 696],
+      standardParcel: [466, 515, 566, 602, 623, 704, 752, 815, 904, 969],
+      oversize: { base: 778, perKg: 28 },
+    }),
+  },
+  [KeepaDomain.ES]: {
+    vatRate: 0.21,
+    minReferralFee: 30,
+    referral: EU_REFERRAL,
+    dimensionalDivisor: 5000,
+    tiers: europeanTiers({
+      smallEnvelope: 242,
+      standardEnvelope: [258, 274, 290],
+      largeEnvelope: 328,
+      extraLargeEnvelope: 375,
+      smallParcel: [410, 440, 478, 509, 528, 638],
+      standardParcel: [417, 457, 502, 535, 555, 638, 687, 747, 837, 898],
+      oversize: { base: 721, perKg: 26 },
+    }),
+  },
+};
+
+export function isFeeMarketplace(domain: number): domain is FeeMarketplace {
+  return domain in MARKETPLACE_FEES;
+}
+
+// Matched against the category tree (root first) in the marketplace's language; the first hit wins
+const FEE_CATEGORY_PATTERNS: Array<[FeeCategory, RegExp]> = [
+  ['books', /\b(books?|kindle|bücher|livres|libri|libros)\b/i],
+  ['media', /\b(music|musik|musique|musica|música|dvd|blu-ray|movies|filme?s?|video ?games|games|videogiochi|videojuegos|jeux vidéo)\b/i],
+  ['computers', /computer|ordinateur|informati/i],
+  ['electronics', /electr|elektro|élec|camera|kamera|photo|foto|cell phones/i],
+  ['shoes', /shoes|schuhe|chaussures|scarpe|zapatos/i],
+  ['clothing', /clothing|fashion|bekleidung|vêtements|abbigliamento|ropa|\bmoda\b|\bmode\b/i],
+  ['jewelry', /jewel|schmuck|bijoux|gioielli|joyería/i],
+  ['beauty', /beauty|beauté|bellezza|belleza|kosmetik/i],
+  ['health', /health|drogerie|santé|salute|salud|personal care/i],
+  ['grocery', /grocery|lebensmittel|épicerie|alimentari|alimentación|gourmet/i],
+  ['baby', /baby|bébé|bebé|prima infanzia/i],
+  ['toys', /toys|spielzeug|jouets|giochi|juguetes/i],
+  ['sports', /sport/i],
+  ['tools', /tools|werkzeug|baumarkt|bricolage|fai da te|bricolaje|\bdiy\b/i],
+  ['automotive', /automotive|\bauto\b|motorrad|moto/i],
+  ['pet', /\bpets?\b|haustier|animalerie|animali|mascotas/i],
+  ['office', /office|bürobedarf|bureau|cancelleria|oficina/i],
+  ['garden', /garden|garten|jardin|giardino|jardín|patio/i],
+  ['home', /home|kitchen|küche|haushalt|cuisine|maison|cucina|casa|hogar|cocina/i],
+];
+
+/** Fee category for the first category name (root first) that matches a known pattern. */
+export function detectFeeCategory(categoryNames: string[]): FeeCategory {
+  for (const name of categoryNames) {
+    const match = FEE_CATEGORY_PATTERNS.find(([, pattern]) => pattern.test(name));
+    if (match) return match[0];
+  }
+  return 'other';
+}
+
+export interface ReferralFee {
+  percent: number;
+  fee: number;
+  closingFee: number;
+}
+
+/** Referral fee at a price; percentOverride is Keepa's referralFeePercentage when known. */
+export function referralFee(domain: FeeMarketplace, category: FeeCategory, price: number, percentOverride?: number | null): ReferralFee {
+  const fees = MARKETPLACE_FEES[domain];
+  const rule = fees.referral[category];
+  const percent = percentOverride ?? (rule.lowPriceMax !== undefined && price <= rule.lowPriceMax ? rule.lowPricePercent! : rule.percent);
+  return {
+    percent,
+    fee: Math.max(fees.minReferralFee, Math.round(price * percent / 100)),
+    closingFee: rule.closingFee ?? 0,
+  };
+}
+
+export interface PackageDimensions {
+  lengthMm: number;
+  widthMm: number;
+  heightMm: number;
+  weightG: number;
+}
+
+export interface FulfillmentFee {
+  sizeTier: string;
+  /** The greater of the package and dimensional weight, for tiers that use it */
+  shippingWeightG: number;
+  fee: number;
+}
+
+/** FBA fulfilment fee per unit from the package dimensions and weight. */
+export function fbaFulfillmentFee(domain: FeeMarketplace, dims: PackageDimensions): FulfillmentFee {
+  const fees = MARKETPLACE_FEES[domain];
+  const sides = [dims.lengthMm, dims.widthMm, dims.heightMm].sort((a, b) => b - a);
+  const tier = fees.tiers.find(candidate =>
+    dims.weightG <= candidate.maxWeightG && sides.every((side, i) => side <= candidate.maxDims[i])
+  ) ?? fees.tiers[fees.tiers.length - 1];
+
+  // mm³ divided by cm³ per kg gives grams
+  const dimensionalWeightG = sides[0] * sides[1] * sides[2] / fees.dimensionalDivisor;
+  const shippingWeightG = Math.round(tier.dimensional ? Math.max(dims.weightG, dimensionalWeightG) : dims.weightG);
+
+  const bracket = tier.brackets.find(([maxWeight]) => shippingWeightG <= maxWeight);
+  let fee: number;
+  if (bracket) {
+    fee = bracket[1];
+  } else if (tier.overflow) {
+    const from = tier.brackets[tier.brackets.length - 1][0];
+    const steps = Math.ceil((shippingWeightG - from) / tier.overflow.stepG);
+    fee = tier.overflow.base + Math.max(0, steps - 1) * tier.overflow.perStep;
+  } else {
+    fee = tier.brackets[tier.brackets.length - 1][1];
+  }
+
+  return { sizeTier: tier.name, shippingWeightG, fee: Math.round(fee) };
+}
+
+export interface ProfitInputs {
+  domain: FeeMarketplace;
+  category: FeeCategory;
+  /** Unit cost of goods, net of VAT */
+  costPrice: number;
+  /** FBA fee or own shipping cost per unit */
+  fulfillmentFee: number;
+  /** Prep, inbound freight and other per-unit costs */
+  otherCosts: number;
+  referralPercent?: number | null;
+  /** Remove the VAT included in UK/EU prices before computing the profit */
+  deductVat: boolean;
+}
+
+export interface ProfitBreakdown {
+  price: number;
+  referralFee: number;
+  closingFee: number;
+  fulfillmentFee: number;
+  vat: number;
+  otherCosts: number;
+  /** What is left of the price after Amazon fees and VAT */
+  netProceeds: number;
+  netProfit: number;
+  /** % of the price */
+  margin: number;
+  /** % of the cost price */
+  roi: number | null;
+}
+
+export function profitAt(price: number, inputs: ProfitInputs): ProfitBreakdown {
+  const referral = referralFee(inputs.domain, inputs.category, price, inputs.referralPercent);
+  const vatRate = inputs.deductVat ? MARKETPLACE_FEES[inputs.domain].vatRate : 0;
+  const vat = Math.round(price - price / (1 + vatRate));
+  const netProceeds = price - referral.fee - referral.closingFee - inputs.fulfillmentFee - vat;
+  const netProfit = netProceeds - inputs.costPrice - inputs.otherCosts;
+
+  return {
+    price,
+    referralFee: referral.fee,
+    closingFee: referral.closingFee,
+    fulfillmentFee: inputs.fulfillmentFee,
+    vat,
+    otherCosts: inputs.otherCosts,
+    netProceeds,
+    netProfit,
+    margin: price > 0 ? Math.round(netProfit / price * 1000) / 10 : 0,
+    roi: inputs.costPrice + inputs.otherCosts > 0
+      ? Math.round(netProfit / (inputs.costPrice + inputs.otherCosts) * 1000) / 10
+      : null,
+  };
+}
@@ -0,0 +1,89 @@
+import { InvalidParameterError, KeepaDomain } from './types.js';
+
+// ─── Currency conversion ────────────────────────────────────────────────
+// Keepa prices are in each marketplace's own cents. Comparing marketplaces
+// needs a common currency, so rates are kept in a small table: units of
+// each currency per 1 EUR. The defaults are rough reference rates; set
+// KEEPA_FX_RATES (e.g. "USD=1.09,GBP=0.84") or pass fxRates to a tool to
+// use today's rates.
+
+export const CURRENCIES = ['EUR', 'USD', 'GBP', 'JPY', 'CAD', 'CNY', 'INR', 'MXN'] as const;
+
+export type Currency = typeof CURRENCIES[number];
+
+export type FxRates = Record<Currency, number>;
+
+export const DEFAULT_FX_RATES: FxRates = {
+  EUR: 1,
+  USD: 1.08,
+  GBP: 0.85,
+  JPY: 162,
+  CAD: 1.47,
+  CNY: 7.8,
+  INR: 90,
+  MXN: 19.5,
+};
+
+export const DOMAIN_CURRENCIES: Record<KeepaDomain, Currency> = {
+  [KeepaDomain.US]: 'USD',
+  [KeepaDomain.UK]: 'GBP',
+  [KeepaDomain.DE]: 'EUR',
+  [KeepaDomain.FR]: 'EUR',
+  [KeepaDomain.JP]: 'JPY',
+  [KeepaDomain.CA]: 'CAD',
+  [KeepaDomain.CN]: 'CNY',
+  [KeepaDomain.IT]: 'EUR',
+  [KeepaDomain.ES]: 'EUR',
+  [KeepaDomain.IN]: 'INR',
+  [KeepaDomain.MX]: 'MXN',
+};
+
+export function isCurrency(value: string): value is Currency {
+  return (CURRENCIES as readonly string[]).includes(value);
+}
+
+/** Parses "USD=1.09,GBP=0.84" (units per 1 EUR) into rate overrides */
+export function parseFxRates(value: string | undefined): Partial<FxRates> {
+  const rates: Partial<FxRates> = {};
+  if (!value?.trim()) return rates;
+
+  for (const entry of value.split(',')) {
+    const [code, rate] = entry.split('=').map(part => part.trim());
+    const currency = code?.toUpperCase();
+    const number = Number(rate);
+    if (!currency || !isCurrency(currency) || !Number.isFinite(number) || number <= 0) {
+      throw new InvalidParameterError(`Invalid FX rate "${entry.trim()}": expected CURRENCY=rate with one of ${CURRENCIES.join(', ')}`);
+    }
+    rates[currency] = number;
+  }
+  // EUR is the base of the table
+  if (rates.EUR !== undefined && rates.EUR !== 1) {
+    throw new InvalidParameterError('FX rates are units per 1 EUR, so EUR must be 1');
+  }
+  return rates;
+}
+
+// Keepa prices are in the currency's minor unit: cents, but whole yen on amazon.co.jp
+const MINOR_UNITS: Record<Currency, number> = {
+  EUR: 100, USD: 100, GBP: 100, JPY: 1, CAD: 100, CNY: 100, INR: 100, MXN: 100,
+};
+
+const SYMBOLS: Record<Currency, string> = {
+  EUR: '€', USD: '$', GBP: '£', JPY: '¥', CAD: 'C$', CNY: '¥', INR: '₹', MXN: 'MX$',
+};
+
+/** Converts a Keepa price between currencies, rounded to the target's minor unit */
+export function convertCents(cents: number, from: Currency, to: Currency, rates: FxRates): number {
+  if (from === to) return cents;
+  return Math.round(cents / MINOR_UNITS[from] / rates[from] * rates[to] * MINOR_UNITS[to]);
+}
+
+/** Keepa price as a plain amount in the currency (19.99, not 1999), for spreadsheets */
+export function toMajorUnits(cents: number, currency: Currency): number {
+  return cents / MINOR_UNITS[currency];
+}
+
+export function formatMoney(cents: number, currency: Currency): string {
+  const digits = MINOR_UNITS[currency] === 1 ? 0 : 2;
+  return `${SYMBOLS[currency]}${(cents / MINOR_UNITS[currency]).toFixed(digits)}`;
+}
@@ -6,270 +6,306 @@
  * MODE 1 (HTTP): When PORT env var is set, starts an HTTP server
  *   that accepts POST /tool with {tool, input, metadata} body.
  *   This is the mode used by Easypanel + Supabase Edge Functions.
+ *   Standard MCP clients connect to the same process through
+ *   Streamable HTTP (/mcp) or the legacy SSE transport (/sse).
  * 
  * MODE 2 (stdio): When no PORT is set, falls back to classic
  *   MCP stdio transport for Claude Desktop compatibility.
  * 
- * The HTTP mode reuses all existing KeepaTools logic unchanged.
+ * The HTTP mode reuses the tool catalog unchanged.
  */
 
 import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { ZodError } from 'zod';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
   Tool,
+  isInitializeRequest,
 } from '@modelcontextprotocol/sdk/types.js';
 import { KeepaClient } from './keepa-client.js';
 import {
-  KeepaTools,
-  ProductLookupSchema,
-  BatchProductLookupSchema,
-  DealSearchSchema,
-  SellerLookupSchema,
-  BestSellersSchema,
-  PriceHistorySchema,
-  ProductFinderSchema,
-  CategoryAnalysisSchema,
-  SalesVelocitySchema,
-  InventoryAnalysisSchema,
-  TokenStatusSchema,
-} from './tools.js';
-
-// ─── Shared tool definitions ────────────────────────────────────────────
-// Used by both HTTP and stdio modes
-
-const TOOL_DEFINITIONS: Tool[] = [
-  {
-    name: 'keepa_product_lookup',
-    description: 'Look up detailed information for a single Amazon product by ASIN',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        asin: { type: 'string', description: 'Amazon ASIN (product identifier)' },
-        code: { type: 'string', description: 'Product code (EAN, UPC, ISBN-13) - alternative to ASIN' },
-        domain: { type: 'number', minimum: 1, maximum: 11, default: 1, description: 'Amazon domain (1=US, 2=UK, 3=DE, 4=FR, 5=JP, 6=CA, 8=IT, 9=ES, 10=IN, 11=MX)' },
-        days: { type: 'number', minimum: 1, maximum: 365, description: 'Number of days of price history to include' },
-        history: { type: 'boolean', default: false, description: 'Include full price history' },
-        offers: { type: 'number', minimum: 0, maximum: 100, description: 'Number of marketplace offers to include' },
-        variations: { type: 'boolean', default: false, description: 'Include product variations' },
-        rating: { type: 'boolean', default: false, description: 'Include product rating data' },
-      },
-      required: [],
-    },
-  },
-  {
-    name: 'keepa_batch_product_lookup',
-    description: 'Look up information for multiple Amazon products by ASIN (up to 100)',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        asins: { type: 'array', items: { type: 'string' }, maxItems: 100, description: 'Array of Amazon ASINs (max 100)' },
-        domain: { type: 'number', minimum: 1, maximum: 11, default: 1, description: 'Amazon domain (1=US, 2=UK, 3=DE, etc.)' },
-        days: { type: 'number', minimum: 1, maximum: 365, description: 'Number of days of price history to include' },
-        history: { type: 'boolean', default: false, description: 'Include full price history' },
-      },
-      required: ['asins'],
-    },
-  },
-  {
-    name: 'keepa_search_deals',
-    description: 'Search for current Amazon deals with filtering options',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        domain: { type: 'number', minimum: 1, maximum: 11, default: 1, description: 'Amazon domain (1=US, 2=UK, 3=DE, etc.)' },
-        categoryId: { type: 'number', description: 'Amazon category ID to filter by' },
-        minPrice: { type: 'number', minimum: 0, description: 'Minimum price in cents' },
-        maxPrice: { type: 'number', minimum: 0, description: 'Maximum price in cents' },
-        minDiscount: { type: 'number', minimum: 0, maximum: 100, description: 'Minimum discount percentage' },
-        minRating: { type: 'number', minimum: 1, maximum: 5, description: 'Minimum product rating (1-5 stars)' },
-        isPrime: { type: 'boolean', description: 'Filter for Prime eligible deals only' },
-        sortType: { type: 'number', minimum: 0, maximum: 4, default: 0, description: 'Sort (0=deal score, 1=price, 2=discount, 3=rating, 4=reviews)' },
-        page: { type: 'number', minimum: 0, default: 0, description: 'Page number for pagination' },
-        perPage: { type: 'number', minimum: 1, maximum: 50, default: 25, description: 'Results per page (max 50)' },
-      },
-      required: [],
-    },
-  },
-  {
-    name: 'keepa_seller_lookup',
-    description: 'Consulta información de vendedores de Amazon: identidad, reputación, Buy Box, portfolio de marcas/categorías y competidores. Soporta batch de hasta 100 sellers separados por comas.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        seller: { type: 'string', description: 'Seller ID (ej: A3P5ROKL5A1OLE). Para batch: IDs separados por comas, máximo 100. NO usar batch con storefront.' },
-        domain: { type: 'number', minimum: 1, maximum: 11, default: 9, description: 'Amazon domain (1=US, 2=UK, 3=DE, 4=FR, 5=JP, 6=CA, 8=IT, 9=ES, 10=IN, 11=MX)' },
-        storefront: { type: 'boolean', default: false, description: 'Incluir lista de ASINs del vendedor (+9 tokens Keepa). Solo para consultas individuales, NO batch.' }
-      },
-      required: ['seller'],
-    },
-  },
-  {
-    name: 'keepa_best_sellers',
-    description: 'Get best seller rankings for an Amazon category',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        domain: { type: 'number', minimum: 1, maximum: 11, default: 1, description: 'Amazon domain (1=US, 2=UK, 3=DE, etc.)' },
-        category: { type: 'number', description: 'Amazon category ID' },
-        page: { type: 'number', minimum: 0, default: 0, description: 'Page number (each page = 100 products)' },
-      },
-      required: ['category'],
-    },
-  },
-  {
-    name: 'keepa_price_history',
-    description: 'Get detailed price history for an Amazon product',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        asin: { type: 'string', description: 'Amazon ASIN' },
-        domain: { type: 'number', minimum: 1, maximum: 11, default: 1, description: 'Amazon domain (1=US, 2=UK, 3=DE, etc.)' },
-        dataType: { type: 'number', minimum: 0, maximum: 30, description: 'Data type (0=Amazon, 1=New, 2=Used, 3=Sales Rank, etc.)' },
-        days: { type: 'number', minimum: 1, maximum: 365, default: 30, description: 'Number of days of history' },
-      },
-      required: ['asin', 'dataType'],
-    },
-  },
-  {
-    name: 'keepa_product_finder',
-    description: 'Advanced product finder with filtering similar to Keepa Product Finder - find products by rating, price, sales, competition level',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        domain: { type: 'number', minimum: 1, maximum: 11, default: 1, description: 'Amazon domain (1=US, 2=UK, 3=DE, etc.)' },
-        categoryId: { type: 'number', description: 'Amazon category ID to search within' },
-        minPrice: { type: 'number', minimum: 0, description: 'Minimum current price in cents' },
-        maxPrice: { type: 'number', minimum: 0, description: 'Maximum current price in cents' },
-        minRating: { type: 'number', minimum: 0, maximum: 50, description: 'Minimum rating (0-50, multiply stars by 10)' },
-        maxRating: { type: 'number', minimum: 0, maximum: 50, description: 'Maximum rating (0-50, multiply stars by 10)' },
-        minReviewCount: { type: 'number', minimum: 0, description: 'Minimum number of reviews' },
-        hasReviews: { type: 'boolean', description: 'Must have at least 1 review' },
-        isPrime: { type: 'boolean', description: 'Filter for Prime eligible only' },
-        minSalesRank: { type: 'number', description: 'Minimum sales rank (lower = better selling)' },
-        maxSalesRank: { type: 'number', description: 'Maximum sales rank' },
-        sortBy: { type: 'string', description: 'Sort field (monthlySold, current_SALES, etc.)' },
-        sortOrder: { type: 'string', enum: ['asc', 'desc'], default: 'desc', description: 'Sort order' },
-        page: { type: 'number', minimum: 0, default: 0, description: 'Page number' },
-        perPage: { type: 'number', minimum: 1, maximum: 50, default: 25, description: 'Results per page' },
-      },
-      required: [],
-    },
-  },
-  {
-    name: 'keepa_category_analysis',
-    description: 'Comprehensive market intelligence for an Amazon category with opportunity scoring',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        domain: { type: 'number', minimum: 1, maximum: 11, default: 1, description: 'Amazon domain (1=US, 2=UK, 3=DE, etc.)' },
-        categoryId: { type: 'number', description: 'Amazon category ID to analyze' },
-        sampleSize: { type: 'number', minimum: 10, maximum: 100, default: 50, description: 'Number of products to analyze' },
-      },
-      required: ['categoryId'],
-    },
-  },
-  {
-    name: 'keepa_sales_velocity',
-    description: 'Analyze sales velocity and inventory turnover for products or categories',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        asin: { type: 'string', description: 'Single ASIN to analyze' },
-        asins: { type: 'array', items: { type: 'string' }, maxItems: 100, description: 'Multiple ASINs to analyze' },
-        domain: { type: 'number', minimum: 1, maximum: 11, default: 1, description: 'Amazon domain (1=US, 2=UK, 3=DE, etc.)' },
-        categoryId: { type: 'number', description: 'Amazon category ID to analyze' },
-        minVelocity: { type: 'number', description: 'Minimum daily sales velocity filter' },
-        timeframe: { type: 'string', enum: ['week', 'month', 'quarter'], default: 'month', description: 'Analysis timeframe' },
-      },
-      required: [],
-    },
-  },
-  {
-    name: 'keepa_inventory_analysis',
-    description: 'Portfolio inventory management with stockout risk assessment',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        domain: { type: 'number', minimum: 1, maximum: 11, default: 1, description: 'Amazon domain (1=US, 2=UK, 3=DE, etc.)' },
-        categoryId: { type: 'number', description: 'Amazon category ID to analyze' },
-        asins: { type: 'array', items: { type: 'string' }, maxItems: 100, description: 'Specific ASINs to analyze (your current inventory)' },
-        analysisType: { type: 'string', enum: ['overview', 'fast_movers', 'slow_movers', 'stockout_risks', 'seasonal'], default: 'overview', description: 'Type of inventory analysis' },
-        timeframe: { type: 'string', enum: ['week', 'month', 'quarter'], default: 'month', description: 'Analysis timeframe' },
-        targetTurnoverRate: { type: 'number', minimum: 1, maximum: 50, default: 12, description: 'Target inventory turns per year' },
-      },
-      required: [],
-    },
-  },
-  {
-    name: 'keepa_token_status',
-    description: 'Check remaining Keepa API tokens and account status',
-    inputSchema: {
-      type: 'object',
-      properties: {},
-      required: [],
-    },
-  },
-];
+  StructuredToolResult,
+  KeepaError,
+  InvalidParameterError,
+  NetworkError,
+  RateLimitedError,
+  TokenExhaustedError,
+} from './types.js';
+import { RESOURCE_TEMPLATES, readResource } from './resources.js';
+import { PROMPT_DEFINITIONS, getPrompt } from './prompts.js';
+import { KeepaTools } from './tools.js';
+import { isPriceChartResult } from './chart.js';
+import { isBulkLookupResult } from './bulk.js';
+import { DEFAULT_JOB_CONCURRENCY, DEFAULT_JOBS_FILE, isJobFinished, JobService, JsonJobStore } from './jobs.js';
+import { createToolRegistry } from './catalog/index.js';
+import { ToolProgress } from './registry.js';
+import { parseFxRates } from './fx.js';
+import { createWatchlistStore, WatchlistScheduler, WatchlistService } from './watchlist.js';
+import { AlertService, DEFAULT_ALERTS_FILE, JsonAlertStore } from './alerts.js';
+
+// ─── Shared tool registry ───────────────────────────────────────────────
+// Used by both HTTP and stdio modes; each tool is declared once in src/catalog/
+
+const toolRegistry = createToolRegistry();
+const TOOL_DEFINITIONS: Tool[] = toolRegistry.definitions();
 
 // ─── Shared tool executor ───────────────────────────────────────────────
 
-function initKeepa(): { client: KeepaClient; tools: KeepaTools } {
+interface KeepaInstance {
+  client: KeepaClient;
+  tools: KeepaTools;
+  watchlists: WatchlistService;
+  alerts: AlertService;
+}
+
+function initKeepa(): KeepaInstance {
   const apiKey = process.env.KEEPA_API_KEY;
   if (!apiKey) {
     throw new Error('KEEPA_API_KEY environment variable is required.');
   }
   const client = new KeepaClient({
     apiKey,
-    rateLimitDelay: parseInt(process.env.KEEPA_RATE_LIMIT_DELAY || '1000'),
+    rateLimitDelay: parseInt(process.env.KEEPA_RATE_LIMIT_DELAY || '0'),
     timeout: parseInt(process.env.KEEPA_TIMEOUT || '30000'),
+    retry: {
+      ...(process.env.KEEPA_MAX_RETRIES && { maxAttempts: parseInt(process.env.KEEPA_MAX_RETRIES) + 1 }),
+      ...(process.env.KEEPA_RETRY_MAX_DELAY && { maxDelayMs: parseInt(process.env.KEEPA_RETRY_MAX_DELAY) }),
+    },
+    cache: {
+      backend: (process.env.KEEPA_CACHE || 'memory') as 'memory' | 'sqlite' | 'none',
+      file: process.env.KEEPA_CACHE_FILE,
+      maxEntries: parseInt(process.env.KEEPA_CACHE_MAX_ENTRIES || '1000'),
+      ttl: {
+        ...(process.env.KEEPA_CACHE_TTL_PRODUCT && { product: parseInt(process.env.KEEPA_CACHE_TTL_PRODUCT) }),
+        ...(process.env.KEEPA_CACHE_TTL_SELLER && { seller: parseInt(process.env.KEEPA_CACHE_TTL_SELLER) }),
+        ...(process.env.KEEPA_CACHE_TTL_BESTSELLERS && { bestsellers: parseInt(process.env.KEEPA_CACHE_TTL_BESTSELLERS) }),
+        ...(process.env.KEEPA_CACHE_TTL_CATEGORY && { category: parseInt(process.env.KEEPA_CACHE_TTL_CATEGORY) }),
+        ...(process.env.KEEPA_CACHE_TTL_LIGHTNINGDEAL && { lightningdeal: parseInt(process.env.KEEPA_CACHE_TTL_LIGHTNINGDEAL) }),
+        ...(process.env.KEEPA_CACHE_TTL_TOPSELLER && { topseller: parseInt(process.env.KEEPA_CACHE_TTL_TOPSELLER) }),
+      },
+    },
+  });
+  const watchlists = new WatchlistService(client, createWatchlistStore({
+    backend: (process.env.KEEPA_WATCHLIST_STORE || 'json') as 'json' | 'sqlite' | 'memory',
+    file: process.env.KEEPA_WATCHLIST_FILE,
+    ...(process.env.KEEPA_WATCHLIST_MAX_SNAPSHOTS && { maxSnapshots: parseInt(process.env.KEEPA_WATCHLIST_MAX_SNAPSHOTS) }),
+  }));
+  const alerts = new AlertService(new JsonAlertStore(process.env.KEEPA_ALERTS_FILE || DEFAULT_ALERTS_FILE), {
+    secret: process.env.KEEPA_WEBHOOK_SECRET,
+    ...(process.env.KEEPA_WEBHOOK_MAX_ATTEMPTS && { retry: { maxAttempts: parseInt(process.env.KEEPA_WEBHOOK_MAX_ATTEMPTS) } }),
   });
-  return { client, tools: new KeepaTools(client) };
+  // Every snapshot, manual or scheduled, is checked against the alert rules
+  watchlists.onSnapshot((watchlist, snapshot, previous) => alerts.evaluate(watchlist, snapshot, previous));
+  return {
+    client,
+    tools: new KeepaTools(client, { fxRates: parseFxRates(process.env.KEEPA_FX_RATES), watchlists, alerts }),
+    watchlists,
+    alerts,
+  };
 }
 
 async function executeTool(
-  keepaTools: KeepaTools,
+  keepa: KeepaInstance,
   toolName: string,
   input: Record<string, any>,
-): Promise<string> {
-  switch (toolName) {
-    case 'keepa_product_lookup':
-      return keepaTools.lookupProduct(ProductLookupSchema.parse(input));
-    case 'keepa_batch_product_lookup':
-      return keepaTools.batchLookupProducts(BatchProductLookupSchema.parse(input));
-    case 'keepa_search_deals':
-      return keepaTools.searchDeals(DealSearchSchema.parse(input));
-    case 'keepa_seller_lookup':
-      return keepaTools.lookupSeller(SellerLookupSchema.parse(input));
-    case 'keepa_best_sellers':
-      return keepaTools.getBestSellers(BestSellersSchema.parse(input));
-    case 'keepa_price_history':
-      return keepaTools.getPriceHistory(PriceHistorySchema.parse(input));
-    case 'keepa_product_finder':
-      return keepaTools.findProducts(ProductFinderSchema.parse(input));
-    case 'keepa_category_analysis':
-      return keepaTools.analyzeCategory(CategoryAnalysisSchema.parse(input));
-    case 'keepa_sales_velocity':
-      return keepaTools.analyzeSalesVelocity(SalesVelocitySchema.parse(input));
-    case 'keepa_inventory_analysis':
-      return keepaTools.analyzeInventory(InventoryAnalysisSchema.parse(input));
-    case 'keepa_token_status':
-      return keepaTools.getTokenStatus(TokenStatusSchema.parse(input));
-    default:
-      throw new Error(`Unknown tool: ${toolName}`);
+  progress?: (update: ToolProgress) => void,
+  signal?: AbortSignal,
+): Promise<string | StructuredToolResult> {
+  return toolRegistry.execute(toolName, input, { ...keepa, progress, signal });
+}
+
+// ─── Error → HTTP status mapping ────────────────────────────────────────
+
+interface HttpError {
+  status: number;
+  code: string;
+  message: string;
+  /** Seconds, for the Retry-After header */
+  retryAfter?: number;
+}
+
+class InvalidJsonError extends Error {
+  constructor() {
+    super('Invalid JSON body');
+    this.name = 'InvalidJsonError';
+  }
+}
+
+/** JSON.parse for request bodies: a malformed body is the caller's fault, not a tool error */
+function parseJsonBody(body: string): any {
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new InvalidJsonError();
   }
 }
 
+function toHttpError(err: unknown): HttpError {
+  const message = err instanceof Error ? err.message : String(err);
+  if (err instanceof InvalidJsonError) {
+    return { status: 400, code: 'INVALID_JSON', message };
+  }
+  if (err instanceof ZodError || err instanceof InvalidParameterError) {
+    return { status: 400, code: 'INVALID_PARAMETER', message };
+  }
+  if (err instanceof RateLimitedError || err instanceof TokenExhaustedError) {
+    return {
+      status: 429,
+      code: err instanceof RateLimitedError ? 'RATE_LIMITED' : 'TOKENS_EXHAUSTED',
+      message,
+      retryAfter: err.refillIn !== undefined ? Math.ceil(err.refillIn / 1000) : undefined,
+    };
+  }
+  if (err instanceof NetworkError) {
+    return { status: 502, code: 'KEEPA_UNAVAILABLE', message };
+  }
+  if (err instanceof KeepaError) {
+    return { status: 502, code: 'KEEPA_ERROR', message };
+  }
+  return { status: 500, code: 'TOOL_ERROR', message };
+}
+
+// ─── Shared MCP server ──────────────────────────────────────────────────
+// One MCP Server per connection: stdio has a single one, HTTP one per session.
+// Every transport exposes the same tools, resources and prompts.
+
+function createMcpServer(getKeepa: () => KeepaInstance): Server {
+  const server = new Server(
+    { name: 'keepa-mcp-server', version: '2.0.0' },
+    { capabilities: { tools: {}, resources: {}, prompts: {} } },
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return { tools: TOOL_DEFINITIONS };
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    // Clients that send a progressToken get notifications/progress from long-running tools
+    const progressToken = request.params._meta?.progressToken;
+    const progress = progressToken === undefined ? undefined : (update: ToolProgress) => {
+      extra.sendNotification({ method: 'notifications/progress', params: { progressToken, ...update } }).catch(() => undefined);
+    };
+    try {
+      const result = await executeTool(getKeepa(), name, args || {}, progress);
+      // Charts go out as image content, with their metadata as text
+      if (isPriceChartResult(result)) {
+        const { image, ...chart } = result;
+        return {
+          content: [
+            { type: 'image', data: image, mimeType: result.mimeType },
+            { type: 'text', text: JSON.stringify(chart, null, 2) },
+          ],
+        };
+      }
+      // Bulk exports go out as an embedded file, with the lookup summary as text
+      if (isBulkLookupResult(result)) {
+        const { file, ...summary } = result;
+        return {
+          content: [
+            { type: 'resource', resource: { uri: `keepa://export/${result.filename}`, mimeType: result.mimeType, blob: file } },
+            { type: 'text', text: JSON.stringify(summary, null, 2) },
+          ],
+        };
+      }
+      const text = typeof result === 'string' ? result : JSON.stringify(result, null, 2);
+      return { content: [{ type: 'text', text }] };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { content: [{ type: 'text', text: `Error: ${errorMessage}` }], isError: true };
+    }
+  });
+
+  // Nothing to enumerate: every product, seller and category is addressable through the templates
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources: [] };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: RESOURCE_TEMPLATES };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { client, tools } = getKeepa();
+    const contents = await readResource(client, tools, request.params.uri);
+    return { contents: [contents] };
+  });
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: PROMPT_DEFINITIONS };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { description, messages } = getPrompt(request.params.name, request.params.arguments || {});
+    return { description, messages };
+  });
+
+  return server;
+}
+
+// HTTP sessions idle for longer than this are closed
+const MCP_SESSION_IDLE_MS = 30 * 60 * 1000;
+
+/** JSON-RPC messages go to the MCP transport; anything else on POST /mcp is the custom contract. */
+function isJsonRpcPayload(payload: unknown): boolean {
+  const messages = Array.isArray(payload) ? payload : [payload];
+  return messages.length > 0 && messages.every(m => typeof m === 'object' && m !== null && (m as any).jsonrpc === '2.0');
+}
+
 // ═══════════════════════════════════════════════════════════════════════
 // MODE 1: HTTP SERVER (for Easypanel / Edge Functions)
 // ═══════════════════════════════════════════════════════════════════════
 
 function startHttpServer(port: number): void {
-  const { tools: keepaTools } = initKeepa();
+  const keepa = initKeepa();
   const authSecret = process.env.MCP_AUTH_SECRET || '';
 
+  // Standard MCP clients: Streamable HTTP sessions keyed by Mcp-Session-Id,
+  // legacy SSE sessions keyed by the sessionId query parameter
+  const mcpSessions = new Map<string, { transport: StreamableHTTPServerTransport; lastSeen: number }>();
+  const sseSessions = new Map<string, SSEServerTransport>();
+
+  // Clients that vanish without DELETE /mcp would otherwise keep their session forever
+  setInterval(() => {
+    const cutoff = Date.now() - MCP_SESSION_IDLE_MS;
+    for (const [sessionId, session] of mcpSessions) {
+      if (session.lastSeen < cutoff) {
+        mcpSessions.delete(sessionId);
+        session.transport.close().catch(() => undefined);
+      }
+    }
+  }, 60000).unref();
+
+  // Scheduled watchlist snapshots only run here: a stdio server lives as long as one client session
+  const watchlistScheduler = process.env.KEEPA_WATCHLIST_SCHEDULER === 'true' ? new WatchlistScheduler(keepa.watchlists) : null;
+  watchlistScheduler?.start();
+
+  // Background tool calls (POST /jobs) go through the same registry and Keepa client as POST /tool
+  const jobs = new JobService(
+    new JsonJobStore(process.env.KEEPA_JOBS_FILE || DEFAULT_JOBS_FILE),
+    (job, progress, signal) => executeTool(keepa, job.tool, job.input, progress, signal),
+    {
+      ...(process.env.KEEPA_JOB_CONCURRENCY && { concurrency: parseInt(process.env.KEEPA_JOB_CONCURRENCY) }),
+      ...(process.env.KEEPA_JOB_RETENTION_HOURS && { retentionMs: parseInt(process.env.KEEPA_JOB_RETENTION_HOURS) * 3600000 }),
+      describeError: err => {
+        const { code, message } = toHttpError(err);
+        return { code, message };
+      },
+    },
+  );
+  jobs.start().catch(err => console.error(`[MCP-HTTP] Could not load stored jobs: ${err instanceof Error ? err.message : String(err)}`));
+
   function readBody(req: IncomingMessage): Promise<string> {
     return new Promise((resolve, reject) => {
       let data = '';
@@ -279,22 +315,125 @@ function startHttpServer(port: number): void {
     });
   }
 
-  function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
     const json = JSON.stringify(body);
     res.writeHead(status, {
       'Content-Type': 'application/json',
       'Content-Length': Buffer.byteLength(json),
+      ...headers,
     });
     res.end(json);
   }
 
+  function sendError(res: ServerResponse, err: unknown, context: string): void {
+    const { status, code, message, retryAfter } = toHttpError(err);
+    console.error(`[MCP-HTTP] ${context}: ${message}`);
+    sendJson(
+      res,
+      status,
+      { error: message, code, ...(retryAfter !== undefined && { retry_after: retryAfter }) },
+      retryAfter !== undefined ? { 'Retry-After': String(retryAfter) } : {}
+    );
+  }
+
+  function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+    sendJson(res, status, { jsonrpc: '2.0', error: { code: -32000, message }, id: null });
+  }
+
+  function isAuthorized(req: IncomingMessage): boolean {
+    if (!authSecret) return true;
+    const authHeader = req.headers['authorization'] || '';
+    const token = authHeader.startsWith('Bearer ') ? authHeader.slice(7) : '';
+    return token === authSecret;
+  }
+
+  // ── Custom contract: {tool, input, metadata} ──
+  async function handleToolCall(res: ServerResponse, payload: any): Promise<void> {
+    try {
+      // Accept the Edge Function contract: {tool, input, metadata}
+      const toolName = payload.tool || payload.name;
+      const input = payload.input || payload.arguments || {};
+
+      if (!toolName) {
+        sendJson(res, 400, { error: 'Missing "tool" field', code: 'MISSING_TOOL' });
+        return;
+      }
+
+      const startTime = Date.now();
+      // Structured (outputFormat: 'json') results are passed through as objects
+      const result = await executeTool(keepa, toolName, input);
+      const durationMs = Date.now() - startTime;
+      const size = Buffer.byteLength(typeof result === 'string' ? result : JSON.stringify(result));
+
+      console.log(
+        `[MCP-HTTP] tool=${toolName} duration=${durationMs}ms size=${size}b`
+      );
+
+      sendJson(res, 200, {
+        result,
+        tool: toolName,
+        duration_ms: durationMs,
+      });
+    } catch (err: any) {
+      sendError(res, err, 'Error');
+    }
+  }
+
+  // ── MCP Streamable HTTP ──
+  async function handleMcpRequest(req: IncomingMessage, res: ServerResponse, body?: unknown): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'];
+    const session = typeof sessionId === 'string' ? mcpSessions.get(sessionId) : undefined;
+    if (session) {
+      session.lastSeen = Date.now();
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (sessionId) {
+      sendJsonRpcError(res, 404, 'Session not found');
+      return;
+    }
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Bad Request: Mcp-Session-Id header is required');
+      return;
+    }
+
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        mcpSessions.set(id, { transport, lastSeen: Date.now() });
+        console.log(`[MCP-HTTP] session=${id} opened (streamable-http)`);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) mcpSessions.delete(transport.sessionId);
+    };
+
+    const mcpServer = createMcpServer(() => keepa);
+    mcpServer.onerror = (error) => console.error('[MCP-HTTP Error]', error);
+    await mcpServer.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  // ── Legacy MCP over SSE (protocol 2024-11-05) ──
+  async function openSseSession(res: ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport('/messages', res);
+    sseSessions.set(transport.sessionId, transport);
+    res.on('close', () => sseSessions.delete(transport.sessionId));
+
+    const mcpServer = createMcpServer(() => keepa);
+    mcpServer.onerror = (error) => console.error('[MCP-HTTP Error]', error);
+    await mcpServer.connect(transport);
+    console.log(`[MCP-HTTP] session=${transport.sessionId} opened (sse)`);
+  }
+
   const server = createServer(async (req, res) => {
     // CORS preflight
     if (req.method === 'OPTIONS') {
       res.writeHead(204, {
         'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'POST, GET, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        'Access-Control-Allow-Methods': 'POST, GET, DELETE, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID',
         'Access-Control-Max-Age': '86400',
       });
       res.end();
@@ -303,6 +442,9 @@ function startHttpServer(port: number): void {
 
     // Add CORS headers to all responses
     res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+
+    const url = new URL(req.url || '/', 'http://localhost');
 
     // ── Health check ──
     if (req.method === 'GET' && (req.url === '/' || req.url === '/health')) {
@@ -312,6 +454,11 @@ function startHttpServer(port: number): void {
         version: '2.0.0',
         mode: 'http',
         tools: TOOL_DEFINITIONS.map(t => t.name),
+        mcp: {
+          streamableHttp: '/mcp',
+          sse: '/sse',
+          sessions: mcpSessions.size + sseSessions.size,
+        },
       });
       return;
     }
@@ -322,23 +469,73 @@ function startHttpServer(port: number): void {
       return;
     }
 
-    // ── Execute tool ──
-    if (req.method === 'POST' && (req.url === '/tool' || req.url === '/mcp')) {
-      // Auth check
-      if (authSecret) {
-        const authHeader = req.headers['authorization'] || '';
-        const token = authHeader.startsWith('Bearer ') ? authHeader.slice(7) : '';
-        if (token !== authSecret) {
-          sendJson(res, 401, { error: 'Unauthorized', code: 'AUTH_FAILED' });
+    // ── Prompts (same workflows the MCP transports offer) ──
+    if (req.method === 'GET' && url.pathname === '/prompts') {
+      sendJson(res, 200, { prompts: PROMPT_DEFINITIONS });
+      return;
+    }
+
+    const promptMatch = /^\/prompts\/([a-z_]+)$/.exec(url.pathname);
+    if (req.method === 'GET' && promptMatch) {
+      try {
+        // Prompt arguments come from the query string: /prompts/evaluate_asin?asin=B0...&domain=9
+        sendJson(res, 200, { prompt: promptMatch[1], ...getPrompt(promptMatch[1], Object.fromEntries(url.searchParams)) });
+      } catch (err: any) {
+        sendError(res, err, 'Prompt error');
+      }
+      return;
+    }
+
+    // ── Price chart image: /chart/{domain}/{asin}.svg or .png ──
+    const chartMatch = /^\/chart\/(\d+)\/([A-Za-z0-9]+)\.(svg|png)$/.exec(url.pathname);
+    if (req.method === 'GET' && chartMatch) {
+      if (!isAuthorized(req)) {
+        sendJson(res, 401, { error: 'Unauthorized', code: 'AUTH_FAILED' });
+        return;
+      }
+
+      try {
+        // Optional query: ?days=180&series=amazon,buyBox,salesRank&width=1200&height=500
+        const query = url.searchParams;
+        const input: Record<string, any> = {
+          asin: chartMatch[2].toUpperCase(),
+          domain: parseInt(chartMatch[1]),
+          format: chartMatch[3],
+          ...(query.has('days') && { days: Number(query.get('days')) }),
+          ...(query.has('series') && { series: query.get('series')!.split(',').map(s => s.trim()) }),
+          ...(query.has('width') && { width: Number(query.get('width')) }),
+          ...(query.has('height') && { height: Number(query.get('height')) }),
+        };
+
+        const result = await executeTool(keepa, 'keepa_price_chart', input);
+        if (!isPriceChartResult(result)) {
+          sendJson(res, 404, { error: typeof result === 'string' ? result : 'Chart not available', code: 'NOT_FOUND' });
           return;
         }
+
+        const image = Buffer.from(result.image, 'base64');
+        res.writeHead(200, {
+          'Content-Type': result.mimeType,
+          'Content-Length': image.length,
+          'Cache-Control': 'private, max-age=3600',
+        });
+        res.end(image);
+      } catch (err: any) {
+        sendError(res, err, 'Chart error');
+      }
+      return;
+    }
+
+    // ── Estimate token cost (dry run) ──
+    if (req.method === 'POST' && req.url === '/estimate') {
+      if (!isAuthorized(req)) {
+        sendJson(res, 401, { error: 'Unauthorized', code: 'AUTH_FAILED' });
+        return;
       }
 
       try {
         const body = await readBody(req);
-        const payload = JSON.parse(body);
-
-        // Accept the Edge Function contract: {tool, input, metadata}
+        const payload = parseJsonBody(body);
         const toolName = payload.tool || payload.name;
         const input = payload.input || payload.arguments || {};
 
@@ -347,29 +544,201 @@ function startHttpServer(port: number): void {
           return;
         }
 
-        const startTime = Date.now();
-        const result = await executeTool(keepaTools, toolName, input);
-        const durationMs = Date.now() - startTime;
+        // Same validation as /tool; dryRun short-circuits before any Keepa request
+        const estimate = await executeTool(keepa, toolName, { ...input, dryRun: true, outputFormat: 'json' });
+        sendJson(res, 200, { result: estimate, tool: toolName });
+      } catch (err: any) {
+        sendError(res, err, 'Estimate error');
+      }
+      return;
+    }
 
-        console.log(
-          `[MCP-HTTP] tool=${toolName} duration=${durationMs}ms size=${Buffer.byteLength(result)}b`
-        );
+    // ── Alert rules: same input as the keepa_alerts tool, JSON out by default ──
+    if (url.pathname === '/alerts' && (req.method === 'POST' || req.method === 'GET')) {
+      if (!isAuthorized(req)) {
+        sendJson(res, 401, { error: 'Unauthorized', code: 'AUTH_FAILED' });
+        return;
+      }
 
-        sendJson(res, 200, {
-          result,
-          tool: toolName,
-          duration_ms: durationMs,
+      try {
+        const input = req.method === 'POST'
+          ? parseJsonBody(await readBody(req) || '{}')
+          : { action: url.searchParams.get('action') || 'list', ...(url.searchParams.get('watchlist') && { watchlist: url.searchParams.get('watchlist') }) };
+        const result = await executeTool(keepa, 'keepa_alerts', { outputFormat: 'json', ...input });
+        // Validation problems come back as an error string from the tool
+        if (typeof result === 'string' && result.startsWith('Error')) {
+          sendJson(res, 400, { error: result, code: 'INVALID_PARAMETER' });
+          return;
+        }
+        sendJson(res, input.action === 'create' ? 201 : 200, { result });
+      } catch (err: any) {
+        sendError(res, err, 'Alerts error');
+      }
+      return;
+    }
+
+    // ── Background jobs: POST /jobs {tool, input}, GET /jobs/{id}, DELETE /jobs/{id} ──
+    const jobMatch = /^\/jobs(?:\/([0-9a-f-]+))?$/.exec(url.pathname);
+    if (jobMatch && (jobMatch[1] ? req.method === 'GET' || req.method === 'DELETE' : req.method === 'POST')) {
+      if (!isAuthorized(req)) {
+        sendJson(res, 401, { error: 'Unauthorized', code: 'AUTH_FAILED' });
+        return;
+      }
+
+      try {
+        if (req.method === 'POST') {
+          // Same contract as POST /tool
+          const payload = parseJsonBody(await readBody(req) || '{}');
+          const toolName = payload.tool || payload.name;
+          const input = payload.input || payload.arguments || {};
+          if (!toolName) {
+            sendJson(res, 400, { error: 'Missing "tool" field', code: 'MISSING_TOOL' });
+            return;
+          }
+          if (!toolRegistry.has(toolName)) {
+            sendJson(res, 400, { error: `Unknown tool: ${toolName}`, code: 'UNKNOWN_TOOL' });
+            return;
+          }
+          // Invalid input is rejected now rather than failing in the queue
+          toolRegistry.validate(toolName, input);
+
+          const job = await jobs.submit(toolName, input);
+          console.log(`[MCP-HTTP] job=${job.id} tool=${toolName} queued`);
+          sendJson(res, 202, { job }, { Location: `/jobs/${job.id}` });
+          return;
+        }
+
+        const job = await jobs.get(jobMatch[1]);
+        if (!job) {
+          sendJson(res, 404, { error: `Job not found: ${jobMatch[1]}`, code: 'NOT_FOUND' });
+          return;
+        }
+        if (req.method === 'GET') {
+          sendJson(res, 200, { job });
+          return;
+        }
+        if (isJobFinished(job)) {
+          sendJson(res, 409, { error: `Job already ${job.status}`, code: 'JOB_FINISHED', job });
+          return;
+        }
+        sendJson(res, 200, { job: await jobs.cancel(job.id) });
+      } catch (err: any) {
+        sendError(res, err, 'Job error');
+      }
+      return;
+    }
+
+    // ── Bulk lookup: CSV upload in, CSV/XLSX file out ──
+    if (req.method === 'POST' && url.pathname === '/bulk') {
+      if (!isAuthorized(req)) {
+        sendJson(res, 401, { error: 'Unauthorized', code: 'AUTH_FAILED' });
+        return;
+      }
+
+      try {
+        // Raw CSV body with the options in the query (?domain=3&column=EAN&columns=asin,buyBoxPrice&format=xlsx),
+        // or a JSON body with the keepa_bulk_lookup input
+        const body = await readBody(req);
+        const query = url.searchParams;
+        const input: Record<string, any> = (req.headers['content-type'] || '').includes('application/json')
+          ? parseJsonBody(body || '{}')
+          : {
+              csv: body,
+              ...(query.has('domain') && { domain: Number(query.get('domain')) }),
+              ...(query.has('column') && { column: query.get('column') }),
+              ...(query.has('columns') && { columns: query.get('columns')!.split(',').map(s => s.trim()) }),
+              ...(query.has('format') && { format: query.get('format') }),
+            };
+
+        const startTime = Date.now();
+        const result = await executeTool(keepa, 'keepa_bulk_lookup', { ...input, dryRun: false });
+        if (!isBulkLookupResult(result)) {
+          sendJson(res, 500, { error: typeof result === 'string' ? result : 'Bulk lookup failed', code: 'TOOL_ERROR' });
+          return;
+        }
+        console.log(`[MCP-HTTP] bulk requested=${result.requested} found=${result.found} duration=${Date.now() - startTime}ms`);
+
+        const file = Buffer.from(result.file, 'base64');
+        res.writeHead(200, {
+          'Content-Type': result.format === 'csv' ? 'text/csv; charset=utf-8' : result.mimeType,
+          'Content-Length': file.length,
+          'Content-Disposition': `attachment; filename="${result.filename}"`,
+          'X-Keepa-Requested': String(result.requested),
+          'X-Keepa-Found': String(result.found),
+          'X-Keepa-Not-Found': String(result.notFound.length),
+          'X-Keepa-Invalid': String(result.invalid.length),
         });
+        res.end(file);
       } catch (err: any) {
-        const message = err instanceof Error ? err.message : String(err);
-        console.error(`[MCP-HTTP] Error: ${message}`);
-        sendJson(res, 500, { error: message, code: 'TOOL_ERROR' });
+        sendError(res, err, 'Bulk error');
       }
       return;
     }
 
-    // ── 404 ──
-    sendJson(res, 404, { error: 'Not found. Use POST /tool or GET /health' });
+    // ── MCP endpoints (Streamable HTTP, legacy SSE) and the custom /tool contract ──
+    const isMcpRoute = url.pathname === '/mcp' && ['GET', 'POST', 'DELETE'].includes(req.method || '');
+    const isSseRoute = (req.method === 'GET' && url.pathname === '/sse') || (req.method === 'POST' && url.pathname === '/messages');
+    const isToolRoute = req.method === 'POST' && req.url === '/tool';
+    if (!isMcpRoute && !isSseRoute && !isToolRoute) {
+      sendJson(res, 404, { error: 'Not found. Use POST /tool, POST /estimate, POST /jobs, GET|DELETE /jobs/{id}, POST /bulk, GET|POST /alerts, GET /chart/{domain}/{asin}.svg, /mcp (MCP Streamable HTTP), GET /sse or GET /health' });
+      return;
+    }
+
+    if (!isAuthorized(req)) {
+      sendJson(res, 401, { error: 'Unauthorized', code: 'AUTH_FAILED' });
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/sse') {
+      try {
+        await openSseSession(res);
+      } catch (err: any) {
+        sendError(res, err, 'SSE error');
+      }
+      return;
+    }
+
+    let payload: any;
+    if (req.method === 'POST') {
+      try {
+        payload = JSON.parse(await readBody(req));
+      } catch (err: any) {
+        sendJson(res, 400, { error: 'Invalid JSON body', code: 'INVALID_JSON' });
+        return;
+      }
+    }
+
+    try {
+      if (url.pathname === '/messages') {
+        const transport = sseSessions.get(url.searchParams.get('sessionId') || '');
+        if (!transport) {
+          sendJsonRpcError(res, 404, 'Session not found');
+          return;
+        }
+        await transport.handlePostMessage(req, res, payload);
+        return;
+      }
+
+      // POST /mcp keeps accepting the custom {tool, input} payload it used to alias
+      if (req.method === 'POST' && url.pathname === '/mcp' && !isJsonRpcPayload(payload)) {
+        await handleToolCall(res, payload);
+        return;
+      }
+
+      if (url.pathname === '/mcp') {
+        await handleMcpRequest(req, res, payload);
+        return;
+      }
+
+      await handleToolCall(res, payload);
+    } catch (err: any) {
+      if (res.headersSent) {
+        console.error(`[MCP-HTTP] MCP error: ${err instanceof Error ? err.message : String(err)}`);
+        res.end();
+        return;
+      }
+      sendError(res, err, 'MCP error');
+    }
   });
 
   server.listen(port, '0.0.0.0', () => {
@@ -377,10 +746,20 @@ function startHttpServer(port: number): void {
     console.log(`[MCP-HTTP] Endpoints:`);
     console.log(`  GET  /health  — Health check`);
     console.log(`  GET  /tools   — List available tools`);
+    console.log(`  GET  /prompts — List prompts (GET /prompts/{name}?args to expand one)`);
     console.log(`  POST /tool    — Execute a tool {tool, input, metadata}`);
-    console.log(`  POST /mcp     — Alias for /tool (backward compat)`);
+    console.log(`  POST /estimate — Estimate token cost of a tool call {tool, input}`);
+    console.log(`  POST /jobs    — Queue a tool call {tool, input}; GET /jobs/{id} for status, progress and result, DELETE /jobs/{id} cancels`);
+    console.log(`  POST /bulk    — Bulk lookup: CSV body in (?domain=&column=&columns=&format=csv|xlsx), file out`);
+    console.log(`  POST /alerts  — Manage alert rules and webhooks (keepa_alerts input; GET lists the rules)`);
+    console.log(`  GET  /chart/{domain}/{asin}.svg|.png — Price history chart (?days=&series=&width=&height=)`);
+    console.log(`  *    /mcp     — MCP Streamable HTTP (POST {tool, input} still works as an alias for /tool)`);
+    console.log(`  GET  /sse     — Legacy MCP SSE stream (messages via POST /messages?sessionId=)`);
     console.log(`[MCP-HTTP] Auth: ${authSecret ? 'ENABLED (MCP_AUTH_SECRET set)' : 'DISABLED (no MCP_AUTH_SECRET)'}`);
     console.log(`[MCP-HTTP] Tools available: ${TOOL_DEFINITIONS.length}`);
+    console.log(`[MCP-HTTP] Alert webhooks: ${process.env.KEEPA_WEBHOOK_SECRET ? 'signed (KEEPA_WEBHOOK_SECRET set)' : 'DISABLED (set KEEPA_WEBHOOK_SECRET to create rules)'}`);
+    console.log(`[MCP-HTTP] Jobs: ${jobs.store.name} store, ${process.env.KEEPA_JOB_CONCURRENCY || DEFAULT_JOB_CONCURRENCY} workers`);
+    console.log(`[MCP-HTTP] Watchlists: ${keepa.watchlists.store.name} store, scheduler ${watchlistScheduler ? 'ENABLED' : 'DISABLED (KEEPA_WATCHLIST_SCHEDULER=true to enable)'}`);
   });
 }
 
@@ -390,42 +769,19 @@ function startHttpServer(port: number): void {
 
 class KeepaStdioServer {
   private server: Server;
-  private keepaClient?: KeepaClient;
-  private keepaTools?: KeepaTools;
+  private keepa?: KeepaInstance;
 
   constructor() {
-    this.server = new Server(
-      { name: 'keepa-mcp-server', version: '2.0.0' },
-      { capabilities: { tools: {} } },
-    );
-    this.setupToolHandlers();
+    // Keepa is initialized on first use so the server starts even before KEEPA_API_KEY is checked
+    this.server = createMcpServer(() => this.ensureInitialized());
     this.setupErrorHandling();
   }
 
-  private ensureInitialized(): void {
-    if (!this.keepaClient || !this.keepaTools) {
-      const { client, tools } = initKeepa();
-      this.keepaClient = client;
-      this.keepaTools = tools;
+  private ensureInitialized(): KeepaInstance {
+    if (!this.keepa) {
+      this.keepa = initKeepa();
     }
-  }
-
-  private setupToolHandlers(): void {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      return { tools: TOOL_DEFINITIONS };
-    });
-
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-      try {
-        this.ensureInitialized();
-        const result = await executeTool(this.keepaTools!, name, args || {});
-        return { content: [{ type: 'text', text: result }] };
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        return { content: [{ type: 'text', text: `Error: ${errorMessage}` }], isError: true };
-      }
-    });
+    return this.keepa;
   }
 
   private setupErrorHandling(): void {
@@ -0,0 +1,295 @@
+import { randomUUID } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import { basename, dirname, extname, join } from 'node:path';
+import { JsonFileWriter, readJsonFile } from './json-file.js';
+import { ToolProgress } from './registry.js';
+import { Job, JobStatus, JobStore, StructuredToolResult } from './types.js';
+
+// ─── Jobs ───────────────────────────────────────────────────────────────
+// Tool calls that outlive an HTTP request: POST /jobs queues the call and
+// answers with an ID, a small pool of in-process workers runs the queue
+// through the same tool registry (and so the same Keepa client and token
+// bucket) as POST /tool. Job state is saved on every status change and a
+// result once, when its job succeeds, so both survive a restart; jobs still
+// queued then are run again, and the ones that were running fail instead of
+// spending their tokens twice.
+
+export const DEFAULT_JOBS_FILE = 'keepa-jobs.json';
+export const DEFAULT_JOB_CONCURRENCY = 2;
+export const DEFAULT_JOB_RETENTION_MS = 7 * 24 * 3600000;
+export const DEFAULT_MAX_FINISHED_JOBS = 1000;
+
+const FINAL_STATUSES: JobStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+export function isJobFinished(job: Job): boolean {
+  return FINAL_STATUSES.includes(job.status);
+}
+
+// ─── Stores ─────────────────────────────────────────────────────────────
+
+export class MemoryJobStore implements JobStore {
+  readonly name: string = 'memory';
+  protected jobs = new Map<string, Job>();
+
+  async list(): Promise<Job[]> {
+    return Array.from(this.jobs.values()).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async get(id: string): Promise<Job | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async save(job: Job): Promise<void> {
+    this.jobs.set(job.id, job);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.jobs.delete(id);
+  }
+}
+
+/**
+ * Job state in one JSON file, each result in its own file next to it (`keepa-jobs-results/<id>.json`).
+ * Status changes only rewrite the small job list; a result is written once, when its job succeeds.
+ * list() leaves results out, get() reads them back.
+ */
+export class JsonJobStore extends MemoryJobStore {
+  readonly name = 'json';
+  private loaded?: Promise<void>;
+  private writer: JsonFileWriter;
+  private resultsDir: string;
+
+  constructor(private file: string) {
+    super();
+    this.writer = new JsonFileWriter(file);
+    this.resultsDir = join(dirname(file), `${basename(file, extname(file))}-results`);
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = readJsonFile<{ jobs: Job[] }>(this.file).then(data => {
+        data?.jobs.forEach(job => this.jobs.set(job.id, job));
+      });
+    }
+    return this.loaded;
+  }
+
+  private persist(): Promise<void> {
+    return this.writer.write({ jobs: Array.from(this.jobs.values()) });
+  }
+
+  private resultFile(id: string): string {
+    return join(this.resultsDir, `${id}.json`);
+  }
+
+  async list(): Promise<Job[]> {
+    await this.load();
+    return super.list();
+  }
+
+  async get(id: string): Promise<Job | undefined> {
+    await this.load();
+    const job = await super.get(id);
+    if (job?.status !== 'succeeded') return job;
+    const result = await readJsonFile<Job['result']>(this.resultFile(id));
+    return { ...job, result: result ?? null };
+  }
+
+  async save(job: Job): Promise<void> {
+    await this.load();
+    if (job.result !== null) {
+      await fs.mkdir(this.resultsDir, { recursive: true });
+      await new JsonFileWriter(this.resultFile(job.id)).write(job.result);
+    }
+    await super.save({ ...job, result: null });
+    await this.persist();
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.load();
+    await super.delete(id);
+    await this.persist();
+    await fs.rm(this.resultFile(id), { force: true });
+  }
+}
+
+// ─── Service ────────────────────────────────────────────────────────────
+
+/**
+ * Runs the job's tool call. The signal aborts when the job is cancelled, which fails the Keepa
+ * requests the call hasn't sent yet; progress updates throw from then on too.
+ */
+export type JobRunner = (
+  job: Job,
+  progress: (update: ToolProgress) => void,
+  signal: AbortSignal,
+) => Promise<string | StructuredToolResult>;
+
+export interface JobServiceOptions {
+  /** Jobs running at the same time (default 2) */
+  concurrency?: number;
+  /** How long finished jobs and their results are kept (default 7 days) */
+  retentionMs?: number;
+  /** Finished jobs kept at most, oldest dropped first (default 1000) */
+  maxFinishedJobs?: number;
+  /** Error code and message stored on failed jobs (default: TOOL_ERROR and the error message) */
+  describeError?: (error: unknown) => { code: string; message: string };
+}
+
+export class JobCancelledError extends Error {
+  constructor(id: string) {
+    super(`Job ${id} was cancelled`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+interface RunningJob {
+  /** null until the job is read back from the store */
+  job: Job | null;
+  done: Promise<void>;
+  controller: AbortController;
+}
+
+export class JobService {
+  private queue: string[] = [];
+  /** Running jobs, by id */
+  private running = new Map<string, RunningJob>();
+  private started?: Promise<void>;
+
+  constructor(readonly store: JobStore, private runner: JobRunner, private options: JobServiceOptions = {}) {}
+
+  /** Picks up the stored jobs once: queued ones run again, interrupted ones fail. */
+  start(): Promise<void> {
+    if (!this.started) {
+      this.started = this.recover();
+    }
+    return this.started;
+  }
+
+  private async recover(): Promise<void> {
+    const jobs = await this.store.list();
+    for (const job of jobs.reverse()) {
+      if (job.status === 'queued') {
+        this.queue.push(job.id);
+      } else if (job.status === 'running') {
+        await this.store.save({
+          ...job,
+          status: 'failed',
+          finishedAt: new Date().toISOString(),
+          error: { code: 'INTERRUPTED', message: 'The server restarted while the job was running; submit it again' },
+        });
+      }
+    }
+    this.pump();
+  }
+
+  async submit(tool: string, input: Record<string, any>): Promise<Job> {
+    await this.start();
+    await this.prune();
+    const job: Job = {
+      id: randomUUID(),
+      tool,
+      input,
+      status: 'queued',
+      createdAt: new Date().toISOString(),
+      startedAt: null,
+      finishedAt: null,
+      progress: null,
+      result: null,
+      error: null,
+    };
+    await this.store.save(job);
+    this.queue.push(job.id);
+    this.pump();
+    return job;
+  }
+
+  async get(id: string): Promise<Job | undefined> {
+    await this.start();
+    return this.running.get(id)?.job ?? this.store.get(id);
+  }
+
+  /**
+   * Cancels a queued or running job. A running tool call can't be interrupted halfway through a Keepa request:
+   * its next request fails, or it runs to the end and its result is dropped.
+   */
+  async cancel(id: string): Promise<Job | undefined> {
+    // Abort before reading the job: a worker may be reading it from the store right now,
+    // and must not start it (and later save it as failed) over the cancellation
+    this.running.get(id)?.controller.abort(new JobCancelledError(id));
+    const job = await this.get(id);
+    if (!job || isJobFinished(job)) return job;
+
+    this.queue = this.queue.filter(queued => queued !== id);
+    job.status = 'cancelled';
+    job.finishedAt = new Date().toISOString();
+    await this.store.save(job);
+    // Again for a job a worker picked up from the queue meanwhile
+    this.running.get(id)?.controller.abort(new JobCancelledError(id));
+    return job;
+  }
+
+  /** Resolves once no job is running or queued (used by tests and shutdown). */
+  async drain(): Promise<void> {
+    await this.start();
+    while (this.running.size > 0) {
+      await Promise.all(Array.from(this.running.values(), run => run.done));
+    }
+  }
+
+  private pump(): void {
+    const concurrency = this.options.concurrency ?? DEFAULT_JOB_CONCURRENCY;
+    while (this.running.size < concurrency && this.queue.length > 0) {
+      const id = this.queue.shift()!;
+      const run: RunningJob = { job: null, done: Promise.resolve(), controller: new AbortController() };
+      this.running.set(id, run);
+      run.done = this.run(id, run)
+        .catch(error => console.error(`[Jobs] Job ${id} could not run: ${error instanceof Error ? error.message : String(error)}`))
+        .finally(() => {
+          this.running.delete(id);
+          this.pump();
+        });
+    }
+  }
+
+  private async run(id: string, run: RunningJob): Promise<void> {
+    const stored = await this.store.get(id);
+    // Aborted: cancel() saves the job, possibly from a copy it read before this one
+    const cancelled = () => run.controller.signal.aborted || run.job?.status === 'cancelled';
+    if (!stored || stored.status !== 'queued' || cancelled()) return;
+
+    const job: Job = { ...stored, status: 'running', startedAt: new Date().toISOString() };
+    run.job = job;
+    await this.store.save(job);
+
+    try {
+      const result = await this.runner(job, update => {
+        if (cancelled()) throw new JobCancelledError(job.id);
+        job.progress = { progress: update.progress, total: update.total ?? null, message: update.message ?? null };
+      }, run.controller.signal);
+      if (cancelled()) return;
+      job.status = 'succeeded';
+      job.result = result;
+    } catch (error) {
+      if (cancelled()) return;
+      job.status = 'failed';
+      job.error = this.options.describeError?.(error)
+        ?? { code: 'TOOL_ERROR', message: error instanceof Error ? error.message : String(error) };
+      console.error(`[Jobs] Job ${job.id} (${job.tool}) failed: ${job.error.message}`);
+    }
+    job.finishedAt = new Date().toISOString();
+    await this.store.save(job);
+  }
+
+  /** Drops finished jobs past the retention time, and the oldest beyond the cap. */
+  private async prune(now = Date.now()): Promise<void> {
+    const retentionMs = this.options.retentionMs ?? DEFAULT_JOB_RETENTION_MS;
+    const maxFinished = this.options.maxFinishedJobs ?? DEFAULT_MAX_FINISHED_JOBS;
+    const finished = (await this.store.list()).filter(isJobFinished);
+    for (const [index, job] of finished.entries()) {
+      if (index >= maxFinished || now - Date.parse(job.finishedAt ?? job.createdAt) > retentionMs) {
+        await this.store.delete(job.id);
+      }
+    }
+  }
+}
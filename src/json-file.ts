@@ -0,0 +1,34 @@
+import { promises as fs } from 'node:fs';
+
+// ─── JSON files ─────────────────────────────────────────────────────────
+// Small local stores (watchlists, alert rules) keep their state in memory and
+// rewrite one JSON document after every change.
+
+/** Parsed file contents, or undefined when the file does not exist yet */
+export async function readJsonFile<T>(file: string): Promise<T | undefined> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(file, 'utf8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return undefined;
+    throw error;
+  }
+  return JSON.parse(raw) as T;
+}
+
+/** Writes are chained and go through a temporary file, so a crash never leaves half a file. */
+export class JsonFileWriter {
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private file: string) {}
+
+  write(data: unknown): Promise<void> {
+    const json = JSON.stringify(data);
+    this.writing = this.writing.catch(() => undefined).then(async () => {
+      const tmp = `${this.file}.tmp`;
+      await fs.writeFile(tmp, json);
+      await fs.rename(tmp, this.file);
+    });
+    return this.writing;
+  }
+}
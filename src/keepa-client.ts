@@ -1,33 +1,64 @@
-import axios, { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import axios, { AxiosInstance } from 'axios';
 import {
   KeepaConfig,
   KeepaProduct,
   KeepaDeal,
+  KeepaLightningDeal,
   KeepaSeller,
   KeepaBestSeller,
   KeepaApiResponse,
   KeepaQueryResponse,
   ProductQueryParams,
   DealQueryParams,
+  LightningDealQueryParams,
   SellerQueryParams,
+  TopSellerQueryParams,
   BestSellerQueryParams,
+  CategoryQueryParams,
+  CategorySearchParams,
+  ProductSearchParams,
+  TrackingCreation,
+  KeepaTracking,
+  KeepaNotification,
+  NotificationQueryParams,
+  KeepaCategoryNode,
   KeepaError,
+  RateLimitedError,
+  TokenExhaustedError,
+  InvalidParameterError,
+  NetworkError,
+  RetryPolicy,
   KeepaDomain,
-  VERIFIED_AMAZON_CATEGORIES,
-  getCategoryName
+  CacheStats,
+  SchedulerStatus
 } from './types.js';
+import {
+  ResponseCache,
+  createResponseCache,
+  normalizeProductOptions,
+  productOptionsCover,
+  sellerOptionsCover
+} from './cache.js';
+import { TokenBucketScheduler } from './scheduler.js';
+import { estimateRequestCost } from './token-cost.js';
+import { DEFAULT_RETRY_POLICY, withRetry } from './retry.js';
+import { estimateSales, SalesEstimator } from './sales-estimator.js';
 
 export class KeepaClient {
   private client: AxiosInstance;
   private apiKey: string;
   private baseUrl: string;
-  private rateLimitDelay: number;
-  private lastRequestTime: number = 0;
+  private cache: ResponseCache;
+  private scheduler: TokenBucketScheduler;
+  private retryPolicy: RetryPolicy;
 
   constructor(config: KeepaConfig) {
     this.apiKey = config.apiKey;
     this.baseUrl = config.baseUrl || 'https://api.keepa.com';
-    this.rateLimitDelay = config.rateLimitDelay || 1000;
+    this.cache = createResponseCache(config.cache);
+    // Pacing follows the token balance Keepa reports; rateLimitDelay is only an optional minimum gap
+    this.scheduler = new TokenBucketScheduler(config.rateLimitDelay || 0);
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...config.retry };
 
     this.client = axios.create({
       baseURL: this.baseUrl,
@@ -38,98 +69,150 @@ export class KeepaClient {
       },
     });
 
-    this.client.interceptors.request.use(this.requestInterceptor.bind(this));
     this.client.interceptors.response.use(
       this.responseInterceptor.bind(this),
       this.errorInterceptor.bind(this)
     );
   }
 
-  private async requestInterceptor(config: InternalAxiosRequestConfig): Promise<InternalAxiosRequestConfig> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    
-    if (timeSinceLastRequest < this.rateLimitDelay) {
-      await new Promise(resolve => 
-        setTimeout(resolve, this.rateLimitDelay - timeSinceLastRequest)
-      );
-    }
-    
-    this.lastRequestTime = Date.now();
-    return config;
-  }
-
   private responseInterceptor(response: any): any {
+    this.scheduler.update(response.data || {});
     return response;
   }
 
   private errorInterceptor(error: any): Promise<never> {
-    if (error.response?.data) {
-      const { statusCode, error: errorMessage, tokensLeft } = error.response.data;
-      
-      // Enhanced token exhaustion detection
-      if (tokensLeft !== undefined && tokensLeft <= 0) {
-        throw new KeepaError(
-          `⚠️ KEEPA TOKEN EXHAUSTION: You have ${tokensLeft} tokens remaining. ` +
+    if (error.response) {
+      const data = error.response.data || {};
+      this.scheduler.update(data);
+
+      const { error: errorMessage, tokensLeft, refillIn } = data;
+      const statusCode: number = data.statusCode ?? error.response.status;
+      const message = typeof errorMessage === 'string' ? errorMessage : 
+                     typeof errorMessage === 'object' ? JSON.stringify(errorMessage) :
+                     'API request failed';
+
+      // 429: not enough tokens right now, retried once Keepa has refilled
+      if (statusCode === 429) {
+        throw new RateLimitedError(
+          `Keepa rate limit: ${tokensLeft ?? 0} tokens left` +
+          (refillIn !== undefined ? `, refill in ${Math.ceil(refillIn / 1000)}s` : ''),
+          statusCode,
+          tokensLeft,
+          refillIn
+        );
+      }
+
+      // Enhanced token exhaustion detection (402 = no active plan)
+      if (statusCode === 402 || (tokensLeft !== undefined && tokensLeft <= 0)) {
+        throw new TokenExhaustedError(
+          `⚠️ KEEPA TOKEN EXHAUSTION: You have ${tokensLeft ?? 0} tokens remaining. ` +
           `Please wait for tokens to refresh or upgrade your Keepa plan. ` +
           `Check your token status at https://keepa.com/#!api`,
           statusCode,
-          tokensLeft
+          tokensLeft,
+          refillIn
         );
       }
-      
-      // Low token warning  
-      if (tokensLeft !== undefined && tokensLeft < 5) {
-        // console.warn(`🟡 LOW TOKENS WARNING: Only ${tokensLeft} tokens remaining. Consider upgrading your Keepa plan.`);
+
+      if (statusCode === 400) {
+        throw new InvalidParameterError(message, statusCode, tokensLeft);
+      }
+      if (statusCode >= 500) {
+        throw new NetworkError(`Keepa server error (${statusCode}): ${message}`, statusCode);
       }
-      
-      const message = typeof errorMessage === 'string' ? errorMessage : 
-                     typeof errorMessage === 'object' ? JSON.stringify(errorMessage) :
-                     'API request failed';
       throw new KeepaError(
         message,
         statusCode,
         tokensLeft
       );
     }
+
+    // No response at all: timeout, connection reset, DNS failure
     const message = typeof error === 'string' ? error :
                     error.message ? error.message :
                     typeof error === 'object' ? JSON.stringify(error) :
                     'Network error';
-    throw new KeepaError(message);
+    throw new NetworkError(message, undefined, error.code);
   }
 
   private async makeRequest<T>(
     endpoint: string,
-    params: Record<string, any> = {}
+    params: Record<string, any> = {},
+    body?: unknown,
+    retry = body === undefined
   ): Promise<KeepaApiResponse<T>> {
-    const response = await this.client.get(endpoint, {
+    // Every attempt goes back through the shared queue (priority comes from runWithPriority),
+    // so a retried 429 also waits for the refill the scheduler learned from the error
+    const cost = estimateRequestCost(endpoint, params);
+    const config = {
       params: {
         key: this.apiKey,
         ...params,
       },
-    });
+    };
+    // Only write requests (adding trackings) carry a JSON body. They are sent once: a timeout
+    // doesn't tell whether Keepa applied the write, so only GETs are retried, unless the caller
+    // says the GET has side effects too
+    const send = () => this.scheduler.run(cost, () => body === undefined
+      ? this.client.get(endpoint, config)
+      : this.client.post(endpoint, body, config));
+    const response = retry ? await withRetry(send, this.retryPolicy) : await send();
 
     return response.data;
   }
 
   async getProduct(params: ProductQueryParams): Promise<KeepaProduct[]> {
     if (!params.asin && !params.asins && !params.code) {
-      throw new KeepaError('Either asin, asins, or code parameter is required');
+      throw new InvalidParameterError('Either asin, asins, or code parameter is required');
     }
 
     const queryParams: Record<string, any> = { ...params };
-    
-    if (params.asins) {
-      queryParams.asin = params.asins.join(',');
-      delete queryParams.asins;
-    }
 
     // Enable statistics by default for sales velocity and inventory analytics
     if (queryParams.stats === undefined) {
       queryParams.stats = 1; // Free analytics: sales velocity, buy box, inventory data
     }
 
+    // Code lookups and explicit date ranges can't be served per ASIN from the cache
+    const asins = (params.asins ?? params.asin?.split(',') ?? []).map(asin => asin.trim().toUpperCase());
+    if (params.code || params.startdate !== undefined || params.enddate !== undefined || asins.length === 0) {
+      return this.fetchProducts(queryParams);
+    }
+
+    const domain = params.domain ?? KeepaDomain.US;
+    const options = normalizeProductOptions(queryParams);
+    // Keepa's `update` (hours) asks for data no older than that; 0 forces a live refresh
+    const maxAgeMs = params.update !== undefined && params.update >= 0 ? params.update * 3600000 : undefined;
+
+    const products = new Map<string, KeepaProduct>();
+    const missing: string[] = [];
+    for (const asin of asins) {
+      const cached = await this.cache.get<KeepaProduct>('product', `${domain}:${asin}`, options, productOptionsCover, maxAgeMs);
+      if (cached) {
+        products.set(asin, cached);
+      } else {
+        missing.push(asin);
+      }
+    }
+
+    if (missing.length > 0) {
+      delete queryParams.asins;
+      const fetched = await this.fetchProducts({ ...queryParams, asin: missing.join(',') });
+      for (const product of fetched) {
+        products.set(product.asin, product);
+        await this.cache.set('product', `${domain}:${product.asin}`, product, options);
+      }
+    }
+
+    return asins.filter(asin => products.has(asin)).map(asin => products.get(asin)!);
+  }
+
+  private async fetchProducts(queryParams: Record<string, any>): Promise<KeepaProduct[]> {
+    if (queryParams.asins) {
+      queryParams.asin = queryParams.asins.join(',');
+      delete queryParams.asins;
+    }
+
     const response = await this.makeRequest<{ products: KeepaProduct[] }>('/product', queryParams);
     return (response as any).products || [];
   }
@@ -163,6 +246,46 @@ export class KeepaClient {
     return results;
   }
 
+  /** Products for EAN/UPC/ISBN-13 codes, 100 per request; a code can match several ASINs or none. */
+  async getProductsByCode(codes: string[], domain: KeepaDomain = KeepaDomain.US, options: Partial<ProductQueryParams> = {}): Promise<KeepaProduct[]> {
+    const batchSize = 100;
+    const results: KeepaProduct[] = [];
+
+    for (let i = 0; i < codes.length; i += batchSize) {
+      const products = await this.getProduct({
+        code: codes.slice(i, i + batchSize).join(','),
+        domain,
+        stats: 1,
+        ...options
+      });
+      results.push(...products);
+    }
+
+    return results;
+  }
+
+  async keywordSearch(params: ProductSearchParams): Promise<KeepaProduct[]> {
+    const page = params.page ?? 0;
+    if (page < 0 || page > 9) {
+      throw new InvalidParameterError(`Keyword search page must be between 0 and 9: ${page}`);
+    }
+
+    const queryParams: Record<string, any> = {
+      domain: params.domain,
+      type: 'product',
+      term: params.term,
+      page,
+      // CRITICAL: Keepa booleans must be 0/1; the csv history would only bloat the response
+      history: 0,
+    };
+    if (params.stats) {
+      queryParams.stats = 90;
+    }
+
+    const response = await this.makeRequest<{ products: KeepaProduct[] }>('/search', queryParams);
+    return (response as any).products || [];
+  }
+
   async getDeals(params: DealQueryParams): Promise<KeepaDeal[]> {
     const response = await this.makeRequest<{ deals: KeepaDeal[] }>('/deal', params);
     return (response as any).deals || [];
@@ -283,7 +406,7 @@ export class KeepaClient {
   }
 
   // Helper methods for deal analysis
-  private extractDiscountPercent(deltaPercent: any): number {
+  extractDiscountPercent(deltaPercent: any): number {
     if (!deltaPercent) return 0;
     if (typeof deltaPercent === 'number') return Math.abs(deltaPercent);
     if (Array.isArray(deltaPercent) && deltaPercent.length > 0) {
@@ -296,7 +419,7 @@ export class KeepaClient {
     return 0;
   }
 
-  private extractPriceChange(delta: any): number {
+  extractPriceChange(delta: any): number {
     if (!delta) return 0;
     if (typeof delta === 'number') return Math.abs(delta);
     if (Array.isArray(delta) && delta.length > 0) {
@@ -335,31 +458,71 @@ export class KeepaClient {
     return 'LOW';
   }
 
- async getSeller(params: SellerQueryParams): Promise<KeepaSeller[]> {
-    const queryParams: Record<string, any> = {
-      seller: params.seller,
-      domain: params.domain || 9,
-    };
-
-    // CRITICAL: Keepa booleans must be 0/1, not true/false
-    if (params.storefront) {
-      queryParams.storefront = 1;
+  async getSeller(params: SellerQueryParams): Promise<KeepaSeller[]> {
+    const domain = params.domain || 9;
+    const sellerIds = (params.seller || '').split(',').map(id => id.trim()).filter(Boolean);
+    const options = { storefront: Boolean(params.storefront) };
+    const maxAgeMs = params.update !== undefined && params.update >= 0 ? params.update * 3600000 : undefined;
+
+    const sellers = new Map<string, KeepaSeller>();
+    const missing: string[] = [];
+    for (const sellerId of sellerIds) {
+      const cached = await this.cache.get<KeepaSeller>('seller', `${domain}:${sellerId}`, options, sellerOptionsCover, maxAgeMs);
+      if (cached) {
+        sellers.set(sellerId, cached);
+      } else {
+        missing.push(sellerId);
+      }
     }
-    if (params.update !== undefined) {
-      queryParams.update = params.update;
+
+    if (missing.length > 0 || sellerIds.length === 0) {
+      const queryParams: Record<string, any> = {
+        seller: missing.length > 0 ? missing.join(',') : params.seller,
+        domain,
+      };
+
+      // CRITICAL: Keepa booleans must be 0/1, not true/false
+      if (params.storefront) {
+        queryParams.storefront = 1;
+      }
+      if (params.update !== undefined) {
+        queryParams.update = params.update;
+      }
+
+      const response = await this.makeRequest<any>('/seller', queryParams);
+
+      // CRITICAL FIX: Response.sellers is a MAP { sellerId: sellerObject }, NOT an array
+      // Old code treated it as array which always returned empty
+      const sellersMap = (response as any).sellers;
+      if (sellersMap && typeof sellersMap === 'object') {
+        for (const [sellerId, seller] of Object.entries(sellersMap) as [string, KeepaSeller][]) {
+          sellers.set(sellerId, seller);
+          await this.cache.set('seller', `${domain}:${sellerId}`, seller, options);
+        }
+      }
     }
 
-    const response = await this.makeRequest<any>('/seller', queryParams);
+    if (sellerIds.length === 0) {
+      return Array.from(sellers.values());
+    }
+    // Keep the requested order; anything Keepa didn't return is simply absent
+    return sellerIds.filter(id => sellers.has(id)).map(id => sellers.get(id)!);
+  }
 
-    // CRITICAL FIX: Response.sellers is a MAP { sellerId: sellerObject }, NOT an array
-    // Old code treated it as array which always returned empty
-    const sellersMap = (response as any).sellers;
-    if (!sellersMap || typeof sellersMap !== 'object') {
-      return [];
+  /** Seller IDs of a marketplace ranked by rating count over the last 30 days, best first */
+  async getTopSellers(params: TopSellerQueryParams): Promise<string[]> {
+    const cacheKey = `${params.domain}`;
+    const cached = await this.cache.get<string[]>('topseller', cacheKey);
+    if (cached) {
+      return cached;
     }
 
-    // Convert map to array of seller objects
-    return Object.values(sellersMap) as KeepaSeller[];
+    const response = await this.makeRequest<any>('/topseller', { domain: params.domain });
+    const sellerIds: string[] = (response as any).sellerIdList || [];
+    if (sellerIds.length > 0) {
+      await this.cache.set('topseller', cacheKey, sellerIds);
+    }
+    return sellerIds;
   }
 
   // NEW: Category Analysis for Market Intelligence
@@ -645,9 +808,161 @@ export class KeepaClient {
     return recommendations;
   }
 
+  async getLightningDeals(params: LightningDealQueryParams): Promise<KeepaLightningDeal[]> {
+    const cacheKey = `${params.domain}:${params.asin ? params.asin.trim().toUpperCase() : 'all'}`;
+    const cached = await this.cache.get<KeepaLightningDeal[]>('lightningdeal', cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const queryParams: Record<string, any> = { domain: params.domain };
+    if (params.asin) {
+      queryParams.asin = params.asin.trim().toUpperCase();
+    }
+
+    const response = await this.makeRequest<any>('/lightningdeal', queryParams);
+    const deals: KeepaLightningDeal[] = (response as any).lightningDeals || [];
+    if (deals.length > 0) {
+      await this.cache.set('lightningdeal', cacheKey, deals);
+    }
+    return deals;
+  }
+
   async getBestSellers(params: BestSellerQueryParams): Promise<KeepaBestSeller[]> {
+    const cacheKey = `${params.domain}:${params.category}:${params.page ?? 0}`;
+    const cached = await this.cache.get<KeepaBestSeller[]>('bestsellers', cacheKey);
+    if (cached) {
+      return cached;
+    }
+
     const response = await this.makeRequest<{ bestSellersList: KeepaBestSeller[] }>('/bestsellers', params);
-    return (response as any).bestSellersList || [];
+    const list = (response as any).bestSellersList || [];
+    if (list.length > 0) {
+      await this.cache.set('bestsellers', cacheKey, list);
+    }
+    return list;
+  }
+
+  async getCategory(params: CategoryQueryParams): Promise<KeepaCategoryNode[]> {
+    const categoryIds = Array.isArray(params.category) ? params.category : [params.category];
+    const parents = params.parents ? 1 : 0;
+
+    // Each category is cached together with the ancestors Keepa returned for it
+    const nodes = new Map<number, KeepaCategoryNode>();
+    const missing: number[] = [];
+    for (const catId of categoryIds) {
+      const cached = await this.cache.get<KeepaCategoryNode[]>('category', `${params.domain}:${catId}:${parents}`);
+      if (cached) {
+        cached.forEach(node => nodes.set(node.catId, node));
+      } else {
+        missing.push(catId);
+      }
+    }
+
+    // Keepa accepts up to 10 category IDs per request
+    for (let i = 0; i < missing.length; i += 10) {
+      const chunk = missing.slice(i, i + 10);
+      const response = await this.makeRequest<any>('/category', {
+        domain: params.domain,
+        category: chunk.join(','),
+        parents,
+      });
+
+      // Response.categories is a MAP { catId: category }; categoryParents holds the ancestors
+      const categories: Record<string, KeepaCategoryNode> = (response as any).categories || {};
+      const ancestors: Record<string, KeepaCategoryNode> = (response as any).categoryParents || {};
+      for (const catId of chunk) {
+        // Category 0 answers with every root category
+        const entry = catId === 0
+          ? Object.values(categories)
+          : this.withAncestors(categories[catId], ancestors);
+        if (entry.length === 0) continue;
+        entry.forEach(node => nodes.set(node.catId, node));
+        await this.cache.set('category', `${params.domain}:${catId}:${parents}`, entry);
+      }
+    }
+
+    return Array.from(nodes.values());
+  }
+
+  /** The category and its ancestors, root first; empty when Keepa doesn't know the category. */
+  async getCategoryPath(domain: KeepaDomain, catId: number): Promise<KeepaCategoryNode[]> {
+    const nodes = await this.getCategory({ domain, category: catId, parents: true });
+    const byId = new Map(nodes.map(node => [node.catId, node]));
+    const path: KeepaCategoryNode[] = [];
+    let node = byId.get(catId);
+    while (node && path.length < 20) {
+      path.unshift(node);
+      node = node.parent ? byId.get(node.parent) : undefined;
+    }
+    return path;
+  }
+
+  private withAncestors(category: KeepaCategoryNode | undefined, ancestors: Record<string, KeepaCategoryNode>): KeepaCategoryNode[] {
+    const chain: KeepaCategoryNode[] = [];
+    let node = category;
+    while (node && chain.length < 20) {
+      chain.push(node);
+      node = node.parent ? ancestors[node.parent] : undefined;
+    }
+    return chain;
+  }
+
+  async searchCategories(params: CategorySearchParams): Promise<KeepaCategoryNode[]> {
+    // Every keyword must match the category name, and Keepa rejects keywords under 3 characters
+    const term = params.term.split(/\s+/).filter(word => word.length >= 3).join(' ');
+    if (!term) {
+      throw new InvalidParameterError(`Category search needs a keyword of at least 3 characters: "${params.term}"`);
+    }
+
+    const cacheKey = `${params.domain}:search:${term.toLowerCase()}`;
+    const cached = await this.cache.get<KeepaCategoryNode[]>('category', cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    // Response.categories is a MAP { catId: category }, like /category
+    const response = await this.makeRequest<any>('/search', {
+      domain: params.domain,
+      type: 'category',
+      term,
+    });
+    const categories: KeepaCategoryNode[] = Object.values((response as any).categories || {});
+    if (categories.length > 0) {
+      await this.cache.set('category', cacheKey, categories);
+      // A later getCategory() for any of the hits is then served from the cache
+      for (const category of categories) {
+        await this.cache.set('category', `${params.domain}:${category.catId}:0`, [category]);
+      }
+    }
+    return categories;
+  }
+
+  /**
+   * Accepts a category ID or name and returns the ID. Names go through the category
+   * search: an exact name match wins, then root categories, then the largest category.
+   */
+  async resolveCategoryId(domain: KeepaDomain, category: number | string): Promise<number> {
+    if (typeof category === 'number') {
+      return category;
+    }
+    const value = category.trim();
+    if (/^\d+$/.test(value)) {
+      return parseInt(value);
+    }
+
+    const matches = await this.searchCategories({ domain, term: value });
+    const wanted = value.toLowerCase();
+    const exact = matches.filter(c => c.name.toLowerCase() === wanted || c.contextFreeName?.toLowerCase() === wanted);
+    const candidates = exact.length > 0 ? exact : matches;
+    if (candidates.length === 0) {
+      throw new InvalidParameterError(`No category matches "${value}" on ${this.getDomainName(domain)}`);
+    }
+
+    const [best] = [...candidates].sort((a, b) =>
+      Number(a.parent !== 0) - Number(b.parent !== 0) || (b.productCount ?? 0) - (a.productCount ?? 0)
+    );
+    return best.catId;
   }
 
   // NEW: Inventory Analysis Engine - Portfolio Management & Risk Assessment
@@ -658,6 +973,8 @@ export class KeepaClient {
     analysisType?: 'overview' | 'fast_movers' | 'slow_movers' | 'stockout_risks' | 'seasonal';
     timeframe?: 'week' | 'month' | 'quarter';
     targetTurnoverRate?: number;
+    /** Sales estimators tried in order (default: DEFAULT_SALES_ESTIMATORS) */
+    salesEstimators?: SalesEstimator[];
   }): Promise<any> {
     try {
       // Get sales velocity data for inventory analysis
@@ -665,7 +982,8 @@ export class KeepaClient {
         categoryId: params.categoryId,
         asins: params.asins,
         domain: params.domain || 1,
-        timeframe: params.timeframe || 'month'
+        timeframe: params.timeframe || 'month',
+        salesEstimators: params.salesEstimators,
       });
 
       // Analyze inventory metrics
@@ -838,25 +1156,32 @@ export class KeepaClient {
   }
 
   async searchProducts(params: any): Promise<any[]> {
+    // Check the category exists in this marketplace (1 token, cached for a day) before
+    // spending 10+ on a query that would come back empty
+    let category: KeepaCategoryNode | undefined;
+    if (params.categoryId) {
+      const domain = params.domain || 1;
+      const nodes = await this.getCategory({ domain, category: params.categoryId });
+      category = nodes.find(node => node.catId === params.categoryId);
+      if (!category) {
+        throw new InvalidParameterError(
+          `Unknown category ${params.categoryId} on ${this.getDomainName(domain)}. Search categories by name to find a valid ID.`
+        );
+      }
+    }
+
     // Enhanced Product Finder with complete parameter set from documentation
     try {
       const selection: any = {};
       
-      // Core filters with category validation
-      if (params.categoryId) {
-        const categoryName = getCategoryName(params.categoryId);
-        if (!categoryName) {
-          // console.warn(`⚠️ CATEGORY WARNING: Category ID ${params.categoryId} not found in verified categories. This may cause empty results.`);
-          const suggestedCategories = Object.entries(VERIFIED_AMAZON_CATEGORIES)
-            .slice(0, 5)
-            .map(([name, id]) => `${name} (${id})`)
-            .join(', ');
-          // console.warn(`💡 SUGGESTED CATEGORIES: ${suggestedCategories}`);
+      // Core filters: root categories go in rootCategory, subcategories in categories_include
+      if (category) {
+        if (category.parent === 0) {
+          // FIXED: Use rootCategory array format as per API syntax
+          selection.rootCategory = [category.catId.toString()];
         } else {
-          // console.log(`✅ Using verified category: ${categoryName} (${params.categoryId})`);
+          selection.categories_include = [category.catId];
         }
-        // FIXED: Use rootCategory array format as per API syntax
-        selection.rootCategory = [params.categoryId.toString()];
       }
       
       // Price filters (in cents)
@@ -971,6 +1296,8 @@ export class KeepaClient {
       }
       
     } catch (error) {
+      // Falling back would only spend more tokens we don't have
+      if (error instanceof TokenExhaustedError) throw error;
       console.warn('Query endpoint failed, falling back to best sellers:', error);
       
       // Fallback to best sellers approach if query fails
@@ -994,13 +1321,13 @@ export class KeepaClient {
               const bestSeller = bestSellers[index];
               return {
                 ...product,
-                monthlySold: Math.max(100, Math.floor(2000 - (bestSeller.salesRank / 100))),
                 bestSellerRank: bestSeller.salesRank,
                 isFromBestSellers: true
               };
             });
           }
         } catch (fallbackError) {
+          if (fallbackError instanceof TokenExhaustedError) throw fallbackError;
           console.warn('Best sellers fallback also failed:', fallbackError);
         }
       }
@@ -1009,11 +1336,65 @@ export class KeepaClient {
     return [];
   }
 
+  // ── Tracking API ──
+  // Write-side requests: never cached, so a removed tracking can't be served back
+
+  async addTracking(trackings: TrackingCreation[]): Promise<KeepaTracking[]> {
+    if (trackings.length === 0) {
+      throw new InvalidParameterError('At least one tracking is required');
+    }
+    const response = await this.makeRequest<any>('/tracking', { type: 'add' }, trackings);
+    return (response as any).trackings || [];
+  }
+
+  async getTracking(asin: string): Promise<KeepaTracking | null> {
+    const response = await this.makeRequest<any>('/tracking', { type: 'get', asin: asin.trim().toUpperCase() });
+    return (response as any).trackings?.[0] ?? null;
+  }
+
+  async listTrackings(): Promise<KeepaTracking[]> {
+    const response = await this.makeRequest<any>('/tracking', { type: 'list', 'asins-only': 0 });
+    return (response as any).trackings || [];
+  }
+
+  async removeTracking(asin: string): Promise<void> {
+    await this.makeRequest('/tracking', { type: 'remove', asin: asin.trim().toUpperCase() });
+  }
+
+  async removeAllTrackings(): Promise<void> {
+    await this.makeRequest('/tracking', { type: 'removeAll' });
+  }
+
+  async getNotifications(params: NotificationQueryParams = {}): Promise<KeepaNotification[]> {
+    const queryParams: Record<string, any> = {
+      type: 'notification',
+      since: params.since ?? 0,
+      // CRITICAL: Keepa booleans must be 0/1
+      revise: params.revise ? 1 : 0,
+    };
+    // Without revise Keepa marks what it returns as read, so a retry after a lost response
+    // would come back empty: that read is sent once
+    const response = await this.makeRequest<any>('/tracking', queryParams, undefined, queryParams.revise === 1);
+    return (response as any).notifications || [];
+  }
+
   async getTokensLeft(): Promise<number> {
     const response = await this.makeRequest('/token');
     return response.tokensLeft;
   }
 
+  getSchedulerStatus(): SchedulerStatus {
+    return this.scheduler.status();
+  }
+
+  async getCacheStats(): Promise<CacheStats> {
+    return this.cache.stats();
+  }
+
+  async clearCache(): Promise<void> {
+    await this.cache.clear();
+  }
+
   // NEW: Sales Velocity Analysis using Statistics Object (FREE analytics)
   async analyzeSalesVelocity(params: {
     asin?: string;
@@ -1022,6 +1403,8 @@ export class KeepaClient {
     domain?: number;
     minVelocity?: number;
     timeframe?: 'week' | 'month' | 'quarter';
+    /** Sales estimators tried in order (default: DEFAULT_SALES_ESTIMATORS) */
+    salesEstimators?: SalesEstimator[];
   }): Promise<any[]> {
     let products: KeepaProduct[] = [];
 
@@ -1050,12 +1433,12 @@ export class KeepaClient {
       const currentSalesRank = stats.current[3]; // Sales rank data type
       const avgSalesRank = stats.avg[3];
       
-      // Estimate daily sales based on sales rank (industry formula)
-      const estimatedDailySales = currentSalesRank > 0 ? 
-        Math.max(1, Math.floor(1000000 / Math.sqrt(currentSalesRank))) : 0;
+      // monthlySold, then rank drops, then the category rank curve (see sales-estimator.ts)
+      const salesEstimate = estimateSales(product, { domain: params.domain || 1 }, params.salesEstimators);
+      const estimatedDailySales = salesEstimate.daily;
       
-      const weeklySales = estimatedDailySales * 7;
-      const monthlySales = estimatedDailySales * 30;
+      const weeklySales = Math.round(estimatedDailySales * 7 * 10) / 10;
+      const monthlySales = salesEstimate.monthly;
 
       // Calculate inventory metrics
       const buyBoxPrice = stats.buyBoxPrice || 0;
@@ -1075,11 +1458,13 @@ export class KeepaClient {
           trend: avgSalesRank > currentSalesRank ? 'Accelerating' : 
                  avgSalesRank < currentSalesRank ? 'Declining' : 'Stable',
           changePercent: avgSalesRank > 0 ? 
-            Math.round(((avgSalesRank - currentSalesRank) / avgSalesRank) * 100) : 0
+            Math.round(((avgSalesRank - currentSalesRank) / avgSalesRank) * 100) : 0,
+          method: salesEstimate.method,
+          confidence: salesEstimate.confidence
         },
         inventoryMetrics: {
           turnoverRate: turnoverRate,
-          daysOfInventory: Math.ceil(30 / Math.max(1, estimatedDailySales)),
+          daysOfInventory: Math.ceil(30 / Math.max(0.1, estimatedDailySales)),
           stockoutRisk: outOfStockPercentage > 30 ? 'High' : 
                        outOfStockPercentage > 15 ? 'Medium' : 'Low',
           recommendedOrderQuantity: Math.ceil(estimatedDailySales * 30)
@@ -1103,25 +1488,6 @@ export class KeepaClient {
     });
   }
 
-  parseCSVData(csvData: number[][], dataType: number): Array<{ timestamp: number; value: number }> {
-    if (!csvData[dataType]) {
-      return [];
-    }
-
-    const data = csvData[dataType];
-    const result: Array<{ timestamp: number; value: number }> = [];
-
-    for (let i = 0; i < data.length; i += 2) {
-      if (i + 1 < data.length) {
-        const timestamp = this.keepaTimeToUnixTime(data[i]);
-        const value = data[i + 1];
-        result.push({ timestamp, value });
-      }
-    }
-
-    return result;
-  }
-
   keepaTimeToUnixTime(keepaTime: number): number {
     return (keepaTime + 21564000) * 60000;
   }
@@ -1130,6 +1496,11 @@ export class KeepaClient {
     return Math.floor(unixTime / 60000) - 21564000;
   }
 
+  keepaTimeToISO(keepaTime: number | null | undefined): string | null {
+    if (typeof keepaTime !== 'number' || keepaTime < 0) return null;
+    return new Date(this.keepaTimeToUnixTime(keepaTime)).toISOString();
+  }
+
   formatPrice(price: number, domain: KeepaDomain = KeepaDomain.US): string {
     if (price === -1) return 'N/A';
     
@@ -0,0 +1,194 @@
+import { KeepaDataType, KeepaProduct, ProductChange, ProductState, WatchlistSnapshotItem } from './types.js';
+import { decodeCsvSeries, decodeOfferCsv, keepaMinutesToUnix, SeriesPoint } from './csv-decoder.js';
+import { compactSnapshotItem, offerSellerIds } from './watchlist.js';
+
+// ─── Product change detection ───────────────────────────────────────────
+// A ProductState holds the fields worth watching at one point in time. It
+// comes from a fresh product (current stats), from Keepa's history as of a
+// past date (csv series and the Buy Box seller history; no title or brand)
+// or from a stored watchlist snapshot. diffProductStates compares two of
+// them; a field unknown on either side never produces a change.
+
+export interface ChangeThresholds {
+  /** Smallest Buy Box / Amazon price drop reported, in % */
+  priceDropPercent: number;
+  /** Smallest sales rank move reported, in % either way */
+  rankChangePercent: number;
+}
+
+export const DEFAULT_CHANGE_THRESHOLDS: ChangeThresholds = {
+  priceDropPercent: 5,
+  rankChangePercent: 30,
+};
+
+// As of a past date: offers already listed then (offers that ended since are not returned)
+function sellerIdsAt(product: KeepaProduct, at: number): string[] | null {
+  return offerSellerIds(product.offers?.filter(offer => (decodeOfferCsv(offer.offerCSV)[0]?.timestamp ?? Infinity) <= at));
+}
+
+export function productStateNow(product: KeepaProduct, at: number = Date.now()): ProductState {
+  const item = compactSnapshotItem(product);
+  return {
+    asin: product.asin,
+    at: new Date(at).toISOString(),
+    source: 'current',
+    title: product.title ?? null,
+    brand: product.brand ?? null,
+    buyBox: item.buyBox,
+    buyBoxSellerId: item.buyBoxSellerId,
+    amazon: item.amazon,
+    sellers: item.sellers,
+    sellerIds: item.sellerIds ?? null,
+    salesRank: item.salesRank,
+  };
+}
+
+// Value in force at `at`: series values hold until the next point
+function valueAt(points: SeriesPoint[], at: number): number | null {
+  let value: number | null = null;
+  for (const point of points) {
+    if (point.timestamp > at) break;
+    value = point.value;
+  }
+  return value;
+}
+
+function buyBoxSellerAt(history: Array<string | number> | undefined, at: number): string | null {
+  if (!Array.isArray(history)) return null;
+  let sellerId: string | null = null;
+  for (let i = 0; i + 1 < history.length; i += 2) {
+    if (keepaMinutesToUnix(Number(history[i])) > at) break;
+    // "-1" (suppressed) and "-2" (no offer) mean nobody held it
+    sellerId = String(history[i + 1]).startsWith('-') ? null : String(history[i + 1]);
+  }
+  return sellerId;
+}
+
+/** Reconstructs the state at a past time from the product's csv history (history=1, buybox=1 or offers). */
+export function productStateAt(product: KeepaProduct, at: number): ProductState {
+  const series = (dataType: KeepaDataType) => valueAt(decodeCsvSeries(product.csv, dataType).points, at);
+  return {
+    asin: product.asin,
+    at: new Date(at).toISOString(),
+    source: 'history',
+    title: null,
+    brand: null,
+    buyBox: series(KeepaDataType.BUY_BOX_SHIPPING),
+    buyBoxSellerId: buyBoxSellerAt(product.buyBoxSellerIdHistory, at),
+    amazon: series(KeepaDataType.AMAZON),
+    sellers: series(KeepaDataType.COUNT_NEW),
+    sellerIds: sellerIdsAt(product, at),
+    salesRank: series(KeepaDataType.SALES_RANK),
+  };
+}
+
+export function snapshotItemState(item: WatchlistSnapshotItem, takenAt: string): ProductState {
+  return {
+    asin: item.asin,
+    at: takenAt,
+    source: 'snapshot',
+    title: item.title ?? null,
+    brand: item.brand ?? null,
+    buyBox: item.buyBox,
+    buyBoxSellerId: item.buyBoxSellerId,
+    amazon: item.amazon,
+    sellers: item.sellers,
+    sellerIds: item.sellerIds ?? null,
+    salesRank: item.salesRank,
+  };
+}
+
+function percentChange(before: number, after: number): number {
+  return Math.round((after - before) / before * 1000) / 10;
+}
+
+export function diffProductStates(
+  before: ProductState,
+  after: ProductState,
+  thresholds: ChangeThresholds = DEFAULT_CHANGE_THRESHOLDS,
+): ProductChange[] {
+  const changes: ProductChange[] = [];
+  const change = (
+    type: ProductChange['type'],
+    field: ProductChange['field'],
+    from: string | number | null,
+    to: string | number | null,
+    changePercent: number | null = null,
+  ) => changes.push({ asin: after.asin, type, field, before: from, after: to, changePercent, from: before.at, to: after.at });
+
+  // Sellers: by ID when both sides have offers, else by offer count
+  if (before.sellerIds && after.sellerIds) {
+    const previous = new Set(before.sellerIds);
+    const current = new Set(after.sellerIds);
+    after.sellerIds.filter(id => !previous.has(id)).forEach(id => change('new_seller', 'sellerIds', null, id));
+    before.sellerIds.filter(id => !current.has(id)).forEach(id => change('seller_left', 'sellerIds', id, null));
+  } else if (before.sellers !== null && after.sellers !== null && before.sellers !== after.sellers) {
+    change('offer_count', 'sellers', before.sellers, after.sellers);
+  }
+
+  if (before.buyBoxSellerId && after.buyBoxSellerId && before.buyBoxSellerId !== after.buyBoxSellerId) {
+    change('buybox_owner', 'buyBoxSellerId', before.buyBoxSellerId, after.buyBoxSellerId);
+  }
+
+  for (const field of ['buyBox', 'amazon'] as const) {
+    const from = before[field];
+    const to = after[field];
+    if (from !== null && to !== null && to < from && percentChange(from, to) <= -thresholds.priceDropPercent) {
+      change('price_drop', field, from, to, percentChange(from, to));
+    }
+  }
+
+  if (before.amazon === null && after.amazon !== null) change('amazon_entered', 'amazon', null, after.amazon);
+  if (before.amazon !== null && after.amazon === null) change('amazon_left', 'amazon', before.amazon, null);
+
+  if (before.salesRank !== null && after.salesRank !== null
+    && Math.abs(percentChange(before.salesRank, after.salesRank)) >= thresholds.rankChangePercent) {
+    change('rank_spike', 'salesRank', before.salesRank, after.salesRank, percentChange(before.salesRank, after.salesRank));
+  }
+
+  for (const field of ['title', 'brand'] as const) {
+    const from = before[field]?.trim();
+    const to = after[field]?.trim();
+    if (from && to && from !== to) change(field, field, from, to);
+  }
+
+  return changes;
+}
+
+/** Diffs each state against the previous one; states must be oldest first. */
+export function diffProductHistory(states: ProductState[], thresholds: ChangeThresholds = DEFAULT_CHANGE_THRESHOLDS): ProductChange[] {
+  const changes: ProductChange[] = [];
+  for (let i = 1; i < states.length; i++) {
+    changes.push(...diffProductStates(states[i - 1], states[i], thresholds));
+  }
+  return changes;
+}
+
+/** One line per change; prices go through `formatPrice` so the caller picks the currency. */
+export function describeProductChange(change: ProductChange, formatPrice: (cents: number) => string): string {
+  const price = (value: string | number | null) => (typeof value === 'number' ? formatPrice(value) : 'N/A');
+  switch (change.type) {
+    case 'new_seller':
+      return `New seller ${change.after}`;
+    case 'seller_left':
+      return `Seller ${change.before} left`;
+    case 'offer_count': {
+      const delta = Number(change.after) - Number(change.before);
+      return `${delta > 0 ? 'New sellers' : 'Sellers left'}: ${change.before} → ${change.after} offers (${delta > 0 ? '+' : ''}${delta})`;
+    }
+    case 'buybox_owner':
+      return `Buy Box owner switched: ${change.before} → ${change.after}`;
+    case 'price_drop':
+      return `${change.field === 'buyBox' ? 'Buy Box' : 'Amazon'} price dropped ${price(change.before)} → ${price(change.after)} (${change.changePercent}%)`;
+    case 'amazon_entered':
+      return `Amazon entered the listing at ${price(change.after)}`;
+    case 'amazon_left':
+      return `Amazon left the listing (was ${price(change.before)})`;
+    case 'rank_spike':
+      return `Sales rank ${Number(change.changePercent) < 0 ? 'improved' : 'worsened'} #${Number(change.before).toLocaleString()} → #${Number(change.after).toLocaleString()} (${Number(change.changePercent) > 0 ? '+' : ''}${change.changePercent}%)`;
+    case 'title':
+      return `Title edited: "${change.before}" → "${change.after}"`;
+    case 'brand':
+      return `Brand edited: ${change.before} → ${change.after}`;
+  }
+}
@@ -0,0 +1,206 @@
+import { InvalidParameterError, KeepaDomain } from './types.js';
+
+// ─── MCP prompts ────────────────────────────────────────────────────────
+// Parameterized sourcing workflows. Each prompt expands into step-by-step
+// instructions naming the keepa_* tools and the arguments to call them with,
+// so analysts don't retype the same checklist every day.
+
+export interface KeepaPromptArgument {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+export interface KeepaPromptDefinition {
+  name: string;
+  description: string;
+  arguments: KeepaPromptArgument[];
+}
+
+export interface KeepaPromptMessage {
+  role: 'user';
+  content: { type: 'text'; text: string };
+}
+
+export interface KeepaPromptResult {
+  description: string;
+  messages: KeepaPromptMessage[];
+}
+
+interface KeepaPromptSpec extends KeepaPromptDefinition {
+  render(args: Record<string, string>): string;
+}
+
+const DEFAULT_COMPARE_DOMAINS = '1,2,3,4,8,9';
+
+const DOMAIN_ARGUMENT: KeepaPromptArgument = {
+  name: 'domain',
+  description: 'Amazon domain (1=US, 2=UK, 3=DE, 4=FR, 8=IT, 9=ES). Default: 1',
+  required: false,
+};
+
+function parseDomain(value: string | undefined, fallback: KeepaDomain = KeepaDomain.US): KeepaDomain {
+  if (value === undefined || value === '') return fallback;
+  const domain = parseInt(value);
+  if (!KeepaDomain[domain]) {
+    throw new InvalidParameterError(`Invalid Amazon domain: ${value}`);
+  }
+  return domain;
+}
+
+function parsePositiveNumber(name: string, value: string | undefined): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) {
+    throw new InvalidParameterError(`Invalid ${name}: ${value}`);
+  }
+  return number;
+}
+
+function call(tool: string, args: Record<string, unknown>): string {
+  return `\`${tool}\` with \`${JSON.stringify(args)}\``;
+}
+
+const PROMPTS: KeepaPromptSpec[] = [
+  {
+    name: 'evaluate_asin',
+    description: 'Sourcing check for one ASIN: Buy Box history, seller count, out-of-stock rate, sales velocity and ROI',
+    arguments: [
+      { name: 'asin', description: 'Amazon ASIN to evaluate', required: true },
+      DOMAIN_ARGUMENT,
+      { name: 'costPrice', description: 'Landed unit cost in the marketplace currency, used for the ROI estimate', required: false },
+    ],
+    render: args => {
+      const asin = args.asin.trim().toUpperCase();
+      const domain = parseDomain(args.domain);
+      const costPrice = parsePositiveNumber('costPrice', args.costPrice);
+
+      return [
+        `Evaluate ASIN ${asin} on Amazon domain ${domain} as a sourcing opportunity.`,
+        '',
+        `1. Call ${call('keepa_product_lookup', { asin, domain })} for the current Buy Box, offers, FBA/FBM split and 90-day stats.`,
+        `2. Call ${call('keepa_price_history', { asin, domain, days: 90, includeOffers: true, interval: 'weekly' })} to see how stable the Buy Box and Amazon prices are.`,
+        `3. Call ${call('keepa_sales_velocity', { asin, domain, timeframe: 'month' })} to estimate monthly units sold.`,
+        '',
+        'Then summarize:',
+        '- Buy Box: current price, 90-day average, who holds it (Amazon, FBA, FBM) and how often it rotates',
+        '- Competition: number of new offers and whether Amazon sells the product',
+        '- Out of stock: Amazon and marketplace out-of-stock percentages over 90 days',
+        '- Demand: sales rank trend and estimated monthly sales',
+        costPrice !== undefined
+          ? `- ROI: with a unit cost of ${costPrice}, estimate net profit, margin and ROI at the current Buy Box and at the 90-day average, after referral and FBA fees`
+          : '- ROI: the price range where the product stays profitable after referral and FBA fees (no unit cost was given)',
+        '',
+        'Finish with a clear BUY / WATCH / SKIP verdict and the main reasons.',
+      ].join('\n');
+    },
+  },
+  {
+    name: 'scout_category',
+    description: 'Find sourcing candidates in a category: market overview, best sellers and filtered products',
+    arguments: [
+      { name: 'categoryId', description: 'Amazon category ID', required: true },
+      DOMAIN_ARGUMENT,
+      { name: 'minPrice', description: 'Minimum price in cents', required: false },
+      { name: 'maxPrice', description: 'Maximum price in cents', required: false },
+    ],
+    render: args => {
+      const categoryId = parsePositiveNumber('categoryId', args.categoryId);
+      const domain = parseDomain(args.domain);
+      const minPrice = parsePositiveNumber('minPrice', args.minPrice);
+      const maxPrice = parsePositiveNumber('maxPrice', args.maxPrice);
+      const priceFilter = {
+        ...(minPrice !== undefined && { minPrice }),
+        ...(maxPrice !== undefined && { maxPrice }),
+      };
+
+      return [
+        `Scout category ${categoryId} on Amazon domain ${domain} for products worth sourcing.`,
+        '',
+        `1. Call ${call('keepa_category_analysis', { categoryId, domain, analysisType: 'overview' })} for competition level, price ranges and opportunity score.`,
+        `2. Call ${call('keepa_best_sellers', { category: categoryId, domain })} to see what currently sells best.`,
+        `3. Call ${call('keepa_product_finder', { categoryId, domain, minRating: 4, minMonthlySales: 100, maxSellerCount: 10, ...priceFilter, sortBy: 'monthlySold', sortOrder: 'desc', perPage: 25 })} for candidates with demand and room for another seller.`,
+        '',
+        'Then pick the 5 most promising products and for each give: ASIN, title, price, monthly sales, seller count, whether Amazon sells it, and why it is a good fit.',
+        'Call out any sign that the category is saturated or dominated by Amazon.',
+      ].join('\n');
+    },
+  },
+  {
+    name: 'vet_seller',
+    description: 'Due diligence on a seller: rating, feedback volume, storefront size and competitive overlap',
+    arguments: [
+      { name: 'sellerId', description: 'Amazon seller ID (e.g. A3P5ROKL5A1OLE)', required: true },
+      DOMAIN_ARGUMENT,
+    ],
+    render: args => {
+      const seller = args.sellerId.trim().toUpperCase();
+      const domain = parseDomain(args.domain);
+
+      return [
+        `Vet seller ${seller} on Amazon domain ${domain}.`,
+        '',
+        `1. Call ${call('keepa_seller_lookup', { seller, domain, storefront: true })} for rating, rating count, storefront size and main categories.`,
+        `2. From the storefront, pick up to 10 ASINs and call ${call('keepa_batch_product_lookup', { asins: ['<ASIN>', '...'], domain })} to check prices and sales ranks.`,
+        '',
+        'Then summarize:',
+        '- Reputation: current rating, number of ratings and any recent decline',
+        '- Size: storefront ASIN count and the categories it concentrates on',
+        '- Behaviour: FBA vs FBM, typical price positioning against the Buy Box',
+        '',
+        'Finish with a risk level (LOW / MEDIUM / HIGH) for competing with or buying from this seller.',
+      ].join('\n');
+    },
+  },
+  {
+    name: 'compare_marketplaces',
+    description: 'Compare one ASIN across Amazon marketplaces to find price spreads and arbitrage opportunities',
+    arguments: [
+      { name: 'asin', description: 'Amazon ASIN to compare', required: true },
+      { name: 'domains', description: `Comma-separated Amazon domains. Default: ${DEFAULT_COMPARE_DOMAINS}`, required: false },
+    ],
+    render: args => {
+      const asin = args.asin.trim().toUpperCase();
+      const domains = (args.domains || DEFAULT_COMPARE_DOMAINS)
+        .split(',')
+        .map(value => parseDomain(value.trim()));
+
+      const lines = [
+        `Compare ASIN ${asin} across Amazon domains ${domains.join(', ')}.`,
+        '',
+        '1. For each domain, call:',
+        ...domains.map(domain => `   - ${call('keepa_product_lookup', { asin, domain })}`),
+        `2. For the two cheapest marketplaces, call ${call('keepa_price_history', { asin, domain: '<domain>', days: 90, interval: 'weekly' })} to check the spread is not a temporary dip.`,
+        '',
+        'Then build a table with: marketplace, Buy Box price, 90-day average, offer count, sales rank and out-of-stock %.',
+        'Prices are in each marketplace\'s own currency; convert to a common currency before comparing and say which rates you used.',
+        'Finish with the best buy marketplace and the best sell marketplace, and whether the spread survives shipping and fees.',
+      ];
+      return lines.join('\n');
+    },
+  },
+];
+
+export const PROMPT_DEFINITIONS: KeepaPromptDefinition[] = PROMPTS.map(({ name, description, arguments: args }) => ({
+  name,
+  description,
+  arguments: args,
+}));
+
+export function getPrompt(name: string, args: Record<string, string> = {}): KeepaPromptResult {
+  const prompt = PROMPTS.find(p => p.name === name);
+  if (!prompt) {
+    throw new InvalidParameterError(`Unknown prompt: ${name}`);
+  }
+
+  for (const argument of prompt.arguments) {
+    if (argument.required && !args[argument.name]?.trim()) {
+      throw new InvalidParameterError(`Missing required argument "${argument.name}" for prompt ${name}`);
+    }
+  }
+
+  return {
+    description: prompt.description,
+    messages: [{ role: 'user', content: { type: 'text', text: prompt.render(args) } }],
+  };
+}
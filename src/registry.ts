@@ -0,0 +1,143 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { KeepaClient } from './keepa-client.js';
+import { KeepaTools } from './tools.js';
+import { RequestPriority, RequestScope, runInScope, runWithPriority } from './scheduler.js';
+import { buildCostEstimate, estimateToolCost, formatCostEstimate } from './token-cost.js';
+import { StructuredToolResult, TokenCostItem } from './types.js';
+
+// ─── Tool registry ──────────────────────────────────────────────────────
+// Each tool declares its name, description, zod schema and handler once
+// (see src/catalog/). The MCP listing is generated from the zod schema, so
+// what clients see is exactly what gets validated.
+
+export type ToolResult = string | StructuredToolResult;
+
+/** Progress of a long-running tool, as sent in MCP progress notifications */
+export interface ToolProgress {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+export interface ToolContext {
+  client: KeepaClient;
+  tools: KeepaTools;
+  /** Set when the caller listens for progress (an MCP request with a progressToken) */
+  progress?: (update: ToolProgress) => void;
+  /** Set for background jobs: once aborted, the tool's Keepa requests not sent yet fail */
+  signal?: AbortSignal;
+}
+
+export interface ToolSpec<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  schema: S;
+  /** Queue priority of the Keepa requests the tool makes (default: 'normal') */
+  priority?: RequestPriority;
+  /** The handler reports its own progress; other tools report each Keepa request they complete */
+  reportsProgress?: boolean;
+  /**
+   * Token cost breakdown for dryRun; defaults to the estimator registered in token-cost.ts.
+   * Gets the context for costs that depend on local state, such as a watchlist's size.
+   */
+  estimateCost?(params: z.infer<S>, context: ToolContext): TokenCostItem[] | Promise<TokenCostItem[]>;
+  /** Declared as a method, like estimateCost, so a spec for any schema fits in a ToolSpec<z.ZodTypeAny> list */
+  handler(params: z.infer<S>, context: ToolContext): Promise<ToolResult>;
+}
+
+/** Identity helper that lets TypeScript infer the handler's params from the schema. */
+export function defineTool<S extends z.ZodTypeAny>(spec: ToolSpec<S>): ToolSpec<S> {
+  return spec;
+}
+
+// Narrower signature: the library's generic overloads are too deep for tsc with zod 3.25
+const toJsonSchema = zodToJsonSchema as unknown as (schema: z.ZodTypeAny, options: Record<string, unknown>) => Record<string, unknown>;
+
+export function toInputSchema(schema: z.ZodTypeAny): Tool['inputSchema'] {
+  const jsonSchema = toJsonSchema(schema, {
+    target: 'jsonSchema7',
+    $refStrategy: 'none',
+  });
+  delete jsonSchema.$schema;
+  // zod strips unknown keys instead of rejecting them, so additionalProperties is left out
+  delete jsonSchema.additionalProperties;
+  return { type: 'object', properties: {}, ...jsonSchema };
+}
+
+export class ToolRegistry {
+  private specs = new Map<string, ToolSpec>();
+  private listing: Tool[] | null = null;
+
+  constructor(specs: ToolSpec<z.ZodTypeAny>[] = []) {
+    specs.forEach(spec => this.register(spec));
+  }
+
+  register(spec: ToolSpec<z.ZodTypeAny>): this {
+    if (this.specs.has(spec.name)) {
+      throw new Error(`Tool already registered: ${spec.name}`);
+    }
+    this.specs.set(spec.name, spec);
+    this.listing = null;
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.specs.has(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.specs.keys());
+  }
+
+  /** MCP tool listing, with JSON Schemas generated from the zod schemas */
+  definitions(): Tool[] {
+    if (!this.listing) {
+      this.listing = Array.from(this.specs.values()).map(spec => ({
+        name: spec.name,
+        description: spec.description,
+        inputSchema: toInputSchema(spec.schema),
+      }));
+    }
+    return this.listing;
+  }
+
+  /** Checks a tool call's input without running it, e.g. before queueing it as a job */
+  validate(name: string, input: Record<string, unknown>): void {
+    const spec = this.specs.get(name);
+    if (!spec) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+    spec.schema.parse(input);
+  }
+
+  async execute(name: string, input: Record<string, unknown>, context: ToolContext): Promise<ToolResult> {
+    const spec = this.specs.get(name);
+    if (!spec) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+
+    const params = spec.schema.parse(input);
+
+    // dryRun: answer with the token estimate instead of calling Keepa
+    if (params.dryRun) {
+      const estimate = spec.estimateCost
+        ? buildCostEstimate(name, await spec.estimateCost(params, context))
+        : estimateToolCost(name, params);
+      return params.outputFormat === 'json' ? estimate : formatCostEstimate(estimate);
+    }
+
+    // Keepa requests made by this tool are queued with its priority, and stop with its signal
+    const scope: RequestScope = { signal: context.signal };
+    const { progress } = context;
+    if (progress && !spec.reportsProgress) {
+      let done = 0;
+      scope.onRequestDone = () => {
+        done++;
+        progress({ progress: done, message: `${done} Keepa request${done === 1 ? '' : 's'} done` });
+      };
+    }
+    return runWithPriority(spec.priority ?? 'normal', () => runInScope(scope, () => spec.handler(params, context)));
+  }
+}
@@ -0,0 +1,139 @@
+import { KeepaClient } from './keepa-client.js';
+import { KeepaTools } from './tools.js';
+import { lookupProduct, ProductLookupSchema } from './catalog/product-lookup.js';
+import { lookupSeller, SellerLookupSchema } from './catalog/seller-lookup.js';
+import { runWithPriority } from './scheduler.js';
+import {
+  CategorySnapshot,
+  InvalidParameterError,
+  KeepaDomain,
+  KeepaError,
+  KeepaResourceKind,
+} from './types.js';
+
+// ─── MCP resources ──────────────────────────────────────────────────────
+// JSON snapshots an assistant can attach as context. Reads go through the
+// same KeepaClient as the tools, so they hit the response cache first and
+// any Keepa request waits its turn in the token-bucket scheduler.
+
+export interface KeepaResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+export interface KeepaResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+export interface ParsedResourceUri {
+  kind: KeepaResourceKind;
+  domain: KeepaDomain;
+  id: string;
+}
+
+export const RESOURCE_MIME_TYPE = 'application/json';
+
+export const RESOURCE_TEMPLATES: KeepaResourceTemplate[] = [
+  {
+    uriTemplate: 'keepa://product/{domain}/{asin}',
+    name: 'Keepa product',
+    description: 'Product snapshot: prices, Buy Box, offers, sales rank and 90-day stats (same data as keepa_product_lookup). Domain: 1=US, 2=UK, 3=DE, 4=FR, 8=IT, 9=ES...',
+    mimeType: RESOURCE_MIME_TYPE,
+  },
+  {
+    uriTemplate: 'keepa://seller/{domain}/{sellerId}',
+    name: 'Keepa seller',
+    description: 'Seller snapshot: rating, rating count and profile (same data as keepa_seller_lookup)',
+    mimeType: RESOURCE_MIME_TYPE,
+  },
+  {
+    uriTemplate: 'keepa://category/{domain}/{catId}',
+    name: 'Keepa category',
+    description: 'Category snapshot: name, path from the root category, subcategory IDs and product count',
+    mimeType: RESOURCE_MIME_TYPE,
+  },
+];
+
+const RESOURCE_URI_PATTERN = /^keepa:\/\/(product|seller|category)\/(\d+)\/([^/?#]+)$/;
+
+const RESOURCE_ID_PATTERNS: Record<KeepaResourceKind, RegExp> = {
+  product: /^[A-Z0-9]{10}$/,
+  seller: /^[A-Z0-9]{8,20}$/,
+  category: /^\d+$/,
+};
+
+export function parseResourceUri(uri: string): ParsedResourceUri {
+  const match = RESOURCE_URI_PATTERN.exec(uri);
+  if (!match) {
+    throw new InvalidParameterError(`Unknown resource URI: ${uri}`);
+  }
+
+  const kind = match[1] as KeepaResourceKind;
+  const domain = parseInt(match[2]);
+  const id = decodeURIComponent(match[3]).toUpperCase();
+  if (!KeepaDomain[domain]) {
+    throw new InvalidParameterError(`Invalid Amazon domain in ${uri}: ${match[2]}`);
+  }
+  if (!RESOURCE_ID_PATTERNS[kind].test(id)) {
+    throw new InvalidParameterError(`Invalid ${kind} ID in ${uri}: ${id}`);
+  }
+  return { kind, domain, id };
+}
+
+export function resourceUri(kind: KeepaResourceKind, domain: number, id: string | number): string {
+  return `keepa://${kind}/${domain}/${id}`;
+}
+
+export async function readResource(
+  client: KeepaClient,
+  tools: KeepaTools,
+  uri: string
+): Promise<KeepaResourceContents> {
+  const { kind, domain, id } = parseResourceUri(uri);
+
+  // An attached resource is read while the user waits, like an interactive lookup
+  const snapshot = await runWithPriority('interactive', async () => {
+    switch (kind) {
+      case 'product':
+        return lookupProduct(tools, ProductLookupSchema.parse({ asin: id, domain, outputFormat: 'json' }));
+      case 'seller':
+        return lookupSeller(tools, SellerLookupSchema.parse({ seller: id, domain, outputFormat: 'json' }));
+      case 'category':
+        return buildCategorySnapshot(client, domain, parseInt(id));
+    }
+  });
+
+  // Tools report "not found" as a NOT_FOUND object, other conditions as plain text
+  if (typeof snapshot === 'string') {
+    throw new KeepaError(snapshot);
+  }
+  if ('error' in snapshot) {
+    throw new KeepaError(snapshot.error.message);
+  }
+
+  return { uri, mimeType: RESOURCE_MIME_TYPE, text: JSON.stringify(snapshot, null, 2) };
+}
+
+async function buildCategorySnapshot(client: KeepaClient, domain: KeepaDomain, catId: number): Promise<CategorySnapshot> {
+  const path = await client.getCategoryPath(domain, catId);
+  const category = path[path.length - 1];
+  if (!category) {
+    throw new KeepaError(`Category not found: ${catId} (${client.getDomainName(domain)})`);
+  }
+
+  return {
+    domain,
+    marketplace: client.getDomainName(domain),
+    catId: category.catId,
+    name: category.name,
+    path: path.map(node => node.name),
+    parentId: category.parent || null,
+    children: category.children ?? [],
+    productCount: category.productCount ?? null,
+    highestRank: category.highestRank ?? null,
+  };
+}
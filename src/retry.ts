@@ -0,0 +1,77 @@
+import {
+  NetworkError,
+  RateLimitedError,
+  RetryPolicy,
+  TokenExhaustedError,
+} from './types.js';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 120000,
+  jitter: 0.5,
+};
+
+/**
+ * Milliseconds to wait before the next attempt, or null when the error is
+ * not retryable or the policy gives up. Rate limits wait for Keepa's
+ * `refillIn`; network errors use exponential backoff with jitter.
+ */
+export function computeRetryDelay(
+  error: unknown,
+  attempt: number,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  random: () => number = Math.random
+): number | null {
+  if (attempt >= policy.maxAttempts) return null;
+
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  const jittered = Math.round(backoff * (1 - policy.jitter * random()));
+
+  if (error instanceof RateLimitedError) {
+    if (error.refillIn === undefined) return jittered;
+    // A short random offset keeps concurrent callers from retrying on the same tick
+    const wait = error.refillIn + Math.round(policy.baseDelayMs * policy.jitter * random());
+    return wait <= policy.maxDelayMs ? wait : null;
+  }
+
+  if (error instanceof NetworkError) return jittered;
+
+  return null;
+}
+
+/** Gives a rate limit we stopped waiting for its final meaning: the balance is exhausted. */
+function toFinalError(error: unknown): unknown {
+  if (error instanceof RateLimitedError) {
+    const refill = error.refillIn !== undefined ? ` Next refill in ${Math.ceil(error.refillIn / 1000)}s.` : '';
+    return new TokenExhaustedError(
+      `⚠️ KEEPA TOKEN EXHAUSTION: You have ${error.tokensLeft ?? 0} tokens remaining.${refill} ` +
+      `Please wait for tokens to refresh or upgrade your Keepa plan. ` +
+      `Check your token status at https://keepa.com/#!api`,
+      error.statusCode,
+      error.tokensLeft,
+      error.refillIn
+    );
+  }
+  return error;
+}
+
+/** Runs an idempotent request, retrying transient Keepa failures according to the policy. */
+export async function withRetry<T>(
+  request: () => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  sleep: (ms: number) => Promise<void> = ms => new Promise(resolve => setTimeout(resolve, ms))
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      const delay = computeRetryDelay(error, attempt, policy);
+      if (delay === null) {
+        throw toFinalError(error);
+      }
+      await sleep(delay);
+    }
+  }
+}
+
@@ -0,0 +1,160 @@
+import { KeepaDataType, KeepaDomain, KeepaProduct } from './types.js';
+import { decodeCsvSeries, withoutGaps } from './csv-decoder.js';
+import { detectFeeCategory, FeeCategory } from './fees.js';
+
+// ─── Sales estimation ───────────────────────────────────────────────────
+// Estimators are tried in order and the first one that can answer wins:
+//   1. monthlySold    Amazon's own "X bought in past month" badge (Keepa field)
+//   2. rankDrops      drops of the SALES_RANK csv series in the last 30 days;
+//                     every sale pushes the rank down, so drops ≈ sales, but
+//                     several sales between two rank updates count once.
+//                     Without the csv (history: 0) Keepa's own count,
+//                     stats.salesRankDrops30, is used
+//   3. rankCurve      a per-category rank → monthly sales curve, scaled per
+//                     marketplace; a rough order of magnitude only
+// Pass a different list to KeepaTools (salesEstimators) to plug in your own.
+
+export type SalesEstimateMethod = 'monthlySold' | 'rankDrops' | 'rankCurve' | 'none';
+
+export type SalesEstimateConfidence = 'high' | 'medium' | 'low' | 'none';
+
+export interface SalesEstimate {
+  /** Units per month */
+  monthly: number;
+  /** Units per day, one decimal */
+  daily: number;
+  method: SalesEstimateMethod;
+  confidence: SalesEstimateConfidence;
+}
+
+export interface SalesEstimateContext {
+  domain: KeepaDomain;
+  /** Unix ms; defaults to Date.now() */
+  now?: number;
+}
+
+export interface SalesEstimator {
+  method: SalesEstimateMethod;
+  /** null when the product lacks the data this estimator needs */
+  estimate(product: KeepaProduct, context: SalesEstimateContext): Omit<SalesEstimate, 'daily' | 'method'> | null;
+}
+
+const DAY_MS = 86400000;
+const WINDOW_DAYS = 30;
+
+export const monthlySoldEstimator: SalesEstimator = {
+  method: 'monthlySold',
+  estimate: product => {
+    const monthlySold = product.monthlySold;
+    return typeof monthlySold === 'number' && monthlySold > 0 ? { monthly: monthlySold, confidence: 'high' } : null;
+  },
+};
+
+export const rankDropsEstimator: SalesEstimator = {
+  method: 'rankDrops',
+  estimate: (product, context) => {
+    const now = context.now ?? Date.now();
+    const from = now - WINDOW_DAYS * DAY_MS;
+    const points = withoutGaps(decodeCsvSeries(product.csv, KeepaDataType.SALES_RANK).points);
+    if (points.length === 0) {
+      // Fetched without history: Keepa counts the same drops in the stats
+      const drops30 = product.stats?.salesRankDrops30;
+      return typeof drops30 === 'number' && drops30 > 0 ? { monthly: drops30, confidence: 'medium' } : null;
+    }
+    const inWindow = points.filter(point => point.timestamp >= from && point.timestamp <= now);
+    if (inWindow.length < 2) return null;
+
+    // The last point before the window is where the rank started from
+    const before = points.filter(point => point.timestamp < from).pop();
+    const series = before ? [before, ...inWindow] : inWindow;
+    let drops = 0;
+    for (let i = 1; i < series.length; i++) {
+      if (series[i].value < series[i - 1].value) drops++;
+    }
+
+    // Scale up a history that started inside the window
+    const coveredDays = Math.max(1, (now - Math.max(series[0].timestamp, from)) / DAY_MS);
+    const monthly = Math.round(drops * WINDOW_DAYS / coveredDays);
+    // Sparse history, or a drop at nearly every update, means the count is a lower bound
+    const saturated = drops > (series.length - 1) * 0.8;
+    const confidence = coveredDays < 14 || inWindow.length < 10 || saturated ? 'low' : 'medium';
+    return { monthly, confidence };
+  },
+};
+
+// Monthly sales at a given US sales rank for a typical category, as [rank, units] anchors;
+// values in between are interpolated on a log-log scale
+const BASE_CURVE: Array<[number, number]> = [
+  [1, 30000], [100, 4000], [1000, 1200], [10000, 250], [100000, 25], [1000000, 1],
+];
+
+const CATEGORY_FACTORS: Record<FeeCategory, number> = {
+  books: 0.4, media: 0.3, electronics: 0.9, computers: 0.8, clothing: 0.6, shoes: 0.5, jewelry: 0.3,
+  beauty: 1.1, health: 1.2, grocery: 1.2, toys: 0.9, baby: 0.8, sports: 0.7, tools: 0.7, automotive: 0.6,
+  pet: 0.9, office: 0.8, garden: 0.8, home: 1, other: 0.6,
+};
+
+const MARKETPLACE_FACTORS: Record<KeepaDomain, number> = {
+  [KeepaDomain.US]: 1,
+  [KeepaDomain.UK]: 0.35,
+  [KeepaDomain.DE]: 0.45,
+  [KeepaDomain.FR]: 0.25,
+  [KeepaDomain.JP]: 0.35,
+  [KeepaDomain.CA]: 0.12,
+  [KeepaDomain.CN]: 0.05,
+  [KeepaDomain.IT]: 0.2,
+  [KeepaDomain.ES]: 0.2,
+  [KeepaDomain.IN]: 0.15,
+  [KeepaDomain.MX]: 0.06,
+};
+
+function curveSales(rank: number): number {
+  if (rank <= BASE_CURVE[0][0]) return BASE_CURVE[0][1];
+  for (let i = 1; i < BASE_CURVE.length; i++) {
+    const [rankB, salesB] = BASE_CURVE[i];
+    if (rank <= rankB) {
+      const [rankA, salesA] = BASE_CURVE[i - 1];
+      const t = (Math.log(rank) - Math.log(rankA)) / (Math.log(rankB) - Math.log(rankA));
+      return Math.exp(Math.log(salesA) + t * (Math.log(salesB) - Math.log(salesA)));
+    }
+  }
+  const [lastRank, lastSales] = BASE_CURVE[BASE_CURVE.length - 1];
+  return lastSales * lastRank / rank;
+}
+
+export const rankCurveEstimator: SalesEstimator = {
+  method: 'rankCurve',
+  estimate: (product, context) => {
+    const stats = product.stats as any;
+    const rank = [stats?.avg30?.[KeepaDataType.SALES_RANK], stats?.current?.[KeepaDataType.SALES_RANK], (product as any).salesRank]
+      .find(value => typeof value === 'number' && value > 0);
+    if (rank === undefined) return null;
+
+    const category = detectFeeCategory([
+      ...(product.categoryTree ?? []).map(node => node.name),
+      product.productGroup,
+    ].filter((name): name is string => !!name));
+    const monthly = curveSales(rank) * CATEGORY_FACTORS[category] * (MARKETPLACE_FACTORS[context.domain] ?? 0.2);
+    return { monthly: Math.round(monthly), confidence: 'low' };
+  },
+};
+
+export const DEFAULT_SALES_ESTIMATORS: SalesEstimator[] = [monthlySoldEstimator, rankDropsEstimator, rankCurveEstimator];
+
+export function estimateSales(
+  product: KeepaProduct,
+  context: SalesEstimateContext,
+  estimators: SalesEstimator[] = DEFAULT_SALES_ESTIMATORS,
+): SalesEstimate {
+  for (const estimator of estimators) {
+    const estimate = estimator.estimate(product, context);
+    if (estimate) {
+      return {
+        ...estimate,
+        daily: Math.round(estimate.monthly / WINDOW_DAYS * 10) / 10,
+        method: estimator.method,
+      };
+    }
+  }
+  return { monthly: 0, daily: 0, method: 'none', confidence: 'none' };
+}
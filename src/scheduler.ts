@@ -0,0 +1,231 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { SchedulerStatus } from './types.js';
+
+// ─── Request priorities ─────────────────────────────────────────────────
+// Interactive lookups jump ahead of bulk analysis that fans out into many
+// Keepa requests. The priority travels with the async call chain, so tools
+// don't have to thread it through every KeepaClient method.
+
+export type RequestPriority = 'interactive' | 'normal' | 'bulk';
+
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+  interactive: 0,
+  normal: 1,
+  bulk: 2,
+};
+
+const priorityContext = new AsyncLocalStorage<RequestPriority>();
+
+export function runWithPriority<T>(priority: RequestPriority, fn: () => T): T {
+  return priorityContext.run(priority, fn);
+}
+
+export function currentPriority(): RequestPriority {
+  return priorityContext.getStore() ?? 'normal';
+}
+
+// ─── Request scopes ─────────────────────────────────────────────────────
+// A background job's cancellation and progress travel the same way: once
+// its signal aborts, requests it hasn't sent yet fail instead of waiting
+// for (and spending) tokens, and each request it completes can be counted.
+
+export interface RequestScope {
+  /** Aborting it fails the scope's requests that are still queued or not made yet */
+  signal?: AbortSignal;
+  /** Called after each of the scope's requests completes */
+  onRequestDone?: () => void;
+}
+
+const scopeContext = new AsyncLocalStorage<RequestScope>();
+
+export function runInScope<T>(scope: RequestScope, fn: () => T): T {
+  return scopeContext.run(scope, fn);
+}
+
+export function currentScope(): RequestScope {
+  return scopeContext.getStore() ?? {};
+}
+
+// ─── Token bucket ───────────────────────────────────────────────────────
+
+export interface TokenBalance {
+  tokensLeft: number;
+  /** Milliseconds until the next refill */
+  refillIn: number;
+  /** Tokens added every minute */
+  refillRate: number;
+}
+
+interface QueuedRequest {
+  cost: number;
+  priority: RequestPriority;
+  seq: number;
+  admit: () => void;
+}
+
+const REFILL_INTERVAL_MS = 60000;
+
+/** Tokens held for a dispatched request until Keepa reports the balance after it */
+interface Reservation {
+  cost: number;
+}
+
+/**
+ * Admits Keepa requests against the token balance reported by the last
+ * response. Requests that cost more than the estimated balance wait for the
+ * refill; higher priorities are admitted first, FIFO within a priority.
+ */
+export class TokenBucketScheduler {
+  private balance: (TokenBalance & { observedAt: number }) | null = null;
+  private reserved = 0;
+  private inFlight = 0;
+  private queue: QueuedRequest[] = [];
+  private seq = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private lastDispatch = 0;
+  // The response interceptor runs inside the request's call chain, so update() can tell whose cost it settles
+  private dispatched = new AsyncLocalStorage<Reservation>();
+
+  constructor(private minInterval: number = 0) {}
+
+  async run<T>(
+    cost: number,
+    task: () => Promise<T>,
+    priority: RequestPriority = currentPriority(),
+    scope: RequestScope = currentScope(),
+  ): Promise<T> {
+    const { signal } = scope;
+    signal?.throwIfAborted();
+    await new Promise<void>((resolve, reject) => {
+      const request: QueuedRequest = {
+        cost,
+        priority,
+        seq: this.seq++,
+        admit: () => {
+          signal?.removeEventListener('abort', abort);
+          resolve();
+        },
+      };
+      // Aborted while waiting for tokens: leave the queue without spending them
+      const abort = () => {
+        this.queue = this.queue.filter(queued => queued !== request);
+        reject(signal!.reason);
+        this.drain();
+      };
+      signal?.addEventListener('abort', abort, { once: true });
+      this.queue.push(request);
+      this.drain();
+    });
+
+    const reservation: Reservation = { cost };
+    try {
+      const result = await this.dispatched.run(reservation, task);
+      scope.onRequestDone?.();
+      return result;
+    } finally {
+      this.release(reservation);
+      this.inFlight--;
+      this.drain();
+    }
+  }
+
+  /** Records the balance Keepa reported (it already includes the cost of that request). */
+  update(balance: Partial<TokenBalance>): void {
+    if (typeof balance.tokensLeft !== 'number') return;
+    const reservation = this.dispatched.getStore();
+    if (reservation) this.release(reservation);
+    this.balance = {
+      tokensLeft: balance.tokensLeft,
+      refillIn: balance.refillIn ?? REFILL_INTERVAL_MS,
+      refillRate: balance.refillRate ?? this.balance?.refillRate ?? 0,
+      observedAt: Date.now(),
+    };
+    this.drain();
+  }
+
+  status(): SchedulerStatus {
+    return {
+      tokensAvailable: this.balance ? this.estimateTokens(Date.now()) : null,
+      refillRate: this.balance?.refillRate ?? null,
+      queued: this.queue.length,
+      inFlight: this.inFlight,
+    };
+  }
+
+  private release(reservation: Reservation): void {
+    this.reserved -= reservation.cost;
+    reservation.cost = 0;
+  }
+
+  private estimateTokens(now: number): number {
+    if (!this.balance) return Infinity;
+    const { tokensLeft, refillIn, refillRate, observedAt } = this.balance;
+    const elapsed = now - observedAt;
+    const refills = elapsed < refillIn ? 0 : 1 + Math.floor((elapsed - refillIn) / REFILL_INTERVAL_MS);
+    let tokens = tokensLeft + refills * refillRate;
+    // Keepa caps the bucket at one hour of refills
+    if (refillRate > 0) tokens = Math.min(tokens, refillRate * 60);
+    return tokens - this.reserved;
+  }
+
+  /** Milliseconds until the estimated balance reaches `needed` tokens. */
+  private waitFor(needed: number, now: number): number {
+    if (!this.balance || this.balance.refillRate <= 0) return REFILL_INTERVAL_MS;
+    const { refillIn, refillRate, observedAt } = this.balance;
+    const deficit = needed - this.estimateTokens(now);
+    const refills = Math.max(1, Math.ceil(deficit / refillRate));
+    const elapsed = now - observedAt;
+    const nextRefill = elapsed < refillIn
+      ? refillIn - elapsed
+      : REFILL_INTERVAL_MS - ((elapsed - refillIn) % REFILL_INTERVAL_MS);
+    return nextRefill + (refills - 1) * REFILL_INTERVAL_MS;
+  }
+
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    this.queue.sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.seq - b.seq);
+
+    while (this.queue.length > 0) {
+      const now = Date.now();
+
+      // Until Keepa reports a balance, send one request at a time
+      if (!this.balance && this.inFlight > 0) return;
+
+      const spacing = this.lastDispatch + this.minInterval - now;
+      if (spacing > 0) {
+        this.schedule(spacing);
+        return;
+      }
+
+      // Keepa accepts any request while the balance is positive, so a request
+      // larger than the whole bucket only needs the bucket to be full
+      const head = this.queue[0];
+      const capacity = this.balance && this.balance.refillRate > 0 ? this.balance.refillRate * 60 : Infinity;
+      const needed = Math.max(Math.min(head.cost, capacity), head.cost > 0 ? 1 : 0);
+      if (this.estimateTokens(now) < needed) {
+        // Requests already in flight will report a fresh balance; otherwise wait for the refill
+        if (this.inFlight === 0) this.schedule(this.waitFor(needed, now));
+        return;
+      }
+
+      this.queue.shift();
+      this.reserved += head.cost;
+      this.inFlight++;
+      this.lastDispatch = now;
+      head.admit();
+    }
+  }
+
+  private schedule(delay: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, delay);
+    // A queued request alone shouldn't keep the process alive
+    this.timer.unref();
+  }
+}
@@ -0,0 +1,332 @@
+import { TokenCostEstimate, TokenCostItem } from './types.js';
+
+// Keepa token prices per endpoint, as documented for each API request
+export const KEEPA_TOKEN_COSTS = {
+  product: 1,              // per ASIN
+  offersPage: 6,           // per page of up to 10 offers found
+  stock: 2,                // per ASIN, only together with offers
+  rating: 1,               // per ASIN, at most (only if the rating is outdated)
+  buybox: 2,               // per ASIN, ignored when offers is used
+  liveUpdate: 1,           // per ASIN when update=0 forces a refresh
+  seller: 1,               // per seller
+  storefront: 9,           // per seller
+  deal: 5,                 // per page of deals
+  lightningDeals: 500,     // per full list of a domain (1 for a single ASIN)
+  bestsellers: 50,         // per list
+  topseller: 50,           // per list of top sellers of a domain
+  category: 1,             // per request (up to 10 categories)
+  categorySearch: 1,       // per /search?type=category request
+  productSearch: 10,       // per /search?type=product page of up to 10 products
+  tracking: 1,             // per /tracking request, at most (add, get, list, remove, notifications)
+  finder: 10,              // per /query request
+  finderPer100Asins: 1,    // per 100 ASINs returned by /query
+  token: 0,
+} as const;
+
+export interface ProductCostOptions {
+  offers?: number;
+  stock?: boolean | number;
+  rating?: boolean | number;
+  buybox?: boolean | number;
+  update?: number;
+}
+
+// ── Request-level costs ──
+
+export function productRequestCost(asinCount: number, options: ProductCostOptions = {}): TokenCostItem {
+  const offerPages = options.offers ? Math.ceil(options.offers / 10) : 0;
+  let perProduct = KEEPA_TOKEN_COSTS.product + offerPages * KEEPA_TOKEN_COSTS.offersPage;
+  const extras: string[] = [];
+
+  if (offerPages > 0) extras.push(`${options.offers} offers`);
+  if (options.stock && offerPages > 0) {
+    perProduct += KEEPA_TOKEN_COSTS.stock;
+    extras.push('stock');
+  }
+  if (options.rating && offerPages === 0) {
+    perProduct += KEEPA_TOKEN_COSTS.rating;
+    extras.push('rating');
+  }
+  if (options.buybox && offerPages === 0) {
+    perProduct += KEEPA_TOKEN_COSTS.buybox;
+    extras.push('buybox');
+  }
+  if (options.update === 0) {
+    perProduct += KEEPA_TOKEN_COSTS.liveUpdate;
+    extras.push('live update');
+  }
+
+  return {
+    endpoint: '/product',
+    description: `${asinCount} product(s) × ${perProduct} token(s)${extras.length > 0 ? ` (${extras.join(', ')})` : ''}`,
+    requests: Math.ceil(asinCount / 100),
+    tokens: asinCount * perProduct,
+  };
+}
+
+export function sellerRequestCost(sellerCount: number, storefront = false): TokenCostItem {
+  const perSeller = KEEPA_TOKEN_COSTS.seller + (storefront ? KEEPA_TOKEN_COSTS.storefront : 0);
+  return {
+    endpoint: '/seller',
+    description: `${sellerCount} seller(s) × ${perSeller} token(s)${storefront ? ' (storefront)' : ''}`,
+    requests: Math.max(1, Math.ceil(sellerCount / 100)),
+    tokens: sellerCount * perSeller,
+  };
+}
+
+export function dealRequestCost(): TokenCostItem {
+  return { endpoint: '/deal', description: 'Deal page', requests: 1, tokens: KEEPA_TOKEN_COSTS.deal };
+}
+
+export function lightningDealsRequestCost(): TokenCostItem {
+  return { endpoint: '/lightningdeal', description: 'Lightning deals list', requests: 1, tokens: KEEPA_TOKEN_COSTS.lightningDeals };
+}
+
+export function bestSellersRequestCost(): TokenCostItem {
+  return { endpoint: '/bestsellers', description: 'Best sellers list', requests: 1, tokens: KEEPA_TOKEN_COSTS.bestsellers };
+}
+
+export function topSellersRequestCost(): TokenCostItem {
+  return { endpoint: '/topseller', description: 'Top sellers list', requests: 1, tokens: KEEPA_TOKEN_COSTS.topseller };
+}
+
+export function trackingRequestCost(description: string): TokenCostItem {
+  return { endpoint: '/tracking', description, requests: 1, tokens: KEEPA_TOKEN_COSTS.tracking };
+}
+
+export function categoryRequestCost(categoryCount = 1): TokenCostItem {
+  const requests = Math.max(1, Math.ceil(categoryCount / 10));
+  return {
+    endpoint: '/category',
+    description: `${categoryCount} category lookup(s)`,
+    requests,
+    tokens: requests * KEEPA_TOKEN_COSTS.category,
+  };
+}
+
+export function productSearchRequestCost(): TokenCostItem {
+  return { endpoint: '/search', description: 'Keyword search page of up to 10 products', requests: 1, tokens: KEEPA_TOKEN_COSTS.productSearch };
+}
+
+export function categorySearchRequestCost(): TokenCostItem {
+  return { endpoint: '/search', description: 'Category search', requests: 1, tokens: KEEPA_TOKEN_COSTS.categorySearch };
+}
+
+/** A category given by name is resolved through the category search first. */
+function categoryNameCost(categoryId: unknown): TokenCostItem[] {
+  return typeof categoryId === 'string' && !/^\s*\d+\s*$/.test(categoryId) ? [categorySearchRequestCost()] : [];
+}
+
+/** searchProducts() checks the category (root or subcategory) before the /query. */
+function finderCategoryCost(categoryId: unknown): TokenCostItem[] {
+  return categoryId !== undefined ? [...categoryNameCost(categoryId), categoryRequestCost()] : [];
+}
+
+/** Product Finder: the /query itself plus the /product call that hydrates every ASIN it returns. */
+export function finderRequestCost(perPage: number, productOptions: ProductCostOptions): TokenCostItem[] {
+  const asins = Math.min(perPage, 50); // Keepa limit enforced by searchProducts
+  return [
+    {
+      endpoint: '/query',
+      description: `Product Finder page of up to ${asins} ASINs`,
+      requests: 1,
+      tokens: KEEPA_TOKEN_COSTS.finder + Math.ceil(asins / 100) * KEEPA_TOKEN_COSTS.finderPer100Asins,
+    },
+    productRequestCost(asins, productOptions),
+  ];
+}
+
+function countSellers(seller: unknown): number {
+  return typeof seller === 'string' ? seller.split(',').filter(s => s.trim().length > 0).length : 1;
+}
+
+/** Expected cost of a single raw Keepa request, used by the scheduler to budget tokens. */
+export function estimateRequestCost(endpoint: string, params: Record<string, any> = {}): number {
+  switch (endpoint) {
+    case '/product': {
+      const ids = params.asin ?? params.code;
+      const count = typeof ids === 'string' ? ids.split(',').length : 1;
+      return productRequestCost(count, params).tokens;
+    }
+    case '/seller':
+      return sellerRequestCost(countSellers(params.seller), Boolean(params.storefront)).tokens;
+    case '/deal':
+      return KEEPA_TOKEN_COSTS.deal;
+    case '/bestsellers':
+      return KEEPA_TOKEN_COSTS.bestsellers;
+    case '/topseller':
+      return KEEPA_TOKEN_COSTS.topseller;
+    case '/lightningdeal':
+      return params.asin ? 1 : KEEPA_TOKEN_COSTS.lightningDeals;
+    case '/category':
+      return KEEPA_TOKEN_COSTS.category;
+    case '/search':
+      return params.type === 'category' ? KEEPA_TOKEN_COSTS.categorySearch : KEEPA_TOKEN_COSTS.productSearch;
+    case '/tracking':
+      return KEEPA_TOKEN_COSTS.tracking;
+    case '/query':
+      return finderRequestCost(params.perPage ?? 50, {})[0].tokens;
+    case '/token':
+      return KEEPA_TOKEN_COSTS.token;
+    default:
+      return 1;
+  }
+}
+
+// searchProducts() hydrates finder results with these options
+const FINDER_PRODUCT_OPTIONS: ProductCostOptions = { offers: 20, rating: true };
+
+// ── Tool-level estimates ──
+// Each estimator mirrors the Keepa calls the matching tool handler makes,
+// including the schema defaults, so it can be fed raw or parsed input.
+
+export type ToolCostEstimator = (params: Record<string, any>) => TokenCostItem[];
+
+const TOOL_COST_ESTIMATORS: Record<string, ToolCostEstimator> = {
+  keepa_product_lookup: params => [
+    productRequestCost(1, { offers: params.offers || 20, stock: true }),
+  ],
+  keepa_batch_product_lookup: params => [
+    productRequestCost(Array.isArray(params.asins) ? params.asins.length : 0),
+  ],
+  keepa_product_search: () => [productSearchRequestCost()],
+  keepa_search_deals: params => [...categoryNameCost(params.categoryId), dealRequestCost()],
+  keepa_lightning_deals: params => [...categoryNameCost(params.categoryId), lightningDealsRequestCost()],
+  keepa_seller_lookup: params => [
+    sellerRequestCost(countSellers(params.seller), Boolean(params.storefront)),
+  ],
+  keepa_top_sellers: params => [topSellersRequestCost(), sellerRequestCost(params.limit ?? 25)],
+  keepa_best_sellers: params => [...categoryNameCost(params.category), bestSellersRequestCost()],
+  keepa_price_history: params => [
+    // As a chart, the Buy Box history comes from buybox=1 instead of the offers
+    productRequestCost(1, params.chart
+      ? { buybox: params.dataType === 18 || (params.dataType === undefined && Boolean(params.includeOffers)) }
+      : params.includeOffers ? { offers: 20 } : {}),
+  ],
+  keepa_price_chart: params => [
+    productRequestCost(1, { buybox: (params.series ?? []).includes('buyBox') }),
+  ],
+  keepa_product_finder: params => [
+    ...finderCategoryCost(params.categoryId),
+    ...finderRequestCost(params.perPage ?? 25, FINDER_PRODUCT_OPTIONS),
+  ],
+  keepa_category_analysis: params => {
+    const category = finderCategoryCost(params.categoryId);
+    switch (params.analysisType ?? 'overview') {
+      case 'top_performers':
+        return [...category, ...finderRequestCost(10, FINDER_PRODUCT_OPTIONS)];
+      case 'opportunities':
+        return [...category, ...finderRequestCost(15, FINDER_PRODUCT_OPTIONS)];
+      case 'trends':
+        return [...category, ...finderRequestCost(20, FINDER_PRODUCT_OPTIONS)];
+      default:
+        return [...category, bestSellersRequestCost(), ...finderRequestCost(20, FINDER_PRODUCT_OPTIONS)];
+    }
+  },
+  keepa_category_lookup: params => [
+    ...categoryNameCost(params.categoryId),
+    categoryRequestCost(),
+    // Children names: one more request per 10 subcategories, count unknown up front
+    ...((params.includeChildren ?? true) ? [{ ...categoryRequestCost(10), description: 'Subcategory names (per 10 subcategories)' }] : []),
+  ],
+  keepa_category_search: () => [categorySearchRequestCost()],
+  // Fee tables are local; only the ASIN lookup costs tokens
+  keepa_profit_calculator: params => params.asin ? [productRequestCost(1)] : [],
+  keepa_buybox_analysis: params => [
+    productRequestCost(1, { buybox: true }),
+    ...(params.resolveNames === false ? [] : [sellerRequestCost(params.limit ?? 10)]),
+  ],
+  keepa_marketplace_compare: params => {
+    const domains = new Set([...(params.domains ?? [3, 4, 8, 9]), ...(params.buyDomain ? [params.buyDomain] : [])]);
+    return [productRequestCost(domains.size)];
+  },
+  keepa_product_changes: params => {
+    const count = new Set([params.asin, ...(params.asins ?? [])].filter(Boolean)).size;
+    return [productRequestCost(count, params.includeOffers ? { offers: 20 } : { buybox: true })];
+  },
+  keepa_sales_velocity: params => {
+    if (params.asin) return [productRequestCost(1, { rating: true })];
+    if (Array.isArray(params.asins) && params.asins.length > 0) {
+      return [productRequestCost(params.asins.length, { rating: true })];
+    }
+    return [...finderCategoryCost(params.categoryId), ...finderRequestCost(params.perPage ?? 25, FINDER_PRODUCT_OPTIONS)];
+  },
+  keepa_inventory_analysis: params => {
+    if (Array.isArray(params.asins) && params.asins.length > 0) {
+      return [productRequestCost(params.asins.length, { rating: true })];
+    }
+    return [...finderCategoryCost(params.categoryId), ...finderRequestCost(50, FINDER_PRODUCT_OPTIONS)];
+  },
+  keepa_tracking_add: () => [trackingRequestCost('Add tracking')],
+  keepa_tracking_list: () => [trackingRequestCost('List trackings')],
+  keepa_tracking_remove: params => [trackingRequestCost(params.all ? 'Remove all trackings' : 'Remove tracking')],
+  keepa_notifications: () => [trackingRequestCost('Notifications')],
+  // Watchlists live in the local store; snapshots are estimated per list by their tool
+  keepa_watchlist_create: () => [],
+  keepa_watchlist_add: () => [],
+  keepa_watchlist_remove: () => [],
+  keepa_watchlist_list: () => [],
+  keepa_alerts: () => [],
+  keepa_token_status: () => [
+    { endpoint: '/token', description: 'Token status', requests: 1, tokens: KEEPA_TOKEN_COSTS.token },
+  ],
+};
+
+export function estimateToolCost(toolName: string, params: Record<string, any> = {}): TokenCostEstimate {
+  const estimator = TOOL_COST_ESTIMATORS[toolName];
+  if (!estimator) {
+    throw new Error(`Unknown tool: ${toolName}`);
+  }
+  return buildCostEstimate(toolName, estimator(params));
+}
+
+/** Wraps a per-request breakdown into the dry run answer, with notes on what can make it cheaper. */
+export function buildCostEstimate(toolName: string, breakdown: TokenCostItem[]): TokenCostEstimate {
+  const notes: string[] = [];
+  if (breakdown.some(item => item.description.includes('offers'))) {
+    notes.push('Offer pages are only charged when Keepa finds offers on them; the estimate assumes every page is full.');
+  }
+  if (breakdown.some(item => item.endpoint === '/product')) {
+    notes.push('Products served from the response cache cost no tokens.');
+  }
+  if (breakdown.some(item => item.endpoint === '/lightningdeal')) {
+    notes.push('The lightning deals list is cached for 10 minutes; filtering it again costs no tokens.');
+  }
+  if (breakdown.some(item => item.endpoint === '/topseller')) {
+    notes.push('The top sellers list is cached for a day, and sellers already looked up cost no tokens.');
+  }
+  if (breakdown.some(item => item.endpoint === '/category' || item.endpoint === '/search')) {
+    notes.push('Category lookups and searches are cached for a day and then cost no tokens.');
+  }
+
+  return {
+    tool: toolName,
+    dryRun: true,
+    estimatedTokens: breakdown.reduce((sum, item) => sum + item.tokens, 0),
+    breakdown,
+    notes,
+  };
+}
+
+export function formatCostEstimate(estimate: TokenCostEstimate): string {
+  let result = `**🧮 Token Cost Estimate (dry run)**\n\n`;
+  result += `🔧 **Tool**: ${estimate.tool}\n`;
+  result += `🪙 **Estimated Tokens**: ~${estimate.estimatedTokens}\n\n`;
+
+  if (estimate.breakdown.length > 0) {
+    result += `**📋 Breakdown:**\n`;
+    for (const item of estimate.breakdown) {
+      result += `• \`${item.endpoint}\` — ${item.description}: ${item.tokens} token(s)\n`;
+    }
+  }
+
+  if (estimate.notes.length > 0) {
+    result += `\n**💡 Notes:**\n`;
+    for (const note of estimate.notes) {
+      result += `• ${note}\n`;
+    }
+  }
+
+  result += `\nℹ️ No Keepa request was made.\n`;
+  return result;
+}
@@ -3,6 +3,327 @@ export interface KeepaConfig {
   baseUrl?: string;
   timeout?: number;
   rateLimitDelay?: number;
+  cache?: CacheConfig;
+  retry?: Partial<RetryPolicy>;
+}
+
+export interface RetryPolicy {
+  /** Total attempts per request, including the first one */
+  maxAttempts: number;
+  /** First backoff delay; doubles on every attempt */
+  baseDelayMs: number;
+  /** Upper bound for a single wait; a longer `refillIn` gives up with TokenExhaustedError */
+  maxDelayMs: number;
+  /** Fraction of each backoff delay that is randomized (0 = none, 1 = full jitter) */
+  jitter: number;
+}
+
+// ─── Response cache ─────────────────────────────────────────────────────
+
+export type CacheableEndpoint = 'product' | 'seller' | 'bestsellers' | 'category' | 'lightningdeal' | 'topseller';
+
+export interface CacheEntry {
+  /** Raw Keepa payload: a single product, seller or category, or a best sellers / lightning deals list */
+  payload: unknown;
+  /** Normalized query options the payload was fetched with */
+  options: Record<string, unknown>;
+  /** Unix ms when the payload was fetched from Keepa */
+  fetchedAt: number;
+  /** Unix ms after which the entry must not be served */
+  expiresAt: number;
+}
+
+/** Storage backend for the response cache. Implement this to plug in Redis, a file, etc. */
+export interface CacheStore {
+  readonly name: string;
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  size(): Promise<number>;
+}
+
+export interface CacheConfig {
+  /** Built-in backend, ignored when `store` is given (default: 'memory') */
+  backend?: 'memory' | 'sqlite' | 'none';
+  /** Custom store implementation */
+  store?: CacheStore;
+  /** SQLite database file (backend 'sqlite') */
+  file?: string;
+  /** Maximum entries kept by the in-memory LRU */
+  maxEntries?: number;
+  /** Time to live in seconds, per endpoint */
+  ttl?: Partial<Record<CacheableEndpoint, number>>;
+}
+
+export interface CacheStats {
+  backend: string;
+  enabled: boolean;
+  hits: number;
+  misses: number;
+  /** Hits / (hits + misses), null before the first lookup */
+  hitRate: number | null;
+  entries: number;
+}
+
+// ─── Watchlists ─────────────────────────────────────────────────────────
+
+export interface Watchlist {
+  /** Slug of the name, unique */
+  id: string;
+  name: string;
+  domain: number;
+  asins: string[];
+  /** Cron expression (UTC) for scheduled snapshots in HTTP mode; null = manual only */
+  schedule: string | null;
+  createdAt: string;
+  updatedAt: string;
+  lastSnapshotAt: string | null;
+}
+
+/** One ASIN in a snapshot; prices in cents, null = no data */
+export interface WatchlistSnapshotItem {
+  asin: string;
+  /** Kept to spot listing edits; missing in snapshots stored before they were recorded */
+  title?: string | null;
+  brand?: string | null;
+  buyBox: number | null;
+  buyBoxSellerId: string | null;
+  amazon: number | null;
+  /** New offer count */
+  sellers: number | null;
+  salesRank: number | null;
+  inStock: boolean;
+  /** Units in stock of the Buy Box offer, when Keepa reports it */
+  stock: number | null;
+  /** Sellers with a live new-condition offer; missing in snapshots stored before they were recorded */
+  sellerIds?: string[] | null;
+}
+
+export interface WatchlistSnapshot {
+  watchlistId: string;
+  takenAt: string;
+  trigger: 'manual' | 'schedule';
+  items: WatchlistSnapshotItem[];
+  /** ASINs Keepa returned no product for */
+  missing: string[];
+}
+
+export interface WatchlistStore {
+  readonly name: string;
+  listWatchlists(): Promise<Watchlist[]>;
+  getWatchlist(id: string): Promise<Watchlist | undefined>;
+  saveWatchlist(watchlist: Watchlist): Promise<void>;
+  /** Deletes the watchlist and its snapshots */
+  deleteWatchlist(id: string): Promise<void>;
+  addSnapshot(snapshot: WatchlistSnapshot): Promise<void>;
+  /** Newest first */
+  getSnapshots(watchlistId: string, limit?: number): Promise<WatchlistSnapshot[]>;
+}
+
+export interface WatchlistConfig {
+  /** Built-in backend, ignored when `store` is given (default: 'json') */
+  backend?: 'json' | 'sqlite' | 'memory';
+  store?: WatchlistStore;
+  /** JSON or SQLite file */
+  file?: string;
+  /** Snapshots kept per watchlist, oldest dropped first */
+  maxSnapshots?: number;
+}
+
+// ─── Alerts ─────────────────────────────────────────────────────────────
+
+export const ALERT_CONDITIONS = ['buybox_below', 'amazon_offer', 'stock_below', 'new_seller', 'rank_below'] as const;
+
+export type AlertConditionType = typeof ALERT_CONDITIONS[number];
+
+export interface AlertCondition {
+  type: AlertConditionType;
+  /** Cents for buybox_below, units for stock_below, rank for rank_below; unused otherwise */
+  value: number | null;
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  /** Watchlist whose snapshots the rule is checked against */
+  watchlistId: string;
+  /** Only these ASINs; empty = every ASIN of the watchlist */
+  asins: string[];
+  condition: AlertCondition;
+  webhookUrl: string;
+  enabled: boolean;
+  createdAt: string;
+  lastTriggeredAt: string | null;
+}
+
+/** Webhook body */
+export interface AlertEvent {
+  /** Unique per event, also sent as X-Keepa-Delivery: use it to drop duplicates of a retried delivery */
+  id: string;
+  type: 'alert.triggered' | 'alert.test';
+  createdAt: string;
+  rule: { id: string; name: string; condition: AlertCondition };
+  watchlistId: string;
+  domain: number;
+  asin: string;
+  message: string;
+  item: WatchlistSnapshotItem | null;
+  previous: WatchlistSnapshotItem | null;
+}
+
+export interface WebhookDeliveryResult {
+  eventId: string;
+  url: string;
+  delivered: boolean;
+  attempts: number;
+  /** Last HTTP status, null when no response came back */
+  status: number | null;
+  error: string | null;
+}
+
+export interface AlertDeadLetter {
+  event: AlertEvent;
+  delivery: WebhookDeliveryResult;
+  failedAt: string;
+}
+
+export interface AlertStore {
+  readonly name: string;
+  listRules(): Promise<AlertRule[]>;
+  getRule(id: string): Promise<AlertRule | undefined>;
+  saveRule(rule: AlertRule): Promise<void>;
+  deleteRule(id: string): Promise<void>;
+  addDeadLetter(deadLetter: AlertDeadLetter): Promise<void>;
+  /** Newest first */
+  getDeadLetters(limit?: number): Promise<AlertDeadLetter[]>;
+}
+
+// ─── Bulk lookups ───────────────────────────────────────────────────────
+
+/** Columns of a bulk lookup export, in the order they can be requested */
+export const BULK_COLUMNS = [
+  'input', 'asin', 'title', 'brand', 'buyBoxPrice', 'amazonPrice', 'newPrice', 'avg90', 'salesRank', 'monthlySold',
+  'offers', 'fbaOffers', 'fbmOffers', 'stock', 'referralFeePercent', 'referralFee', 'fbaFee', 'currency',
+] as const;
+
+export type BulkColumn = typeof BULK_COLUMNS[number];
+
+export type BulkIdType = 'asin' | 'code';
+
+export interface BulkIdentifier {
+  /** Normalised ASIN, or EAN/UPC digits */
+  value: string;
+  type: BulkIdType;
+  /** Line of the first occurrence in the file (1-based, header included) */
+  row: number;
+}
+
+export interface BulkInput {
+  /** Header of the identifier column, or "column N" without a header row */
+  column: string;
+  /** Unique identifiers, in file order */
+  identifiers: BulkIdentifier[];
+  duplicates: number;
+  /** Non-empty cells that are neither an ASIN nor a valid EAN/UPC */
+  invalid: Array<{ row: number; value: string }>;
+}
+
+export interface BulkProgress {
+  /** Identifiers looked up so far */
+  processed: number;
+  total: number;
+  found: number;
+}
+
+// ─── Jobs ───────────────────────────────────────────────────────────────
+
+export const JOB_STATUSES = ['queued', 'running', 'succeeded', 'failed', 'cancelled'] as const;
+
+export type JobStatus = typeof JOB_STATUSES[number];
+
+/** A tool call run in the background (POST /jobs) */
+export interface Job {
+  id: string;
+  tool: string;
+  input: Record<string, any>;
+  status: JobStatus;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  /** Latest progress reported by the tool; null for tools that report none */
+  progress: { progress: number; total: number | null; message: string | null } | null;
+  /** What POST /tool would have returned, once the job succeeded */
+  result: string | StructuredToolResult | null;
+  error: { code: string; message: string } | null;
+}
+
+export interface JobStore {
+  readonly name: string;
+  /** Newest first */
+  list(): Promise<Job[]>;
+  get(id: string): Promise<Job | undefined>;
+  save(job: Job): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+// ─── Product changes ────────────────────────────────────────────────────
+
+/** The fields compared between two points in time; prices in cents, null = no offer / no data */
+export interface ProductState {
+  asin: string;
+  /** ISO time the state refers to */
+  at: string;
+  /** Where the state came from: a fresh fetch, Keepa's history or a stored watchlist snapshot */
+  source: 'current' | 'history' | 'snapshot';
+  /** Not in Keepa's history: null for reconstructed states */
+  title: string | null;
+  brand: string | null;
+  buyBox: number | null;
+  buyBoxSellerId: string | null;
+  amazon: number | null;
+  /** New offer count */
+  sellers: number | null;
+  /** Sellers with a new offer; null when offers were not fetched */
+  sellerIds: string[] | null;
+  salesRank: number | null;
+}
+
+export type ProductChangeType =
+  | 'new_seller'
+  | 'seller_left'
+  | 'offer_count'
+  | 'buybox_owner'
+  | 'price_drop'
+  | 'amazon_entered'
+  | 'amazon_left'
+  | 'rank_spike'
+  | 'title'
+  | 'brand';
+
+export interface ProductChange {
+  asin: string;
+  type: ProductChangeType;
+  /** ProductState field that changed */
+  field: keyof ProductState;
+  before: string | number | null;
+  after: string | number | null;
+  /** Relative change of prices and sales rank, in % (negative = lower) */
+  changePercent: number | null;
+  /** Times of the two states compared: the change happened in between */
+  from: string;
+  to: string;
+}
+
+// ─── Request scheduler ──────────────────────────────────────────────────
+
+export interface SchedulerStatus {
+  /** Estimated live balance, null until Keepa has reported one */
+  tokensAvailable: number | null;
+  /** Tokens refilled per minute */
+  refillRate: number | null;
+  queued: number;
+  inFlight: number;
 }
 
 export interface KeepaProduct {
@@ -33,17 +354,34 @@ export interface KeepaProduct {
   parent?: string;
   variations?: string[];
   frequentlyBoughtTogether?: string[];
-  buyBoxSellerIdHistory?: number[][];
+  /** [keepaTime, sellerId, ...] with buybox=1; "-1" = Buy Box suppressed, "-2" = no offer */
+  buyBoxSellerIdHistory?: string[];
   isRedirectASIN?: boolean;
   isSNS?: boolean;
+  /** Product codes, filled on code lookups and with product_codes=1 */
+  eanList?: string[];
+  upcList?: string[];
   offerId?: number;
   oneHourOfferCount?: number;
   type?: string;
   hazardousMaterialType?: number;
   availabilityAmazon?: number;
+  /** Amazon's "bought in past month" count; missing when Amazon shows none */
+  monthlySold?: number;
+  /** Referral fee in % of the sale price, as Keepa reports it */
+  referralFeePercentage?: number;
+  fbaFees?: KeepaFbaFees;
   csv?: number[][];
 }
 
+/** FBA fees Keepa has seen for the product, in cents */
+export interface KeepaFbaFees {
+  pickAndPackFee?: number;
+  storageFee?: number;
+  storageFeeTax?: number;
+  lastUpdate?: number;
+}
+
 export interface KeepaOffer {
   offerId: number;
   lastSeen: number;
@@ -55,7 +393,7 @@ export interface KeepaOffer {
   isAmazon: boolean;
   isBuyBoxWinner: boolean;
   isUsed: boolean;
-  offerCSV?: string;
+  offerCSV?: number[]; // [keepaTime, price, shipping, ...] — decode with decodeOfferCsv
   primeExclusive: boolean;
   isWarehouseDeal: boolean;
   isScam: boolean;
@@ -66,6 +404,16 @@ export interface KeepaOffer {
   maxOrderQuantity?: number;
 }
 
+/** One seller's Buy Box share in KeepaStats.buyBoxStats, keyed by seller ID */
+export interface KeepaBuyBoxSellerStats {
+  /** % of the stats interval the seller held the Buy Box */
+  percentageWon: number;
+  avgPrice: number;
+  isFBA: boolean;
+  /** Keepa time (minutes) the seller last held the Buy Box */
+  lastSeen: number;
+}
+
 export interface KeepaStats {
   current: number[];
   avg: number[];
@@ -112,13 +460,13 @@ export interface KeepaStats {
   buyBoxIsPrimeEligible?: boolean;
   buyBoxIsPrimePantry?: boolean;
   buyBoxCondition?: number;
-  buyBoxStats?: Record<string, any>;
+  buyBoxStats?: Record<string, KeepaBuyBoxSellerStats>;
   buyBoxUsedPrice?: number;
   buyBoxUsedShipping?: number;
   buyBoxUsedSellerId?: string;
   buyBoxUsedIsFBA?: boolean;
   buyBoxUsedCondition?: number;
-  buyBoxUsedStats?: Record<string, any>;
+  buyBoxUsedStats?: Record<string, KeepaBuyBoxSellerStats>;
   retrievedOfferCount?: number;
   isAddonItem?: boolean;
   sellerIdsLowestFBA?: string[];
@@ -141,6 +489,21 @@ export interface KeepaCategory {
   parent?: number;
 }
 
+// Category object returned by the /category endpoint (children are IDs, not objects)
+export interface KeepaCategoryNode {
+  domainId: number;
+  catId: number;
+  name: string;
+  contextFreeName?: string;
+  children?: number[] | null;
+  /** 0 for root categories */
+  parent: number;
+  highestRank?: number;
+  lowestRank?: number;
+  productCount?: number;
+  isBrowseNode?: boolean;
+}
+
 export interface KeepaDeal {
   asin: string;
   title: string;
@@ -166,6 +529,36 @@ export interface KeepaDeal {
   warehouseConditionComment?: string;
 }
 
+export type LightningDealState = 'AVAILABLE' | 'UPCOMING' | 'WAITLIST' | 'SOLDOUT' | 'WAITLISTFULL' | 'EXPIRED' | 'SUPPRESSED';
+
+// Lightning deal object returned by the /lightningdeal endpoint
+export interface KeepaLightningDeal {
+  domainId: number;
+  asin: string;
+  dealId: string;
+  title: string;
+  image?: string;
+  sellerName?: string;
+  sellerId?: string;
+  /** Prices in cents */
+  dealPrice: number;
+  currentPrice: number;
+  dealState: LightningDealState;
+  /** Keepa time minutes */
+  startTime: number;
+  endTime: number;
+  lastUpdate?: number;
+  percentClaimed: number;
+  isPrimeEligible?: boolean;
+  isPrimeExclusive?: boolean;
+  isFulfilledByAmazon?: boolean;
+  /** 0-50 scale like the csv rating */
+  rating?: number;
+  totalReviews?: number;
+  rootCat?: number;
+  categories?: number[];
+}
+
 export interface KeepaSeller {
   // Identity
   domainId: number;
@@ -252,6 +645,10 @@ export interface KeepaBestSeller {
 export interface KeepaApiResponse<T> {
   timestamp: number;
   tokensLeft: number;
+  /** Milliseconds until the next token refill */
+  refillIn: number;
+  /** Tokens added per minute */
+  refillRate: number;
   tokensConsumed: number;
   processingTimeInMs: number;
   version: string;
@@ -263,11 +660,12 @@ export interface KeepaApiResponse<T> {
 export interface KeepaQueryResponse extends KeepaApiResponse<null> {
   asinList: string[];
   totalResults: number;
-  refillIn?: number;
-  refillRate?: number;
   tokenFlowReduction?: number;
 }
 
+/** Keepa's on/off parameters; the API documents them as 0/1 */
+export type KeepaFlag = boolean | 0 | 1;
+
 export interface ProductQueryParams {
   asin?: string;
   asins?: string[];
@@ -277,22 +675,22 @@ export interface ProductQueryParams {
   startdate?: number;
   enddate?: number;
   update?: number;
-  history?: boolean;
-  rating?: boolean;
+  history?: KeepaFlag;
+  rating?: KeepaFlag;
   offers?: number;
-  buybox?: boolean;
-  fbafees?: boolean;
-  variations?: boolean;
-  onlylivefbafees?: boolean;
-  categories?: boolean;
+  buybox?: KeepaFlag;
+  fbafees?: KeepaFlag;
+  variations?: KeepaFlag;
+  onlylivefbafees?: KeepaFlag;
+  categories?: KeepaFlag;
   update_ver?: number;
-  stock?: boolean;
+  stock?: KeepaFlag;
   product_codes?: number;
-  promotions?: boolean;
-  coupon_history?: boolean;
-  lightning_deals?: boolean;
+  promotions?: KeepaFlag;
+  coupon_history?: KeepaFlag;
+  lightning_deals?: KeepaFlag;
   stats?: number; // Statistics data (1 = enable, provides FREE sales velocity and inventory analytics)
-  'only-live-offers'?: boolean;  // FREE: solo ofertas actuales (reduce respuesta)
+  'only-live-offers'?: KeepaFlag;  // FREE: solo ofertas actuales (reduce respuesta)
 }
 
 export interface DealQueryParams {
@@ -316,6 +714,40 @@ export interface SellerQueryParams {
   update?: number;
 }
 
+export interface TopSellerQueryParams {
+  domain: number;
+}
+
+export interface LightningDealQueryParams {
+  domain: number;
+  /** A single deal (1 token) instead of the whole list (500 tokens) */
+  asin?: string;
+}
+
+export interface CategoryQueryParams {
+  domain: number;
+  /** Category ID(s), or 0 for all root categories */
+  category: number | number[];
+  /** Include the parent tree of each category */
+  parents?: boolean;
+}
+
+export interface CategorySearchParams {
+  domain: number;
+  /** Space-separated keywords (at least 3 characters each); all must match the category name */
+  term: string;
+}
+
+export interface ProductSearchParams {
+  domain: number;
+  /** Keywords, as typed in the Amazon search box */
+  term: string;
+  /** Result page, 0-9 (up to 10 products per page) */
+  page?: number;
+  /** Include the statistics object (current price, sales rank, averages) */
+  stats?: boolean;
+}
+
 export interface BestSellerQueryParams {
   domain: number;
   category: number;
@@ -420,6 +852,9 @@ export interface SalesVelocityData {
     monthly: number;
     trend: 'Accelerating' | 'Stable' | 'Declining';
     changePercent: number;
+    /** Source of the figures: monthlySold, rankDrops, rankCurve or none (see sales-estimator.ts) */
+    method: string;
+    confidence: 'high' | 'medium' | 'low' | 'none';
   };
   inventoryMetrics: {
     turnoverRate: number; // times per month
@@ -456,6 +891,729 @@ export interface InventoryAnalysis {
   recommendations: string[];
 }
 
+// ─── Structured tool output (outputFormat: 'json') ──────────────────────
+// Conventions shared by every result below:
+//   • Prices and fees are integers in cents of the marketplace currency
+//   • Dates are ISO-8601 strings (converted from Keepa Time minutes)
+//   • Missing / not-applicable values are null, never -1
+
+export type OutputFormat = 'markdown' | 'json';
+
+export interface DatedValue {
+  value: number;
+  date: string | null;
+}
+
+/** Returned in place of a result when the product or category asked for does not exist */
+export interface NotFoundResult {
+  error: { code: 'NOT_FOUND'; message: string };
+}
+
+export interface ProductLookupResult {
+  asin: string;
+  domain: number;
+  marketplace: string;
+  title: string | null;
+  brand: string | null;
+  productGroup: string | null;
+  parentAsin: string | null;
+  imageUrl: string | null;
+  prices: {
+    buyBox: number | null;
+    buyBoxShipping: number | null;
+    buyBoxUsed: number | null;
+    amazon: number | null;
+    avg30: number | null;
+    avg90: number | null;
+    avg180: number | null;
+    min90: DatedValue | null;
+    max90: DatedValue | null;
+    savingBasis: number | null;
+    savingBasisType: string | null;
+    savingPercentage: number | null;
+  };
+  buyBox: {
+    condition: number | null; // 1=new, 2-5=used grades
+    isAmazon: boolean;
+    isFBA: boolean;
+    isPrimeEligible: boolean;
+    isUnqualified: boolean;
+    availabilityMessage: string | null;
+    shippingCountry: string | null;
+    minOrderQuantity: number | null;
+    maxOrderQuantity: number | null;
+  } | null;
+  stock: { buyBox: number | null; amazon: number | null } | null;
+  salesRank: { current: number | null; drops30: number | null; drops90: number | null } | null;
+  monthlySold: number | null;
+  reviews: { rating: number | null; count: number | null } | null; // rating on a 0-5 scale
+  competition: {
+    totalOffers: number | null;
+    fbaOffers: number | null;
+    fbmOffers: number | null;
+    amazonSells: boolean;
+    lowestFbaSellerId: string | null;
+  } | null;
+  outOfStock90: { amazon: number | null; marketplace: number | null } | null; // percentages
+  buyBoxShare: Array<{ sellerId: string; percentageWon: number | null; isFBA: boolean }>;
+  fees: {
+    referralFeePercentage: number | null;
+    fbaPickAndPackFee: number | null;
+    competitivePriceThreshold: number | null;
+    suggestedLowerPrice: number | null;
+  } | null;
+}
+
+export interface ProductSummary {
+  asin: string;
+  title: string | null;
+  brand: string | null;
+  price: number | null; // current Amazon price
+  salesRank: number | null;
+}
+
+export interface BatchProductLookupResult {
+  domain: number;
+  marketplace: string;
+  requested: number;
+  found: number;
+  products: ProductSummary[];
+  notFound: string[];
+}
+
+export interface ProductSearchResult {
+  domain: number;
+  marketplace: string;
+  term: string;
+  page: number;
+  /** False once Keepa returns a short page or the last page (9) is reached */
+  hasMore: boolean;
+  products: ProductSummary[];
+}
+
+export interface DealSearchResult {
+  domain: number;
+  marketplace: string;
+  deals: Array<{
+    asin: string;
+    title: string | null;
+    brand: string | null;
+    price: number | null;
+    shipping: number | null;
+    discountPercent: number | null;
+    priceDrop: number | null;
+    avgPrice: number | null;
+    dealScore: number | null;
+    salesRank: number | null;
+    isLightningDeal: boolean;
+    isPrimeExclusive: boolean;
+    couponPercent: number | null;
+  }>;
+}
+
+export interface SellerSummary {
+  sellerId: string;
+  name: string | null;
+  businessName: string | null;
+  address: string[];
+  vatId: string | null;
+  phoneNumber: string | null;
+  email: string | null;
+  businessType: string | null;
+  hasFBA: boolean;
+  trackingSince: string | null;
+  rating: number | null; // % positive
+  ratingCount: number | null;
+  positiveRatings: number | null;
+  neutralRatings: number | null;
+  negativeRatings: number | null;
+  buyBoxNewOwnershipRate: number | null;
+  buyBoxUsedOwnershipRate: number | null;
+  avgBuyBoxCompetitors: number | null;
+  totalStorefrontAsins: number | null;
+  topBrands: Array<{ brand: string; productCount: number; avg30SalesRank: number | null; productCountWithAmazonOffer: number }>;
+  topCategories: Array<{ catId: number; productCount: number; avg30SalesRank: number | null; productCountWithAmazonOffer: number }>;
+  competitors: Array<{ sellerId: string; percent: number }>;
+  recentFeedback: Array<{ date: string | null; rating: number; feedback: string; isStriked: boolean }>;
+  storefront: Array<{ asin: string; lastSeen: string | null }> | null;
+}
+
+export interface LightningDealsResult {
+  domain: number;
+  marketplace: string;
+  state: 'upcoming' | 'available' | 'expired';
+  /** Deals matching the filters, before the limit */
+  totalMatching: number;
+  deals: Array<{
+    asin: string;
+    dealId: string;
+    title: string | null;
+    state: LightningDealState;
+    dealPrice: number | null;
+    currentPrice: number | null;
+    discountPercent: number | null;
+    percentClaimed: number;
+    startsAt: string | null;
+    endsAt: string | null;
+    /** Until the start (upcoming), until the end (available) or since the end (expired) */
+    minutes: number | null;
+    isPrimeExclusive: boolean;
+    sellerName: string | null;
+  }>;
+}
+
+export interface SellerLookupResult {
+  domain: number;
+  marketplace: string;
+  sellers: SellerSummary[];
+  notFound: string[];
+}
+
+export interface TopSellersResult {
+  domain: number;
+  marketplace: string;
+  /** Length of Keepa's ranked list for the marketplace */
+  totalListed: number;
+  offset: number;
+  sellers: Array<{
+    rank: number;
+    sellerId: string;
+    name: string | null;
+    rating: number | null; // % positive
+    ratingCount: number | null;
+    hasFBA: boolean | null;
+  }>;
+}
+
+export interface BestSellersResult {
+  domain: number;
+  marketplace: string;
+  category: number;
+  page: number;
+  products: Array<{
+    rank: number;
+    asin: string;
+    title: string | null;
+    salesRank: number | null;
+    price: number | null;
+    rating: number | null;
+    reviewCount: number | null;
+    isPrime: boolean;
+  }>;
+}
+
+export interface PriceHistorySeries {
+  dataType: number;
+  name: string;
+  isPrice: boolean;
+  stats: { avg90: number | null; min: DatedValue | null; max: DatedValue | null } | null;
+  trend: { first: number; last: number; changePercent: number } | null;
+  /** Every change, or one point per bucket when resampled; null values are gaps (out of stock / no data) */
+  points: Array<{ date: string; value: number | null; price?: number | null; shipping?: number | null }>;
+}
+
+export interface PriceHistoryResult {
+  asin: string;
+  domain: number;
+  marketplace: string;
+  title: string | null;
+  currentPrice: number | null;
+  days: number;
+  interval: 'changes' | 'daily' | 'weekly';
+  series: PriceHistorySeries[];
+  outOfStock90: { amazon: number | null; marketplace: number | null } | null;
+}
+
+export interface PriceChartResult {
+  asin: string;
+  domain: number;
+  marketplace: string;
+  title: string | null;
+  days: number;
+  format: 'svg' | 'png';
+  mimeType: 'image/svg+xml' | 'image/png';
+  width: number;
+  height: number;
+  /** Series drawn, i.e. requested ones with at least one value in the period */
+  series: Array<{ key: string; label: string; points: number; latest: number | null }>;
+  /** Base64-encoded image */
+  image: string;
+}
+
+export interface ProfitScenario {
+  label: 'buyBox' | 'avg90' | 'target';
+  price: number;
+  referralFee: number;
+  closingFee: number;
+  fulfillmentFee: number;
+  vat: number;
+  otherCosts: number;
+  netProceeds: number;
+  netProfit: number;
+  /** % of the price */
+  margin: number;
+  /** % of cost price + other costs */
+  roi: number | null;
+}
+
+export interface ProfitCalculatorResult {
+  asin: string | null;
+  domain: number;
+  marketplace: string;
+  title: string | null;
+  feeCategory: string;
+  referralPercent: number;
+  referralSource: 'keepa' | 'table';
+  fulfillment: 'fba' | 'fbm';
+  fulfillmentSource: 'keepa' | 'table' | 'input' | null;
+  sizeTier: string | null;
+  dimensions: { lengthMm: number; widthMm: number; heightMm: number; weightG: number } | null;
+  costPrice: number;
+  vatDeducted: boolean;
+  scenarios: ProfitScenario[];
+  warnings: string[];
+}
+
+export interface MarketplaceComparison {
+  domain: number;
+  marketplace: string;
+  /** Marketplace currency; prices without the Converted suffix are in its cents */
+  currency: string;
+  found: boolean;
+  title: string | null;
+  /** Buy Box price including shipping */
+  buyBox: number | null;
+  buyBoxConverted: number | null;
+  amazon: number | null;
+  amazonConverted: number | null;
+  newOffers: number | null;
+  usedOffers: number | null;
+  salesRank: number | null;
+  monthlySold: number | null;
+  /** Converted Buy Box minus the cheapest converted Buy Box */
+  spread: number | null;
+  spreadPercent: number | null;
+  /** Buying in the buy marketplace and selling here, in the comparison currency */
+  landed: { cost: number; netProfit: number; margin: number; roi: number | null } | null;
+}
+
+export interface MarketplaceCompareResult {
+  asin: string | null;
+  code: string | null;
+  /** Currency of every *Converted, spread and landed amount */
+  currency: string;
+  /** Units per 1 EUR used for the conversion */
+  fxRates: Record<string, number>;
+  buyDomain: number | null;
+  bestSellDomain: number | null;
+  marketplaces: MarketplaceComparison[];
+  warnings: string[];
+}
+
+export interface BuyBoxSellerSummary {
+  sellerId: string;
+  name: string | null;
+  isAmazon: boolean;
+  /** From stats.buyBoxStats; null when Keepa has no stats for the seller */
+  isFBA: boolean | null;
+  /** % of the time the Buy Box had a winner */
+  percentageWon: number;
+  avgPrice: number | null;
+  /** Separate stretches holding the Buy Box; null when only stats were available */
+  holds: number | null;
+  lastWon: string | null;
+}
+
+export interface BuyBoxAnalysisResult {
+  asin: string;
+  domain: number;
+  marketplace: string;
+  title: string | null;
+  days: number;
+  /** 'history' = buyBoxSellerIdHistory over the window, 'stats' = Keepa's buyBoxStats only */
+  source: 'history' | 'stats';
+  from: string;
+  to: string;
+  rotations: number | null;
+  rotationsPerDay: number | null;
+  suppressedPercent: number | null;
+  noOfferPercent: number | null;
+  amazonShare: number;
+  /** % of the won time by fulfilment of the winner */
+  fulfillment: { amazon: number; fba: number; fbm: number; unknown: number };
+  totalSellers: number;
+  sellers: BuyBoxSellerSummary[];
+}
+
+export interface ProductFinderOutput {
+  domain: number;
+  marketplace: string;
+  page: number;
+  perPage: number;
+  sellerCountTimeframe: string;
+  products: ProductFinderResult[];
+}
+
+export interface CategoryProductSummary {
+  asin: string;
+  title: string | null;
+  rating: number | null;
+  monthlySold: number | null;
+  price: number | null;
+  sellerCount: number | null;
+}
+
+export interface CategoryAnalysisResult {
+  domain: number;
+  marketplace: string;
+  categoryId: number;
+  analysisType: 'overview' | 'top_performers' | 'opportunities' | 'trends';
+  timeframe: string;
+  overview?: {
+    bestSellerCount: number;
+    priceRange: { min: number; max: number } | null;
+    averageRating: number | null;
+    sampleSize: number;
+  };
+  products?: CategoryProductSummary[];
+  trends?: {
+    sampleSize: number;
+    pricing: { average: number; median: number; min: number; max: number; pricedCount: number } | null;
+    quality: { averageRating: number; highRatedCount: number; ratedCount: number } | null;
+  };
+}
+
+export interface CategorySummary {
+  catId: number;
+  name: string;
+  parentId: number | null;
+  productCount: number | null;
+  highestRank: number | null;
+  lowestRank: number | null;
+}
+
+export interface CategoryLookupResult {
+  domain: number;
+  marketplace: string;
+  category: CategorySummary & {
+    /** Names from the root category down to this one */
+    path: string[];
+    isBrowseNode: boolean;
+  };
+  /** Subcategories; only IDs are known when includeChildren is false */
+  children: Array<CategorySummary | { catId: number }>;
+}
+
+export interface CategorySearchResult {
+  domain: number;
+  marketplace: string;
+  term: string;
+  categories: CategorySummary[];
+}
+
+export interface SalesVelocityResult {
+  domain: number;
+  marketplace: string;
+  timeframe: string;
+  sortBy: string;
+  sortOrder: string;
+  products: SalesVelocityData[];
+  summary: {
+    fastMovers: number;
+    slowMovers: number;
+    highStockoutRisk: number;
+    averageTurnover: number;
+  };
+}
+
+export interface InventoryAnalysisResult extends InventoryAnalysis {
+  domain: number;
+  marketplace: string;
+  analysisType: string;
+  timeframe: string;
+  targetTurnoverRate: number;
+}
+
+export interface TokenStatusResult {
+  tokensLeft: number;
+  status: 'exhausted' | 'low' | 'moderate' | 'good' | 'excellent';
+  cache: CacheStats;
+  scheduler: SchedulerStatus;
+}
+
+export interface TokenCostItem {
+  /** Keepa endpoint, e.g. '/product' */
+  endpoint: string;
+  description: string;
+  requests: number;
+  tokens: number;
+}
+
+export interface TokenCostEstimate {
+  tool: string;
+  dryRun: true;
+  /** Upper bound: offer pages are charged only when found and cached products cost nothing */
+  estimatedTokens: number;
+  breakdown: TokenCostItem[];
+  notes: string[];
+}
+
+// ─── Tracking API ───────────────────────────────────────────────────────
+// Keepa watches tracked products itself and queues a notification when a
+// threshold is crossed; thresholds are set per csv type and per domain.
+
+export enum TrackingNotifyIfType {
+  OUT_OF_STOCK = 0,
+  BACK_IN_STOCK = 1,
+}
+
+/** Index into notificationType / sentNotificationVia */
+export enum TrackingNotificationChannel {
+  EMAIL = 0,
+  TWITTER = 1,
+  FACEBOOK_NOTIFICATION = 2,
+  BROWSER = 3,
+  FACEBOOK_MESSENGER_BOT = 4,
+  API = 5,
+  MOBILE_APP = 6,
+  DUMMY = 7,
+}
+
+export interface TrackingThreshold {
+  /** Price in cents, or the raw value for sales rank / counts / rating (x10) */
+  thresholdValue: number;
+  domain: KeepaDomain;
+  csvType: KeepaDataType;
+  /** true: notify when the value drops below the threshold; false: when it rises above */
+  isDrop: boolean;
+}
+
+export interface TrackingNotifyIf {
+  domain: KeepaDomain;
+  csvType: KeepaDataType;
+  notifyIfType: TrackingNotifyIfType;
+}
+
+/** Body of a /tracking?type=add request */
+export interface TrackingCreation {
+  asin: string;
+  mainDomainId: KeepaDomain;
+  /** Minutes until the tracking expires; 0 never expires */
+  ttl: number;
+  expireNotify: boolean;
+  /** Thresholds in the main domain's currency for every domain */
+  desiredPricesInMainCurrency: boolean;
+  /** Hours between Keepa's product updates, at least 1 */
+  updateInterval: number;
+  metaData?: string;
+  thresholdValues: TrackingThreshold[];
+  notifyIf: TrackingNotifyIf[];
+  /** One flag per TrackingNotificationChannel */
+  notificationType: boolean[];
+  /** Minutes between repeated notifications; -1 uses the account default */
+  individualNotificationInterval: number;
+}
+
+export interface KeepaTracking extends TrackingCreation {
+  /** Keepa time minutes */
+  createDate: number;
+  lastUpdate?: number;
+  lastNotificationDate?: number;
+  isActive: boolean;
+  /** Price at creation time per domain and csv type, when Keepa reports it */
+  thresholdValues: Array<TrackingThreshold & { thresholdValueCSV?: number[] | null }>;
+}
+
+export interface KeepaNotification {
+  asin: string;
+  title?: string;
+  image?: string;
+  /** Keepa time minutes */
+  createDate: number;
+  domainId: KeepaDomain;
+  notificationDomainId: KeepaDomain;
+  csvType: KeepaDataType;
+  /** 0 = expired, 1 = desired price, 2 = price change, 3 = price change after desired price, 4 = out of stock, 5 = back in stock */
+  trackingNotificationCause: number;
+  /** Current values indexed by KeepaDataType */
+  currentPrices?: number[];
+  sentNotificationVia?: boolean[];
+  metaData?: string;
+}
+
+export interface NotificationQueryParams {
+  /** Only notifications created after this Keepa time (minutes) */
+  since?: number;
+  /** Also return notifications already retrieved */
+  revise?: boolean;
+}
+
+export interface TrackingSummary {
+  asin: string;
+  domain: number;
+  createdAt: string | null;
+  expiresAt: string | null;
+  lastNotification: string | null;
+  isActive: boolean;
+  updateInterval: number;
+  metaData: string | null;
+  thresholds: Array<{ domain: number; dataType: number; dataTypeName: string; value: number; isDrop: boolean }>;
+  notifyIf: Array<{ domain: number; dataType: number; event: 'outOfStock' | 'backInStock' }>;
+}
+
+export interface TrackingRemoveResult {
+  /** null when every tracking was removed */
+  asin: string | null;
+  removedAll: boolean;
+}
+
+export interface TrackingListResult {
+  count: number;
+  trackings: TrackingSummary[];
+}
+
+export interface NotificationSummary {
+  asin: string;
+  title: string | null;
+  domain: number;
+  marketplace: string;
+  date: string | null;
+  dataType: number;
+  dataTypeName: string;
+  cause: 'expired' | 'desiredPrice' | 'priceChange' | 'priceChangeAfterDesiredPrice' | 'outOfStock' | 'backInStock' | 'unknown';
+  /** Current value of dataType, in cents for prices */
+  currentValue: number | null;
+  metaData: string | null;
+}
+
+export interface NotificationsResult {
+  since: string;
+  count: number;
+  notifications: NotificationSummary[];
+}
+
+// ─── MCP resources ──────────────────────────────────────────────────────
+
+export type KeepaResourceKind = 'product' | 'seller' | 'category';
+
+export interface CategorySnapshot {
+  domain: number;
+  marketplace: string;
+  catId: number;
+  name: string;
+  /** Names from the root category down to this one */
+  path: string[];
+  parentId: number | null;
+  children: number[];
+  productCount: number | null;
+  highestRank: number | null;
+}
+
+export interface WatchlistUpdateResult {
+  /** null once the watchlist was deleted */
+  watchlist: Watchlist | null;
+  added: string[];
+  removed: string[];
+  deleted: boolean;
+}
+
+export interface WatchlistListResult {
+  count: number;
+  watchlists: Watchlist[];
+}
+
+export interface WatchlistSnapshotResult {
+  watchlist: Watchlist;
+  /** Latest snapshot, null when none was taken yet */
+  snapshot: WatchlistSnapshot | null;
+  /** Earlier snapshots, newest first */
+  previous: WatchlistSnapshot[];
+}
+
+export interface ProductChangelog {
+  asin: string;
+  title: string | null;
+  /** State the changes are measured from */
+  baseline: ProductState | null;
+  current: ProductState | null;
+  /** Oldest first */
+  changes: ProductChange[];
+}
+
+export interface ProductChangesResult {
+  domain: number;
+  marketplace: string;
+  since: string;
+  thresholds: { priceDropPercent: number; rankChangePercent: number };
+  totalChanges: number;
+  products: ProductChangelog[];
+  /** ASINs Keepa returned no product for */
+  missing: string[];
+}
+
+export interface AlertsResult {
+  action: 'create' | 'list' | 'delete' | 'enable' | 'disable' | 'test' | 'dead_letters';
+  /** Rules created, changed or deleted by the action, or every rule listed */
+  rules: AlertRule[];
+  deadLetters: AlertDeadLetter[];
+  /** Outcome of a test delivery */
+  delivery: WebhookDeliveryResult | null;
+}
+
+export interface BulkLookupResult {
+  domain: number;
+  marketplace: string;
+  column: string;
+  requested: number;
+  found: number;
+  duplicates: number;
+  notFound: string[];
+  invalid: BulkInput['invalid'];
+  columns: BulkColumn[];
+  format: 'csv' | 'xlsx';
+  filename: string;
+  mimeType: 'text/csv' | 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+  /** Data rows in the file: one per product, plus one per identifier not found */
+  rows: number;
+  /** Base64-encoded file */
+  file: string;
+}
+
+export type StructuredToolResult =
+  | TokenCostEstimate
+  | NotFoundResult
+  | ProductLookupResult
+  | BatchProductLookupResult
+  | ProductSearchResult
+  | DealSearchResult
+  | LightningDealsResult
+  | SellerLookupResult
+  | TopSellersResult
+  | BestSellersResult
+  | PriceHistoryResult
+  | PriceChartResult
+  | ProfitCalculatorResult
+  | MarketplaceCompareResult
+  | BuyBoxAnalysisResult
+  | ProductFinderOutput
+  | CategoryAnalysisResult
+  | CategoryLookupResult
+  | CategorySearchResult
+  | SalesVelocityResult
+  | InventoryAnalysisResult
+  | TokenStatusResult
+  | TrackingSummary
+  | TrackingListResult
+  | TrackingRemoveResult
+  | NotificationsResult
+  | Watchlist
+  | WatchlistUpdateResult
+  | WatchlistListResult
+  | WatchlistSnapshotResult
+  | ProductChangesResult
+  | AlertsResult
+  | BulkLookupResult;
+
 export enum KeepaDomain {
   US = 1,
   UK = 2,
@@ -470,15 +1628,16 @@ export enum KeepaDomain {
   MX = 11
 }
 
+// Indices into product.csv and the stats arrays (current, avg, min, max...)
 export enum KeepaDataType {
   AMAZON = 0,
   NEW = 1,
   USED = 2,
   SALES_RANK = 3,
-  LISTING_COUNT = 4,
+  LIST_PRICE = 4,
   COLLECTIBLE = 5,
   REFURBISHED = 6,
-  NEW_FBM = 7,
+  NEW_FBM_SHIPPING = 7,
   LIGHTNING_DEAL = 8,
   WAREHOUSE = 9,
   NEW_FBA = 10,
@@ -489,7 +1648,8 @@ export enum KeepaDataType {
   EXTRA_INFO_UPDATES = 15,
   RATING = 16,
   COUNT_REVIEWS = 17,
-  BUY_BOX = 18,
+  // 18-29 and 32 store [time, price, shipping] triples in csv
+  BUY_BOX_SHIPPING = 18,
   USED_NEW_SHIPPING = 19,
   USED_VERY_GOOD_SHIPPING = 20,
   USED_GOOD_SHIPPING = 21,
@@ -499,9 +1659,12 @@ export enum KeepaDataType {
   COLLECTIBLE_GOOD_SHIPPING = 25,
   COLLECTIBLE_ACCEPTABLE_SHIPPING = 26,
   REFURBISHED_SHIPPING = 27,
-  BUY_BOX_SHIPPING = 28,
-  NEW_SHIPPING = 29,
-  TRADE_IN = 30
+  EBAY_NEW_SHIPPING = 28,
+  EBAY_USED_SHIPPING = 29,
+  TRADE_IN = 30,
+  RENTAL = 31,
+  BUY_BOX_USED_SHIPPING = 32,
+  PRIME_EXCLUSIVE = 33
 }
 
 export class KeepaError extends Error {
@@ -515,6 +1678,48 @@ export class KeepaError extends Error {
   }
 }
 
+// Not enough tokens for the request right now (HTTP 429); retried after `refillIn`
+export class RateLimitedError extends KeepaError {
+  constructor(
+    message: string,
+    statusCode?: number,
+    tokensLeft?: number,
+    public refillIn?: number
+  ) {
+    super(message, statusCode, tokensLeft);
+    this.name = 'RateLimitedError';
+  }
+}
+
+// Balance exhausted and not expected to recover within the retry policy (or plan expired)
+export class TokenExhaustedError extends KeepaError {
+  constructor(
+    message: string,
+    statusCode?: number,
+    tokensLeft?: number,
+    public refillIn?: number
+  ) {
+    super(message, statusCode, tokensLeft);
+    this.name = 'TokenExhaustedError';
+  }
+}
+
+// Keepa rejected the request parameters (HTTP 400) or they were invalid before sending
+export class InvalidParameterError extends KeepaError {
+  constructor(message: string, statusCode?: number, tokensLeft?: number) {
+    super(message, statusCode, tokensLeft);
+    this.name = 'InvalidParameterError';
+  }
+}
+
+// Timeouts, connection resets and Keepa 5xx responses
+export class NetworkError extends KeepaError {
+  constructor(message: string, statusCode?: number, public code?: string) {
+    super(message, statusCode);
+    this.name = 'NetworkError';
+  }
+}
+
 // Verified Amazon Category IDs for US marketplace
 // These IDs have been confirmed to work with the Keepa API
 export const VERIFIED_AMAZON_CATEGORIES = {
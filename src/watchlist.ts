@@ -0,0 +1,556 @@
+import { promises as fs } from 'node:fs';
+import { basename, dirname, extname, join } from 'node:path';
+import { KeepaClient } from './keepa-client.js';
+import { JsonFileWriter, readJsonFile } from './json-file.js';
+import { nextCronRun, parseCron } from './cron.js';
+import { runWithPriority } from './scheduler.js';
+import {
+  InvalidParameterError,
+  KeepaDataType,
+  KeepaDomain,
+  KeepaOffer,
+  KeepaProduct,
+  ProductQueryParams,
+  Watchlist,
+  WatchlistConfig,
+  WatchlistSnapshot,
+  WatchlistSnapshotItem,
+  WatchlistStore,
+} from './types.js';
+
+// ─── Watchlists ─────────────────────────────────────────────────────────
+// Named lists of ASINs per marketplace. A snapshot fetches every ASIN through
+// getProductsBatch (15 tokens each with the live offers, cache permitting) and
+// keeps only a compact row per product, so hundreds of ASINs × hundreds of runs
+// stay small.
+
+export const DEFAULT_WATCHLIST_FILE = 'keepa-watchlists.json';
+export const DEFAULT_MAX_SNAPSHOTS = 200;
+export const MAX_WATCHLIST_ASINS = 1000;
+
+// Stats for the current values, no csv history. Keepa only reports the Buy Box
+// stock (stats.stockBuyBox) for requests with offers and stock
+export const SNAPSHOT_PRODUCT_OPTIONS: Partial<ProductQueryParams> = {
+  stats: 1,
+  history: 0,
+  offers: 20,
+  stock: 1,
+  'only-live-offers': 1,
+};
+
+// ─── Stores ─────────────────────────────────────────────────────────────
+
+export class MemoryWatchlistStore implements WatchlistStore {
+  readonly name: string = 'memory';
+  protected watchlists = new Map<string, Watchlist>();
+  /** Newest first */
+  protected snapshots = new Map<string, WatchlistSnapshot[]>();
+
+  constructor(protected maxSnapshots: number = DEFAULT_MAX_SNAPSHOTS) {}
+
+  async listWatchlists(): Promise<Watchlist[]> {
+    return Array.from(this.watchlists.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getWatchlist(id: string): Promise<Watchlist | undefined> {
+    return this.watchlists.get(id);
+  }
+
+  async saveWatchlist(watchlist: Watchlist): Promise<void> {
+    this.watchlists.set(watchlist.id, watchlist);
+  }
+
+  async deleteWatchlist(id: string): Promise<void> {
+    this.watchlists.delete(id);
+    this.snapshots.delete(id);
+  }
+
+  async addSnapshot(snapshot: WatchlistSnapshot): Promise<void> {
+    const list = [snapshot, ...(this.snapshots.get(snapshot.watchlistId) ?? [])];
+    this.snapshots.set(snapshot.watchlistId, list.slice(0, this.maxSnapshots));
+  }
+
+  async getSnapshots(watchlistId: string, limit?: number): Promise<WatchlistSnapshot[]> {
+    const list = this.snapshots.get(watchlistId) ?? [];
+    return limit !== undefined ? list.slice(0, limit) : [...list];
+  }
+}
+
+interface WatchlistFile {
+  watchlists: Watchlist[];
+  /** Files written before snapshots moved to their own files */
+  snapshots?: Record<string, WatchlistSnapshot[]>;
+}
+
+/**
+ * Watchlists in one JSON file, each list's snapshots in their own file next to it
+ * (`keepa-watchlists-snapshots/<id>.json`). Editing a list only rewrites the small list file;
+ * a snapshot only rewrites the file of its list. Snapshots are read per list on first use.
+ */
+export class JsonWatchlistStore extends MemoryWatchlistStore {
+  readonly name = 'json';
+  private loaded?: Promise<void>;
+  private writer: JsonFileWriter;
+  private snapshotsDir: string;
+  private snapshotsLoaded = new Map<string, Promise<void>>();
+  private snapshotWriters = new Map<string, JsonFileWriter>();
+
+  constructor(private file: string, maxSnapshots?: number) {
+    super(maxSnapshots);
+    this.writer = new JsonFileWriter(file);
+    this.snapshotsDir = join(dirname(file), `${basename(file, extname(file))}-snapshots`);
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = readJsonFile<WatchlistFile>(this.file).then(async data => {
+        data?.watchlists.forEach(watchlist => this.watchlists.set(watchlist.id, watchlist));
+        const legacy = Object.entries(data?.snapshots ?? {});
+        if (legacy.length === 0) return;
+        // Move the snapshots of an older file out of it
+        for (const [id, list] of legacy) {
+          this.snapshots.set(id, list);
+          this.snapshotsLoaded.set(id, Promise.resolve());
+          await this.persistSnapshots(id);
+        }
+        await this.persist();
+      });
+    }
+    return this.loaded;
+  }
+
+  private loadSnapshots(watchlistId: string): Promise<void> {
+    let loaded = this.snapshotsLoaded.get(watchlistId);
+    if (!loaded) {
+      loaded = readJsonFile<WatchlistSnapshot[]>(this.snapshotFile(watchlistId)).then(list => {
+        if (list) this.snapshots.set(watchlistId, list);
+      });
+      this.snapshotsLoaded.set(watchlistId, loaded);
+    }
+    return loaded;
+  }
+
+  private persist(): Promise<void> {
+    return this.writer.write({ watchlists: Array.from(this.watchlists.values()) });
+  }
+
+  private async persistSnapshots(watchlistId: string): Promise<void> {
+    let writer = this.snapshotWriters.get(watchlistId);
+    if (!writer) {
+      await fs.mkdir(this.snapshotsDir, { recursive: true });
+      writer = new JsonFileWriter(this.snapshotFile(watchlistId));
+      this.snapshotWriters.set(watchlistId, writer);
+    }
+    await writer.write(this.snapshots.get(watchlistId) ?? []);
+  }
+
+  private snapshotFile(watchlistId: string): string {
+    return join(this.snapshotsDir, `${watchlistId}.json`);
+  }
+
+  async listWatchlists(): Promise<Watchlist[]> {
+    await this.load();
+    return super.listWatchlists();
+  }
+
+  async getWatchlist(id: string): Promise<Watchlist | undefined> {
+    await this.load();
+    return super.getWatchlist(id);
+  }
+
+  async saveWatchlist(watchlist: Watchlist): Promise<void> {
+    await this.load();
+    await super.saveWatchlist(watchlist);
+    await this.persist();
+  }
+
+  async deleteWatchlist(id: string): Promise<void> {
+    await this.load();
+    await super.deleteWatchlist(id);
+    await this.persist();
+    // Let a pending snapshot write land before the file goes
+    await this.snapshotWriters.get(id)?.write([]);
+    this.snapshotWriters.delete(id);
+    this.snapshotsLoaded.delete(id);
+    await fs.rm(this.snapshotFile(id), { force: true });
+  }
+
+  async addSnapshot(snapshot: WatchlistSnapshot): Promise<void> {
+    await this.load();
+    await this.loadSnapshots(snapshot.watchlistId);
+    await super.addSnapshot(snapshot);
+    await this.persistSnapshots(snapshot.watchlistId);
+  }
+
+  async getSnapshots(watchlistId: string, limit?: number): Promise<WatchlistSnapshot[]> {
+    await this.load();
+    await this.loadSnapshots(watchlistId);
+    return super.getSnapshots(watchlistId, limit);
+  }
+}
+
+// Minimal surface of better-sqlite3 that the store relies on
+interface SqliteStatement {
+  get(...params: unknown[]): any;
+  all(...params: unknown[]): any[];
+  run(...params: unknown[]): unknown;
+}
+
+interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqliteStatement;
+}
+
+/** Same optional `better-sqlite3` package as the SQLite response cache. */
+export class SqliteWatchlistStore implements WatchlistStore {
+  readonly name = 'sqlite';
+  private db?: Promise<SqliteDatabase>;
+
+  constructor(private file: string, private maxSnapshots: number = DEFAULT_MAX_SNAPSHOTS) {}
+
+  private open(): Promise<SqliteDatabase> {
+    if (!this.db) {
+      this.db = (async () => {
+        const moduleName = 'better-sqlite3';
+        let Database: any;
+        try {
+          Database = (await import(moduleName)).default;
+        } catch {
+          throw new Error(`SQLite watchlists require the optional "better-sqlite3" package (npm install better-sqlite3)`);
+        }
+        const db: SqliteDatabase = new Database(this.file);
+        db.exec(`CREATE TABLE IF NOT EXISTS keepa_watchlists (
+          id TEXT PRIMARY KEY,
+          data TEXT NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS keepa_watchlist_snapshots (
+          watchlist_id TEXT NOT NULL,
+          taken_at TEXT NOT NULL,
+          data TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS keepa_watchlist_snapshots_by_list ON keepa_watchlist_snapshots (watchlist_id, taken_at)`);
+        return db;
+      })();
+    }
+    return this.db;
+  }
+
+  async listWatchlists(): Promise<Watchlist[]> {
+    const db = await this.open();
+    return db.prepare('SELECT data FROM keepa_watchlists').all()
+      .map(row => JSON.parse(row.data) as Watchlist)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getWatchlist(id: string): Promise<Watchlist | undefined> {
+    const db = await this.open();
+    const row = db.prepare('SELECT data FROM keepa_watchlists WHERE id = ?').get(id);
+    return row ? JSON.parse(row.data) : undefined;
+  }
+
+  async saveWatchlist(watchlist: Watchlist): Promise<void> {
+    const db = await this.open();
+    db.prepare('INSERT OR REPLACE INTO keepa_watchlists (id, data) VALUES (?, ?)').run(watchlist.id, JSON.stringify(watchlist));
+  }
+
+  async deleteWatchlist(id: string): Promise<void> {
+    const db = await this.open();
+    db.prepare('DELETE FROM keepa_watchlists WHERE id = ?').run(id);
+    db.prepare('DELETE FROM keepa_watchlist_snapshots WHERE watchlist_id = ?').run(id);
+  }
+
+  async addSnapshot(snapshot: WatchlistSnapshot): Promise<void> {
+    const db = await this.open();
+    db.prepare('INSERT INTO keepa_watchlist_snapshots (watchlist_id, taken_at, data) VALUES (?, ?, ?)')
+      .run(snapshot.watchlistId, snapshot.takenAt, JSON.stringify(snapshot));
+    db.prepare(`DELETE FROM keepa_watchlist_snapshots WHERE watchlist_id = ? AND rowid NOT IN (
+      SELECT rowid FROM keepa_watchlist_snapshots WHERE watchlist_id = ? ORDER BY taken_at DESC LIMIT ?
+    )`).run(snapshot.watchlistId, snapshot.watchlistId, this.maxSnapshots);
+  }
+
+  async getSnapshots(watchlistId: string, limit?: number): Promise<WatchlistSnapshot[]> {
+    const db = await this.open();
+    return db.prepare('SELECT data FROM keepa_watchlist_snapshots WHERE watchlist_id = ? ORDER BY taken_at DESC LIMIT ?')
+      .all(watchlistId, limit ?? -1)
+      .map(row => JSON.parse(row.data));
+  }
+}
+
+export function createWatchlistStore(config: WatchlistConfig = {}): WatchlistStore {
+  if (config.store) return config.store;
+  switch (config.backend ?? 'json') {
+    case 'memory':
+      return new MemoryWatchlistStore(config.maxSnapshots);
+    case 'sqlite':
+      return new SqliteWatchlistStore(config.file || 'keepa-watchlists.db', config.maxSnapshots);
+    default:
+      return new JsonWatchlistStore(config.file || DEFAULT_WATCHLIST_FILE, config.maxSnapshots);
+  }
+}
+
+// ─── Snapshots ──────────────────────────────────────────────────────────
+
+function positive(value: unknown): number | null {
+  return typeof value === 'number' && value > 0 ? value : null;
+}
+
+function nonNegative(value: unknown): number | null {
+  return typeof value === 'number' && value >= 0 ? value : null;
+}
+
+/** Sellers with a new-condition offer, sorted; null when the product came without offers */
+export function offerSellerIds(offers: KeepaOffer[] | undefined): string[] | null {
+  if (!Array.isArray(offers)) return null;
+  const ids = offers.filter(offer => !offer.isUsed && offer.sellerId).map(offer => offer.sellerId!);
+  return Array.from(new Set(ids)).sort();
+}
+
+export function compactSnapshotItem(product: KeepaProduct): WatchlistSnapshotItem {
+  const stats = product.stats;
+  const buyBox = positive(stats?.buyBoxPrice) ?? positive(stats?.current?.[KeepaDataType.BUY_BOX_SHIPPING]);
+  const amazon = positive(stats?.current?.[KeepaDataType.AMAZON]);
+  const sellers = nonNegative(stats?.current?.[KeepaDataType.COUNT_NEW]);
+  return {
+    asin: product.asin,
+    title: product.title ?? null,
+    brand: product.brand ?? null,
+    buyBox,
+    buyBoxSellerId: stats?.buyBoxSellerId || null,
+    amazon,
+    sellers,
+    salesRank: positive(stats?.current?.[KeepaDataType.SALES_RANK]),
+    inStock: buyBox !== null || amazon !== null || (sellers ?? 0) > 0,
+    stock: nonNegative(stats?.stockBuyBox),
+    sellerIds: offerSellerIds(product.offers),
+  };
+}
+
+// ─── Service ────────────────────────────────────────────────────────────
+
+const ASIN_PATTERN = /^[A-Z0-9]{10}$/;
+
+export function watchlistId(name: string): string {
+  return name.trim().toLowerCase()
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+function normalizeAsins(asins: string[]): string[] {
+  const normalized = asins.map(asin => asin.trim().toUpperCase()).filter(Boolean);
+  const invalid = normalized.filter(asin => !ASIN_PATTERN.test(asin));
+  if (invalid.length > 0) {
+    throw new InvalidParameterError(`Invalid ASIN(s): ${invalid.slice(0, 5).join(', ')}${invalid.length > 5 ? '...' : ''}`);
+  }
+  return Array.from(new Set(normalized));
+}
+
+function validateSchedule(schedule: string | null | undefined): string | null {
+  if (!schedule?.trim()) return null;
+  parseCron(schedule);
+  return schedule.trim();
+}
+
+/** Called after every stored snapshot, with the one before it (undefined on the first run) */
+export type WatchlistSnapshotListener = (
+  watchlist: Watchlist,
+  snapshot: WatchlistSnapshot,
+  previous: WatchlistSnapshot | undefined,
+) => unknown;
+
+export class WatchlistService {
+  private listeners: WatchlistSnapshotListener[] = [];
+
+  constructor(private client: KeepaClient, readonly store: WatchlistStore) {}
+
+  onSnapshot(listener: WatchlistSnapshotListener): void {
+    this.listeners.push(listener);
+  }
+
+  async create(params: { name: string; domain: number; asins?: string[]; schedule?: string | null }): Promise<Watchlist> {
+    const id = watchlistId(params.name);
+    if (!id) {
+      throw new InvalidParameterError(`Invalid watchlist name: "${params.name}"`);
+    }
+    if (await this.store.getWatchlist(id)) {
+      throw new InvalidParameterError(`Watchlist already exists: ${id}`);
+    }
+    const asins = normalizeAsins(params.asins ?? []);
+    if (asins.length > MAX_WATCHLIST_ASINS) {
+      throw new InvalidParameterError(`A watchlist holds at most ${MAX_WATCHLIST_ASINS} ASINs`);
+    }
+
+    const now = new Date().toISOString();
+    const watchlist: Watchlist = {
+      id,
+      name: params.name.trim(),
+      domain: params.domain,
+      asins,
+      schedule: validateSchedule(params.schedule),
+      createdAt: now,
+      updatedAt: now,
+      lastSnapshotAt: null,
+    };
+    await this.store.saveWatchlist(watchlist);
+    return watchlist;
+  }
+
+  /** Accepts the ID or the name */
+  async get(watchlist: string): Promise<Watchlist> {
+    const found = await this.store.getWatchlist(watchlistId(watchlist));
+    if (!found) {
+      throw new InvalidParameterError(`Unknown watchlist: ${watchlist}`);
+    }
+    return found;
+  }
+
+  list(): Promise<Watchlist[]> {
+    return this.store.listWatchlists();
+  }
+
+  async add(watchlist: string, asins: string[], schedule?: string | null): Promise<{ watchlist: Watchlist; added: string[] }> {
+    const current = await this.get(watchlist);
+    const added = normalizeAsins(asins).filter(asin => !current.asins.includes(asin));
+    if (current.asins.length + added.length > MAX_WATCHLIST_ASINS) {
+      throw new InvalidParameterError(`A watchlist holds at most ${MAX_WATCHLIST_ASINS} ASINs (${current.id} has ${current.asins.length})`);
+    }
+    const updated: Watchlist = {
+      ...current,
+      asins: [...current.asins, ...added],
+      ...(schedule !== undefined && { schedule: validateSchedule(schedule) }),
+      updatedAt: new Date().toISOString(),
+    };
+    await this.store.saveWatchlist(updated);
+    return { watchlist: updated, added };
+  }
+
+  async remove(watchlist: string, asins: string[]): Promise<{ watchlist: Watchlist; removed: string[] }> {
+    const current = await this.get(watchlist);
+    const toRemove = new Set(asins.map(asin => asin.trim().toUpperCase()));
+    const removed = current.asins.filter(asin => toRemove.has(asin));
+    const updated: Watchlist = {
+      ...current,
+      asins: current.asins.filter(asin => !toRemove.has(asin)),
+      updatedAt: new Date().toISOString(),
+    };
+    await this.store.saveWatchlist(updated);
+    return { watchlist: updated, removed };
+  }
+
+  async delete(watchlist: string): Promise<Watchlist> {
+    const current = await this.get(watchlist);
+    await this.store.deleteWatchlist(current.id);
+    return current;
+  }
+
+  async snapshot(watchlist: string, trigger: WatchlistSnapshot['trigger'] = 'manual'): Promise<WatchlistSnapshot> {
+    const current = await this.get(watchlist);
+    if (current.asins.length === 0) {
+      throw new InvalidParameterError(`Watchlist ${current.id} has no ASINs`);
+    }
+
+    // Scheduled runs skip the response cache: update=0 asks Keepa for live data
+    const products = await this.client.getProductsBatch(current.asins, current.domain as KeepaDomain, {
+      ...SNAPSHOT_PRODUCT_OPTIONS,
+      ...(trigger === 'schedule' && { update: 0 }),
+    });
+    const byAsin = new Map(products.map(product => [product.asin, product]));
+    const snapshot: WatchlistSnapshot = {
+      watchlistId: current.id,
+      takenAt: new Date().toISOString(),
+      trigger,
+      items: current.asins.filter(asin => byAsin.has(asin)).map(asin => compactSnapshotItem(byAsin.get(asin)!)),
+      missing: current.asins.filter(asin => !byAsin.has(asin)),
+    };
+
+    const [previous] = await this.store.getSnapshots(current.id, 1);
+    await this.store.addSnapshot(snapshot);
+    // Re-read: ASINs may have been added while Keepa answered
+    const latest = await this.store.getWatchlist(current.id);
+    if (latest) {
+      await this.store.saveWatchlist({ ...latest, lastSnapshotAt: snapshot.takenAt });
+    }
+
+    // A failing listener (e.g. alert rules) must not lose the snapshot
+    for (const listener of this.listeners) {
+      try {
+        await listener(latest ?? current, snapshot, previous);
+      } catch (error) {
+        console.error(`[Watchlists] Snapshot listener failed for ${current.id}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    return snapshot;
+  }
+
+  async snapshots(watchlist: string, limit?: number): Promise<WatchlistSnapshot[]> {
+    const current = await this.get(watchlist);
+    return this.store.getSnapshots(current.id, limit);
+  }
+
+  /** Stored rows of one ASIN across the watchlists of its marketplace, oldest first */
+  async itemHistory(asin: string, domain: number): Promise<Array<{ takenAt: string; item: WatchlistSnapshotItem }>> {
+    const rows: Array<{ takenAt: string; item: WatchlistSnapshotItem }> = [];
+    for (const watchlist of await this.store.listWatchlists()) {
+      if (watchlist.domain !== domain) continue;
+      for (const snapshot of await this.store.getSnapshots(watchlist.id)) {
+        const item = snapshot.items.find(row => row.asin === asin);
+        if (item) rows.push({ takenAt: snapshot.takenAt, item });
+      }
+    }
+    return rows.sort((a, b) => a.takenAt.localeCompare(b.takenAt));
+  }
+
+  /** Scheduled watchlists whose next run after the last snapshot (or creation) has come */
+  async due(now: Date = new Date()): Promise<Watchlist[]> {
+    const watchlists = await this.store.listWatchlists();
+    return watchlists.filter(watchlist => {
+      if (!watchlist.schedule || watchlist.asins.length === 0) return false;
+      const next = nextCronRun(watchlist.schedule, new Date(watchlist.lastSnapshotAt ?? watchlist.createdAt));
+      return next !== null && next.getTime() <= now.getTime();
+    });
+  }
+}
+
+// ─── Scheduler ──────────────────────────────────────────────────────────
+
+/**
+ * In-process cron for HTTP mode: checks every minute which watchlists are due
+ * and snapshots them one after another with bulk priority, so interactive
+ * tool calls keep going first through the shared token bucket.
+ */
+export class WatchlistScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(private service: WatchlistService, private intervalMs: number = 60000) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.tick(), this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** Runs the due watchlists; returns the snapshots taken. Skipped while a previous tick is still running. */
+  async tick(now: Date = new Date()): Promise<WatchlistSnapshot[]> {
+    if (this.running) return [];
+    this.running = true;
+    const taken: WatchlistSnapshot[] = [];
+    try {
+      for (const watchlist of await this.service.due(now)) {
+        try {
+          taken.push(await runWithPriority('bulk', () => this.service.snapshot(watchlist.id, 'schedule')));
+        } catch (error) {
+          console.error(`[Watchlists] Snapshot of ${watchlist.id} failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+    return taken;
+  }
+}
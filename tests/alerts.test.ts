@@ -0,0 +1,199 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  AlertService,
+  evaluateAlertCondition,
+  JsonAlertStore,
+  MemoryAlertStore,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from '../src/alerts';
+import { KeepaClient } from '../src/keepa-client';
+import { MemoryWatchlistStore, WatchlistService } from '../src/watchlist';
+import {
+  AlertEvent,
+  InvalidParameterError,
+  KeepaDataType,
+  Watchlist,
+  WatchlistSnapshot,
+  WatchlistSnapshotItem,
+} from '../src/types';
+
+const item = (overrides: Partial<WatchlistSnapshotItem> = {}): WatchlistSnapshotItem => ({
+  asin: 'B08412MCNW',
+  buyBox: 2000,
+  buyBoxSellerId: 'A1',
+  amazon: null,
+  sellers: 3,
+  salesRank: 1000,
+  inStock: true,
+  stock: 20,
+  ...overrides,
+});
+
+const watchlist: Watchlist = {
+  id: 'client-a', name: 'Client A', domain: 9, asins: ['B08412MCNW'], schedule: null,
+  createdAt: '2026-03-01T00:00:00.000Z', updatedAt: '2026-03-01T00:00:00.000Z', lastSnapshotAt: null,
+};
+
+const snapshot = (items: WatchlistSnapshotItem[]): WatchlistSnapshot => ({
+  watchlistId: 'client-a', takenAt: new Date().toISOString(), trigger: 'schedule', items, missing: [],
+});
+
+describe('Alerts', () => {
+  it('should fire conditions when they become true, not while they stay true', () => {
+    const below = { type: 'buybox_below' as const, value: 1900 };
+
+    expect(evaluateAlertCondition(below, item({ buyBox: 1850 }), item(), 9)).toBe('Buy Box at €18.50, below €19.00');
+    expect(evaluateAlertCondition(below, item({ buyBox: 1850 }), item({ buyBox: 1800 }), 9)).toBeNull();
+    expect(evaluateAlertCondition(below, item({ buyBox: 1850 }), null, 9)).not.toBeNull();
+    expect(evaluateAlertCondition({ type: 'stock_below', value: 5 }, item({ stock: 2 }), item(), 9)).toBe('Buy Box stock at 2 units, below 5');
+    expect(evaluateAlertCondition({ type: 'amazon_offer', value: null }, item({ amazon: 1999 }), item(), 9)).toBe('Amazon offer appeared at €19.99');
+    // Nothing "appears" on the first snapshot
+    expect(evaluateAlertCondition({ type: 'amazon_offer', value: null }, item({ amazon: 1999 }), null, 9)).toBeNull();
+    expect(evaluateAlertCondition({ type: 'new_seller', value: null }, item({ sellers: 5 }), item(), 9)).toBe('New seller on the listing: 3 → 5 offers');
+    expect(evaluateAlertCondition({ type: 'new_seller', value: null }, item({ sellers: 2 }), item(), 9)).toBeNull();
+    // One seller leaving as another joins keeps the count but is still a new seller
+    const swapped = evaluateAlertCondition({ type: 'new_seller', value: null }, item({ sellerIds: ['A1', 'A3'] }), item({ sellerIds: ['A1', 'A2'] }), 9);
+    expect(swapped).toBe('New seller on the listing: A3');
+  });
+
+  it('should fire stock and seller rules on snapshots taken by the watchlist service', async () => {
+    const client = new KeepaClient({ apiKey: 'test-api-key' });
+    const live = [
+      { stock: 20, sellers: ['A1', 'A2'] },
+      { stock: 3, sellers: ['A1', 'A3'] },
+    ];
+    // Keepa answers with the Buy Box stock and offers only when they are requested
+    jest.spyOn(client as any, 'makeRequest').mockImplementation(async (...args: any[]) => {
+      const params = args[1];
+      const { stock, sellers } = live.shift()!;
+      const current = new Array(20).fill(-1);
+      current[KeepaDataType.COUNT_NEW] = sellers.length;
+      return {
+        products: [{
+          asin: 'B08412MCNW',
+          domainId: 9,
+          stats: { current, buyBoxPrice: 2000, ...(params.offers && params.stock && { stockBuyBox: stock }) },
+          ...(params.offers && { offers: sellers.map(sellerId => ({ sellerId, isUsed: false })) }),
+        }],
+      };
+    });
+    const watchlists = new WatchlistService(client, new MemoryWatchlistStore());
+    const alerts = new AlertService(new MemoryAlertStore(), { secret: 'secret', send: async () => 200 });
+    const fired: AlertEvent[] = [];
+    watchlists.onSnapshot(async (list, taken, previous) => {
+      fired.push(...await alerts.evaluate(list, taken, previous));
+    });
+    await watchlists.create({ name: 'Client A', domain: 9, asins: ['B08412MCNW'] });
+    for (const condition of [{ type: 'stock_below' as const, value: 5 }, { type: 'new_seller' as const, value: null }]) {
+      await alerts.createRule({ name: condition.type, watchlistId: 'client-a', condition, webhookUrl: 'https://example.com/hook' });
+    }
+
+    await watchlists.snapshot('client-a', 'schedule');
+    await watchlists.snapshot('client-a', 'schedule');
+    await alerts.flush();
+
+    expect(fired.map(event => event.message)).toEqual(['Buy Box stock at 3 units, below 5', 'New seller on the listing: A3']);
+    jest.restoreAllMocks();
+  });
+
+  it('should sign payloads so receivers can verify them', () => {
+    const body = JSON.stringify({ hello: 'world' });
+    const header = signWebhookPayload('secret', body, 1770000000);
+
+    expect(header).toMatch(/^t=1770000000,v1=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature('secret', body, header, 300, 1770000100)).toBe(true);
+    expect(verifyWebhookSignature('other', body, header, 300, 1770000100)).toBe(false);
+    expect(verifyWebhookSignature('secret', body + ' ', header, 300, 1770000100)).toBe(false);
+    expect(verifyWebhookSignature('secret', body, header, 300, 1770001000)).toBe(false);
+  });
+
+  it('should require a signing secret, a value for thresholds and an http(s) URL', async () => {
+    const unsigned = new AlertService(new MemoryAlertStore());
+    const service = new AlertService(new MemoryAlertStore(), { secret: 'secret' });
+    const input = { name: 'Cheap', watchlistId: 'client-a', condition: { type: 'buybox_below' as const, value: 1900 }, webhookUrl: 'https://example.com/hook' };
+
+    await expect(unsigned.createRule(input)).rejects.toThrow(/KEEPA_WEBHOOK_SECRET/);
+    await expect(service.createRule({ ...input, condition: { type: 'buybox_below', value: null } })).rejects.toThrow(InvalidParameterError);
+    await expect(service.createRule({ ...input, webhookUrl: 'ftp://example.com' })).rejects.toThrow(/http/);
+    expect((await service.createRule({ ...input, condition: { type: 'amazon_offer', value: 5 } })).condition.value).toBeNull();
+  });
+
+  it('should deliver signed webhooks for matching rules, retrying transient failures', async () => {
+    const calls: Array<{ url: string; body: string; headers: Record<string, string> }> = [];
+    const statuses = [503, 200];
+    const service = new AlertService(new MemoryAlertStore(), {
+      secret: 'secret',
+      sleep: async () => undefined,
+      send: async (url, body, headers) => {
+        calls.push({ url, body, headers });
+        return statuses.shift() ?? 200;
+      },
+    });
+    const rule = await service.createRule({
+      name: 'Cheap', watchlistId: 'client-a', condition: { type: 'buybox_below', value: 1900 }, webhookUrl: 'https://example.com/hook',
+    });
+
+    const events = await service.evaluate(watchlist, snapshot([item({ buyBox: 1850 })]), snapshot([item()]));
+    await service.flush();
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: 'alert.triggered', asin: 'B08412MCNW', rule: { id: rule.id }, item: { buyBox: 1850 }, previous: { buyBox: 2000 } });
+    expect(calls).toHaveLength(2);
+    expect(calls[1].headers['X-Keepa-Delivery']).toBe(events[0].id);
+    expect(verifyWebhookSignature('secret', calls[1].body, calls[1].headers['X-Keepa-Signature'])).toBe(true);
+    expect((await service.getRule(rule.id)).lastTriggeredAt).not.toBeNull();
+    expect(await service.deadLetters()).toEqual([]);
+  });
+
+  it('should dead-letter deliveries that keep failing or are rejected', async () => {
+    let attempts = 0;
+    const service = new AlertService(new MemoryAlertStore(), {
+      secret: 'secret',
+      retry: { maxAttempts: 3 },
+      sleep: async () => undefined,
+      send: async () => {
+        attempts++;
+        throw new Error('ECONNREFUSED');
+      },
+    });
+    const rule = await service.createRule({
+      name: 'Amazon', watchlistId: 'client-a', condition: { type: 'amazon_offer', value: null }, webhookUrl: 'https://example.com/hook',
+    });
+
+    await service.evaluate(watchlist, snapshot([item({ amazon: 1999 })]), snapshot([item()]));
+    await service.flush();
+
+    const [deadLetter] = await service.deadLetters();
+    expect(attempts).toBe(3);
+    expect(deadLetter.event.rule.id).toBe(rule.id);
+    expect(deadLetter.delivery).toMatchObject({ delivered: false, attempts: 3, status: null });
+    expect(deadLetter.delivery.error).toContain('ECONNREFUSED');
+
+    // A 4xx is the receiver's answer, not a transient failure
+    const rejected = new AlertService(new MemoryAlertStore(), { secret: 'secret', sleep: async () => undefined, send: async () => 410 });
+    const rejectedRule = await rejected.createRule({
+      name: 'Gone', watchlistId: 'client-a', condition: { type: 'new_seller', value: null }, webhookUrl: 'https://example.com/gone',
+    });
+    expect(await rejected.test(rejectedRule.id, 9)).toMatchObject({ delivered: false, attempts: 1, status: 410 });
+  });
+
+  it('should persist rules and dead letters in the JSON store', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'keepa-alerts-'));
+    try {
+      const file = join(dir, 'alerts.json');
+      const service = new AlertService(new JsonAlertStore(file), { secret: 'secret' });
+      const rule = await service.createRule({
+        name: 'Stock', watchlistId: 'client-a', condition: { type: 'stock_below', value: 3 }, webhookUrl: 'https://example.com/hook',
+      });
+      await service.setEnabled(rule.id, false);
+
+      const reopened = new JsonAlertStore(file);
+      expect(await reopened.getRule(rule.id)).toMatchObject({ name: 'Stock', enabled: false });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,130 @@
+import { KeepaClient } from '../src/keepa-client';
+import { bulkProductOptions, bulkTable, classifyIdentifier, exportBulkTable, readBulkInput, runBulkLookup } from '../src/bulk';
+import { BulkProgress, InvalidParameterError, KeepaDataType, KeepaProduct } from '../src/types';
+
+const product = (asin: string, extra: Partial<KeepaProduct> = {}): KeepaProduct => {
+  const current = new Array(20).fill(-1);
+  current[KeepaDataType.AMAZON] = 2099;
+  current[KeepaDataType.SALES_RANK] = 1500;
+  const avg90 = new Array(20).fill(-1);
+  avg90[KeepaDataType.BUY_BOX_SHIPPING] = 2150;
+  return {
+    asin,
+    domainId: 3,
+    title: 'Bamboo board',
+    productGroup: 'Kitchen',
+    stats: { current, avg90, buyBoxPrice: 1999, totalOfferCount: 7, offerCountFBA: 3, offerCountFBM: 4, stockBuyBox: 12 } as any,
+    ...extra,
+  };
+};
+
+describe('Bulk lookups', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should classify ASINs, ISBN-10s and EAN/UPC codes', () => {
+    expect(classifyIdentifier(' b08412mcnw ')).toEqual({ value: 'B08412MCNW', type: 'asin' });
+    expect(classifyIdentifier('0306406152')).toEqual({ value: '0306406152', type: 'asin' });
+    expect(classifyIdentifier('4006381333931')).toEqual({ value: '4006381333931', type: 'code' });
+    expect(classifyIdentifier('4006-3813-3393-1')).toEqual({ value: '4006381333931', type: 'code' });
+    // Excel stored the UPC as a number and dropped its leading zero
+    expect(classifyIdentifier('36000291452')).toEqual({ value: '036000291452', type: 'code' });
+    // Wrong check digit, or a supplier SKU
+    expect(classifyIdentifier('4006381333932')).toBeNull();
+    expect(classifyIdentifier('SKU-1234')).toBeNull();
+  });
+
+  it('should find the identifier column by header and read unique identifiers', () => {
+    const input = readBulkInput([
+      'Ref;Descripción;EAN;Precio',
+      'A-1;Lápiz;4006381333931;1,20',
+      'A-2;Cuaderno;036000291452;2,50',
+      'A-3;Lápiz;4006381333931;1,20',
+      'A-4;Goma;sin código;0,80',
+      'A-5;Regla;;0,90',
+    ].join('\n'));
+
+    expect(input).toEqual({
+      column: 'EAN',
+      identifiers: [
+        { value: '4006381333931', type: 'code', row: 2 },
+        { value: '036000291452', type: 'code', row: 3 },
+      ],
+      duplicates: 1,
+      invalid: [{ row: 5, value: 'sin código' }],
+    });
+  });
+
+  it('should find the column by its values without a header row', () => {
+    const input = readBulkInput('Board,B08412MCNW\nKnife,B07XJ8C8F5\n');
+
+    expect(input.column).toBe('column 2');
+    expect(input.identifiers.map(identifier => identifier.row)).toEqual([1, 2]);
+  });
+
+  it('should honour an explicit column and reject unknown ones', () => {
+    const csv = 'ASIN,Parent ASIN\nB08412MCNW,B000000001\n';
+
+    expect(readBulkInput(csv, 'parent asin').identifiers[0].value).toBe('B000000001');
+    expect(readBulkInput(csv, '1').identifiers[0].value).toBe('B08412MCNW');
+    expect(() => readBulkInput(csv, 'EAN')).toThrow('Column "EAN" not found: ASIN, Parent ASIN');
+    expect(() => readBulkInput('Name,Price\nBoard,19.99\n')).toThrow(InvalidParameterError);
+  });
+
+  it('should look identifiers up in chunks and report progress', async () => {
+    const client = new KeepaClient({ apiKey: 'test-api-key' });
+    const asins = Array.from({ length: 150 }, (_, i) => `B0${String(i).padStart(8, '0')}`);
+    const getProductsBatch = jest.spyOn(client, 'getProductsBatch')
+      .mockImplementation(async chunk => chunk.filter((_, i) => i % 2 === 0).map(asin => product(asin)));
+    // Keepa lists the UPC as EAN-13 with a leading zero; one code matches two ASINs
+    const getProductsByCode = jest.spyOn(client, 'getProductsByCode').mockResolvedValue([
+      product('B0CODE0001', { eanList: ['0036000291452'] }),
+      product('B0CODE0002', { upcList: ['036000291452'] }),
+    ]);
+    const identifiers = [
+      ...asins.map((value, i) => ({ value, type: 'asin' as const, row: i + 2 })),
+      { value: '036000291452', type: 'code' as const, row: 152 },
+      { value: '4006381333931', type: 'code' as const, row: 153 },
+    ];
+    const progress: BulkProgress[] = [];
+
+    const rows = await runBulkLookup(client, identifiers, 3, { stats: 1, history: 0 }, update => progress.push(update));
+
+    expect(getProductsBatch).toHaveBeenCalledTimes(2);
+    expect(getProductsBatch.mock.calls[1][0]).toHaveLength(50);
+    expect(getProductsByCode).toHaveBeenCalledWith(['036000291452', '4006381333931'], 3, { stats: 1, history: 0 });
+    expect(progress).toEqual([
+      { processed: 100, total: 152, found: 50 },
+      { processed: 150, total: 152, found: 75 },
+      { processed: 152, total: 152, found: 76 },
+    ]);
+    expect(rows).toHaveLength(153);
+    expect(rows.slice(-3).map(row => [row.input.value, row.product?.asin ?? null])).toEqual([
+      ['036000291452', 'B0CODE0001'],
+      ['036000291452', 'B0CODE0002'],
+      ['4006381333931', null],
+    ]);
+  });
+
+  it('should only request offers and stock for the columns that need them', () => {
+    expect(bulkProductOptions(['asin', 'buyBoxPrice', 'salesRank', 'fbaFee'])).toEqual({ stats: 1, history: 0 });
+    expect(bulkProductOptions(['asin', 'stock'])).toEqual({ stats: 1, history: 0, offers: 20, stock: 1, 'only-live-offers': 1 });
+  });
+
+  it('should export the chosen columns with prices in the marketplace currency', () => {
+    const rows = [
+      { input: { value: 'B08412MCNW', type: 'asin' as const, row: 2 }, product: product('B08412MCNW', { referralFeePercentage: 15 }) },
+      { input: { value: '4006381333931', type: 'code' as const, row: 3 }, product: null },
+    ];
+
+    const table = bulkTable(rows, 3, ['input', 'asin', 'buyBoxPrice', 'avg90', 'salesRank', 'offers', 'stock', 'referralFeePercent', 'referralFee', 'currency']);
+
+    expect(table).toEqual([
+      ['Input', 'ASIN', 'Buy Box', 'Buy Box avg 90d', 'Sales rank', 'Offers', 'Buy Box stock', 'Referral %', 'Referral fee', 'Currency'],
+      ['B08412MCNW', 'B08412MCNW', 19.99, 21.5, 1500, 7, 12, 15, 3, 'EUR'],
+      ['4006381333931', null, null, null, null, null, null, null, null, 'EUR'],
+    ]);
+    const file = exportBulkTable(table, 'csv', 'Amazon.de', new Date('2026-10-19T08:00:00Z'));
+    expect(file.filename).toBe('keepa-bulk-amazon-de-2026-10-19.csv');
+    expect(Buffer.from(file.file, 'base64').toString('utf8')).toContain('B08412MCNW,B08412MCNW,19.99,21.5,1500,7,12,15,3,EUR');
+  });
+});
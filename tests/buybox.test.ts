@@ -0,0 +1,37 @@
+import { analyzeBuyBoxRotation, decodeBuyBoxHolds } from '../src/buybox';
+import { decodeTriples, keepaMinutesToUnix } from '../src/csv-decoder';
+
+const T0 = 7000000;
+const DAY = 1440;
+const from = keepaMinutesToUnix(T0);
+const to = keepaMinutesToUnix(T0 + 4 * DAY);
+
+// A until day 1, B until day 2, suppressed for half a day, then A again (reported twice)
+const history = [
+  String(T0 - 100), 'A',
+  String(T0 + DAY), 'B',
+  String(T0 + 2 * DAY), '-1',
+  String(T0 + 2 * DAY + 720), 'A',
+  String(T0 + 3 * DAY), 'A',
+];
+
+describe('Buy Box rotation', () => {
+  it('should clip the seller history to the window and merge repeated entries', () => {
+    expect(decodeBuyBoxHolds(history, from, to).map(hold => hold.sellerId)).toEqual(['A', 'B', '-1', 'A']);
+    expect(decodeBuyBoxHolds(history, from, to)[0].start).toBe(from);
+    expect(decodeBuyBoxHolds(undefined, from, to)).toEqual([]);
+  });
+
+  it('should compute time-weighted shares, winning prices and rotations', () => {
+    const prices = decodeTriples([T0 - 100, 2000, 0, T0 + DAY, 2200, 100, T0 + 3 * DAY, 1800, 0]);
+
+    const rotation = analyzeBuyBoxRotation(history, prices, from, to);
+
+    expect(rotation).toMatchObject({ suppressedPercent: 12.5, noOfferPercent: 0, rotations: 2, rotationsPerDay: 0.5 });
+    expect(rotation.sellers).toEqual([
+      // (2000 × 1d + 2300 × 0.5d + 1800 × 1d) / 2.5d
+      { sellerId: 'A', percentageWon: 71.4, avgPrice: 1980, holds: 2, lastWon: to },
+      { sellerId: 'B', percentageWon: 28.6, avgPrice: 2300, holds: 1, lastWon: keepaMinutesToUnix(T0 + 2 * DAY) },
+    ]);
+  });
+});
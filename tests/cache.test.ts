@@ -0,0 +1,146 @@
+import {
+  MemoryCacheStore,
+  ResponseCache,
+  createResponseCache,
+  normalizeProductOptions,
+  productOptionsCover
+} from '../src/cache';
+import { KeepaClient } from '../src/keepa-client';
+import { CacheEntry } from '../src/types';
+
+describe('Response cache', () => {
+  const entry = (payload: unknown): CacheEntry => ({
+    payload,
+    options: {},
+    fetchedAt: Date.now(),
+    expiresAt: Date.now() + 60000,
+  });
+
+  describe('MemoryCacheStore', () => {
+    it('should evict the least recently used entry', async () => {
+      const store = new MemoryCacheStore(2);
+      await store.set('a', entry(1));
+      await store.set('b', entry(2));
+      await store.get('a');
+      await store.set('c', entry(3));
+
+      expect(await store.get('a')).toBeDefined();
+      expect(await store.get('b')).toBeUndefined();
+      expect(await store.size()).toBe(2);
+    });
+  });
+
+  describe('productOptionsCover', () => {
+    const cover = (stored: any, requested: any) =>
+      productOptionsCover(normalizeProductOptions(stored), normalizeProductOptions(requested));
+
+    it('should let a richer fetch satisfy a lighter request', () => {
+      expect(cover({ history: true, offers: 20, stats: 1 }, { stats: 1 })).toBe(true);
+      expect(cover({ history: true, offers: 20, stats: 1 }, { offers: 10, stats: 1 })).toBe(true);
+    });
+
+    it('should not serve requests asking for more data', () => {
+      expect(cover({ history: false, stats: 1 }, { history: true, stats: 1 })).toBe(false);
+      expect(cover({ offers: 20, stats: 1 }, { offers: 40, stats: 1 })).toBe(false);
+      expect(cover({ stats: 1 }, { stats: 1, rating: true })).toBe(false);
+    });
+
+    it('should treat a limited history window as a subset of full history', () => {
+      expect(cover({ stats: 1 }, { stats: 1, days: 90 })).toBe(true);
+      expect(cover({ stats: 1, days: 90 }, { stats: 1 })).toBe(false);
+      expect(cover({ stats: 1, days: 90 }, { stats: 1, days: 30 })).toBe(true);
+    });
+
+    it('should require matching statistics ranges', () => {
+      expect(cover({ stats: 1 }, { stats: 90 })).toBe(false);
+    });
+
+    it('should keep product lookups and price histories apart', () => {
+      // keepa_product_lookup trims the payload to one day without csv history,
+      // keepa_price_history skips the live offers: neither answers the other
+      const lookup = { stats: 90, days: 1, history: false, offers: 20, stock: 1, 'only-live-offers': 1 };
+      const priceHistory = { stats: 90, days: 90, history: 1 };
+
+      expect(cover(lookup, priceHistory)).toBe(false);
+      expect(cover(priceHistory, lookup)).toBe(false);
+      expect(cover(lookup, { ...lookup, offers: 10 })).toBe(true);
+    });
+  });
+
+  describe('ResponseCache', () => {
+    afterEach(() => jest.useRealTimers());
+
+    it('should count hits and misses', async () => {
+      const cache = createResponseCache();
+      expect(await cache.get('product', '1:B0TEST')).toBeUndefined();
+      await cache.set('product', '1:B0TEST', { asin: 'B0TEST' });
+      expect(await cache.get('product', '1:B0TEST')).toEqual({ asin: 'B0TEST' });
+
+      const stats = await cache.stats();
+      expect(stats).toMatchObject({ backend: 'memory', enabled: true, hits: 1, misses: 1, hitRate: 0.5, entries: 1 });
+    });
+
+    it('should expire entries according to the endpoint TTL', async () => {
+      jest.useFakeTimers();
+      const cache = new ResponseCache(new MemoryCacheStore(), { product: 10, seller: 3600 });
+      await cache.set('product', 'p', 'product');
+      await cache.set('seller', 's', 'seller');
+
+      jest.advanceTimersByTime(11000);
+
+      expect(await cache.get('product', 'p')).toBeUndefined();
+      expect(await cache.get('seller', 's')).toBe('seller');
+    });
+
+    it('should be a no-op when disabled', async () => {
+      const cache = createResponseCache({ backend: 'none' });
+      await cache.set('product', 'p', 'product');
+
+      expect(await cache.get('product', 'p')).toBeUndefined();
+      expect((await cache.stats()).enabled).toBe(false);
+    });
+  });
+
+  describe('KeepaClient integration', () => {
+    let client: KeepaClient;
+    let makeRequest: jest.SpyInstance;
+
+    beforeEach(() => {
+      client = new KeepaClient({ apiKey: 'test-api-key' });
+      makeRequest = jest.spyOn(client as any, 'makeRequest').mockImplementation(async (...args: any[]) => {
+        const params = args[1];
+        return { products: params.asin.split(',').map((asin: string) => ({ asin, domainId: params.domain })) };
+      });
+    });
+
+    it('should not refetch a product already fetched with more data', async () => {
+      await client.getProductByAsin('B0AAAAAAAA', 1, { history: true, offers: 20 });
+      const product = await client.getProductByAsin('B0AAAAAAAA', 1);
+
+      expect(product?.asin).toBe('B0AAAAAAAA');
+      expect(makeRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only fetch the ASINs missing from the cache', async () => {
+      await client.getProductByAsin('B0AAAAAAAA', 1);
+      const products = await client.getProductsBatch(['B0BBBBBBBB', 'B0AAAAAAAA'], 1);
+
+      expect(products.map(p => p.asin)).toEqual(['B0BBBBBBBB', 'B0AAAAAAAA']);
+      expect(makeRequest).toHaveBeenLastCalledWith('/product', expect.objectContaining({ asin: 'B0BBBBBBBB' }));
+    });
+
+    it('should keep marketplaces apart', async () => {
+      await client.getProductByAsin('B0AAAAAAAA', 1);
+      await client.getProductByAsin('B0AAAAAAAA', 3);
+
+      expect(makeRequest).toHaveBeenCalledTimes(2);
+    });
+
+    it('should bypass the cache when update=0 asks for live data', async () => {
+      await client.getProductByAsin('B0AAAAAAAA', 1);
+      await client.getProductByAsin('B0AAAAAAAA', 1, { update: 0 });
+
+      expect(makeRequest).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { inflateSync } from 'node:zlib';
+import { isPriceChartResult, renderPriceChart, PriceChartOptions } from '../src/chart';
+import { KeepaDataType } from '../src/types';
+
+describe('Price chart rendering', () => {
+  const NOW = Date.UTC(2024, 3, 1);
+  const DAY_MINUTES = 1440;
+  const T_NOW = NOW / 60000 - 21564000;
+
+  const csv: number[][] = [];
+  csv[KeepaDataType.AMAZON] = [T_NOW - 120 * DAY_MINUTES, 2499, T_NOW - 30 * DAY_MINUTES, -1, T_NOW - 10 * DAY_MINUTES, 1999];
+  csv[KeepaDataType.NEW] = [T_NOW - 60 * DAY_MINUTES, 2299];
+  csv[KeepaDataType.SALES_RANK] = [T_NOW - 50 * DAY_MINUTES, 15000, T_NOW - 5 * DAY_MINUTES, 9000];
+
+  const options: PriceChartOptions = {
+    title: 'B08412MCNW - Cafetera <Vertuo>',
+    days: 90,
+    width: 640,
+    height: 320,
+    series: ['amazon', 'new', 'used', 'salesRank'],
+    formatPrice: cents => `€${(cents / 100).toFixed(2)}`,
+    now: NOW,
+  };
+
+  it('should draw the series with data on price and rank axes as SVG', () => {
+    const chart = renderPriceChart(csv, options, 'svg');
+    const svg = chart.data.toString('utf8');
+
+    expect(chart.mimeType).toBe('image/svg+xml');
+    // Used has no history; Amazon carries its pre-window value into the window
+    expect(chart.series).toEqual([
+      { key: 'amazon', label: 'Amazon', points: 2, latest: 1999 },
+      { key: 'new', label: 'New', points: 1, latest: 2299 },
+      { key: 'salesRank', label: 'Sales Rank', points: 2, latest: 9000 },
+    ]);
+    expect(svg).toContain('width="640" height="320"');
+    expect(svg).toContain('Cafetera &lt;Vertuo&gt;');
+    expect(svg).toContain('>€20.00<');
+    expect(svg).toMatch(/>#\d+k</);
+    expect(svg).toContain('>2024-04-01<');
+    // The out-of-stock gap splits the Amazon line in two
+    expect(svg.match(/stroke="#ff9900"/g)).toHaveLength(2);
+  });
+
+  it('should encode a PNG of the requested size', () => {
+    const png = renderPriceChart(csv, options, 'png').data;
+
+    expect(png.subarray(0, 8)).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+    expect(png.toString('ascii', 12, 16)).toBe('IHDR');
+    expect(png.readUInt32BE(16)).toBe(640);
+    expect(png.readUInt32BE(20)).toBe(320);
+
+    const idat = png.indexOf('IDAT');
+    const pixels = inflateSync(png.subarray(idat + 4, idat + 4 + png.readUInt32BE(idat - 4)));
+    expect(pixels.length).toBe((640 * 3 + 1) * 320);
+    // Some pixel carries the Amazon orange
+    expect(pixels.includes(Buffer.from([0xff, 0x99, 0x00]))).toBe(true);
+  });
+
+  it('should say so when the period has no data', () => {
+    const chart = renderPriceChart([], options, 'svg');
+
+    expect(chart.series).toEqual([]);
+    expect(chart.data.toString('utf8')).toContain('No data in this period');
+  });
+
+  it('should recognize chart results', () => {
+    expect(isPriceChartResult({ image: 'iVBOR', mimeType: 'image/png' })).toBe(true);
+    expect(isPriceChartResult('Producto no encontrado')).toBe(false);
+    expect(isPriceChartResult({ asin: 'B08412MCNW' })).toBe(false);
+  });
+});
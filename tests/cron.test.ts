@@ -0,0 +1,38 @@
+import { nextCronRun, parseCron } from '../src/cron';
+import { InvalidParameterError } from '../src/types';
+
+describe('Cron schedules', () => {
+  it('should parse lists, ranges, steps and macros', () => {
+    const cron = parseCron('0,30 9-17/4 * * 1-5');
+
+    expect(Array.from(cron.minutes)).toEqual([0, 30]);
+    expect(Array.from(cron.hours)).toEqual([9, 13, 17]);
+    expect(cron.daysOfWeek.has(0)).toBe(false);
+    expect(Array.from(parseCron('@daily').hours)).toEqual([0]);
+    expect(parseCron('0 0 * * 7').daysOfWeek.has(0)).toBe(true);
+  });
+
+  it('should reject malformed and out of range fields', () => {
+    expect(() => parseCron('* * * *')).toThrow(InvalidParameterError);
+    expect(() => parseCron('60 * * * *')).toThrow(/minute/);
+    expect(() => parseCron('*/0 * * * *')).toThrow(InvalidParameterError);
+    expect(() => parseCron('0 9 * jan *')).toThrow(/month/);
+  });
+
+  it('should find the next run in UTC', () => {
+    const after = new Date('2026-03-06T10:15:30Z'); // Friday
+
+    expect(nextCronRun('*/15 * * * *', after)?.toISOString()).toBe('2026-03-06T10:30:00.000Z');
+    expect(nextCronRun('0 6 * * *', after)?.toISOString()).toBe('2026-03-07T06:00:00.000Z');
+    expect(nextCronRun('0 6 * * 1', after)?.toISOString()).toBe('2026-03-09T06:00:00.000Z');
+    expect(nextCronRun('@monthly', after)?.toISOString()).toBe('2026-04-01T00:00:00.000Z');
+    // Runs are strictly after the given time
+    expect(nextCronRun('30 10 * * *', new Date('2026-03-06T10:30:00Z'))?.toISOString()).toBe('2026-03-07T10:30:00.000Z');
+  });
+
+  it('should match either day field when both are restricted, and give up on impossible dates', () => {
+    // The 1st of the month or any Monday
+    expect(nextCronRun('0 0 1 * 1', new Date('2026-03-02T12:00:00Z'))?.toISOString()).toBe('2026-03-09T00:00:00.000Z');
+    expect(nextCronRun('0 0 31 2 *', new Date('2026-01-01T00:00:00Z'))).toBeNull();
+  });
+});
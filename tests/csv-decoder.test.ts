@@ -0,0 +1,91 @@
+import {
+  decodeCsvSeries,
+  decodeOfferCsv,
+  decodePairs,
+  keepaMinutesToUnix,
+  lastValue,
+  resampleSeries,
+  seriesKind,
+  withoutGaps
+} from '../src/csv-decoder';
+import { KeepaDataType } from '../src/types';
+
+describe('Keepa csv decoder', () => {
+  const DAY_MINUTES = 1440;
+  // 2024-01-01T00:00:00Z (a Monday) in Keepa minutes
+  const T0 = Date.UTC(2024, 0, 1) / 60000 - 21564000;
+
+  it('should classify series by data type', () => {
+    expect(seriesKind(KeepaDataType.AMAZON)).toBe('price');
+    expect(seriesKind(KeepaDataType.SALES_RANK)).toBe('rank');
+    expect(seriesKind(KeepaDataType.COUNT_NEW)).toBe('count');
+    expect(seriesKind(KeepaDataType.RATING)).toBe('rating');
+    expect(seriesKind(KeepaDataType.BUY_BOX_SHIPPING)).toBe('priceShipping');
+    expect(seriesKind(KeepaDataType.USED_GOOD_SHIPPING)).toBe('priceShipping');
+  });
+
+  it('should decode pairs and turn -1/-2 into gaps', () => {
+    const csv: number[][] = [];
+    csv[KeepaDataType.AMAZON] = [T0, 1999, T0 + 60, -1, T0 + 120, 1899, T0 + 180, -2];
+
+    const series = decodeCsvSeries(csv, KeepaDataType.AMAZON);
+
+    expect(series.kind).toBe('price');
+    expect(series.points.map(p => p.value)).toEqual([1999, null, 1899, null]);
+    expect(series.points[0].timestamp).toBe(Date.UTC(2024, 0, 1));
+    expect(withoutGaps(series.points).map(p => p.value)).toEqual([1999, 1899]);
+    expect(lastValue(series.points)).toBe(1899);
+  });
+
+  it('should decode price+shipping triples with a landed value', () => {
+    const csv: number[][] = [];
+    csv[KeepaDataType.BUY_BOX_SHIPPING] = [T0, 2500, 399, T0 + 60, 2400, 0, T0 + 120, -1, -1];
+
+    const points = decodeCsvSeries(csv, KeepaDataType.BUY_BOX_SHIPPING).points;
+
+    expect(points).toHaveLength(3);
+    expect(points[0]).toMatchObject({ price: 2500, shipping: 399, value: 2899 });
+    expect(points[1]).toMatchObject({ price: 2400, shipping: 0, value: 2400 });
+    expect(points[2]).toMatchObject({ price: null, value: null });
+    expect(decodeOfferCsv([T0, 1000, 500])[0].value).toBe(1500);
+  });
+
+  it('should scale ratings to stars and tolerate missing series', () => {
+    const csv: number[][] = [];
+    csv[KeepaDataType.RATING] = [T0, 45];
+
+    expect(decodeCsvSeries(csv, KeepaDataType.RATING).points[0].value).toBe(4.5);
+    expect(decodeCsvSeries(csv, KeepaDataType.NEW).points).toEqual([]);
+    expect(decodePairs(undefined)).toEqual([]);
+  });
+
+  describe('resampleSeries', () => {
+    const points = decodePairs([
+      T0 + 60, 1000,
+      T0 + 120, 900,
+      T0 + 2 * DAY_MINUTES, -1,
+      T0 + 3 * DAY_MINUTES + 30, 1100,
+    ]);
+    const until = keepaMinutesToUnix(T0 + 4 * DAY_MINUTES);
+
+    it('should carry values forward into daily buckets', () => {
+      const daily = resampleSeries(points, 'daily', 'last', until);
+
+      expect(daily.map(b => b.value)).toEqual([900, 900, null, 1100, 1100]);
+      expect(daily[1].start - daily[0].start).toBe(86400000);
+    });
+
+    it('should aggregate the values in effect during each bucket', () => {
+      expect(resampleSeries(points, 'daily', 'min', until)[0].value).toBe(900);
+      expect(resampleSeries(points, 'daily', 'max', until)[3].value).toBe(1100);
+    });
+
+    it('should bucket weeks starting on Monday', () => {
+      const weekly = resampleSeries(points, 'weekly', 'mean', until);
+
+      expect(weekly).toHaveLength(1);
+      expect(weekly[0].start).toBe(Date.UTC(2024, 0, 1));
+      expect(weekly[0].value).toBe(1000);
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { detectFeeCategory, fbaFulfillmentFee, profitAt, referralFee } from '../src/fees';
+import { KeepaDomain } from '../src/types';
+
+describe('Amazon fee estimates', () => {
+  it('should detect the fee category from localized category names', () => {
+    expect(detectFeeCategory(['Küche, Haushalt & Wohnen', 'Kochgeschirr'])).toBe('home');
+    expect(detectFeeCategory(['Libros'])).toBe('books');
+    expect(detectFeeCategory(['Electronics', 'Computers & Accessories'])).toBe('electronics');
+    expect(detectFeeCategory(['Something else'])).toBe('other');
+  });
+
+  it('should apply reduced rates, minimum fees and closing fees', () => {
+    expect(referralFee(KeepaDomain.ES, 'beauty', 900)).toEqual({ percent: 8, fee: 72, closingFee: 0 });
+    expect(referralFee(KeepaDomain.ES, 'beauty', 2000)).toEqual({ percent: 15, fee: 300, closingFee: 0 });
+    expect(referralFee(KeepaDomain.US, 'electronics', 100).fee).toBe(30);
+    expect(referralFee(KeepaDomain.US, 'books', 1000)).toEqual({ percent: 15, fee: 150, closingFee: 180 });
+    expect(referralFee(KeepaDomain.DE, 'home', 1000, 12).fee).toBe(120);
+  });
+
+  it('should pick the size tier and charge the dimensional weight on parcels', () => {
+    expect(fbaFulfillmentFee(KeepaDomain.US, { lengthMm: 150, widthMm: 100, heightMm: 10, weightG: 100 }))
+      .toEqual({ sizeTier: 'Small standard', shippingWeightG: 100, fee: 315 });
+    // 30×20×10 cm weighs 1.2 kg dimensionally, more than its 800 g
+    expect(fbaFulfillmentFee(KeepaDomain.ES, { lengthMm: 100, widthMm: 300, heightMm: 200, weightG: 800 }))
+      .toEqual({ sizeTier: 'Small parcel', shippingWeightG: 1200, fee: 509 });
+    expect(fbaFulfillmentFee(KeepaDomain.DE, { lengthMm: 800, widthMm: 600, heightMm: 500, weightG: 15000 }).sizeTier).toBe('Oversize');
+  });
+
+  it('should compute net profit, margin and ROI after VAT', () => {
+    const inputs = { domain: KeepaDomain.ES as const, category: 'home' as const, costPrice: 1000, fulfillmentFee: 509, otherCosts: 0, deductVat: true };
+
+    expect(profitAt(2999, inputs)).toEqual({
+      price: 2999,
+      referralFee: 450,
+      closingFee: 0,
+      fulfillmentFee: 509,
+      vat: 520,
+      otherCosts: 0,
+      netProceeds: 1520,
+      netProfit: 520,
+      margin: 17.3,
+      roi: 52,
+    });
+    expect(profitAt(2999, { ...inputs, deductVat: false }).vat).toBe(0);
+  });
+});
@@ -0,0 +1,22 @@
+import { convertCents, DEFAULT_FX_RATES, formatMoney, parseFxRates } from '../src/fx';
+import { InvalidParameterError } from '../src/types';
+
+describe('FX conversion', () => {
+  it('should parse KEEPA_FX_RATES overrides', () => {
+    expect(parseFxRates(undefined)).toEqual({});
+    expect(parseFxRates(' usd=1.1, GBP = 0.84 ')).toEqual({ USD: 1.1, GBP: 0.84 });
+    expect(() => parseFxRates('CHF=0.95')).toThrow(InvalidParameterError);
+    expect(() => parseFxRates('USD=-1')).toThrow(InvalidParameterError);
+    expect(() => parseFxRates('EUR=1.1')).toThrow('EUR must be 1');
+  });
+
+  it('should convert between minor units, including whole yen', () => {
+    const rates = { ...DEFAULT_FX_RATES, GBP: 0.8, JPY: 160 };
+
+    expect(convertCents(2000, 'GBP', 'EUR', rates)).toBe(2500);
+    expect(convertCents(2500, 'EUR', 'GBP', rates)).toBe(2000);
+    expect(convertCents(1600, 'JPY', 'EUR', rates)).toBe(1000);
+    expect(formatMoney(1600, 'JPY')).toBe('¥1600');
+    expect(formatMoney(2500, 'EUR')).toBe('€25.00');
+  });
+});
@@ -0,0 +1,170 @@
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { JobCancelledError, JobRunner, JobService, JsonJobStore, MemoryJobStore } from '../src/jobs';
+import { Job } from '../src/types';
+
+/** A runner whose calls finish only when the test says so */
+function controlledRunner() {
+  const calls: Array<{
+    job: Job;
+    progress: (update: { progress: number; total?: number }) => void;
+    signal: AbortSignal;
+    resolve: (result: string) => void;
+    reject: (error: Error) => void;
+  }> = [];
+  const runner: JobRunner = (job, progress, signal) => new Promise((resolve, reject) => {
+    calls.push({ job, progress, signal, resolve, reject });
+  });
+  return { calls, runner };
+}
+
+// Lets the service move jobs between the store and the workers
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+// File-backed stores need a few event loop turns
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 200 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+describe('Jobs', () => {
+  it('should run queued jobs with at most `concurrency` at a time', async () => {
+    const { calls, runner } = controlledRunner();
+    const jobs = new JobService(new MemoryJobStore(), runner, { concurrency: 2 });
+
+    const submitted = await Promise.all([1, 2, 3].map(n => jobs.submit('keepa_token_status', { n })));
+    await settle();
+
+    expect(calls.map(call => call.job.input.n)).toEqual([1, 2]);
+    expect((await jobs.get(submitted[2].id))?.status).toBe('queued');
+
+    calls[0].progress({ progress: 50, total: 100 });
+    expect(await jobs.get(submitted[0].id)).toMatchObject({ status: 'running', progress: { progress: 50, total: 100, message: null } });
+
+    calls[0].resolve('done');
+    await settle();
+    expect(await jobs.get(submitted[0].id)).toMatchObject({ status: 'succeeded', result: 'done', error: null });
+    expect(calls.map(call => call.job.input.n)).toEqual([1, 2, 3]);
+
+    calls[1].reject(new Error('Keepa is down'));
+    calls[2].resolve('done');
+    await jobs.drain();
+    expect(await jobs.get(submitted[1].id)).toMatchObject({ status: 'failed', error: { code: 'TOOL_ERROR', message: 'Keepa is down' } });
+  });
+
+  it('should cancel queued jobs and abort running ones', async () => {
+    const { calls, runner } = controlledRunner();
+    const jobs = new JobService(new MemoryJobStore(), runner, { concurrency: 1 });
+    const running = await jobs.submit('keepa_bulk_lookup', {});
+    const queued = await jobs.submit('keepa_bulk_lookup', {});
+    await settle();
+
+    expect((await jobs.cancel(queued.id))?.status).toBe('cancelled');
+    expect(calls[0].signal.aborted).toBe(false);
+    expect((await jobs.cancel(running.id))?.status).toBe('cancelled');
+    expect(calls[0].signal.reason).toBeInstanceOf(JobCancelledError);
+    expect(() => calls[0].progress({ progress: 1 })).toThrow(`Job ${running.id} was cancelled`);
+
+    // The tool call ends anyway; its result is dropped and the queued job never starts
+    calls[0].resolve('late result');
+    await jobs.drain();
+    expect(await jobs.get(running.id)).toMatchObject({ status: 'cancelled', result: null });
+    expect(calls).toHaveLength(1);
+  });
+
+  it('should not start a job cancelled while a worker reads it from the store', async () => {
+    const { calls, runner } = controlledRunner();
+    const store = new MemoryJobStore();
+    const jobs = new JobService(store, runner);
+    await jobs.start();
+    // The worker's read answers with the job as it was before the cancellation
+    let release!: () => void;
+    const read = new Promise<void>(resolve => { release = resolve; });
+    const get = store.get.bind(store);
+    jest.spyOn(store, 'get').mockImplementationOnce(async id => {
+      const job = await get(id);
+      const before = job && { ...job };
+      await read;
+      return before;
+    });
+
+    const job = await jobs.submit('keepa_bulk_lookup', {});
+    expect((await jobs.cancel(job.id))?.status).toBe('cancelled');
+    release();
+    await jobs.drain();
+
+    expect(calls).toHaveLength(0);
+    expect(await jobs.get(job.id)).toMatchObject({ status: 'cancelled' });
+  });
+
+  describe('JsonJobStore', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'keepa-jobs-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should keep results across restarts, rerun queued jobs and fail interrupted ones', async () => {
+      const file = join(dir, 'jobs.json');
+      const first = controlledRunner();
+      const before = new JobService(new JsonJobStore(file), first.runner, { concurrency: 1 });
+      const finished = await before.submit('keepa_token_status', {});
+      const interrupted = await before.submit('keepa_token_status', {});
+      const queued = await before.submit('keepa_token_status', {});
+      await waitFor(() => first.calls.length === 1);
+      first.calls[0].resolve('tokens: 1200');
+      await waitFor(() => first.calls.length === 2);
+      expect(first.calls).toHaveLength(2);
+
+      // The process stops with the second job running and the third still queued
+      const second = controlledRunner();
+      const after = new JobService(new JsonJobStore(file), second.runner, { concurrency: 1 });
+      await after.start();
+      await waitFor(() => second.calls.length === 1);
+
+      expect(await after.get(finished.id)).toMatchObject({ status: 'succeeded', result: 'tokens: 1200' });
+      expect(await after.get(interrupted.id)).toMatchObject({ status: 'failed', error: { code: 'INTERRUPTED' } });
+      expect(second.calls.map(call => call.job.id)).toEqual([queued.id]);
+      second.calls[0].resolve('tokens: 1100');
+      await after.drain();
+    });
+
+    it('should keep results out of the job file', async () => {
+      const file = join(dir, 'jobs.json');
+      const store = new JsonJobStore(file);
+      const jobs = new JobService(store, async () => ({ rows: 2, file: 'a'.repeat(1000) } as any));
+      const job = await jobs.submit('keepa_bulk_lookup', {});
+      await jobs.drain();
+
+      const saved = JSON.parse(readFileSync(file, 'utf8'));
+      expect(saved.jobs).toMatchObject([{ id: job.id, status: 'succeeded', result: null }]);
+      expect(JSON.parse(readFileSync(join(dir, 'jobs-results', `${job.id}.json`), 'utf8'))).toMatchObject({ rows: 2 });
+      expect(await new JsonJobStore(file).get(job.id)).toMatchObject({ status: 'succeeded', result: { rows: 2 } });
+
+      await store.delete(job.id);
+      expect(() => readFileSync(join(dir, 'jobs-results', `${job.id}.json`))).toThrow();
+    });
+  });
+
+  it('should drop finished jobs past the retention time when new ones come in', async () => {
+    const store = new MemoryJobStore();
+    await store.save({
+      id: 'old', tool: 'keepa_token_status', input: {}, status: 'succeeded',
+      createdAt: '2026-01-01T00:00:00.000Z', startedAt: null, finishedAt: '2026-01-01T00:00:00.000Z',
+      progress: null, result: 'done', error: null,
+    });
+    const jobs = new JobService(store, async () => 'done', { retentionMs: 3600000 });
+
+    await jobs.submit('keepa_token_status', {});
+    await jobs.drain();
+
+    expect(await store.get('old')).toBeUndefined();
+    expect(await store.list()).toHaveLength(1);
+  });
+});
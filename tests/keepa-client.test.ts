@@ -1,5 +1,5 @@
 import { KeepaClient } from '../src/keepa-client';
-import { KeepaDomain } from '../src/types';
+import { InvalidParameterError, KeepaDomain } from '../src/types';
 
 describe('KeepaClient', () => {
   let client: KeepaClient;
@@ -135,4 +135,88 @@ describe('KeepaClient', () => {
       expect(client.getDomainName(999 as any)).toBe('amazon.com');
     });
   });
-});
\ No newline at end of file
+
+  describe('categories', () => {
+    const categories: Record<number, any> = {
+      283155: { domainId: 1, catId: 283155, name: 'Books', parent: 0, children: [3, 4], productCount: 90000 },
+      3: { domainId: 1, catId: 3, name: 'Business & Money', parent: 283155, children: [], productCount: 5000 },
+      4: { domainId: 1, catId: 4, name: "Children's Books", parent: 283155, children: [], productCount: 7000 },
+      1000: { domainId: 1, catId: 1000, name: 'Books', parent: 0, children: [], productCount: 10 },
+    };
+    let makeRequest: jest.SpyInstance;
+
+    beforeEach(() => {
+      makeRequest = jest.spyOn(client as any, 'makeRequest').mockImplementation(async (...args: any[]) => {
+        const [endpoint, params] = args;
+        if (endpoint === '/search') {
+          const words = params.term.toLowerCase().split(' ');
+          const hits = Object.values(categories).filter(c => words.every((w: string) => c.name.toLowerCase().includes(w)));
+          return { categories: Object.fromEntries(hits.map(c => [c.catId, c])) };
+        }
+        if (endpoint === '/category') {
+          const ids = String(params.category).split(',').map(Number).filter(id => categories[id]);
+          return {
+            categories: Object.fromEntries(ids.map(id => [id, categories[id]])),
+            ...(params.parents && { categoryParents: { 283155: categories[283155] } }),
+          };
+        }
+        return { asinList: [] };
+      });
+    });
+
+    it('should fetch up to 10 categories per request and cache each one', async () => {
+      const ids = [3, 4, 11, 12, 13, 14, 15, 16, 17, 18, 19];
+      const nodes = await client.getCategory({ domain: 1, category: ids });
+      await client.getCategory({ domain: 1, category: 3 });
+
+      expect(nodes.map(n => n.catId)).toEqual([3, 4]);
+      expect(makeRequest).toHaveBeenCalledTimes(2);
+      expect(makeRequest).toHaveBeenCalledWith('/category', expect.objectContaining({ category: '3,4,11,12,13,14,15,16,17,18' }));
+    });
+
+    it('should return the path from the root category', async () => {
+      const path = await client.getCategoryPath(KeepaDomain.US, 3);
+      expect(path.map(n => n.name)).toEqual(['Books', 'Business & Money']);
+    });
+
+    it('should resolve names, preferring exact matches and then root categories', async () => {
+      expect(await client.resolveCategoryId(KeepaDomain.US, 'books')).toBe(283155);
+      expect(await client.resolveCategoryId(KeepaDomain.US, 'business')).toBe(3);
+      expect(await client.resolveCategoryId(KeepaDomain.US, ' 172282 ')).toBe(172282);
+      expect(makeRequest).toHaveBeenCalledWith('/search', { domain: 1, type: 'category', term: 'books' });
+    });
+
+    it('should drop keywords Keepa would reject and fail on unknown names', async () => {
+      await client.searchCategories({ domain: 1, term: 'Business & Money' });
+      expect(makeRequest).toHaveBeenLastCalledWith('/search', expect.objectContaining({ term: 'Business Money' }));
+
+      await expect(client.resolveCategoryId(KeepaDomain.US, 'Garden')).rejects.toThrow('No category matches "Garden" on amazon.com');
+      await expect(client.searchCategories({ domain: 1, term: 'TV' })).rejects.toBeInstanceOf(InvalidParameterError);
+    });
+
+    it('should filter the Product Finder on subcategories with categories_include', async () => {
+      await client.searchProducts({ domain: 1, categoryId: 3 });
+      const query = makeRequest.mock.calls.find(([endpoint]) => endpoint === '/query')![1];
+
+      expect(JSON.parse(query.selection)).toMatchObject({ categories_include: [3] });
+      await expect(client.searchProducts({ domain: 1, categoryId: 999 })).rejects.toBeInstanceOf(InvalidParameterError);
+    });
+  });
+
+  describe('analyzeSalesVelocity', () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    it('should estimate sales with the estimators it is given', async () => {
+      jest.spyOn(client, 'getProductsBatch').mockResolvedValue([
+        { asin: 'B000000001', monthlySold: 600, stats: { current: [], avg: [] } } as any,
+      ]);
+
+      const [velocity] = await client.analyzeSalesVelocity({
+        asin: 'B000000001',
+        salesEstimators: [{ method: 'rankDrops', estimate: () => ({ monthly: 30, confidence: 'medium' }) }],
+      });
+
+      expect(velocity.salesVelocity).toMatchObject({ monthly: 30, daily: 1, method: 'rankDrops' });
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import {
+  describeProductChange,
+  diffProductHistory,
+  diffProductStates,
+  productStateAt,
+  productStateNow,
+} from '../src/product-diff';
+import { keepaMinutesToUnix } from '../src/csv-decoder';
+import { KeepaDataType, KeepaProduct, ProductState } from '../src/types';
+
+const state = (overrides: Partial<ProductState>): ProductState => ({
+  asin: 'B08412MCNW',
+  at: '2026-03-01T00:00:00.000Z',
+  source: 'snapshot',
+  title: 'Bamboo board',
+  brand: 'Acme',
+  buyBox: 2000,
+  buyBoxSellerId: 'A1',
+  amazon: null,
+  sellers: 3,
+  sellerIds: null,
+  salesRank: 1000,
+  ...overrides,
+});
+
+describe('Product change detection', () => {
+  it('should report every kind of change between two states', () => {
+    const before = state({ sellerIds: ['A1', 'A2'] });
+    const after = state({
+      at: '2026-03-08T00:00:00.000Z',
+      title: 'Bamboo cutting board',
+      brand: 'Acme Home',
+      buyBox: 1800,
+      buyBoxSellerId: 'A3',
+      amazon: 1850,
+      sellerIds: ['A1', 'A3'],
+      salesRank: 400,
+    });
+
+    expect(diffProductStates(before, after).map(change => [change.type, change.field, change.before, change.after, change.changePercent])).toEqual([
+      ['new_seller', 'sellerIds', null, 'A3', null],
+      ['seller_left', 'sellerIds', 'A2', null, null],
+      ['buybox_owner', 'buyBoxSellerId', 'A1', 'A3', null],
+      ['price_drop', 'buyBox', 2000, 1800, -10],
+      ['amazon_entered', 'amazon', null, 1850, null],
+      ['rank_spike', 'salesRank', 1000, 400, -60],
+      ['title', 'title', 'Bamboo board', 'Bamboo cutting board', null],
+      ['brand', 'brand', 'Acme', 'Acme Home', null],
+    ]);
+  });
+
+  it('should apply the thresholds and ignore fields unknown on either side', () => {
+    const before = state({ title: null, buyBoxSellerId: null });
+    const after = state({ buyBox: 1950, salesRank: 1200, sellers: 5, title: 'Renamed', buyBoxSellerId: 'A9' });
+
+    expect(diffProductStates(before, after).map(change => change.type)).toEqual(['offer_count']);
+    expect(diffProductStates(before, after, { priceDropPercent: 1, rankChangePercent: 10 }).map(change => change.type))
+      .toEqual(['offer_count', 'price_drop', 'rank_spike']);
+  });
+
+  it('should date each change by the states it was found between', () => {
+    const states = [
+      state({}),
+      state({ at: '2026-03-02T00:00:00.000Z', amazon: 1999 }),
+      state({ at: '2026-03-03T00:00:00.000Z' }),
+    ];
+
+    const changes = diffProductHistory(states);
+
+    expect(changes.map(change => [change.type, change.from, change.to])).toEqual([
+      ['amazon_entered', '2026-03-01T00:00:00.000Z', '2026-03-02T00:00:00.000Z'],
+      ['amazon_left', '2026-03-02T00:00:00.000Z', '2026-03-03T00:00:00.000Z'],
+    ]);
+    expect(describeProductChange(changes[0], cents => `€${(cents / 100).toFixed(2)}`)).toBe('Amazon entered the listing at €19.99');
+  });
+
+  it('should rebuild a past state from the csv and Buy Box seller history', () => {
+    const T0 = 7000000;
+    const csv: number[][] = [];
+    csv[KeepaDataType.AMAZON] = [T0, -1, T0 + 100, 1999];
+    csv[KeepaDataType.SALES_RANK] = [T0, 1500, T0 + 100, 900];
+    csv[KeepaDataType.COUNT_NEW] = [T0, 2, T0 + 100, 4];
+    csv[KeepaDataType.BUY_BOX_SHIPPING] = [T0, 2300, 0, T0 + 100, 1999, 0];
+    const product: KeepaProduct = {
+      asin: 'B08412MCNW',
+      domainId: 9,
+      title: 'Bamboo board',
+      csv,
+      buyBoxSellerIdHistory: [String(T0), 'A1', String(T0 + 100), 'A3'],
+      offers: [
+        { sellerId: 'A1', isUsed: false, offerCSV: [T0 - 10, 2100, 0] },
+        { sellerId: 'A3', isUsed: false, offerCSV: [T0 + 90, 1999, 0] },
+      ] as any,
+      stats: { current: [1999, -1, -1, 900, -1, -1, -1, -1, -1, -1, -1, 4], buyBoxPrice: 1999, buyBoxSellerId: 'A3' } as any,
+    };
+
+    const then = productStateAt(product, keepaMinutesToUnix(T0 + 50));
+    const now = productStateNow(product);
+
+    expect(then).toMatchObject({ source: 'history', title: null, buyBox: 2300, buyBoxSellerId: 'A1', amazon: null, sellers: 2, sellerIds: ['A1'], salesRank: 1500 });
+    expect(now).toMatchObject({ source: 'current', title: 'Bamboo board', buyBox: 1999, buyBoxSellerId: 'A3', amazon: 1999, sellerIds: ['A1', 'A3'] });
+    expect(diffProductStates(then, now).map(change => change.type)).toEqual(['new_seller', 'buybox_owner', 'price_drop', 'amazon_entered', 'rank_spike']);
+  });
+});
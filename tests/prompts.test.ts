@@ -0,0 +1,41 @@
+import { getPrompt, PROMPT_DEFINITIONS } from '../src/prompts';
+import { InvalidParameterError } from '../src/types';
+
+describe('MCP prompts', () => {
+  it('should offer the sourcing workflows', () => {
+    expect(PROMPT_DEFINITIONS.map(p => p.name)).toEqual([
+      'evaluate_asin',
+      'scout_category',
+      'vet_seller',
+      'compare_marketplaces',
+    ]);
+    for (const prompt of PROMPT_DEFINITIONS) {
+      expect(prompt).not.toHaveProperty('render');
+    }
+  });
+
+  it('should expand evaluate_asin into tool calls with the given arguments', () => {
+    const result = getPrompt('evaluate_asin', { asin: 'b08412mcnw', domain: '9', costPrice: '8.5' });
+    const text = result.messages[0].content.text;
+
+    expect(result.messages[0].role).toBe('user');
+    expect(text).toContain('`keepa_product_lookup` with `{"asin":"B08412MCNW","domain":9}`');
+    expect(text).toContain('"includeOffers":true');
+    expect(text).toContain('unit cost of 8.5');
+  });
+
+  it('should fall back to default domains for compare_marketplaces', () => {
+    const text = getPrompt('compare_marketplaces', { asin: 'B08412MCNW' }).messages[0].content.text;
+
+    for (const domain of [1, 2, 3, 4, 8, 9]) {
+      expect(text).toContain(`{"asin":"B08412MCNW","domain":${domain}}`);
+    }
+  });
+
+  it('should reject unknown prompts and missing or invalid arguments', () => {
+    expect(() => getPrompt('nope')).toThrow(InvalidParameterError);
+    expect(() => getPrompt('vet_seller', {})).toThrow('Missing required argument "sellerId"');
+    expect(() => getPrompt('scout_category', { categoryId: 'books' })).toThrow(InvalidParameterError);
+    expect(() => getPrompt('evaluate_asin', { asin: 'B08412MCNW', domain: '42' })).toThrow(InvalidParameterError);
+  });
+});
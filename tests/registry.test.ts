@@ -0,0 +1,152 @@
+import { readdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { z } from 'zod';
+import { defineTool, ToolRegistry, ToolSpec, toInputSchema } from '../src/registry';
+import { createToolRegistry, TOOL_CATALOG } from '../src/catalog';
+import { currentPriority, TokenBucketScheduler } from '../src/scheduler';
+import { KeepaClient } from '../src/keepa-client';
+import { KeepaTools, OutputFormatSchema, DryRunSchema } from '../src/tools';
+
+describe('ToolRegistry', () => {
+  const client = new KeepaClient({ apiKey: 'test-api-key' });
+  const context = { client, tools: new KeepaTools(client) };
+
+  const echoTool = defineTool({
+    name: 'test_echo',
+    description: 'Echo',
+    schema: z.object({
+      text: z.string().describe('Text to echo'),
+      times: z.number().min(1).default(1),
+      outputFormat: OutputFormatSchema,
+      dryRun: DryRunSchema,
+    }),
+    priority: 'bulk',
+    estimateCost: params => [{ endpoint: '/product', description: 'echo', requests: params.times, tokens: params.times }],
+    handler: async params => `${params.text.repeat(params.times)} (${currentPriority()})`,
+  });
+
+  it('should generate MCP input schemas from zod', () => {
+    const schema = toInputSchema(echoTool.schema);
+
+    expect(schema.type).toBe('object');
+    expect(schema.required).toEqual(['text']);
+    expect(schema.properties).toMatchObject({
+      text: { type: 'string', description: 'Text to echo' },
+      times: { type: 'number', minimum: 1, default: 1 },
+      outputFormat: { type: 'string', enum: ['markdown', 'json'], default: 'markdown' },
+    });
+    expect(schema).not.toHaveProperty('$schema');
+  });
+
+  it('should validate input and run the handler with the tool priority', async () => {
+    const registry = new ToolRegistry([echoTool]);
+
+    await expect(registry.execute('test_echo', { text: 'ab', times: 2 }, context)).resolves.toBe('abab (bulk)');
+    await expect(registry.execute('test_echo', { times: 2 }, context)).rejects.toBeInstanceOf(z.ZodError);
+    await expect(registry.execute('nope', {}, context)).rejects.toThrow('Unknown tool: nope');
+  });
+
+  it('should answer dryRun with the tool estimator instead of the handler', async () => {
+    const registry = new ToolRegistry([echoTool]);
+
+    const estimate: any = await registry.execute('test_echo', { text: 'a', times: 3, dryRun: true, outputFormat: 'json' }, context);
+
+    expect(estimate).toMatchObject({ tool: 'test_echo', dryRun: true, estimatedTokens: 3 });
+  });
+
+  it('should report the Keepa requests of tools that report no progress themselves', async () => {
+    const scheduler = new TokenBucketScheduler();
+    const requestTool = defineTool({
+      name: 'test_requests',
+      description: 'Two Keepa requests',
+      schema: z.object({ dryRun: DryRunSchema }),
+      handler: async () => {
+        await scheduler.run(0, async () => undefined);
+        await scheduler.run(0, async () => undefined);
+        return 'done';
+      },
+    });
+    const registry = new ToolRegistry([requestTool, { ...requestTool, name: 'test_own_progress', reportsProgress: true }]);
+    const progress = jest.fn();
+
+    await registry.execute('test_requests', {}, { ...context, progress });
+    await registry.execute('test_own_progress', {}, { ...context, progress });
+
+    expect(progress.mock.calls).toEqual([
+      [{ progress: 1, message: '1 Keepa request done' }],
+      [{ progress: 2, message: '2 Keepa requests done' }],
+    ]);
+  });
+
+  it('should fail the Keepa requests of a call whose signal is aborted', async () => {
+    const scheduler = new TokenBucketScheduler();
+    const task = jest.fn(async () => 'sent');
+    const registry = new ToolRegistry([defineTool({
+      name: 'test_cancel',
+      description: 'One Keepa request',
+      schema: z.object({ dryRun: DryRunSchema }),
+      handler: () => scheduler.run(1, task),
+    })]);
+    const controller = new AbortController();
+    controller.abort(new Error('Job cancelled'));
+
+    await expect(registry.execute('test_cancel', {}, { ...context, signal: controller.signal })).rejects.toThrow('Job cancelled');
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  it('should reject duplicate tool names', () => {
+    expect(() => new ToolRegistry([echoTool, echoTool])).toThrow('Tool already registered: test_echo');
+  });
+
+  describe('catalog', () => {
+    const registry = createToolRegistry();
+
+    it('should list every catalog tool with a generated schema', () => {
+      const definitions = registry.definitions();
+
+      expect(definitions).toHaveLength(TOOL_CATALOG.length);
+      expect(definitions.find(d => d.name === 'keepa_batch_product_lookup')?.inputSchema.required).toEqual(['asins']);
+      for (const definition of definitions) {
+        expect(definition.inputSchema.properties).toHaveProperty('dryRun');
+      }
+    });
+
+    it('should list every spec file in the catalog directory', async () => {
+      const files = readdirSync(join(__dirname, '../src/catalog')).filter(file => file !== 'index.ts');
+      const listed = new Set<ToolSpec<z.ZodTypeAny>>(TOOL_CATALOG);
+
+      for (const file of files) {
+        const specs = Object.values(await import(`../src/catalog/${file.replace(/\.ts$/, '')}`));
+        expect(specs.some(spec => listed.has(spec as ToolSpec<z.ZodTypeAny>))).toBe(true);
+      }
+      expect(files).toHaveLength(TOOL_CATALOG.length);
+    });
+
+    it('should estimate every catalog tool without calling Keepa', async () => {
+      const input: Record<string, Record<string, unknown>> = {
+        keepa_batch_product_lookup: { asins: ['B08412MCNW'] },
+        keepa_bulk_lookup: { csv: 'ASIN\nB08412MCNW\nB07XJ8C8F5\n' },
+        keepa_product_search: { term: 'bamboo cutting board' },
+        keepa_seller_lookup: { seller: 'A3P5ROKL5A1OLE' },
+        keepa_best_sellers: { category: 172282 },
+        keepa_category_analysis: { categoryId: 172282 },
+        keepa_tracking_add: { asin: 'B08412MCNW', thresholds: [{ value: 1999 }] },
+        keepa_buybox_analysis: { asin: 'B08412MCNW' },
+        keepa_profit_calculator: { asin: 'B08412MCNW', costPrice: 850 },
+        keepa_category_lookup: { categoryId: 'Books' },
+        keepa_category_search: { term: 'kitchen' },
+        keepa_watchlist_create: { name: 'Client A' },
+        keepa_watchlist_add: { watchlist: 'client-a', asins: ['B08412MCNW'] },
+        keepa_watchlist_remove: { watchlist: 'client-a', asins: ['B08412MCNW'] },
+        keepa_watchlist_snapshot: { watchlist: 'client-a' },
+      };
+      // The snapshot estimate looks up the watchlist's size
+      await context.tools.watchlists.create({ name: 'Client A', domain: 1, asins: ['B08412MCNW', 'B07XJ8C8F5'] });
+
+      for (const name of registry.names()) {
+        const estimate: any = await registry.execute(name, { ...input[name], dryRun: true, outputFormat: 'json' }, context);
+        expect(estimate.dryRun).toBe(true);
+      }
+    });
+  });
+});
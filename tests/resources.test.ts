@@ -0,0 +1,77 @@
+import { parseResourceUri, readResource, resourceUri, RESOURCE_TEMPLATES } from '../src/resources';
+import { KeepaClient } from '../src/keepa-client';
+import { KeepaTools } from '../src/tools';
+import { InvalidParameterError, KeepaError } from '../src/types';
+
+describe('MCP resources', () => {
+  describe('parseResourceUri', () => {
+    it('should parse product, seller and category URIs', () => {
+      expect(parseResourceUri('keepa://product/1/b08412mcnw')).toEqual({ kind: 'product', domain: 1, id: 'B08412MCNW' });
+      expect(parseResourceUri('keepa://seller/9/A3P5ROKL5A1OLE')).toEqual({ kind: 'seller', domain: 9, id: 'A3P5ROKL5A1OLE' });
+      expect(parseResourceUri(resourceUri('category', 3, 340843031))).toEqual({ kind: 'category', domain: 3, id: '340843031' });
+    });
+
+    it('should reject unknown schemes, domains and malformed IDs', () => {
+      expect(() => parseResourceUri('keepa://deal/1/123')).toThrow(InvalidParameterError);
+      expect(() => parseResourceUri('keepa://product/42/B08412MCNW')).toThrow(InvalidParameterError);
+      expect(() => parseResourceUri('keepa://product/1/SHORT')).toThrow(InvalidParameterError);
+      expect(() => parseResourceUri('keepa://category/1/abc')).toThrow(InvalidParameterError);
+    });
+
+    it('should expose one template per resource kind', () => {
+      expect(RESOURCE_TEMPLATES.map(t => t.uriTemplate)).toEqual([
+        'keepa://product/{domain}/{asin}',
+        'keepa://seller/{domain}/{sellerId}',
+        'keepa://category/{domain}/{catId}',
+      ]);
+    });
+  });
+
+  describe('readResource', () => {
+    let client: KeepaClient;
+    let tools: KeepaTools;
+    let makeRequest: jest.SpyInstance;
+
+    beforeEach(() => {
+      client = new KeepaClient({ apiKey: 'test-api-key' });
+      tools = new KeepaTools(client);
+      makeRequest = jest.spyOn(client as any, 'makeRequest').mockImplementation(async (...args: any[]) => {
+        const [endpoint, params] = args;
+        if (endpoint === '/product') {
+          return { products: params.asin.split(',').map((asin: string) => ({ asin, domainId: params.domain, title: 'Test' })) };
+        }
+        return {
+          categories: { 3: { domainId: 1, catId: 3, name: 'Business & Money', parent: 1000, children: [2, 2675], productCount: 5000 } },
+          categoryParents: { 1000: { domainId: 1, catId: 1000, name: 'Books', parent: 0 } },
+        };
+      });
+    });
+
+    it('should return the product lookup JSON and serve repeat reads from the cache', async () => {
+      const first = await readResource(client, tools, 'keepa://product/1/B08412MCNW');
+      await readResource(client, tools, 'keepa://product/1/B08412MCNW');
+
+      expect(first.mimeType).toBe('application/json');
+      expect(JSON.parse(first.text)).toMatchObject({ asin: 'B08412MCNW', marketplace: 'amazon.com' });
+      expect(makeRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it('should build a category snapshot with its path', async () => {
+      const contents = await readResource(client, tools, 'keepa://category/1/3');
+
+      expect(JSON.parse(contents.text)).toMatchObject({
+        catId: 3,
+        path: ['Books', 'Business & Money'],
+        parentId: 1000,
+        children: [2, 2675],
+        productCount: 5000,
+      });
+    });
+
+    it('should fail when Keepa has no such product', async () => {
+      makeRequest.mockResolvedValue({ products: [] });
+
+      await expect(readResource(client, tools, 'keepa://product/1/B000000000')).rejects.toBeInstanceOf(KeepaError);
+    });
+  });
+});
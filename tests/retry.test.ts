@@ -0,0 +1,122 @@
+import { computeRetryDelay, withRetry, DEFAULT_RETRY_POLICY } from '../src/retry';
+import { KeepaClient } from '../src/keepa-client';
+import {
+  KeepaError,
+  InvalidParameterError,
+  NetworkError,
+  RateLimitedError,
+  TokenExhaustedError
+} from '../src/types';
+
+describe('Retry policy', () => {
+  const policy = { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 10000, jitter: 0.5 };
+
+  describe('computeRetryDelay', () => {
+    it('should back off exponentially with jitter on network errors', () => {
+      const error = new NetworkError('socket hang up');
+      expect(computeRetryDelay(error, 1, policy, () => 0)).toBe(100);
+      expect(computeRetryDelay(error, 2, policy, () => 0)).toBe(200);
+      expect(computeRetryDelay(error, 2, policy, () => 1)).toBe(100);
+    });
+
+    it('should wait for refillIn on rate limits', () => {
+      const error = new RateLimitedError('429', 429, -5, 4000);
+      expect(computeRetryDelay(error, 1, policy, () => 0)).toBe(4000);
+    });
+
+    it('should give up when the refill is further away than maxDelayMs', () => {
+      const error = new RateLimitedError('429', 429, -500, 60000);
+      expect(computeRetryDelay(error, 1, policy)).toBeNull();
+    });
+
+    it('should not retry invalid parameters or exhausted attempts', () => {
+      expect(computeRetryDelay(new InvalidParameterError('bad'), 1, policy)).toBeNull();
+      expect(computeRetryDelay(new NetworkError('reset'), 3, policy)).toBeNull();
+    });
+  });
+
+  describe('withRetry', () => {
+    const noSleep = jest.fn(async () => undefined);
+
+    it('should retry transient failures until the request succeeds', async () => {
+      const request = jest.fn()
+        .mockRejectedValueOnce(new NetworkError('ECONNRESET'))
+        .mockResolvedValueOnce('ok');
+
+      await expect(withRetry(request, policy, noSleep)).resolves.toBe('ok');
+      expect(request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should turn a rate limit it cannot wait out into TokenExhaustedError', async () => {
+      const request = jest.fn().mockRejectedValue(new RateLimitedError('429', 429, -100, 600000));
+
+      const error: any = await withRetry(request, policy, noSleep).catch(e => e);
+      expect(error).toBeInstanceOf(TokenExhaustedError);
+      expect(error.refillIn).toBe(600000);
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should rethrow non-retryable errors untouched', async () => {
+      const invalid = new InvalidParameterError('Invalid ASIN');
+      const request = jest.fn().mockRejectedValue(invalid);
+
+      await expect(withRetry(request, DEFAULT_RETRY_POLICY, noSleep)).rejects.toBe(invalid);
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('KeepaClient error classification', () => {
+    const client = new KeepaClient({ apiKey: 'test-api-key' });
+    const classify = (error: any): any => {
+      try {
+        (client as any).errorInterceptor(error);
+      } catch (e) {
+        return e;
+      }
+    };
+
+    it('should map Keepa status codes to error subclasses', () => {
+      const response = (status: number, data: any = {}) => ({ response: { status, data } });
+
+      expect(classify(response(429, { tokensLeft: -3, refillIn: 2500 }))).toBeInstanceOf(RateLimitedError);
+      expect(classify(response(400, { error: 'invalid asin', tokensLeft: 50 }))).toBeInstanceOf(InvalidParameterError);
+      expect(classify(response(402, {}))).toBeInstanceOf(TokenExhaustedError);
+      expect(classify(response(503))).toBeInstanceOf(NetworkError);
+      expect(classify(response(401, { tokensLeft: 10 }))).toBeInstanceOf(KeepaError);
+    });
+
+    it('should treat missing responses as network errors', () => {
+      const error = classify({ message: 'timeout of 30000ms exceeded', code: 'ECONNABORTED' });
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(error.code).toBe('ECONNABORTED');
+    });
+
+    it('should retry GET requests but send writes only once', async () => {
+      const retrying = new KeepaClient({ apiKey: 'test-api-key', retry: { baseDelayMs: 1, jitter: 0 } });
+      const http = (retrying as any).client;
+      const timeout = new NetworkError('timeout of 30000ms exceeded', undefined, 'ECONNABORTED');
+      const get = jest.spyOn(http, 'get').mockRejectedValueOnce(timeout).mockResolvedValue({ data: { tokensLeft: 100 } });
+      const post = jest.spyOn(http, 'post').mockRejectedValue(timeout);
+
+      await expect((retrying as any).makeRequest('/token')).resolves.toEqual({ tokensLeft: 100 });
+      await expect((retrying as any).makeRequest('/tracking', { type: 'add' }, [{ asin: 'B08412MCNW' }])).rejects.toBe(timeout);
+      expect(get).toHaveBeenCalledTimes(2);
+      expect(post).toHaveBeenCalledTimes(1);
+    });
+
+    it('should send a notification read that marks them as read only once', async () => {
+      const retrying = new KeepaClient({ apiKey: 'test-api-key', retry: { baseDelayMs: 1, jitter: 0 } });
+      const timeout = new NetworkError('timeout of 30000ms exceeded', undefined, 'ECONNABORTED');
+      const get = jest.spyOn((retrying as any).client, 'get')
+        .mockRejectedValueOnce(timeout)
+        .mockResolvedValue({ data: { notifications: [{ asin: 'B08412MCNW' }] } });
+
+      await expect(retrying.getNotifications({ since: 5 })).rejects.toBe(timeout);
+      expect(get).toHaveBeenCalledTimes(1);
+
+      get.mockRejectedValueOnce(timeout);
+      await expect(retrying.getNotifications({ since: 5, revise: true })).resolves.toEqual([{ asin: 'B08412MCNW' }]);
+      expect(get).toHaveBeenCalledTimes(3);
+    });
+  });
+});
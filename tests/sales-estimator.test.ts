@@ -0,0 +1,75 @@
+import {
+  estimateSales,
+  monthlySoldEstimator,
+  rankCurveEstimator,
+  SalesEstimator,
+} from '../src/sales-estimator';
+import { KeepaDomain } from '../src/types';
+
+const now = Date.UTC(2024, 5, 1);
+const keepaMinutes = (daysAgo: number) => Math.floor((now - daysAgo * 86400000) / 60000) - 21564000;
+
+function rankCsv(points: Array<[number, number]>): number[][] {
+  const csv: number[][] = [];
+  csv[3] = points.flatMap(([daysAgo, rank]) => [keepaMinutes(daysAgo), rank]);
+  return csv;
+}
+
+describe('Sales estimation', () => {
+  it('should prefer Amazon\'s monthlySold', () => {
+    const product: any = { monthlySold: 400, csv: rankCsv([[20, 5000], [10, 4000]]) };
+
+    expect(estimateSales(product, { domain: KeepaDomain.US, now })).toEqual({
+      monthly: 400, daily: 13.3, method: 'monthlySold', confidence: 'high',
+    });
+  });
+
+  it('should count sales rank drops over the last 30 days', () => {
+    // Rank climbs slowly between sales and drops on each of the 6 sales
+    const points: Array<[number, number]> = [[31, 5000]];
+    for (let i = 0; i < 20; i++) {
+      points.push([29.5 - i * 1.5, i % 3 === 2 ? 4000 : 5000 + i * 10]);
+    }
+
+    const estimate = estimateSales({ csv: rankCsv(points) } as any, { domain: KeepaDomain.US, now });
+
+    expect(estimate).toEqual({ monthly: 6, daily: 0.2, method: 'rankDrops', confidence: 'medium' });
+  });
+
+  it('should scale a short rank history and flag it as low confidence', () => {
+    const estimate = estimateSales(
+      { csv: rankCsv([[10, 9000], [8, 8000], [6, 9000], [4, 7000]]) } as any,
+      { domain: KeepaDomain.US, now },
+    );
+
+    expect(estimate).toMatchObject({ monthly: 6, method: 'rankDrops', confidence: 'low' });
+  });
+
+  it('should use Keepa\'s 30-day drop count when the product has no csv history', () => {
+    const product: any = { stats: { current: [-1, -1, -1, 1500], salesRankDrops30: 45, salesRankDrops90: 120 } };
+
+    expect(estimateSales(product, { domain: KeepaDomain.US, now })).toEqual({
+      monthly: 45, daily: 1.5, method: 'rankDrops', confidence: 'medium',
+    });
+  });
+
+  it('should fall back to the category rank curve, scaled per marketplace', () => {
+    const product = (rank: number): any => ({
+      categoryTree: [{ catId: 1, name: 'Home & Kitchen' }],
+      stats: { current: [-1, -1, -1, rank] },
+    });
+
+    expect(estimateSales(product(1000), { domain: KeepaDomain.US, now })).toMatchObject({ monthly: 1200, method: 'rankCurve', confidence: 'low' });
+    expect(estimateSales(product(1000), { domain: KeepaDomain.ES, now }).monthly).toBe(240);
+    // Geometric midpoint between the 1,000 and 10,000 anchors
+    expect(estimateSales(product(Math.sqrt(1e7)), { domain: KeepaDomain.US, now }).monthly).toBe(548);
+  });
+
+  it('should report when no estimator can answer and accept custom estimators', () => {
+    const fixed: SalesEstimator = { method: 'rankCurve', estimate: () => ({ monthly: 90, confidence: 'medium' }) };
+
+    expect(estimateSales({} as any, { domain: KeepaDomain.US, now })).toEqual({ monthly: 0, daily: 0, method: 'none', confidence: 'none' });
+    expect(estimateSales({} as any, { domain: KeepaDomain.US, now }, [monthlySoldEstimator, fixed, rankCurveEstimator]))
+      .toMatchObject({ monthly: 90, daily: 3, confidence: 'medium' });
+  });
+});
@@ -0,0 +1,124 @@
+import { TokenBucketScheduler, runWithPriority, currentPriority, runInScope } from '../src/scheduler';
+
+describe('TokenBucketScheduler', () => {
+  afterEach(() => jest.useRealTimers());
+
+  const flush = () => new Promise(resolve => jest.requireActual('timers').setImmediate(resolve));
+
+  it('should run requests immediately while the balance covers them', async () => {
+    const scheduler = new TokenBucketScheduler();
+    scheduler.update({ tokensLeft: 100, refillIn: 30000, refillRate: 20 });
+
+    const result = await scheduler.run(10, async () => 'done');
+
+    expect(result).toBe('done');
+    expect(scheduler.status()).toMatchObject({ tokensAvailable: 100, queued: 0, inFlight: 0 });
+  });
+
+  it('should hold requests until the refill covers their cost', async () => {
+    jest.useFakeTimers();
+    const scheduler = new TokenBucketScheduler();
+    scheduler.update({ tokensLeft: 5, refillIn: 10000, refillRate: 20 });
+
+    const task = jest.fn(async () => 'ok');
+    const pending = scheduler.run(15, task);
+    await flush();
+    expect(task).not.toHaveBeenCalled();
+    expect(scheduler.status().queued).toBe(1);
+
+    jest.advanceTimersByTime(10000);
+    await expect(pending).resolves.toBe('ok');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('should admit interactive requests ahead of queued bulk requests', async () => {
+    jest.useFakeTimers();
+    const scheduler = new TokenBucketScheduler();
+    scheduler.update({ tokensLeft: 0, refillIn: 5000, refillRate: 10 });
+
+    const order: string[] = [];
+    const bulk = scheduler.run(10, async () => { order.push('bulk'); }, 'bulk');
+    const interactive = scheduler.run(10, async () => {
+      order.push('interactive');
+      // Keepa reports the balance after charging the request
+      scheduler.update({ tokensLeft: 0, refillIn: 60000, refillRate: 10 });
+    }, 'interactive');
+    await flush();
+
+    jest.advanceTimersByTime(5000);
+    await interactive;
+    expect(order).toEqual(['interactive']);
+
+    jest.advanceTimersByTime(60000);
+    await bulk;
+    expect(order).toEqual(['interactive', 'bulk']);
+  });
+
+  it('should not count a request twice once Keepa reports the balance after it', async () => {
+    const scheduler = new TokenBucketScheduler();
+    scheduler.update({ tokensLeft: 100, refillIn: 30000, refillRate: 20 });
+
+    const during = await scheduler.run(10, async () => {
+      scheduler.update({ tokensLeft: 90, refillIn: 30000, refillRate: 20 });
+      return scheduler.status().tokensAvailable;
+    });
+
+    expect(during).toBe(90);
+    expect(scheduler.status().tokensAvailable).toBe(90);
+  });
+
+  it('should send one request at a time until Keepa reports a balance', async () => {
+    const scheduler = new TokenBucketScheduler();
+    let release!: () => void;
+    const first = scheduler.run(1, () => new Promise<void>(resolve => { release = resolve; }));
+    const second = jest.fn(async () => undefined);
+    const pending = scheduler.run(1, second);
+    await flush();
+
+    expect(second).not.toHaveBeenCalled();
+    scheduler.update({ tokensLeft: 50, refillIn: 60000, refillRate: 5 });
+    release();
+    await Promise.all([first, pending]);
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it('should propagate the priority through async calls', async () => {
+    expect(currentPriority()).toBe('normal');
+    const priority = await runWithPriority('interactive', async () => {
+      await Promise.resolve();
+      return currentPriority();
+    });
+    expect(priority).toBe('interactive');
+  });
+
+  it('should drop queued requests when their scope is aborted', async () => {
+    jest.useFakeTimers();
+    const scheduler = new TokenBucketScheduler();
+    scheduler.update({ tokensLeft: 0, refillIn: 5000, refillRate: 10 });
+    const controller = new AbortController();
+
+    const task = jest.fn(async () => 'ok');
+    const pending = runInScope({ signal: controller.signal }, () => scheduler.run(10, task));
+    await flush();
+    controller.abort(new Error('cancelled'));
+
+    await expect(pending).rejects.toThrow('cancelled');
+    expect(scheduler.status().queued).toBe(0);
+    await expect(runInScope({ signal: controller.signal }, () => scheduler.run(1, task))).rejects.toThrow('cancelled');
+    jest.advanceTimersByTime(5000);
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  it('should report each request its scope completes', async () => {
+    const scheduler = new TokenBucketScheduler();
+    scheduler.update({ tokensLeft: 100, refillIn: 30000, refillRate: 20 });
+    const onRequestDone = jest.fn();
+
+    await runInScope({ onRequestDone }, async () => {
+      await scheduler.run(1, async () => 'a');
+      await scheduler.run(1, async () => 'b');
+    });
+
+    expect(onRequestDone).toHaveBeenCalledTimes(2);
+  });
+});
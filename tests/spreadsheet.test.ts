@@ -0,0 +1,63 @@
+import { inflateRawSync } from 'node:zlib';
+import { detectCsvDelimiter, parseCsv, toCsv, writeXlsx } from '../src/spreadsheet';
+
+// Reads the entries of a ZIP back through its central directory
+function unzip(data: Buffer): Record<string, string> {
+  const end = data.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = data.readUInt16LE(end + 10);
+  let offset = data.readUInt32LE(end + 16);
+  const files: Record<string, string> = {};
+  for (let i = 0; i < count; i++) {
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const name = data.toString('utf8', offset + 46, offset + 46 + nameLength);
+    const start = localOffset + 30 + data.readUInt16LE(localOffset + 26);
+    files[name] = inflateRawSync(data.subarray(start, start + compressedSize)).toString('utf8');
+    offset += 46 + nameLength;
+  }
+  return files;
+}
+
+describe('Spreadsheet files', () => {
+  it('should detect the delimiter from the first line', () => {
+    expect(detectCsvDelimiter('EAN;Descripción;Precio\n4006381333931;"Lápiz, azul";1,20')).toBe(';');
+    expect(detectCsvDelimiter('ASIN\tTitle\nB08412MCNW\tBoard')).toBe('\t');
+    expect(detectCsvDelimiter('ASIN\nB08412MCNW')).toBe(',');
+  });
+
+  it('should parse quoted cells, CRLF lines and a UTF-8 BOM', () => {
+    const csv = '\uFEFFEAN;Descripción\r\n4006381333931;"Lápiz ""Stabilo""; azul"\r\n\r\n036000291452;"Two\nlines"\r\n';
+
+    expect(parseCsv(csv)).toEqual([
+      ['EAN', 'Descripción'],
+      ['4006381333931', 'Lápiz "Stabilo"; azul'],
+      ['036000291452', 'Two\nlines'],
+    ]);
+  });
+
+  it('should write CSV with quoting and formula-looking text neutralised', () => {
+    const csv = toCsv([['Title', 'Price'], ['Board, bamboo', 19.99], ['=HYPERLINK("x")', null]]);
+
+    expect(csv).toBe('\uFEFFTitle,Price\r\n"Board, bamboo",19.99\r\n"\'=HYPERLINK(""x"")",\r\n');
+    expect(parseCsv(csv)[1]).toEqual(['Board, bamboo', '19.99']);
+  });
+
+  it('should write a workbook with inline strings and numbers', () => {
+    const files = unzip(writeXlsx([['ASIN', 'Buy Box'], ['B08412MCNW', 19.99], ['A & <B>', null]], 'Keepa'));
+
+    expect(Object.keys(files)).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/worksheets/sheet1.xml',
+    ]);
+    expect(files['xl/workbook.xml']).toContain('<sheet name="Keepa" sheetId="1" r:id="rId1"/>');
+    const sheet = files['xl/worksheets/sheet1.xml'];
+    expect(sheet).toContain('<c r="A1" t="inlineStr" s="1"><is><t xml:space="preserve">ASIN</t></is></c>');
+    expect(sheet).toContain('<c r="B2"><v>19.99</v></c>');
+    expect(sheet).toContain('<row r="3"><c r="A3" t="inlineStr"><is><t xml:space="preserve">A &amp; &lt;B&gt;</t></is></c></row>');
+  });
+});
@@ -0,0 +1,93 @@
+import {
+  estimateToolCost,
+  formatCostEstimate,
+  productRequestCost,
+  sellerRequestCost
+} from '../src/token-cost';
+import { KeepaTools } from '../src/tools';
+import { ProductFinderSchema } from '../src/catalog/product-finder';
+import { SellerLookupSchema } from '../src/catalog/seller-lookup';
+import { KeepaClient } from '../src/keepa-client';
+import { createToolRegistry } from '../src/catalog';
+import { TokenCostEstimate } from '../src/types';
+
+describe('Token cost estimator', () => {
+  describe('productRequestCost', () => {
+    it('should charge 1 token per product', () => {
+      expect(productRequestCost(10).tokens).toBe(10);
+    });
+
+    it('should charge 6 tokens per page of 10 offers plus stock', () => {
+      expect(productRequestCost(1, { offers: 20 }).tokens).toBe(13);
+      expect(productRequestCost(1, { offers: 25, stock: true }).tokens).toBe(21);
+    });
+
+    it('should ignore rating and buybox when offers are requested', () => {
+      expect(productRequestCost(1, { offers: 20, rating: true, buybox: true }).tokens).toBe(13);
+      expect(productRequestCost(1, { rating: true, buybox: true }).tokens).toBe(4);
+    });
+  });
+
+  describe('sellerRequestCost', () => {
+    it('should add the storefront surcharge', () => {
+      expect(sellerRequestCost(3).tokens).toBe(3);
+      expect(sellerRequestCost(1, true).tokens).toBe(10);
+    });
+  });
+
+  describe('estimateToolCost', () => {
+    it('should scale batch lookups with the number of ASINs', () => {
+      const estimate = estimateToolCost('keepa_batch_product_lookup', { asins: ['A', 'B', 'C'] });
+      expect(estimate.estimatedTokens).toBe(3);
+    });
+
+    it('should include Product Finder hydration for the page size', () => {
+      const estimate = estimateToolCost('keepa_product_finder', ProductFinderSchema.parse({ perPage: 10 }));
+      expect(estimate.breakdown.map(item => item.endpoint)).toEqual(['/query', '/product']);
+      expect(estimate.estimatedTokens).toBe(11 + 10 * 13);
+    });
+
+    it('should add the category search when a category is given by name', () => {
+      const byId = estimateToolCost('keepa_product_finder', ProductFinderSchema.parse({ categoryId: 3, perPage: 10 }));
+      const byName = estimateToolCost('keepa_product_finder', ProductFinderSchema.parse({ categoryId: 'Books', perPage: 10 }));
+
+      expect(byId.breakdown.map(item => item.endpoint)).toEqual(['/category', '/query', '/product']);
+      expect(byName.estimatedTokens).toBe(byId.estimatedTokens + 1);
+    });
+
+    it('should count sellers in a comma separated batch', () => {
+      const estimate = estimateToolCost('keepa_seller_lookup', SellerLookupSchema.parse({ seller: 'A1,A2, A3' }));
+      expect(estimate.estimatedTokens).toBe(3);
+    });
+
+    it('should throw for unknown tools', () => {
+      expect(() => estimateToolCost('keepa_unknown')).toThrow('Unknown tool: keepa_unknown');
+    });
+
+    it('should format a markdown summary', () => {
+      const markdown = formatCostEstimate(estimateToolCost('keepa_best_sellers'));
+      expect(markdown).toContain('**Estimated Tokens**: ~50');
+      expect(markdown).toContain('/bestsellers');
+    });
+  });
+
+  describe('dryRun', () => {
+    const client = new KeepaClient({ apiKey: 'test-api-key' });
+    const tools = new KeepaTools(client);
+
+    it('should return the estimate without calling Keepa', async () => {
+      const makeRequest = jest.spyOn(client as any, 'makeRequest');
+
+      const result = await createToolRegistry().execute(
+        'keepa_product_lookup',
+        { asin: 'B08412MCNW', offers: 40, dryRun: true, outputFormat: 'json' },
+        { client, tools }
+      ) as TokenCostEstimate;
+
+      expect(result.dryRun).toBe(true);
+      expect(result.tool).toBe('keepa_product_lookup');
+      expect(result.estimatedTokens).toBe(1 + 4 * 6 + 2);
+      expect(makeRequest).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,9 +1,38 @@
-import { 
-  ProductFinderSchema, 
-  CategoryAnalysisSchema, 
-  SalesVelocitySchema,
-  InventoryAnalysisSchema 
-} from '../src/tools';
+import { KeepaTools } from '../src/tools';
+import { AlertsSchema, manageAlerts } from '../src/catalog/alerts';
+import { BatchProductLookupSchema, batchLookupProducts } from '../src/catalog/batch-product-lookup';
+import { BulkLookupSchema, bulkLookup } from '../src/catalog/bulk-lookup';
+import { getBuyBoxAnalysis } from '../src/catalog/buybox-analysis';
+import { CategoryAnalysisSchema } from '../src/catalog/category-analysis';
+import { InventoryAnalysisSchema } from '../src/catalog/inventory-analysis';
+import { getLightningDeals } from '../src/catalog/lightning-deals';
+import { compareMarketplaces } from '../src/catalog/marketplace-compare';
+import { NotificationsSchema, getNotifications } from '../src/catalog/notifications';
+import { getPriceChart } from '../src/catalog/price-chart';
+import { getPriceHistory } from '../src/catalog/price-history';
+import { ProductChangesSchema, getProductChanges } from '../src/catalog/product-changes';
+import { ProductFinderSchema } from '../src/catalog/product-finder';
+import { ProductLookupSchema, lookupProduct } from '../src/catalog/product-lookup';
+import { ProductSearchSchema, searchProductsByKeyword } from '../src/catalog/product-search';
+import { calculateProfit } from '../src/catalog/profit-calculator';
+import { SalesVelocitySchema, analyzeSalesVelocity } from '../src/catalog/sales-velocity';
+import { DealSearchSchema, searchDeals } from '../src/catalog/search-deals';
+import { TokenStatusSchema } from '../src/catalog/token-status';
+import { getTopSellers } from '../src/catalog/top-sellers';
+import { TrackingAddSchema, addTracking } from '../src/catalog/tracking-add';
+import { WatchlistCreateSchema, createWatchlist } from '../src/catalog/watchlist-create';
+import { WatchlistSnapshotSchema, snapshotWatchlist } from '../src/catalog/watchlist-snapshot';
+import { KeepaClient } from '../src/keepa-client';
+import { createToolRegistry } from '../src/catalog';
+import { AlertService, MemoryAlertStore } from '../src/alerts';
+import {
+  ProductLookupResult,
+  BatchProductLookupResult,
+  ProductSearchResult,
+  TrackingSummary,
+  NotificationsResult,
+  KeepaDataType
+} from '../src/types';
 
 describe('Tool Schemas', () => {
   describe('ProductFinderSchema', () => {
@@ -211,4 +240,684 @@ describe('Tool Schemas', () => {
       })).toThrow();
     });
   });
-});
\ No newline at end of file
+
+  describe('outputFormat', () => {
+    it('should default to markdown on every schema', () => {
+      expect(ProductLookupSchema.parse({ asin: 'B08412MCNW' }).outputFormat).toBe('markdown');
+      expect(BatchProductLookupSchema.parse({ asins: ['B08412MCNW'] }).outputFormat).toBe('markdown');
+      expect(TokenStatusSchema.parse({}).outputFormat).toBe('markdown');
+    });
+
+    it('should reject unknown formats', () => {
+      expect(() => ProductLookupSchema.parse({ asin: 'B08412MCNW', outputFormat: 'xml' })).toThrow();
+    });
+  });
+});
+
+describe('KeepaTools JSON output', () => {
+  const client = new KeepaClient({ apiKey: 'test-api-key' });
+  const tools = new KeepaTools(client);
+
+  const current = new Array(34).fill(-1);
+  current[0] = 2599;   // Amazon price
+  current[3] = 1520;   // Sales rank
+  current[16] = 45;    // Rating (4.5 stars)
+  current[17] = 1234;  // Review count
+
+  const product: any = {
+    asin: 'B08412MCNW',
+    domainId: 1,
+    title: 'Test Product',
+    brand: 'Acme',
+    monthlySold: 300,
+    stats: {
+      current,
+      avg90: [2499],
+      minInInterval: [[7000000, 1999]],
+      maxInInterval: [[7000100, 2999]],
+      buyBoxPrice: 2599,
+      buyBoxShipping: 0,
+      buyBoxIsFBA: true,
+      stockBuyBox: -1,
+      outOfStockPercentage90: [5, 0],
+    },
+  };
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should return a typed product object with prices in cents and ISO dates', async () => {
+    jest.spyOn(client, 'getProductByAsin').mockResolvedValue(product);
+
+    const result = await lookupProduct(
+      tools,
+      ProductLookupSchema.parse({ asin: 'B08412MCNW', outputFormat: 'json' })
+    ) as ProductLookupResult;
+
+    expect(typeof result).toBe('object');
+    expect(result.asin).toBe('B08412MCNW');
+    expect(result.marketplace).toBe('amazon.com');
+    expect(result.prices.buyBox).toBe(2599);
+    expect(result.prices.buyBoxShipping).toBe(0);
+    expect(result.prices.min90).toEqual({ value: 1999, date: new Date((7000000 + 21564000) * 60000).toISOString() });
+    expect(result.stock?.buyBox).toBeNull();
+    expect(result.salesRank?.current).toBe(1520);
+    expect(result.reviews).toEqual({ rating: 4.5, count: 1234 });
+    expect(result.monthlySold).toBe(300);
+  });
+
+  it('should keep returning markdown by default', async () => {
+    jest.spyOn(client, 'getProductByAsin').mockResolvedValue(product);
+
+    const result = await lookupProduct(tools, ProductLookupSchema.parse({ asin: 'B08412MCNW' }));
+
+    expect(typeof result).toBe('string');
+    expect(result).toContain('**Product Information for B08412MCNW**');
+  });
+
+  it('should report missing ASINs in batch JSON output', async () => {
+    jest.spyOn(client, 'getProductsBatch').mockResolvedValue([product]);
+
+    const result = await batchLookupProducts(
+      tools,
+      BatchProductLookupSchema.parse({ asins: ['B08412MCNW', 'B0DCV47JXX'], outputFormat: 'json' })
+    ) as BatchProductLookupResult;
+
+    expect(result.found).toBe(1);
+    expect(result.products[0]).toEqual({
+      asin: 'B08412MCNW',
+      title: 'Test Product',
+      brand: 'Acme',
+      price: 2599,
+      salesRank: 1520,
+    });
+    expect(result.notFound).toEqual(['B0DCV47JXX']);
+  });
+
+  it('should match lower-case ASINs against the products Keepa returns', async () => {
+    jest.spyOn(client, 'getProductsBatch').mockResolvedValue([product]);
+
+    const result = await batchLookupProducts(
+      tools,
+      BatchProductLookupSchema.parse({ asins: ['b08412mcnw'], outputFormat: 'json' })
+    ) as BatchProductLookupResult;
+
+    expect(client.getProductsBatch).toHaveBeenCalledWith(['B08412MCNW'], expect.anything(), expect.anything());
+    expect(result.notFound).toEqual([]);
+  });
+
+  it('should answer missing products with a NOT_FOUND object and no deals with an empty list', async () => {
+    jest.spyOn(client, 'getProductByAsin').mockResolvedValue(null);
+    jest.spyOn(client, 'getDeals').mockResolvedValue([]);
+
+    const lookup = await lookupProduct(tools, ProductLookupSchema.parse({ asin: 'B0DCV47JXX', outputFormat: 'json' }));
+    const deals = await searchDeals(tools, DealSearchSchema.parse({ domain: 3, outputFormat: 'json' }));
+
+    expect(lookup).toEqual({ error: { code: 'NOT_FOUND', message: 'Product not found for ASIN: B0DCV47JXX' } });
+    expect(deals).toEqual({ domain: 3, marketplace: 'amazon.de', deals: [] });
+  });
+
+  it('should summarize keyword search hits like the batch lookup and flag further pages', async () => {
+    const makeRequest = jest.spyOn(client as any, 'makeRequest').mockResolvedValue({
+      products: Array.from({ length: 10 }, () => product),
+    });
+
+    const result = await searchProductsByKeyword(
+      tools,
+      ProductSearchSchema.parse({ term: 'bamboo cutting board', domain: 9, outputFormat: 'json' })
+    ) as ProductSearchResult;
+
+    expect(makeRequest).toHaveBeenCalledWith('/search', expect.objectContaining({
+      domain: 9, type: 'product', term: 'bamboo cutting board', page: 0, stats: 90,
+    }));
+    expect(result.marketplace).toBe('amazon.es');
+    expect(result.hasMore).toBe(true);
+    expect(result.products[0]).toEqual({
+      asin: 'B08412MCNW',
+      title: 'Test Product',
+      brand: 'Acme',
+      price: 2599,
+      salesRank: 1520,
+    });
+  });
+});
+
+describe('KeepaTools tracking', () => {
+  const client = new KeepaClient({ apiKey: 'test-api-key' });
+  const tools = new KeepaTools(client);
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should send typed thresholds per csv type and domain', async () => {
+    const makeRequest = jest.spyOn(client as any, 'makeRequest').mockImplementation(async (...args: any[]) => ({
+      trackings: [{ ...args[2][0], createDate: 7000000, isActive: true }],
+    }));
+
+    const result = await addTracking(tools, TrackingAddSchema.parse({
+      asin: 'b08412mcnw',
+      domain: 3,
+      thresholds: [
+        { value: 1999 },
+        { dataType: KeepaDataType.BUY_BOX_SHIPPING, value: 2499, domain: 4 },
+      ],
+      notifyBackInStock: true,
+      outputFormat: 'json',
+    })) as TrackingSummary;
+
+    const [endpoint, query, body]: any[] = makeRequest.mock.calls[0];
+    expect(endpoint).toBe('/tracking');
+    expect(query).toEqual({ type: 'add' });
+    expect(body[0]).toMatchObject({
+      asin: 'B08412MCNW',
+      mainDomainId: 3,
+      ttl: 0,
+      thresholdValues: [
+        { thresholdValue: 1999, domain: 3, csvType: KeepaDataType.AMAZON, isDrop: true },
+        { thresholdValue: 2499, domain: 4, csvType: KeepaDataType.BUY_BOX_SHIPPING, isDrop: true },
+      ],
+      notifyIf: [{ domain: 3, csvType: KeepaDataType.AMAZON, notifyIfType: 1 }],
+    });
+    expect(body[0].notificationType[5]).toBe(true);
+    expect(result.thresholds[1]).toMatchObject({ dataTypeName: 'BUY_BOX_SHIPPING', value: 2499 });
+    expect(result.notifyIf).toEqual([{ domain: 3, dataType: 0, event: 'backInStock' }]);
+  });
+
+  it('should refuse a tracking without thresholds or stock alerts', async () => {
+    const makeRequest = jest.spyOn(client as any, 'makeRequest');
+
+    const result = await addTracking(tools, TrackingAddSchema.parse({ asin: 'B08412MCNW' }));
+
+    expect(result).toContain('Error');
+    expect(makeRequest).not.toHaveBeenCalled();
+  });
+
+  it('should decode notifications with their cause and current value', async () => {
+    const currentPrices = new Array(34).fill(-1);
+    currentPrices[KeepaDataType.AMAZON] = 1899;
+    jest.spyOn(client as any, 'makeRequest').mockResolvedValue({
+      notifications: [{
+        asin: 'B08412MCNW',
+        title: 'Test Product',
+        createDate: 7000000,
+        domainId: 1,
+        notificationDomainId: 9,
+        csvType: KeepaDataType.AMAZON,
+        trackingNotificationCause: 1,
+        currentPrices,
+      }],
+    });
+
+    const result = await getNotifications(
+      tools,
+      NotificationsSchema.parse({ sinceHours: 48, outputFormat: 'json' })
+    ) as NotificationsResult;
+
+    expect(result.notifications[0]).toMatchObject({
+      marketplace: 'amazon.es',
+      cause: 'desiredPrice',
+      dataTypeName: 'AMAZON',
+      currentValue: 1899,
+    });
+  });
+});
+
+describe('KeepaTools lightning deals', () => {
+  const client = new KeepaClient({ apiKey: 'test-api-key' });
+  const tools = new KeepaTools(client);
+  // Frozen clock: the minutes left must not change between building the deals and reading them
+  const nowMs = Date.now();
+  const now = client.unixTimeToKeepaTime(nowMs);
+  const deal = (asin: string, dealState: string, startTime: number, endTime: number, percentClaimed: number) => ({
+    domainId: 1, asin, dealId: `deal-${asin}`, title: asin, dealPrice: 1500, currentPrice: 2000,
+    dealState, startTime, endTime, percentClaimed, rootCat: 172282,
+  });
+
+  beforeEach(() => jest.spyOn(Date, 'now').mockReturnValue(nowMs));
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should filter by state and claim share, sort by time left and reuse the cached list', async () => {
+    const makeRequest = jest.spyOn(client as any, 'makeRequest').mockResolvedValue({
+      lightningDeals: [
+        deal('B000000001', 'AVAILABLE', now - 60, now + 90, 40),
+        deal('B000000002', 'WAITLIST', now - 60, now + 30, 95),
+        deal('B000000003', 'UPCOMING', now + 120, now + 360, 0),
+        deal('B000000004', 'AVAILABLE', now - 60, now + 10, 5),
+      ],
+    });
+
+    const available: any = await getLightningDeals(tools, {
+      domain: 1, state: 'available', minPercentClaimed: 20, limit: 25, outputFormat: 'json', dryRun: false,
+    });
+    const upcoming = await getLightningDeals(tools, {
+      domain: 1, state: 'upcoming', limit: 25, outputFormat: 'markdown', dryRun: false,
+    });
+
+    expect(available.deals.map((d: any) => d.asin)).toEqual(['B000000002', 'B000000001']);
+    expect(available.deals[0]).toMatchObject({ minutes: 30, discountPercent: 25, percentClaimed: 95 });
+    expect(upcoming).toContain('Starts in 2h 0m');
+    expect(makeRequest).toHaveBeenCalledTimes(1);
+    expect(makeRequest).toHaveBeenCalledWith('/lightningdeal', { domain: 1 });
+  });
+});
+
+describe('KeepaTools top sellers', () => {
+  const client = new KeepaClient({ apiKey: 'test-api-key' });
+  const tools = new KeepaTools(client);
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should rank the top seller list and enrich it in batches of 100', async () => {
+    const sellerIds = Array.from({ length: 150 }, (_, i) => `SELLER${i}`);
+    const makeRequest = jest.spyOn(client as any, 'makeRequest').mockImplementation(async (...args: any[]) => {
+      const [endpoint, params] = args;
+      if (endpoint === '/topseller') {
+        return { sellerIdList: sellerIds };
+      }
+      const sellers: Record<string, any> = {};
+      for (const sellerId of params.seller.split(',')) {
+        sellers[sellerId] = { domainId: params.domain, sellerId, sellerName: `Name ${sellerId}`, hasFBA: true, csv: [[100, 98], [100, 5000]] };
+      }
+      return { sellers };
+    });
+
+    const result: any = await getTopSellers(tools, { domain: 3, offset: 10, limit: 120, outputFormat: 'json', dryRun: false });
+
+    expect(result.totalListed).toBe(150);
+    expect(result.sellers).toHaveLength(120);
+    expect(result.sellers[0]).toEqual({
+      rank: 11, sellerId: 'SELLER10', name: 'Name SELLER10', rating: 98, ratingCount: 5000, hasFBA: true,
+    });
+    const sellerCalls = makeRequest.mock.calls.filter(([endpoint]) => endpoint === '/seller');
+    expect(sellerCalls.map(([, params]: any[]) => params.seller.split(',').length)).toEqual([100, 20]);
+  });
+});
+
+describe('KeepaTools price chart', () => {
+  const client = new KeepaClient({ apiKey: 'test-api-key' });
+  const tools = new KeepaTools(client);
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should fetch the Buy Box history with buybox=1 and return a base64 image', async () => {
+    const getProductByAsin = jest.spyOn(client, 'getProductByAsin').mockResolvedValue({
+      asin: 'B08412MCNW',
+      domainId: 9,
+      title: 'Test product',
+      csv: [[client.unixTimeToKeepaTime(Date.now()) - 60, 1999]],
+    } as any);
+
+    const result: any = await getPriceChart(tools, {
+      asin: 'B08412MCNW', domain: 9, days: 30, series: ['amazon', 'buyBox'], format: 'png', width: 400, height: 240, outputFormat: 'markdown', dryRun: false,
+    });
+
+    expect(getProductByAsin).toHaveBeenCalledWith('B08412MCNW', 9, { days: 30, history: 1, buybox: 1 });
+    expect(result).toMatchObject({ asin: 'B08412MCNW', mimeType: 'image/png', width: 400, series: [{ key: 'amazon', latest: 1999 }] });
+    expect(Buffer.from(result.image, 'base64').subarray(1, 4).toString('ascii')).toBe('PNG');
+  });
+
+  it('should render keepa_price_history as a chart when asked', async () => {
+    jest.spyOn(client, 'getProductByAsin').mockResolvedValue({ asin: 'B08412MCNW', domainId: 9, csv: [] } as any);
+
+    const result: any = await getPriceHistory(tools, {
+      asin: 'B08412MCNW', domain: 9, days: 90, dataType: 3, includeOffers: false, interval: 'changes',
+      chart: 'svg', outputFormat: 'markdown', dryRun: false,
+    });
+
+    expect(result.mimeType).toBe('image/svg+xml');
+    expect(Buffer.from(result.image, 'base64').toString('utf8')).toContain('<svg');
+  });
+});
+
+describe('KeepaTools profit calculator', () => {
+  const client = new KeepaClient({ apiKey: 'test-api-key' });
+  const tools = new KeepaTools(client);
+
+  afterEach(() => jest.restoreAllMocks());
+
+  const params = {
+    domain: 9, costPrice: 1000, fulfillment: 'fba' as const, shippingCost: 0, otherCosts: 0, deductVat: true,
+    outputFormat: 'json' as const, dryRun: false,
+  };
+
+  it('should price the Buy Box and the 90-day average with fees from the package data', async () => {
+    const avg90: number[] = [];
+    avg90[18] = 2599;
+    jest.spyOn(client, 'getProductByAsin').mockResolvedValue({
+      asin: 'B08412MCNW',
+      domainId: 9,
+      title: 'Sartén',
+      categoryTree: [{ catId: 599391031, name: 'Hogar y cocina' }],
+      packageLength: 300, packageWidth: 200, packageHeight: 100, packageWeight: 800,
+      stats: { buyBoxPrice: 2999, buyBoxShipping: 0, avg90 },
+    } as any);
+
+    const result: any = await calculateProfit(tools, { ...params, asin: 'B08412MCNW' });
+
+    expect(result).toMatchObject({
+      feeCategory: 'home', referralSource: 'table', fulfillmentSource: 'table', sizeTier: 'Small parcel', vatDeducted: true,
+    });
+    expect(result.scenarios.map((s: any) => [s.label, s.price, s.netProfit])).toEqual([
+      ['buyBox', 2999, 520],
+      ['avg90', 2599, 2599 - 390 - 509 - 451 - 1000],
+    ]);
+  });
+
+  it('should work offline from a raw price and refuse marketplaces without fee tables', async () => {
+    const getProduct = jest.spyOn(client, 'getProductByAsin');
+
+    const result: any = await calculateProfit(tools, {
+      ...params, price: 1999, feeCategory: 'toys', fulfillment: 'fbm', shippingCost: 350,
+    });
+    const japan = await calculateProfit(tools, { ...params, domain: 5, price: 1999 });
+
+    expect(getProduct).not.toHaveBeenCalled();
+    expect(result.scenarios).toEqual([expect.objectContaining({ label: 'target', referralFee: 300, fulfillmentFee: 350 })]);
+    expect(japan).toContain('Error');
+  });
+});
+
+describe('KeepaTools marketplace compare', () => {
+  const client = new KeepaClient({ apiKey: 'test-api-key' });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  const params = {
+    asin: 'B08412MCNW', domains: [3, 9, 2], currency: 'EUR' as const, inboundCost: 200, deductVat: true,
+    outputFormat: 'json' as const, dryRun: false,
+  };
+
+  function product(buyBox: number, extra: Record<string, any> = {}) {
+    const current: number[] = [];
+    current[0] = -1;
+    current[3] = 1200;
+    current[11] = 4;
+    return {
+      asin: 'B08412MCNW', title: 'Sartén', categoryTree: [{ catId: 1, name: 'Home & Kitchen' }],
+      stats: { buyBoxPrice: buyBox, buyBoxShipping: 0, current },
+      ...extra,
+    };
+  }
+
+  it('should convert every marketplace to one currency and compute the spread and landed margin', async () => {
+    jest.spyOn(client, 'getProductByAsin').mockImplementation(async (_asin, domain) => ({
+      3: product(4999, { fbaFees: { pickAndPackFee: 300 }, monthlySold: 300 }),
+      9: product(2199),
+      2: product(2125),
+    } as any)[domain as number]);
+    const tools = new KeepaTools(client, { fxRates: { GBP: 0.85 } });
+
+    const result: any = await compareMarketplaces(tools, params);
+
+    expect(result.buyDomain).toBe(9);
+    expect(result.bestSellDomain).toBe(3);
+    expect(result.fxRates).toEqual({ EUR: 1, GBP: 0.85 });
+    expect(result.marketplaces.map((m: any) => [m.domain, m.buyBoxConverted, m.spread, m.spreadPercent])).toEqual([
+      [3, 4999, 2800, 127.3],
+      [9, 2199, 0, 0],
+      [2, 2500, 301, 13.7],
+    ]);
+    // 4999 - 750 referral - 300 FBA - 798 VAT - (2199 + 200) landed
+    expect(result.marketplaces[0].landed).toEqual({ cost: 2399, netProfit: 752, margin: 15, roi: 31.3 });
+    expect(result.marketplaces[1].landed).toBeNull();
+    expect(result.warnings).toEqual(['Sin dimensiones del paquete en amazon.co.uk: margen sin tarifa FBA.']);
+  });
+
+  it('should use the FX rates of the call and the requested buy marketplace', async () => {
+    jest.spyOn(client, 'getProductByAsin').mockImplementation(async (_asin, domain) =>
+      (domain === 2 ? product(2125) : domain === 3 ? product(2999) : null) as any);
+    const tools = new KeepaTools(client, { fxRates: { GBP: 0.85 } });
+
+    const result: any = await compareMarketplaces(tools, {
+      ...params, domains: [3, 9], buyDomain: 2, currency: 'GBP', fxRates: { GBP: 0.9 }, inboundCost: 0,
+    });
+    const text = await compareMarketplaces(tools, { ...params, domains: [3, 9], outputFormat: 'markdown' });
+
+    expect(result.buyDomain).toBe(2);
+    expect(result.marketplaces.map((m: any) => [m.domain, m.found, m.buyBoxConverted])).toEqual([
+      [3, true, 2699],
+      [9, false, null],
+      [2, true, 2125],
+    ]);
+    expect(result.marketplaces[0].landed.cost).toBe(2125);
+    expect(text).toContain('| amazon.es | no encontrado |');
+  });
+});
+
+describe('KeepaTools Buy Box analysis', () => {
+  const client = new KeepaClient({ apiKey: 'test-api-key' });
+  const tools = new KeepaTools(client);
+  const now = Date.UTC(2024, 5, 1);
+  const minutesAgo = (minutes: number) => String(client.unixTimeToKeepaTime(now) - minutes);
+
+  afterEach(() => jest.restoreAllMocks());
+
+  const params = { asin: 'B08412MCNW', domain: 1, days: 4, limit: 10, resolveNames: true, outputFormat: 'json' as const, dryRun: false };
+
+  it('should split the Buy Box between Amazon, FBA and FBM sellers and resolve their names', async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    const getProduct = jest.spyOn(client, 'getProductByAsin').mockResolvedValue({
+      asin: 'B08412MCNW',
+      title: 'Sartén',
+      buyBoxSellerIdHistory: [minutesAgo(4 * 1440), 'ATVPDKIKX0DER', minutesAgo(3 * 1440), 'A1SELLER', minutesAgo(1440), 'A2SELLER'],
+      stats: { buyBoxStats: { ATVPDKIKX0DER: { isFBA: true }, A1SELLER: { isFBA: true }, A2SELLER: { isFBA: false } } },
+    } as any);
+    const getSeller = jest.spyOn(client, 'getSeller').mockResolvedValue([{ sellerId: 'A1SELLER', sellerName: 'Cocina Pro' }] as any);
+
+    const result: any = await getBuyBoxAnalysis(tools, params);
+
+    expect(getProduct).toHaveBeenCalledWith('B08412MCNW', 1, expect.objectContaining({ buybox: 1, stats: 4 }));
+    expect(getSeller).toHaveBeenCalledWith({ seller: 'A1SELLER,A2SELLER', domain: 1 });
+    expect(result).toMatchObject({
+      source: 'history', rotations: 2, rotationsPerDay: 0.5, amazonShare: 25,
+      fulfillment: { amazon: 25, fba: 50, fbm: 25, unknown: 0 },
+    });
+    expect(result.sellers.map((s: any) => [s.name ?? s.sellerId, s.percentageWon, s.isFBA])).toEqual([
+      ['Cocina Pro', 50, true],
+      ['A2SELLER', 25, false],
+      ['Amazon', 25, true],
+    ]);
+  });
+
+  it('should fall back to Keepa\'s buyBoxStats without the seller history', async () => {
+    jest.spyOn(client, 'getProductByAsin').mockResolvedValue({
+      asin: 'B08412MCNW',
+      stats: { buyBoxStats: { A1SELLER: { percentageWon: 90, avgPrice: 2599, isFBA: false } } },
+    } as any);
+
+    const result: any = await getBuyBoxAnalysis(tools, { ...params, resolveNames: false, outputFormat: 'markdown' });
+
+    expect(result).toContain('solo estadísticas de Keepa');
+    expect(result).toContain('A1SELLER (FBM): 90%');
+    expect(result).toContain('Un vendedor acapara la Buy Box');
+  });
+});
+
+describe('KeepaTools sales estimation', () => {
+  const client = new KeepaClient({ apiKey: 'test-api-key' });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  const products: any[] = [
+    { asin: 'B000000001', title: 'Badge', monthlySold: 600, stats: { current: [] } },
+    { asin: 'B000000002', title: 'Rank only', categoryTree: [{ catId: 1, name: 'Home & Kitchen' }], stats: { current: [-1, -1, -1, 1000] } },
+  ];
+
+  it('should report the method and confidence behind every velocity figure', async () => {
+    jest.spyOn(client, 'getProduct').mockResolvedValue(products);
+    const tools = new KeepaTools(client);
+
+    const result: any = await analyzeSalesVelocity(
+      tools,
+      SalesVelocitySchema.parse({ asins: ['B000000001', 'B000000002'], outputFormat: 'json' })
+    );
+
+    expect(result.products.map((p: any) => [p.asin, p.salesVelocity.monthly, p.salesVelocity.method, p.salesVelocity.confidence])).toEqual([
+      ['B000000002', 1200, 'rankCurve', 'low'],
+      ['B000000001', 600, 'monthlySold', 'high'],
+    ]);
+  });
+
+  it('should use the estimators given to KeepaTools', async () => {
+    jest.spyOn(client, 'getProduct').mockResolvedValue(products);
+    const tools = new KeepaTools(client, {
+      salesEstimators: [{ method: 'rankDrops', estimate: () => ({ monthly: 30, confidence: 'medium' }) }],
+    });
+
+    const result = await analyzeSalesVelocity(tools, SalesVelocitySchema.parse({ asin: 'B000000001' }));
+
+    expect(result).toContain('• Monthly: 30 units');
+    expect(result).toContain('• Source: sales rank drops (30d) (medium confidence)');
+  });
+});
+
+describe('KeepaTools watchlists', () => {
+  const client = new KeepaClient({ apiKey: 'test-api-key' });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  const product = (buyBox: number): any => ({
+    asin: 'B08412MCNW',
+    domainId: 9,
+    stats: { current: [-1, -1, -1, 1500, -1, -1, -1, -1, -1, -1, -1, 3], buyBoxPrice: buyBox },
+  });
+
+  it('should estimate a snapshot from the stored watchlist size', async () => {
+    const tools = new KeepaTools(client);
+    await createWatchlist(tools, WatchlistCreateSchema.parse({ name: 'Client A', asins: ['B08412MCNW', 'B07XJ8C8F5'] }));
+
+    const registry = createToolRegistry();
+    const estimate: any = await registry.execute('keepa_watchlist_snapshot', { watchlist: 'client-a', dryRun: true, outputFormat: 'json' }, { client, tools });
+    const stored: any = await registry.execute('keepa_watchlist_snapshot', { watchlist: 'client-a', refresh: false, dryRun: true, outputFormat: 'json' }, { client, tools });
+
+    // 1 token + 2 pages of offers (6 each) + stock (2) per ASIN
+    expect(estimate.estimatedTokens).toBe(30);
+    expect(stored.estimatedTokens).toBe(0);
+  });
+
+  it('should show the Buy Box change since the previous snapshot', async () => {
+    const tools = new KeepaTools(client);
+    await createWatchlist(tools, WatchlistCreateSchema.parse({ name: 'Client A', domain: 9, asins: ['B08412MCNW'] }));
+    jest.spyOn(client, 'getProductsBatch')
+      .mockResolvedValueOnce([product(2199)])
+      .mockResolvedValueOnce([product(1999)]);
+
+    await snapshotWatchlist(tools, WatchlistSnapshotSchema.parse({ watchlist: 'Client A' }));
+    const result = await snapshotWatchlist(tools, WatchlistSnapshotSchema.parse({ watchlist: 'Client A', history: 1 }));
+
+    expect(result).toContain('| B08412MCNW | €19.99 | 🔻 €2.00 | N/A | 3 | #1,500 | ✅ |');
+    expect(result).toContain('**🕘 Earlier snapshots**');
+  });
+});
+
+describe('KeepaTools product changes', () => {
+  const client = new KeepaClient({ apiKey: 'test-api-key' });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  const product = (title: string, buyBox: number): any => ({
+    asin: 'B08412MCNW',
+    domainId: 9,
+    title,
+    stats: { current: [-1, -1, -1, 1500, -1, -1, -1, -1, -1, -1, -1, 3], buyBoxPrice: buyBox, buyBoxSellerId: 'A1' },
+  });
+
+  it('should diff the stored snapshots and the current product since the date', async () => {
+    const tools = new KeepaTools(client);
+    await tools.watchlists.create({ name: 'Client A', domain: 9, asins: ['B08412MCNW'] });
+    const getProductsBatch = jest.spyOn(client, 'getProductsBatch')
+      .mockResolvedValueOnce([product('Bamboo board', 2500)])
+      .mockResolvedValueOnce([product('Bamboo cutting board', 1999)]);
+    await tools.watchlists.snapshot('client-a');
+
+    const result = await getProductChanges(tools, ProductChangesSchema.parse({ asins: ['b08412mcnw', 'B07XJ8C8F5'], domain: 9, outputFormat: 'json' })) as any;
+
+    expect(getProductsBatch.mock.calls[1][2]).toMatchObject({ history: 1, buybox: 1 });
+    expect(result.missing).toEqual(['B07XJ8C8F5']);
+    expect(result.products[0].changes.map((change: any) => change.type)).toEqual(['price_drop', 'title']);
+
+    jest.spyOn(client, 'getProductsBatch').mockResolvedValue([product('Bamboo cutting board', 1999)]);
+    const markdown = await getProductChanges(tools, ProductChangesSchema.parse({ asin: 'B08412MCNW', domain: 9 }));
+    expect(markdown).toContain('Buy Box price dropped €25.00 → €19.99 (-20%)');
+    expect(markdown).toContain('Title edited: "Bamboo board" → "Bamboo cutting board"');
+  });
+
+  it('should reject a since date in the future', async () => {
+    const tools = new KeepaTools(client);
+
+    expect(await getProductChanges(tools, ProductChangesSchema.parse({ asin: 'B08412MCNW', since: '2999-01-01' })))
+      .toBe('Error: since must be a past ISO date: 2999-01-01');
+  });
+});
+
+describe('KeepaTools alerts', () => {
+  const client = new KeepaClient({ apiKey: 'test-api-key' });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should create rules on a watchlist and fire them on its next snapshot', async () => {
+    const send = jest.fn().mockResolvedValue(204);
+    const alerts = new AlertService(new MemoryAlertStore(), { secret: 'secret', send });
+    const tools = new KeepaTools(client, { alerts });
+    tools.watchlists.onSnapshot((watchlist, snapshot, previous) => alerts.evaluate(watchlist, snapshot, previous));
+    await tools.watchlists.create({ name: 'Client A', domain: 9, asins: ['B08412MCNW'] });
+
+    const created = await manageAlerts(tools, AlertsSchema.parse({
+      action: 'create', name: 'Amazon is back', watchlist: 'Client A', condition: 'amazon_offer', webhookUrl: 'https://example.com/hook', outputFormat: 'json',
+    })) as any;
+    expect(created.rules[0]).toMatchObject({ watchlistId: 'client-a', condition: { type: 'amazon_offer', value: null }, enabled: true });
+
+    const product = (amazon: number): any => ({ asin: 'B08412MCNW', domainId: 9, stats: { current: [amazon, -1, -1, 1500] } });
+    jest.spyOn(client, 'getProductsBatch').mockResolvedValueOnce([product(-1)]).mockResolvedValueOnce([product(1999)]);
+    await tools.watchlists.snapshot('client-a');
+    await tools.watchlists.snapshot('client-a');
+    await alerts.flush();
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(send.mock.calls[0][1])).toMatchObject({ type: 'alert.triggered', message: 'Amazon offer appeared at €19.99' });
+
+    const listed = await manageAlerts(tools, AlertsSchema.parse({}));
+    expect(listed).toContain('**🚨 Alert Rules (1)**');
+    expect(await manageAlerts(tools, AlertsSchema.parse({ action: 'disable' }))).toBe('Error: disable needs the rule id');
+  });
+});
+
+describe('KeepaTools bulk lookup', () => {
+  const client = new KeepaClient({ apiKey: 'test-api-key' });
+  const csv = 'Ref,EAN\nA-1,4006381333931\nA-2,036000291452\n';
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should estimate one token per identifier, plus offers and stock for the offer columns', async () => {
+    const tools = new KeepaTools(client);
+    const registry = createToolRegistry();
+
+    const withOffers: any = await registry.execute('keepa_bulk_lookup', { csv, dryRun: true, outputFormat: 'json' }, { client, tools });
+    const statsOnly: any = await registry.execute(
+      'keepa_bulk_lookup',
+      { csv, columns: ['asin', 'buyBoxPrice', 'salesRank'], dryRun: true, outputFormat: 'json' },
+      { client, tools },
+    );
+
+    expect(withOffers.estimatedTokens).toBe(30);
+    expect(statsOnly.estimatedTokens).toBe(2);
+  });
+
+  it('should return the export file with the lookup summary', async () => {
+    const tools = new KeepaTools(client);
+    jest.spyOn(client, 'getProductsByCode').mockResolvedValue([
+      { asin: 'B08412MCNW', domainId: 3, title: 'Stabilo pencil', eanList: ['4006381333931'], stats: { buyBoxPrice: 120 } as any },
+    ]);
+    const onProgress = jest.fn();
+
+    const result: any = await bulkLookup(tools, BulkLookupSchema.parse({ csv, domain: 3, columns: ['input', 'asin', 'buyBoxPrice'] }), onProgress);
+
+    expect(result).toMatchObject({ column: 'EAN', requested: 2, found: 1, notFound: ['036000291452'], rows: 2, format: 'csv' });
+    expect(Buffer.from(result.file, 'base64').toString('utf8')).toBe('\uFEFFInput,ASIN,Buy Box\r\n4006381333931,B08412MCNW,1.2\r\n036000291452,,\r\n');
+    expect(onProgress).toHaveBeenCalledWith({ processed: 2, total: 2, found: 1 });
+  });
+
+  it('should reject a file without an identifier column', async () => {
+    const tools = new KeepaTools(client);
+
+    await expect(bulkLookup(tools, BulkLookupSchema.parse({ csv: 'Name\nBoard\n' }))).rejects.toThrow('No ASIN, EAN or UPC column found');
+  });
+});
@@ -0,0 +1,176 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { KeepaClient } from '../src/keepa-client';
+import {
+  compactSnapshotItem,
+  createWatchlistStore,
+  JsonWatchlistStore,
+  MemoryWatchlistStore,
+  WatchlistScheduler,
+  WatchlistService,
+  watchlistId,
+} from '../src/watchlist';
+import { InvalidParameterError, KeepaDataType, KeepaProduct, WatchlistSnapshot } from '../src/types';
+
+const product = (asin: string, buyBox: number): KeepaProduct => {
+  const current = new Array(20).fill(-1);
+  current[KeepaDataType.AMAZON] = buyBox + 100;
+  current[KeepaDataType.SALES_RANK] = 1500;
+  current[KeepaDataType.COUNT_NEW] = 4;
+  return { asin, domainId: 9, stats: { current, buyBoxPrice: buyBox, buyBoxSellerId: 'A1', stockBuyBox: 12 } as any };
+};
+
+const snapshot = (watchlistId: string, takenAt: string): WatchlistSnapshot => ({
+  watchlistId, takenAt, trigger: 'manual', items: [], missing: [],
+});
+
+describe('Watchlists', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should compact a product to its snapshot row', () => {
+    expect(compactSnapshotItem(product('B08412MCNW', 1999))).toEqual({
+      asin: 'B08412MCNW',
+      title: null,
+      brand: null,
+      buyBox: 1999,
+      buyBoxSellerId: 'A1',
+      amazon: 2099,
+      sellers: 4,
+      salesRank: 1500,
+      inStock: true,
+      stock: 12,
+      sellerIds: null,
+    });
+    expect(compactSnapshotItem({ asin: 'B000000000', domainId: 1 })).toMatchObject({ buyBox: null, sellers: null, inStock: false });
+  });
+
+  it('should keep the newest snapshots per watchlist', async () => {
+    const store = new MemoryWatchlistStore(2);
+    await store.addSnapshot(snapshot('a', '2026-01-01T00:00:00.000Z'));
+    await store.addSnapshot(snapshot('a', '2026-01-02T00:00:00.000Z'));
+    await store.addSnapshot(snapshot('a', '2026-01-03T00:00:00.000Z'));
+
+    expect((await store.getSnapshots('a')).map(s => s.takenAt)).toEqual(['2026-01-03T00:00:00.000Z', '2026-01-02T00:00:00.000Z']);
+    expect(await store.getSnapshots('a', 1)).toHaveLength(1);
+  });
+
+  it('should persist the JSON store across instances', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'keepa-watchlists-'));
+    try {
+      const file = join(dir, 'watchlists.json');
+      const service = new WatchlistService(new KeepaClient({ apiKey: 'test-api-key' }), new JsonWatchlistStore(file));
+      await service.create({ name: 'Client A', domain: 9, asins: ['b08412mcnw'] });
+      await service.store.addSnapshot(snapshot('client-a', '2026-01-01T00:00:00.000Z'));
+
+      const reopened = new JsonWatchlistStore(file);
+      expect((await reopened.getWatchlist('client-a'))?.asins).toEqual(['B08412MCNW']);
+      expect(await reopened.getSnapshots('client-a')).toHaveLength(1);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should keep snapshots out of the watchlist file, one file per list', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'keepa-watchlists-'));
+    try {
+      const file = join(dir, 'watchlists.json');
+      const store = new JsonWatchlistStore(file);
+      await store.saveWatchlist({ id: 'a', name: 'A', domain: 9, asins: [], schedule: null, createdAt: '', updatedAt: '', lastSnapshotAt: null });
+      await store.addSnapshot(snapshot('a', '2026-01-01T00:00:00.000Z'));
+
+      expect(JSON.parse(readFileSync(file, 'utf8'))).toEqual({ watchlists: [expect.objectContaining({ id: 'a' })] });
+      expect(JSON.parse(readFileSync(join(dir, 'watchlists-snapshots', 'a.json'), 'utf8'))).toHaveLength(1);
+
+      await store.deleteWatchlist('a');
+      expect(() => readFileSync(join(dir, 'watchlists-snapshots', 'a.json'))).toThrow();
+      expect(await new JsonWatchlistStore(file).getSnapshots('a')).toEqual([]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should move the snapshots of an older watchlist file to their own files', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'keepa-watchlists-'));
+    try {
+      const file = join(dir, 'watchlists.json');
+      writeFileSync(file, JSON.stringify({ watchlists: [], snapshots: { a: [snapshot('a', '2026-01-01T00:00:00.000Z')] } }));
+
+      expect(await new JsonWatchlistStore(file).getSnapshots('a')).toHaveLength(1);
+      expect(JSON.parse(readFileSync(file, 'utf8'))).toEqual({ watchlists: [] });
+      expect(await new JsonWatchlistStore(file).getSnapshots('a')).toHaveLength(1);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should pick the store backend from the config', () => {
+    expect(createWatchlistStore({ backend: 'memory' }).name).toBe('memory');
+    expect(createWatchlistStore({ backend: 'sqlite', file: ':memory:' }).name).toBe('sqlite');
+    expect(createWatchlistStore().name).toBe('json');
+  });
+
+  describe('WatchlistService', () => {
+    const client = new KeepaClient({ apiKey: 'test-api-key' });
+
+    it('should validate names, ASINs and schedules', async () => {
+      const service = new WatchlistService(client, new MemoryWatchlistStore());
+      const watchlist = await service.create({ name: 'Cocina España', domain: 9, asins: ['B08412MCNW', 'b08412mcnw'], schedule: '@daily' });
+
+      expect(watchlistId('Cocina España')).toBe('cocina-espana');
+      expect(watchlist).toMatchObject({ id: 'cocina-espana', asins: ['B08412MCNW'], schedule: '@daily' });
+      await expect(service.create({ name: 'cocina españa', domain: 9 })).rejects.toThrow(/already exists/);
+      await expect(service.add('Cocina España', ['not-an-asin'])).rejects.toThrow(InvalidParameterError);
+      await expect(service.add('cocina-espana', [], 'every day')).rejects.toThrow(InvalidParameterError);
+      await expect(service.get('unknown')).rejects.toThrow(/Unknown watchlist/);
+
+      const { added } = await service.add('cocina-espana', ['B08412MCNW', 'B07XJ8C8F5']);
+      expect(added).toEqual(['B07XJ8C8F5']);
+      expect((await service.remove('cocina-espana', ['b08412mcnw'])).watchlist.asins).toEqual(['B07XJ8C8F5']);
+    });
+
+    it('should snapshot every ASIN in one batch and record missing ones', async () => {
+      const service = new WatchlistService(client, new MemoryWatchlistStore());
+      await service.create({ name: 'Client A', domain: 9, asins: ['B08412MCNW', 'B07XJ8C8F5'] });
+      const getProductsBatch = jest.spyOn(client, 'getProductsBatch').mockResolvedValue([product('B08412MCNW', 1999)]);
+
+      const taken = await service.snapshot('Client A');
+
+      // Keepa only reports the Buy Box stock with offers and stock
+      expect(getProductsBatch).toHaveBeenCalledWith(['B08412MCNW', 'B07XJ8C8F5'], 9, {
+        stats: 1, history: 0, offers: 20, stock: 1, 'only-live-offers': 1,
+      });
+      expect(taken.items.map(item => item.asin)).toEqual(['B08412MCNW']);
+      expect(taken.missing).toEqual(['B07XJ8C8F5']);
+      expect((await service.get('client-a')).lastSnapshotAt).toBe(taken.takenAt);
+    });
+  });
+
+  describe('WatchlistScheduler', () => {
+    it('should snapshot only the watchlists whose cron run is due', async () => {
+      const client = new KeepaClient({ apiKey: 'test-api-key' });
+      const store = new MemoryWatchlistStore();
+      const service = new WatchlistService(client, store);
+      const createdAt = '2026-03-06T05:30:00.000Z';
+      await store.saveWatchlist({
+        id: 'daily', name: 'daily', domain: 9, asins: ['B08412MCNW'], schedule: '0 6 * * *',
+        createdAt, updatedAt: createdAt, lastSnapshotAt: null,
+      });
+      await store.saveWatchlist({
+        id: 'manual', name: 'manual', domain: 9, asins: ['B08412MCNW'], schedule: null,
+        createdAt, updatedAt: createdAt, lastSnapshotAt: null,
+      });
+      const getProductsBatch = jest.spyOn(client, 'getProductsBatch').mockResolvedValue([product('B08412MCNW', 1999)]);
+      const scheduler = new WatchlistScheduler(service);
+
+      expect(await scheduler.tick(new Date('2026-03-06T05:59:00Z'))).toEqual([]);
+      const taken = await scheduler.tick(new Date('2026-03-06T06:00:30Z'));
+
+      expect(taken.map(s => [s.watchlistId, s.trigger])).toEqual([['daily', 'schedule']]);
+      // Scheduled runs ask for live data instead of the cached response
+      expect(getProductsBatch.mock.calls[0][2]).toMatchObject({ update: 0 });
+      // The snapshot time is stored, so the same run is not due again
+      expect(await service.due(new Date('2026-03-06T23:00:00Z'))).toEqual([]);
+    });
+  });
+});